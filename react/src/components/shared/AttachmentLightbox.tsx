@@ -0,0 +1,90 @@
+/**
+ * AttachmentLightbox Component
+ * ============================
+ *
+ * Full-size view of the image attachments of a message, built on the
+ * shared Modal. Arrow keys / buttons step through the images; the header
+ * links to the original file for download.
+ */
+
+import React, { useEffect } from 'react';
+import { Modal, ModalHeader, ModalBody } from './Modal';
+import { formatFileSize } from '../../utils/attachments';
+import type { MessageAttachment } from '../../types';
+
+interface AttachmentLightboxProps {
+  images: MessageAttachment[];
+  /** Index of the shown image, or null when closed */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  getUrl: (attachment: MessageAttachment, download?: boolean) => string;
+}
+
+export const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+  getUrl,
+}) => {
+  const open = index !== null && index < images.length;
+  const current = open ? images[index!] : null;
+  const hasPrev = open && index! > 0;
+  const hasNext = open && index! < images.length - 1;
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft' && hasPrev) onIndexChange(index! - 1);
+      if (e.key === 'ArrowRight' && hasNext) onIndexChange(index! + 1);
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [open, index, hasPrev, hasNext, onIndexChange]);
+
+  if (!current) return null;
+
+  return (
+    <Modal open onClose={onClose} title={current.file_name} className="tc-lightbox">
+      <ModalHeader
+        title={
+          <>
+            <span className="tc-lightbox__title">{current.file_name}</span>
+            <a href={getUrl(current, true)} className="text-white ml-2" title="Download">
+              <i className="fas fa-download" />
+            </a>
+          </>
+        }
+        subtitle={`${formatFileSize(current.file_size)}${images.length > 1 ? ` · ${index! + 1} / ${images.length}` : ''}`}
+        bgClass="bg-dark text-white"
+        onClose={onClose}
+      />
+      <ModalBody className="tc-lightbox__body" scrollable={false}>
+        {hasPrev && (
+          <button
+            type="button"
+            className="btn btn-dark tc-lightbox__nav tc-lightbox__nav--prev"
+            title="Previous image"
+            onClick={() => onIndexChange(index! - 1)}
+          >
+            <i className="fas fa-chevron-left" />
+          </button>
+        )}
+        <img src={getUrl(current)} alt={current.file_name} className="tc-lightbox__image" />
+        {hasNext && (
+          <button
+            type="button"
+            className="btn btn-dark tc-lightbox__nav tc-lightbox__nav--next"
+            title="Next image"
+            onClick={() => onIndexChange(index! + 1)}
+          >
+            <i className="fas fa-chevron-right" />
+          </button>
+        )}
+      </ModalBody>
+    </Modal>
+  );
+};
+
+export default AttachmentLightbox;
@@ -0,0 +1,38 @@
+/**
+ * DiffView Component
+ * ===================
+ *
+ * Renders a word-level diff between two texts inline:
+ * removed words struck through in red, added words highlighted in green.
+ * With `side`, only one text is rendered (removals for "before",
+ * additions for "after") so two views can be shown side by side.
+ */
+
+import React, { useMemo } from 'react';
+import { diffWords } from '../../utils/textDiff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+  /** Render only the old or the new text (side-by-side layout) */
+  side?: 'before' | 'after';
+}
+
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, className = '', side }) => {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <div className={`tc-diff ${className}`.trim()}>
+      {segments.map((seg, i) => {
+        if (seg.op === 'insert' && side === 'before') return null;
+        if (seg.op === 'delete' && side === 'after') return null;
+        if (seg.op === 'insert') return <ins key={i} className="tc-diff__ins">{seg.text}</ins>;
+        if (seg.op === 'delete') return <del key={i} className="tc-diff__del">{seg.text}</del>;
+        return <span key={i}>{seg.text}</span>;
+      })}
+    </div>
+  );
+};
+
+export default DiffView;
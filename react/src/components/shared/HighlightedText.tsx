@@ -0,0 +1,26 @@
+/**
+ * HighlightedText Component
+ * ==========================
+ *
+ * Plain text with every occurrence of a search query wrapped in <mark>.
+ */
+
+import React, { useMemo } from 'react';
+import { splitByQuery } from '../../utils/highlight';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query = '' }) => {
+  const parts = useMemo(() => splitByQuery(text, query), [text, query]);
+
+  return (
+    <>
+      {parts.map((p, i) => (p.match ? <mark key={i} className="tc-search-hit">{p.text}</mark> : p.text))}
+    </>
+  );
+};
+
+export default HighlightedText;
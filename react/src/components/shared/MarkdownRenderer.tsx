@@ -5,23 +5,32 @@
  * Renders markdown content (used for AI responses, summaries, notes).
  * Uses react-markdown with GitHub-flavored markdown and HTML support.
  * HTML tags like <br> in stored content are rendered properly via rehype-raw.
+ * An optional `highlight` query marks matching text (message search).
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
+import { rehypeHighlight } from '../../utils/highlight';
 
 interface MarkdownRendererProps {
   content: string;
+  /** Search query to highlight in the rendered text */
+  highlight?: string;
 }
 
-export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, highlight }) => {
+  const rehypePlugins = useMemo(
+    () => (highlight?.trim() ? [rehypeRaw, rehypeHighlight(highlight)] : [rehypeRaw]),
+    [highlight],
+  );
+
   if (!content) return null;
 
   return (
     <div className="tc-markdown">
-      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={rehypePlugins}>
         {content}
       </ReactMarkdown>
     </div>
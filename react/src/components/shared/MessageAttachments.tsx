@@ -0,0 +1,84 @@
+/**
+ * MessageAttachments Component
+ * ============================
+ *
+ * Attachments inside a message bubble: a thumbnail grid for images (click
+ * opens the lightbox) and a download row per PDF. Attachments of messages
+ * that are still being sent show their local preview and no links.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { AttachmentLightbox } from './AttachmentLightbox';
+import { formatFileSize, isImageAttachment } from '../../utils/attachments';
+import type { MessageAttachment } from '../../types';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  /** URL of a stored attachment (inline, or as download) */
+  getUrl: (attachmentId: number | string, download?: boolean) => string;
+}
+
+export const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, getUrl }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((a) => !isImageAttachment(a));
+
+  const urlFor = useCallback(
+    (attachment: MessageAttachment, download = false) => attachment.preview_url ?? getUrl(attachment.id, download),
+    [getUrl],
+  );
+
+  return (
+    <div className="tc-attachments">
+      {images.length > 0 && (
+        <div className="tc-attachments__grid">
+          {images.map((image, i) => (
+            <button
+              key={image.id}
+              type="button"
+              className="tc-attachments__thumb"
+              title={image.file_name}
+              onClick={() => setLightboxIndex(i)}
+            >
+              <img src={urlFor(image)} alt={image.file_name} loading="lazy" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {files.map((file) => {
+        const uploading = String(file.id).startsWith('local-');
+        const content = (
+          <>
+            <i className="fas fa-file-pdf mr-2" />
+            <span className="tc-attachments__name">{file.file_name}</span>
+            <small className="ml-2 text-nowrap">{formatFileSize(file.file_size)}</small>
+          </>
+        );
+        return uploading ? (
+          <div key={file.id} className="tc-attachments__file">{content}</div>
+        ) : (
+          <div key={file.id} className="tc-attachments__file">
+            <a href={getUrl(file.id)} target="_blank" rel="noopener noreferrer" className="tc-attachments__open">
+              {content}
+            </a>
+            <a href={getUrl(file.id, true)} className="ml-2" title="Download">
+              <i className="fas fa-download" />
+            </a>
+          </div>
+        );
+      })}
+
+      <AttachmentLightbox
+        images={images}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        getUrl={urlFor}
+      />
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,147 @@
+/**
+ * MessageHistoryPopover Component
+ * ================================
+ *
+ * Therapist-only audit popover for an edited or deleted message.
+ * Loads the history each time it is opened and lists every version with
+ * its author/editor, timestamp and a word-level diff to the previous one.
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { DiffView } from './DiffView';
+import type { MessageHistory } from '../../types';
+
+interface MessageHistoryPopoverProps {
+  messageId: number;
+  loadHistory: (messageId: number) => Promise<MessageHistory>;
+  /** Trigger content (defaults to a history icon) */
+  children?: React.ReactNode;
+  /** Extra classes for the trigger button */
+  triggerClassName?: string;
+}
+
+function formatDateTime(ts?: string | null): string {
+  if (!ts) return '';
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  const day = String(d.getDate()).padStart(2, '0');
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${day}.${mon}.${d.getFullYear()} ${hh}:${mm}`;
+}
+
+export const MessageHistoryPopover: React.FC<MessageHistoryPopoverProps> = ({
+  messageId,
+  loadHistory,
+  children,
+  triggerClassName = '',
+}) => {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<MessageHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLSpanElement>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await loadHistory(messageId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadHistory, messageId]);
+
+  const toggle = useCallback(() => {
+    // Reload on every open: the message may have been edited since
+    if (!open) load();
+    setOpen(!open);
+  }, [open, load]);
+
+  // Close on outside click / Escape
+  useEffect(() => {
+    if (!open) return;
+    const onClick = (e: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    document.addEventListener('keydown', onKey);
+    return () => {
+      document.removeEventListener('mousedown', onClick);
+      document.removeEventListener('keydown', onKey);
+    };
+  }, [open]);
+
+  const versions = history?.versions ?? [];
+
+  return (
+    <span className="tc-history" ref={rootRef}>
+      <button
+        type="button"
+        className={`btn btn-link p-0 tc-history__trigger ${triggerClassName}`.trim()}
+        title="Show edit history"
+        onClick={toggle}
+      >
+        {children ?? <i className="fas fa-history" />}
+      </button>
+
+      {open && (
+        <div className="tc-history__popover card shadow" role="dialog">
+          <div className="card-header py-1 px-2 d-flex align-items-center">
+            <small className="font-weight-bold">
+              <i className="fas fa-history mr-1" />
+              Message history
+            </small>
+            <button type="button" className="close ml-auto" onClick={() => setOpen(false)}>
+              <span>&times;</span>
+            </button>
+          </div>
+          <div className="card-body p-2 tc-history__body">
+            {loading && (
+              <div className="text-center text-muted py-2">
+                <div className="spinner-border spinner-border-sm" role="status" />
+              </div>
+            )}
+            {error && <div className="alert alert-danger py-1 px-2 mb-0 small">{error}</div>}
+
+            {!loading && !error && history && (
+              <>
+                {history.is_deleted && (
+                  <div className="alert alert-secondary py-1 px-2 mb-2 small">
+                    <i className="fas fa-ban mr-1" />
+                    Deleted{history.deleted_by_name ? ` by ${history.deleted_by_name}` : ''}
+                    {history.deleted_at ? ` on ${formatDateTime(history.deleted_at)}` : ''}
+                  </div>
+                )}
+                {versions.map((v, i) => (
+                  <div key={v.version} className="tc-history__version">
+                    <div className="d-flex text-muted tc-font-xs mb-1">
+                      <span className="font-weight-bold mr-1">
+                        {v.is_original ? 'Original' : `Edit ${v.version - 1}`}
+                      </span>
+                      {v.user_name && <span>· {v.user_name}</span>}
+                      <span className="ml-auto">{formatDateTime(v.timestamp)}</span>
+                    </div>
+                    {i === 0 ? (
+                      <div className="tc-diff small">{v.content}</div>
+                    ) : (
+                      <DiffView before={versions[i - 1].content} after={v.content} className="small" />
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+export default MessageHistoryPopover;
@@ -10,12 +10,23 @@
  *   - Recording animation (pulsing red) + processing spinner
  *   - @mention autocomplete: type `@` to see available therapists
  *   - #topic autocomplete: type `#` to see predefined tag reasons
+ *   - /template autocomplete: type `/` to insert a canned response
+ *   - Image / PDF attachments via the paperclip button or drag-and-drop
+ *   - Throttled typing notifications (`onTyping`) for typing indicators
+ *   - "Send later" clock button next to send (`onSchedule`, therapist only)
  *
  * Bootstrap 4.6 classes + minimal custom CSS.
  */
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { VoiceRecorder } from './VoiceRecorder';
+import { SendLaterPicker } from './SendLaterPicker';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  validateAttachmentFiles,
+} from '../../utils/attachments';
 
 /** A mention/topic suggestion entry */
 interface MentionItem {
@@ -23,10 +34,15 @@ interface MentionItem {
   display: string;
   /** The text inserted into the message (e.g. "@Dr. Smith" or "#anxiety") */
   insertText: string;
+  /** Secondary line in the dropdown (e.g. a template preview) */
+  description?: string;
 }
 
+type TriggerType = '@' | '#' | '/';
+
 interface MessageInputProps {
-  onSend: (message: string) => void;
+  /** `files` holds the attached files (empty without attachments) */
+  onSend: (message: string, files: File[]) => void;
   disabled?: boolean;
   placeholder?: string;
   buttonLabel?: string;
@@ -37,10 +53,34 @@ interface MessageInputProps {
   onFetchMentions?: () => Promise<MentionItem[]>;
   /** Static list of #topic suggestions (from tag reasons) */
   topicSuggestions?: MentionItem[];
+  /** Message templates for the `/` trigger (insertText is the resolved text) */
+  templateSuggestions?: MentionItem[];
+  /** Show the attachment picker and accept dropped files */
+  allowAttachments?: boolean;
+  /**
+   * Typing notification: `true` at most every TYPING_THROTTLE_MS while the
+   * text is non-empty, `false` once it is cleared. Sending a message ends
+   * typing on the server without a separate call.
+   */
+  onTyping?: (typing: boolean) => void;
+  /**
+   * Schedule the message instead of sending it now. Shows the "send later"
+   * button; the text is only cleared when this resolves to `true`.
+   */
+  onSchedule?: (message: string, sendAt: Date) => Promise<boolean>;
 }
 
 const MAX_LENGTH = 4000;
 
+const MENTION_ICONS: Record<TriggerType, string> = {
+  '@': 'fa-user-md',
+  '#': 'fa-hashtag',
+  '/': 'fa-file-alt',
+};
+
+/** Minimum interval between `onTyping(true)` calls (server timeout is 8 s) */
+const TYPING_THROTTLE_MS = 3000;
+
 export const MessageInput: React.FC<MessageInputProps> = ({
   onSend,
   disabled = false,
@@ -50,13 +90,22 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   sectionId,
   onFetchMentions,
   topicSuggestions = [],
+  templateSuggestions = [],
+  allowAttachments = false,
+  onTyping,
+  onSchedule,
 }) => {
   // ---- State ----
   const [text, setText] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
 
   // ---- Mention/Topic autocomplete state ----
   const [mentionQuery, setMentionQuery] = useState<string | null>(null);
-  const [mentionType, setMentionType] = useState<'@' | '#' | null>(null);
+  const [mentionType, setMentionType] = useState<TriggerType | null>(null);
   const [mentionStartPos, setMentionStartPos] = useState<number>(0);
   const [mentionItems, setMentionItems] = useState<MentionItem[]>([]);
   const [mentionIndex, setMentionIndex] = useState(0);
@@ -67,10 +116,29 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messageRef = useRef(text);
   const mentionDropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Keep ref in sync
   useEffect(() => { messageRef.current = text; }, [text]);
 
+  // ---- Typing notifications ----
+  /** When `onTyping(true)` was last called (0 = not reported as typing) */
+  const typingSentAtRef = useRef(0);
+
+  const reportTyping = useCallback((value: string) => {
+    if (!onTyping) return;
+    const now = Date.now();
+    if (value.trim()) {
+      if (now - typingSentAtRef.current >= TYPING_THROTTLE_MS) {
+        typingSentAtRef.current = now;
+        onTyping(true);
+      }
+    } else if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      onTyping(false);
+    }
+  }, [onTyping]);
+
   // ---- Textarea helpers ----
 
   const autoResize = useCallback((el: HTMLTextAreaElement) => {
@@ -80,13 +148,14 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
   // ---- Mention/Topic autocomplete logic ----
 
-  /** Detect @mention or #topic trigger in the text at the current cursor position. */
+  /** Detect @mention, #topic or /template trigger in the text at the current cursor position. */
   const detectTrigger = useCallback((value: string, cursorPos: number) => {
-    // Search backwards from cursor for @ or # trigger
+    // Search backwards from cursor for @, # or / trigger
     const textBefore = value.substring(0, cursorPos);
-    // Find the last @ or # that starts a word (preceded by space/start-of-string)
+    // Find the last trigger that starts a word (preceded by space/start-of-string)
     const atMatch = textBefore.match(/(?:^|\s)@([^\s@#]*)$/);
     const hashMatch = textBefore.match(/(?:^|\s)#([^\s@#]*)$/);
+    const slashMatch = templateSuggestions.length > 0 ? textBefore.match(/(?:^|\s)\/([^\s@#/]*)$/) : null;
 
     if (atMatch) {
       const query = atMatch[1] || '';
@@ -98,14 +167,20 @@ export const MessageInput: React.FC<MessageInputProps> = ({
       const startPos = cursorPos - query.length - 1;
       return { type: '#' as const, query, startPos };
     }
+    if (slashMatch) {
+      const query = slashMatch[1] || '';
+      const startPos = cursorPos - query.length - 1;
+      return { type: '/' as const, query, startPos };
+    }
     return null;
-  }, []);
+  }, [templateSuggestions.length]);
 
   /** Filter mention items by query string */
   const filterItems = useCallback((items: MentionItem[], query: string): MentionItem[] => {
     if (!query) return items;
     const lower = query.toLowerCase();
-    return items.filter(item => item.display.toLowerCase().includes(lower));
+    return items.filter(item => item.display.toLowerCase().includes(lower)
+      || !!item.description?.toLowerCase().includes(lower));
   }, []);
 
   /** Load @mention suggestions (therapists) */
@@ -144,6 +219,11 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     setMentionItems(filterItems(topicSuggestions, query));
   }, [topicSuggestions, filterItems]);
 
+  /** Load /template suggestions */
+  const loadTemplateSuggestions = useCallback((query: string) => {
+    setMentionItems(filterItems(templateSuggestions, query));
+  }, [templateSuggestions, filterItems]);
+
   /** Insert a selected mention/topic into the text */
   const insertMention = useCallback((item: MentionItem) => {
     const textarea = textareaRef.current;
@@ -189,6 +269,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
       const cursorPos = e.target.selectionStart ?? value.length;
       setText(value);
       autoResize(e.target);
+      reportTyping(value);
 
       // Check for @mention or #topic trigger
       const trigger = detectTrigger(value, cursorPos);
@@ -199,6 +280,8 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         setMentionIndex(0);
         if (trigger.type === '@') {
           loadMentionSuggestions(trigger.query);
+        } else if (trigger.type === '/') {
+          loadTemplateSuggestions(trigger.query);
         } else {
           loadTopicSuggestions(trigger.query);
         }
@@ -206,21 +289,79 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         closeMentionDropdown();
       }
     },
-    [autoResize, detectTrigger, loadMentionSuggestions, loadTopicSuggestions, closeMentionDropdown],
+    [autoResize, detectTrigger, loadMentionSuggestions, loadTopicSuggestions, loadTemplateSuggestions, closeMentionDropdown, reportTyping],
   );
 
+  // ---- Attachments ----
+
+  const addFiles = useCallback((picked: File[]) => {
+    if (picked.length === 0) return;
+    const { accepted, errors } = validateAttachmentFiles(picked, files.length);
+    setAttachError(errors.length ? errors.join('. ') : null);
+    setFiles((prev) => [...prev, ...accepted]);
+  }, [files.length]);
+
+  const removeFile = useCallback((index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+    setAttachError(null);
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!allowAttachments || disabled || !Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  }, [allowAttachments, disabled]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    setIsDragOver(false);
+    if (!allowAttachments || disabled) return;
+    e.preventDefault();
+    addFiles(Array.from(e.dataTransfer.files));
+  }, [allowAttachments, disabled, addFiles]);
+
+  // Files picked while uploads were allowed are dropped when they get forbidden
+  useEffect(() => {
+    if (!allowAttachments) {
+      setFiles([]);
+      setAttachError(null);
+    }
+  }, [allowAttachments]);
+
   // ---- Send ----
 
   const handleSend = useCallback(() => {
     const trimmed = text.trim();
-    if (!trimmed || disabled) return;
-    onSend(trimmed);
+    if ((!trimmed && files.length === 0) || disabled) return;
+    onSend(trimmed, files);
+    typingSentAtRef.current = 0;
     setText('');
+    setFiles([]);
+    setAttachError(null);
     closeMentionDropdown();
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
-  }, [text, disabled, onSend, closeMentionDropdown]);
+  }, [text, files, disabled, onSend, closeMentionDropdown]);
+
+  const handleSchedule = useCallback(async (sendAt: Date) => {
+    const trimmed = text.trim();
+    if (!onSchedule || !trimmed || files.length > 0) return;
+    setScheduling(true);
+    const ok = await onSchedule(trimmed, sendAt);
+    setScheduling(false);
+    if (!ok) return;
+    if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      onTyping?.(false);
+    }
+    setText('');
+    setScheduleOpen(false);
+    closeMentionDropdown();
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+    }
+  }, [text, files.length, onSchedule, onTyping, closeMentionDropdown]);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -281,6 +422,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
     setText(newMessage);
     messageRef.current = newMessage;
+    reportTyping(newMessage);
 
     requestAnimationFrame(() => {
       if (textarea) {
@@ -289,7 +431,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         autoResize(textarea);
       }
     });
-  }, [autoResize]);
+  }, [autoResize, reportTyping]);
 
   // ---- Derived ----
   const charCount = text.length;
@@ -299,7 +441,33 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   return (
     <div className="tc-input">
       {/* Input container (border wraps textarea + action bar) */}
-      <div className="tc-input-container border rounded">
+      <div
+        className={`tc-input-container border rounded${isDragOver ? ' tc-input-container--drop' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        {/* Selected attachments */}
+        {files.length > 0 && (
+          <div className="tc-input-files d-flex flex-wrap tc-flex-gap-xs px-2 pt-2">
+            {files.map((file, i) => (
+              <span key={`${file.name}-${i}`} className="badge badge-light border tc-input-file">
+                <i className={`fas ${file.type === 'application/pdf' ? 'fa-file-pdf' : 'fa-image'} mr-1 text-muted`} />
+                <span className="tc-input-file__name">{file.name}</span>
+                <span className="text-muted ml-1">{formatFileSize(file.size)}</span>
+                <button
+                  type="button"
+                  className="close tc-input-file__remove ml-1"
+                  title="Remove attachment"
+                  onClick={() => removeFile(i)}
+                >
+                  <span>&times;</span>
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Textarea */}
         <textarea
           ref={textareaRef}
@@ -341,8 +509,13 @@ export const MessageInput: React.FC<MessageInputProps> = ({
                   }}
                   onMouseEnter={() => setMentionIndex(idx)}
                 >
-                  <i className={`fas ${mentionType === '@' ? 'fa-user-md' : 'fa-hashtag'} mr-2 ${idx === mentionIndex ? 'text-white' : 'text-muted'}`} />
+                  <i className={`fas ${MENTION_ICONS[mentionType]} mr-2 ${idx === mentionIndex ? 'text-white' : 'text-muted'}`} />
                   {item.display}
+                  {item.description && (
+                    <span className={`d-block tc-mention-description ${idx === mentionIndex ? 'text-white-50' : 'text-muted'}`}>
+                      {item.description}
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
@@ -351,8 +524,32 @@ export const MessageInput: React.FC<MessageInputProps> = ({
 
         {/* Action bar */}
         <div className="d-flex justify-content-between align-items-center px-2 py-1 border-top bg-light tc-input-actions">
-          {/* Left: mic (VoiceRecorder handles its own UI + error) */}
+          {/* Left: attach + mic (VoiceRecorder handles its own UI + error) */}
           <div className="d-flex align-items-center">
+            {allowAttachments && (
+              <>
+                <button
+                  type="button"
+                  className="btn btn-outline-secondary btn-sm tc-action-btn mr-1"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  title="Attach images or PDF files"
+                >
+                  <i className="fas fa-paperclip" />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  className="d-none"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  onChange={(e) => {
+                    addFiles(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                />
+              </>
+            )}
             <VoiceRecorder
               onTranscription={appendTranscribedText}
               speechToTextEnabled={speechToTextEnabled}
@@ -366,22 +563,48 @@ export const MessageInput: React.FC<MessageInputProps> = ({
             {charCount}/{MAX_LENGTH}
           </small>
 
-          {/* Right: send */}
-          <button
-            type="button"
-            className="btn btn-primary btn-sm tc-action-btn tc-send-btn"
-            onClick={handleSend}
-            disabled={disabled || !text.trim()}
-            title="Send message"
-          >
-            {disabled ? (
-              <i className="fas fa-spinner fa-spin" />
-            ) : (
-              <i className="fas fa-paper-plane" />
+          {/* Right: send later + send */}
+          <div className="d-flex align-items-center">
+            {onSchedule && (
+              <button
+                type="button"
+                className={`btn btn-sm tc-action-btn mr-1 ${scheduleOpen ? 'btn-secondary' : 'btn-outline-secondary'}`}
+                onClick={() => setScheduleOpen((open) => !open)}
+                disabled={disabled || !text.trim()}
+                title="Send later"
+              >
+                <i className="far fa-clock" />
+              </button>
             )}
-          </button>
+            <button
+              type="button"
+              className="btn btn-primary btn-sm tc-action-btn tc-send-btn"
+              onClick={handleSend}
+              disabled={disabled || (!text.trim() && files.length === 0)}
+              title="Send message"
+            >
+              {disabled ? (
+                <i className="fas fa-spinner fa-spin" />
+              ) : (
+                <i className="fas fa-paper-plane" />
+              )}
+            </button>
+          </div>
         </div>
       </div>
+      {onSchedule && scheduleOpen && text.trim() && (
+        <SendLaterPicker
+          onConfirm={handleSchedule}
+          onCancel={() => setScheduleOpen(false)}
+          busy={scheduling}
+          disabledReason={files.length > 0 ? 'Attachments cannot be scheduled; remove them or send now.' : null}
+        />
+      )}
+      {attachError && (
+        <small className="text-danger d-block mt-1">
+          <i className="fas fa-exclamation-circle mr-1" />{attachError}
+        </small>
+      )}
     </div>
   );
 };
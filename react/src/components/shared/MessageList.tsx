@@ -12,13 +12,30 @@
  * Supports:
  *   - Edited message indicator
  *   - Soft-deleted message placeholder
+ *   - Inline edit / delete of own messages (therapist view, when handlers are passed)
+ *   - Edit-history popover for edited / deleted messages (therapist view)
+ *   - Pending / failed delivery state with retry for outbox messages
+ *   - Read receipts (delivered / seen check marks) on the patient's own
+ *     messages (patient view) and on therapist messages (therapist view)
+ *   - Search match highlighting with scroll-to-active-match
+ *   - Image thumbnails (with lightbox) and PDF download links for attachments
  *   - Markdown rendering for AI messages
+ *   - AI replies that are still being streamed (typing dots, then a cursor)
  *   - Auto-scroll to newest message
+ *   - Loading older history on scroll-to-top (scroll position is preserved)
+ *   - Windowed rendering for long conversations (see useVirtualList)
  */
 
-import React, { useRef, useEffect, useMemo } from 'react';
-import type { Message, SenderType, TherapyChatColors, ChatColorEntry } from '../../types';
+/* global $ -- jQuery + jquery-confirm loaded by SelfHelp host page */
+declare const $: any;
+
+import React, { useRef, useEffect, useMemo, useCallback } from 'react';
+import type { Message, MessageHistory, SenderType, TherapyChatColors, ChatColorEntry } from '../../types';
+import { useVirtualList } from '../../hooks/useVirtualList';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { HighlightedText } from './HighlightedText';
+import { MessageHistoryPopover } from './MessageHistoryPopover';
+import { MessageAttachments } from './MessageAttachments';
 
 // ---------------------------------------------------------------------------
 // Props
@@ -38,8 +55,38 @@ interface MessageListProps {
     system?: string;
     you?: string;
   };
+  /** Message currently open in the inline editor (therapist view only) */
+  editingMessageId?: number | null;
+  editingMessageText?: string;
+  onEditStart?: (messageId: number, text: string) => void;
+  onEditCancel?: () => void;
+  onEditTextChange?: (value: string) => void;
+  onEditSave?: () => void | Promise<void>;
+  onDeleteMessage?: (messageId: number) => void | Promise<void>;
+  /** Loads the audit trail of a message; enables the history popover (therapist view only) */
+  onLoadHistory?: (messageId: number) => Promise<MessageHistory>;
+  /** Resend / drop an unsent outbox message (by client ID) */
+  onRetryMessage?: (clientId: string) => void | Promise<void>;
+  onDiscardMessage?: (clientId: string) => void;
+  /** Active message search: matching messages get highlighted, the active one scrolled to */
+  search?: {
+    query: string;
+    matchIds: Set<string>;
+    activeId: string | null;
+  };
+  /** Linked message (e.g. from an alert): scrolled to and highlighted */
+  focusedMessageId?: string | null;
+  /** Older history exists on the server; scrolling to the top loads it */
+  hasMore?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void | Promise<unknown>;
+  /** URL of a stored attachment; enables attachment rendering */
+  getAttachmentUrl?: (attachmentId: number | string, download?: boolean) => string;
 }
 
+/** Conversations longer than this are rendered windowed */
+const VIRTUALIZE_THRESHOLD = 150;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -68,6 +115,20 @@ function formatFullTimestamp(ts: string): string {
   }
 }
 
+/** Delivered (✓) / seen (✓✓) marker with the readers in the tooltip */
+const ReceiptIndicator: React.FC<{ msg: Message }> = ({ msg }) => {
+  const seenBy = msg.seen_by ?? [];
+  const title = seenBy.length
+    ? seenBy.map((r) => `Seen by ${r.name} · ${formatFullTimestamp(r.seen_at)}`).join('\n')
+    : 'Delivered';
+  return (
+    <small className={`tc-msg__receipt${seenBy.length ? ' tc-msg__receipt--seen' : ''}`} title={title}>
+      <i className={`fas ${seenBy.length ? 'fa-check-double' : 'fa-check'}`} />
+      {seenBy.length > 0 && <span className="ml-1">Seen</span>}
+    </small>
+  );
+};
+
 /**
  * Build a stable sender_id → therapist_N index map.
  * The first therapist (by message order) gets therapist_1, the second therapist_2, etc.
@@ -163,6 +224,12 @@ function isOwnMessage(msg: Message, isTherapistView: boolean, currentUserId?: nu
   return msg.sender_type === 'subject' || (msg.role === 'user' && !msg.sender_type);
 }
 
+/** Persisted message ID, or null for optimistic / client-only messages */
+function persistedId(msg: Message): number | null {
+  const n = typeof msg.id === 'number' ? msg.id : Number(msg.id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
 function isOtherTherapist(msg: Message, isTherapistView: boolean, currentUserId?: number): boolean {
   if (!isTherapistView) return false;
   return msg.sender_type === 'therapist' && !isOwnMessage(msg, isTherapistView, currentUserId);
@@ -197,12 +264,55 @@ export const MessageList: React.FC<MessageListProps> = ({
   chatColors,
   emptyText = 'No messages yet. Start the conversation!',
   senderLabels,
+  editingMessageId = null,
+  editingMessageText = '',
+  onEditStart,
+  onEditCancel,
+  onEditTextChange,
+  onEditSave,
+  onDeleteMessage,
+  onLoadHistory,
+  onRetryMessage,
+  onDiscardMessage,
+  search,
+  focusedMessageId = null,
+  hasMore = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  getAttachmentUrl,
 }) => {
-  const endRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
 
+  const keys = useMemo(() => messages.map((m) => String(m.id)), [messages]);
+  const loadOlder = useCallback(() => {
+    if (hasMore && !isLoadingOlder) onLoadOlder?.();
+  }, [hasMore, isLoadingOlder, onLoadOlder]);
+
+  const virtual = useVirtualList({
+    containerRef: listRef,
+    keys,
+    enabled: messages.length > VIRTUALIZE_THRESHOLD,
+    onNearTop: onLoadOlder ? loadOlder : undefined,
+  });
+  const { scrollToEnd, scrollToKey } = virtual;
+
+  // Follow new messages at the bottom (prepending older history must not jump)
+  const lastMessageId = messages.length ? String(messages[messages.length - 1].id) : null;
+  useEffect(() => {
+    if (search?.activeId || focusedMessageId) return;
+    scrollToEnd();
+  }, [lastMessageId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Bring the active search match into view
+  const activeSearchId = search?.activeId ?? null;
   useEffect(() => {
-    endRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages.length]);
+    if (activeSearchId) scrollToKey(activeSearchId);
+  }, [activeSearchId, scrollToKey]);
+
+  // Bring the linked message into view
+  useEffect(() => {
+    if (focusedMessageId) scrollToKey(focusedMessageId);
+  }, [focusedMessageId, scrollToKey]);
 
   const therapistMap = useMemo(
     () => buildTherapistIndexMap(messages, currentUserId),
@@ -232,24 +342,76 @@ export const MessageList: React.FC<MessageListProps> = ({
   }
 
   return (
-    <div className="tc-msg-list">
-      {messages.map((msg) => {
+    <div className="tc-msg-list" ref={listRef} onScroll={virtual.onScroll}>
+      {/* Sticky, zero-height row: older-history loader (always rendered, see useVirtualList) */}
+      <div className="tc-msg-list__older">
+        {hasMore && onLoadOlder && (
+          isLoadingOlder ? (
+            <span className="tc-msg-list__older-pill text-muted">
+              <span className="spinner-border spinner-border-sm mr-1" role="status" />Loading older messages…
+            </span>
+          ) : (
+            <button type="button" className="btn btn-light btn-sm tc-msg-list__older-pill" onClick={loadOlder}>
+              <i className="fas fa-history mr-1" />Load older messages
+            </button>
+          )
+        )}
+      </div>
+      <div className="tc-msg-list__spacer" style={{ height: virtual.padTop }} />
+
+      {messages.slice(virtual.start, virtual.end).map((msg) => {
+        const msgId = persistedId(msg);
+        const showHistory = isTherapistView && !!onLoadHistory && msgId !== null;
+        const measureRef = virtual.measure(String(msg.id));
+
         if (msg.is_deleted) {
           return (
-            <div key={msg.id} className="tc-msg tc-msg--deleted text-center">
+            <div
+              key={msg.id}
+              ref={measureRef}
+              data-message-id={String(msg.id)}
+              className="tc-msg tc-msg--deleted text-center"
+            >
               <small className="text-muted font-italic">
                 <i className="fas fa-ban mr-1" />
                 This message was removed.
               </small>
+              {showHistory && (
+                <MessageHistoryPopover
+                  messageId={msgId!}
+                  loadHistory={onLoadHistory!}
+                  triggerClassName="tc-font-xs text-muted ml-1"
+                >
+                  <i className="fas fa-history mr-1" />view original
+                </MessageHistoryPopover>
+              )}
             </div>
           );
         }
 
         const own = isOwnMessage(msg, isTherapistView, currentUserId);
         const colorStyle = getColorForMessage(msg, isTherapistView, currentUserId, chatColors, therapistMap);
+        const canManage = isTherapistView && own && msgId !== null && (!!onEditStart || !!onDeleteMessage);
+        const isEditing = canManage && editingMessageId === msgId;
+
+        const statusClass = msg.send_status ? ` tc-msg--${msg.send_status}` : '';
+        const showReceipt = msgId !== null && !msg.is_deleted
+          && (isTherapistView ? msg.sender_type === 'therapist' : own);
+        const isMatch = !!search && search.matchIds.has(String(msg.id));
+        const searchClass = isMatch
+          ? ` tc-msg--search-match${search!.activeId === String(msg.id) ? ' tc-msg--search-active' : ''}`
+          : '';
+        const focusClass = focusedMessageId === String(msg.id) ? ' tc-msg--linked' : '';
+        const highlight = isMatch ? search!.query : undefined;
 
         return (
-          <div key={msg.id} className={bubbleClass(msg, isTherapistView, currentUserId)} style={colorStyle}>
+          <div
+            key={msg.id}
+            ref={measureRef}
+            data-message-id={String(msg.id)}
+            className={bubbleClass(msg, isTherapistView, currentUserId) + statusClass + searchClass + focusClass}
+            style={colorStyle}
+          >
             {/* Header: sender + time */}
             <div className="tc-msg__header d-flex">
               {!own && (
@@ -261,28 +423,150 @@ export const MessageList: React.FC<MessageListProps> = ({
               <span className="tc-msg__time ml-auto">{formatFullTimestamp(msg.timestamp)}</span>
             </div>
 
-            {/* Content */}
-            <div className="tc-msg__body">
-              {msg.sender_type === 'ai' || msg.role === 'assistant' || msg.sender_type === 'system' ? (
-                <MarkdownRenderer content={msg.content} />
-              ) : (
-                <span style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{msg.content}</span>
-              )}
-            </div>
+            {/* Hover actions: edit / delete own messages */}
+            {canManage && !isEditing && (
+              <div className="tc-msg__actions">
+                {onEditStart && (
+                  <button
+                    type="button"
+                    className="btn btn-light btn-sm"
+                    title="Edit message"
+                    onClick={() => onEditStart(msgId!, msg.content)}
+                  >
+                    <i className="fas fa-pencil-alt" />
+                  </button>
+                )}
+                {onDeleteMessage && (
+                  <button
+                    type="button"
+                    className="btn btn-light btn-sm text-danger"
+                    title="Delete message"
+                    onClick={() => {
+                      ($ as any).confirm({
+                        title: 'Delete Message',
+                        content: 'Are you sure you want to delete this message? The patient will no longer see it.',
+                        type: 'red',
+                        buttons: {
+                          confirm: {
+                            text: 'Delete',
+                            btnClass: 'btn-danger',
+                            action: () => onDeleteMessage(msgId!),
+                          },
+                          cancel: { text: 'Cancel' },
+                        },
+                      });
+                    }}
+                  >
+                    <i className="fas fa-trash-alt" />
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Content (attachment-only messages have none) */}
+            {(isEditing || msg.content || msg.is_streaming) && (
+              <div className="tc-msg__body">
+                {isEditing ? (
+                  <div className="tc-msg__editor">
+                    <textarea
+                      className="form-control form-control-sm mb-1"
+                      rows={3}
+                      value={editingMessageText}
+                      autoFocus
+                      onChange={(e) => onEditTextChange?.(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') onEditCancel?.();
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                          e.preventDefault();
+                          onEditSave?.();
+                        }
+                      }}
+                    />
+                    <div className="d-flex justify-content-end tc-flex-gap-xs">
+                      <button className="btn btn-outline-secondary btn-sm py-0 px-2" onClick={onEditCancel}>
+                        Cancel
+                      </button>
+                      <button
+                        className="btn btn-primary btn-sm py-0 px-2"
+                        onClick={onEditSave}
+                        disabled={!editingMessageText.trim()}
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : msg.is_streaming && !msg.content ? (
+                  <span className="tc-typing-dots" aria-label="Writing…">
+                    <span /><span /><span />
+                  </span>
+                ) : msg.sender_type === 'ai' || msg.role === 'assistant' || msg.sender_type === 'system' ? (
+                  <div className={msg.is_streaming ? 'tc-msg__streaming' : undefined}>
+                    <MarkdownRenderer content={msg.content} highlight={highlight} />
+                  </div>
+                ) : (
+                  <span style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    <HighlightedText text={msg.content} query={highlight} />
+                  </span>
+                )}
+              </div>
+            )}
+
+            {getAttachmentUrl && msg.attachments && msg.attachments.length > 0 && (
+              <MessageAttachments attachments={msg.attachments} getUrl={getAttachmentUrl} />
+            )}
 
-            {/* Footer: timestamp + edited */}
+            {/* Footer: delivery state + edited */}
             <div className="tc-msg__footer">
-              {msg.is_edited && (
+              {msg.send_status === 'pending' && (
+                <small className="tc-msg__status">
+                  <i className="far fa-clock mr-1" />Sending…
+                </small>
+              )}
+              {msg.send_status === 'failed' && (
+                <small className="tc-msg__status tc-msg__status--failed">
+                  <i className="fas fa-exclamation-circle mr-1" />Not sent
+                  {onRetryMessage && msg.client_id && (
+                    <button
+                      type="button"
+                      className="btn btn-link btn-sm p-0 ml-2 tc-msg__status-action"
+                      onClick={() => onRetryMessage(msg.client_id!)}
+                    >
+                      <i className="fas fa-redo mr-1" />Retry
+                    </button>
+                  )}
+                  {onDiscardMessage && msg.client_id && (
+                    <button
+                      type="button"
+                      className="btn btn-link btn-sm p-0 ml-2 tc-msg__status-action"
+                      onClick={() => onDiscardMessage(msg.client_id!)}
+                    >
+                      Discard
+                    </button>
+                  )}
+                </small>
+              )}
+              {showReceipt && <ReceiptIndicator msg={msg} />}
+              {msg.is_edited && (showHistory ? (
+                <MessageHistoryPopover
+                  messageId={msgId!}
+                  loadHistory={onLoadHistory!}
+                  triggerClassName="tc-msg__edited-tag"
+                >
+                  <i className="fas fa-pen mr-1" style={{ fontSize: '0.55rem' }} />
+                  edited{msg.edited_at ? ` ${formatTime(msg.edited_at)}` : ''}
+                  <i className="fas fa-history ml-1" style={{ fontSize: '0.55rem' }} />
+                </MessageHistoryPopover>
+              ) : (
                 <small className="tc-msg__edited-tag">
                   <i className="fas fa-pen mr-1" style={{ fontSize: '0.55rem' }} />
                   edited{msg.edited_at ? ` ${formatTime(msg.edited_at)}` : ''}
                 </small>
-              )}
+              ))}
             </div>
           </div>
         );
       })}
-      <div ref={endRef} />
+      <div className="tc-msg-list__spacer" style={{ height: virtual.padBottom }} />
     </div>
   );
 };
@@ -0,0 +1,93 @@
+/**
+ * SendLaterPicker Component
+ * ==========================
+ *
+ * Date/time picker shown below the message input when the therapist
+ * chooses "send later". Offers quick presets (tomorrow / Monday morning)
+ * and a free datetime-local input; times are in the browser's time zone.
+ */
+
+import React, { useState } from 'react';
+import {
+  toDateTimeInputValue,
+  fromDateTimeInputValue,
+  getSchedulePresets,
+} from '../../utils/schedule';
+
+interface SendLaterPickerProps {
+  /** Called with the chosen send time */
+  onConfirm: (sendAt: Date) => void;
+  onCancel: () => void;
+  /** Request in flight */
+  busy?: boolean;
+  /** Why scheduling is not possible right now (e.g. attachments selected) */
+  disabledReason?: string | null;
+  /** Pre-selected time (editing an existing scheduled message) */
+  initial?: Date;
+  confirmLabel?: string;
+}
+
+export const SendLaterPicker: React.FC<SendLaterPickerProps> = ({
+  onConfirm,
+  onCancel,
+  busy = false,
+  disabledReason = null,
+  initial,
+  confirmLabel = 'Schedule',
+}) => {
+  const [presets] = useState(() => getSchedulePresets());
+  const [value, setValue] = useState(() => toDateTimeInputValue(initial ?? presets[0].date));
+
+  const sendAt = fromDateTimeInputValue(value);
+  const inPast = !!sendAt && sendAt.getTime() <= Date.now();
+  const canConfirm = !!sendAt && !inPast && !busy && !disabledReason;
+
+  return (
+    <div className="tc-send-later border rounded bg-light p-2 mt-1">
+      <div className="d-flex flex-wrap align-items-center tc-flex-gap-xs">
+        <i className="far fa-clock text-muted" />
+        <span className="small text-muted mr-1">Send at</span>
+        {presets.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            className={`btn btn-sm ${value === toDateTimeInputValue(preset.date) ? 'btn-secondary' : 'btn-outline-secondary'}`}
+            onClick={() => setValue(toDateTimeInputValue(preset.date))}
+            disabled={busy}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <input
+          type="datetime-local"
+          className="form-control form-control-sm tc-send-later__input"
+          value={value}
+          min={toDateTimeInputValue(new Date())}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={busy}
+        />
+        <div className="ml-auto">
+          <button type="button" className="btn btn-link btn-sm text-muted" onClick={onCancel} disabled={busy}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={() => sendAt && onConfirm(sendAt)}
+            disabled={!canConfirm}
+          >
+            {busy ? <i className="fas fa-spinner fa-spin" /> : confirmLabel}
+          </button>
+        </div>
+      </div>
+      {(disabledReason || inPast) && (
+        <small className="text-danger d-block mt-1">
+          <i className="fas fa-exclamation-circle mr-1" />
+          {disabledReason || 'Choose a time in the future.'}
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default SendLaterPicker;
@@ -0,0 +1,25 @@
+/**
+ * TypingIndicator Component
+ * ==========================
+ *
+ * "… is typing" line shown below the message list while the other side
+ * of the conversation is typing (see MessageInput `onTyping`).
+ */
+
+import React from 'react';
+
+interface TypingIndicatorProps {
+  /** Who is typing, e.g. "Therapist" */
+  name: string;
+}
+
+export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ name }) => (
+  <div className="tc-typing-indicator d-flex align-items-center text-muted small px-3 pb-2" aria-live="polite">
+    <span className="tc-typing-dots mr-2" aria-hidden="true">
+      <span /><span /><span />
+    </span>
+    <span>{name} is typing…</span>
+  </div>
+);
+
+export default TypingIndicator;
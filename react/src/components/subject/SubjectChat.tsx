@@ -6,10 +6,12 @@
  *
  * Features:
  *   - Send / receive messages (AI + therapist)
+ *   - AI replies stream in while they are generated, with a stop button
  *   - Help label for @mention and #hashtag usage
  *   - Mode badge (AI vs human-only)
  *   - Speech-to-text input
- *   - Polling for new messages
+ *   - Polling for new messages, read receipts and "therapist is typing"
+ *   - Offline outbox: unsent messages are kept, retried and resent when back online
  *   - Auto-clears the floating chat badge on load
  *   - AI mode indicator (ai_enabled = true → AI responds, false → human-only)
  */
@@ -19,12 +21,14 @@ import { MessageList } from '../shared/MessageList';
 import { MessageInput } from '../shared/MessageInput';
 import type { MentionItem } from '../shared/MessageInput';
 import { LoadingIndicator } from '../shared/LoadingIndicator';
+import { TypingIndicator } from '../shared/TypingIndicator';
 import { TaggingPanel } from '../shared/TaggingPanel';
 import { useChatState } from '../../hooks/useChatState';
 import { usePolling } from '../../hooks/usePolling';
 import { createSubjectApi } from '../../utils/api';
 import { updateFloatingBadge } from '../../utils/floatingBadge';
-import type { SubjectChatConfig } from '../../types';
+import { createOutbox } from '../../utils/outbox';
+import type { SubjectChatConfig, TypingUser } from '../../types';
 
 interface SubjectChatProps {
   config: SubjectChatConfig;
@@ -45,6 +49,10 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
     () => createSubjectApi(config.sectionId, config.baseUrl),
     [config.sectionId, config.baseUrl],
   );
+  const outbox = useMemo(
+    () => createOutbox(config.userId, config.sectionId),
+    [config.userId, config.sectionId],
+  );
   const loadedRef = useRef(false);
   const isFloating = !!config.isFloatingMode;
 
@@ -74,16 +82,30 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
     messages,
     isLoading,
     isSending,
+    isStreaming,
     error,
+    hasMore,
+    isLoadingOlder,
     loadConversation,
+    loadOlderMessages,
     sendMessage,
     pollMessages,
+    refreshConversation,
+    retryMessage,
+    discardMessage,
+    flushOutbox,
+    cancelStreaming,
     clearError,
   } = useChatState({
     loadFn: (convId) => api.getConversation(convId),
-    sendFn: (convId, msg) => api.sendMessage(convId, msg),
+    sendFn: (convId, msg, clientId, files) => api.sendMessage(convId, msg, clientId, files),
+    streamFn: config.aiStreamingEnabled
+      ? (convId, msg, clientId, files, handlers, signal) => api.sendMessageStream(convId, msg, clientId, files, handlers, signal)
+      : undefined,
     pollFn: (convId, afterId) => api.getMessages(convId, afterId),
+    loadOlderFn: (convId, beforeId) => api.getOlderMessages(convId, beforeId),
     senderType: 'subject',
+    outbox,
   });
 
   // Load conversation ONCE on mount — only mark-as-read when NOT in floating mode
@@ -94,6 +116,8 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
 
     (async () => {
       await loadConversation(config.conversationId ?? undefined);
+      // Resend messages left in the outbox by an earlier visit
+      if (navigator.onLine) flushOutbox();
       if (!isFloating) {
         // Normal (non-floating) page: mark read immediately
         try {
@@ -123,22 +147,37 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
   // In floating mode: skip polling entirely when the panel is hidden —
   // the standalone JS (therapy_chat_floating.js) handles badge updates.
   const lastKnownMsgIdRef = useRef<number | null>(null);
+  /** Last time a therapist read one of the messages (undefined until the first check) */
+  const lastSeenAtRef = useRef<string | null | undefined>(undefined);
+  /** Therapists typing right now (from check_updates) */
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
 
   const pollAndMark = useCallback(async () => {
     try {
       const updates = await api.checkUpdates();
-      if (updates.latest_message_id === lastKnownMsgIdRef.current) return; // nothing new
+      const typing = updates.typing ?? [];
+      setTypingUsers((prev) =>
+        prev.map((u) => u.id).join() === typing.map((u) => u.id).join() ? prev : typing,
+      );
+      const seenAt = updates.last_seen_at ?? null;
+      const receiptsChanged = lastSeenAtRef.current !== undefined && seenAt !== lastSeenAtRef.current;
+      lastSeenAtRef.current = seenAt;
+      const hasNew = updates.latest_message_id !== lastKnownMsgIdRef.current;
+      if (!hasNew && !receiptsChanged) return; // nothing new
       lastKnownMsgIdRef.current = updates.latest_message_id;
 
-      // New messages detected — do the full fetch
-      await pollMessages();
+      // Read receipts changed: reload the latest messages with their seen state,
+      // otherwise fetch only the new messages
+      if (receiptsChanged) await refreshConversation();
+      else await pollMessages();
+      if (!hasNew) return;
       // Only mark as read if user can actually see the messages
       if (!isFloating || isFloatingPanelVisible()) {
         const res = await api.markMessagesRead();
         updateFloatingBadge(res.unread_count ?? 0);
       }
     } catch { /* polling errors are non-fatal */ }
-  }, [pollMessages, api, isFloating]);
+  }, [pollMessages, refreshConversation, api, isFloating]);
 
   usePolling({
     callback: pollAndMark,
@@ -149,6 +188,10 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
 
   const labels = config.labels;
 
+  const reportTyping = useCallback((typing: boolean) => {
+    api.setTyping(typing).catch(() => { /* typing pings are best-effort */ });
+  }, [api]);
+
   // Build @mention fetch callback: loads therapists from the backend
   const fetchMentions = useCallback(async (): Promise<MentionItem[]> => {
     try {
@@ -217,11 +260,29 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
             isTherapistView={false}
             chatColors={config.chatColors}
             emptyText={labels.empty_message}
+            onRetryMessage={retryMessage}
+            onDiscardMessage={discardMessage}
+            hasMore={hasMore}
+            isLoadingOlder={isLoadingOlder}
+            onLoadOlder={loadOlderMessages}
+            getAttachmentUrl={api.getAttachmentUrl}
           />
 
+          {typingUsers.length > 0 && <TypingIndicator name={labels.therapist_label} />}
+
           {isSending && (
-            <div className="px-3 pb-2">
-              <LoadingIndicator text={labels.ai_thinking} />
+            <div className="px-3 pb-2 d-flex align-items-center">
+              {/* The streaming bubble shows progress itself */}
+              {!messages.some((m) => m.is_streaming) && <LoadingIndicator text={labels.ai_thinking} />}
+              {isStreaming && (
+                <button
+                  type="button"
+                  className="btn btn-outline-secondary btn-sm ml-auto"
+                  onClick={cancelStreaming}
+                >
+                  <i className="fas fa-stop mr-1" />Stop
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -241,6 +302,8 @@ export const SubjectChat: React.FC<SubjectChatProps> = ({ config }) => {
             sectionId={config.sectionId}
             onFetchMentions={config.taggingEnabled ? fetchMentions : undefined}
             topicSuggestions={config.taggingEnabled ? topicSuggestions : undefined}
+            allowAttachments={!!conversation?.allow_patient_uploads}
+            onTyping={conversation ? reportTyping : undefined}
           />
         </div>
       </div>
@@ -1,21 +1,29 @@
 /**
  * AlertBanner – Critical alerts display with acknowledge/dismiss
+ *
+ * Alerts covered by an escalation rule count down to their escalation.
+ * Clicking an alert opens its conversation at the triggering message.
  */
 
 import React from 'react';
+import { AlertEscalationBadge } from './AlertEscalationBadge';
 import type { Alert } from '../../types';
 
 export interface AlertBannerProps {
   alerts: Alert[];
   onAcknowledge: (alertId: number) => void | Promise<void>;
   onDismissAll?: () => void | Promise<void>;
+  /** Open the alerts inbox (triage, assignment, resolved alerts) */
+  onOpenInbox?: () => void;
+  /** Open the alert's conversation at the message that triggered it */
+  onOpenAlert?: (alert: Alert) => void;
   labels: {
     dismiss: string;
   };
 }
 
 /** Build a clean display message from alert data */
-function getAlertDisplayMessage(a: Alert): string {
+export function getAlertDisplayMessage(a: Alert): string {
   const meta = (a.metadata ?? {}) as Record<string, unknown>;
   const concerns = Array.isArray(meta.detected_concerns)
     ? (meta.detected_concerns as string[]).join(', ')
@@ -36,6 +44,8 @@ export const AlertBanner: React.FC<AlertBannerProps> = ({
   alerts,
   onAcknowledge,
   onDismissAll,
+  onOpenInbox,
+  onOpenAlert,
   labels,
 }) => {
   if (alerts.length === 0) return null;
@@ -47,10 +57,23 @@ export const AlertBanner: React.FC<AlertBannerProps> = ({
           key={a.id}
           className="alert alert-danger d-flex justify-content-between align-items-center mb-2"
         >
-          <div className="text-truncate mr-2">
-            <i className="fas fa-exclamation-triangle mr-2" />
-            <strong>{a.subject_name}:</strong> {getAlertDisplayMessage(a)}
-          </div>
+          {onOpenAlert && a.conversation_id ? (
+            <button
+              type="button"
+              className="btn btn-link text-reset text-left text-truncate p-0 mr-2 tc-alert-link"
+              title={a.message_id ? 'Show the message that triggered this alert' : 'Open the conversation'}
+              onClick={() => onOpenAlert(a)}
+            >
+              <i className="fas fa-exclamation-triangle mr-2" />
+              <strong>{a.subject_name}:</strong> {getAlertDisplayMessage(a)}
+            </button>
+          ) : (
+            <div className="text-truncate mr-2">
+              <i className="fas fa-exclamation-triangle mr-2" />
+              <strong>{a.subject_name}:</strong> {getAlertDisplayMessage(a)}
+            </div>
+          )}
+          <AlertEscalationBadge alert={a} className="flex-shrink-0 mr-2 ml-auto" />
           <button
             className="btn btn-outline-light btn-sm flex-shrink-0"
             onClick={() => onAcknowledge(a.id)}
@@ -61,11 +84,17 @@ export const AlertBanner: React.FC<AlertBannerProps> = ({
         </div>
       ))}
       {alerts.length > 1 && onDismissAll && (
-        <button className="btn btn-sm btn-outline-danger" onClick={onDismissAll}>
+        <button className="btn btn-sm btn-outline-danger mr-2" onClick={onDismissAll}>
           <i className="fas fa-check-double mr-1" />
           Dismiss all alerts
         </button>
       )}
+      {onOpenInbox && (
+        <button className="btn btn-sm btn-outline-secondary" onClick={onOpenInbox}>
+          <i className="fas fa-inbox mr-1" />
+          Open alerts inbox
+        </button>
+      )}
     </div>
   );
 };
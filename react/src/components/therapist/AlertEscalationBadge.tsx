@@ -0,0 +1,59 @@
+/**
+ * AlertEscalationBadge – escalation state of an alert
+ *
+ * Counts down to the escalation deadline while the alert is still new,
+ * then shows that it was escalated to the supervisors. The server's cron
+ * job escalates within a minute of the deadline; the badge only displays it.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { Alert } from '../../types';
+
+export interface AlertEscalationBadgeProps {
+  alert: Pick<Alert, 'escalated_at' | 'escalation_due_at' | 'escalation_minutes'>;
+  className?: string;
+}
+
+function formatRemaining(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export const AlertEscalationBadge: React.FC<AlertEscalationBadgeProps> = ({ alert, className = '' }) => {
+  const dueAt = alert.escalation_due_at ? new Date(alert.escalation_due_at).getTime() : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (dueAt === null || alert.escalated_at) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [dueAt, alert.escalated_at]);
+
+  if (alert.escalated_at) {
+    return (
+      <span className={`badge badge-danger ${className}`} title={`Escalated to supervisors at ${alert.escalated_at}`}>
+        <i className="fas fa-level-up-alt mr-1" />
+        Escalated
+      </span>
+    );
+  }
+  if (dueAt === null || isNaN(dueAt)) return null;
+
+  const remaining = dueAt - now;
+  const rule = alert.escalation_minutes ? ` (unacknowledged for ${alert.escalation_minutes} min)` : '';
+  return (
+    <span
+      className={`badge tc-alert-escalation ${remaining > 60000 ? 'badge-warning' : 'badge-danger'} ${className}`}
+      title={`Escalates to supervisors if not acknowledged${rule}`}
+    >
+      <i className="fas fa-hourglass-half mr-1" />
+      {remaining > 0 ? `Escalates in ${formatRemaining(remaining)}` : 'Escalating…'}
+    </span>
+  );
+};
+
+export default AlertEscalationBadge;
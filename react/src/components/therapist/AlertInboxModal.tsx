@@ -0,0 +1,420 @@
+/**
+ * Alert Inbox Modal
+ * =================
+ *
+ * All alerts of the therapist's patients, read or not, filtered by type,
+ * severity, status, patient and date. Selecting an alert opens its triage
+ * panel: status (new → acknowledged → in progress → resolved) with a
+ * resolution note, assignment to a colleague of the patient and the audit
+ * trail of who changed what. Danger alerts can only be resolved with a
+ * note describing how they were handled. Alerts still new show the
+ * countdown to their escalation.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '../shared/Modal';
+import { AlertSeverityBadge, AlertStatusBadge } from '../../utils/badgeHelpers';
+import { getAlertDisplayMessage } from './AlertBanner';
+import { AlertEscalationBadge } from './AlertEscalationBadge';
+import type {
+  Alert,
+  AlertDetails,
+  AlertEvent,
+  AlertInboxFilter,
+  AlertSeverity,
+  AlertStatus,
+  AlertType,
+  Conversation,
+} from '../../types';
+
+/** Alert inbox state and handlers (useAlertInbox) */
+export interface AlertInboxState {
+  open: boolean;
+  filter: AlertInboxFilter;
+  setFilter: (filter: AlertInboxFilter) => void;
+  alerts: Alert[];
+  loading: boolean;
+  error: string | null;
+  selectedId: number | null;
+  details: AlertDetails | null;
+  detailsLoading: boolean;
+  saving: boolean;
+  actionError: string | null;
+  close: () => void;
+  reload: () => void;
+  select: (alertId: number | null) => void;
+  updateStatus: (status: AlertStatus, note?: string) => Promise<boolean>;
+  assign: (assigneeId: number | null) => void;
+  markAllRead: () => void;
+}
+
+export interface AlertInboxModalProps {
+  inbox: AlertInboxState;
+  /** Patients for the patient filter */
+  conversations: Conversation[];
+  /** Open the alert's conversation at the message that triggered it */
+  onOpenAlert: (alert: Alert) => void;
+}
+
+const ALERT_TYPES: Array<{ value: AlertType; label: string }> = [
+  { value: 'danger_detected', label: 'Danger detected' },
+  { value: 'tag_received', label: 'Patient tag' },
+];
+
+const SEVERITIES: Array<{ value: AlertSeverity; label: string }> = [
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'info', label: 'Info' },
+];
+
+const STATUSES: Array<{ value: AlertStatus; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+/** Mirrors THERAPY_ALERT_TYPES_REQUIRING_RESOLUTION_NOTE / THERAPY_ALERT_NOTE_MAX_LENGTH */
+const NOTE_REQUIRED_TYPES: AlertType[] = ['danger_detected'];
+const NOTE_MAX_LENGTH = 2000;
+
+function formatDateTime(ts?: string | null): string {
+  if (!ts) return '';
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  const day = String(d.getDate()).padStart(2, '0');
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${day}.${mon}.${d.getFullYear()} ${hh}:${mm}`;
+}
+
+function describeEvent(e: AlertEvent): string {
+  const who = e.user_name || 'System';
+  if (e.event === 'escalated') return 'Escalated automatically';
+  if (e.event === 'assigned') {
+    return e.assigned_to_name ? `${who} assigned it to ${e.assigned_to_name}` : `${who} removed the assignment`;
+  }
+  return `${who} set the status to ${e.status_label || e.status}`;
+}
+
+const AlertFilterBar: React.FC<{
+  filter: AlertInboxFilter;
+  onChange: (filter: AlertInboxFilter) => void;
+  conversations: Conversation[];
+}> = ({ filter, onChange, conversations }) => {
+  const active = Object.values(filter).some((v) => v !== null);
+  const select = <K extends keyof AlertInboxFilter>(key: K, value: string, parse: (v: string) => AlertInboxFilter[K]) =>
+    onChange({ ...filter, [key]: value ? parse(value) : null });
+
+  return (
+    <div className="d-flex flex-wrap align-items-center mb-2 tc-flex-gap-sm tc-alert-inbox__filters">
+      <select
+        className="form-control form-control-sm"
+        value={filter.type ?? ''}
+        onChange={(e) => select('type', e.target.value, (v) => v as AlertType)}
+      >
+        <option value="">All types</option>
+        {ALERT_TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+      </select>
+      <select
+        className="form-control form-control-sm"
+        value={filter.severity ?? ''}
+        onChange={(e) => select('severity', e.target.value, (v) => v as AlertSeverity)}
+      >
+        <option value="">All severities</option>
+        {SEVERITIES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+      </select>
+      <select
+        className="form-control form-control-sm"
+        value={filter.status ?? ''}
+        onChange={(e) => select('status', e.target.value, (v) => v as AlertStatus)}
+      >
+        <option value="">All statuses</option>
+        {STATUSES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+      </select>
+      <select
+        className="form-control form-control-sm"
+        value={filter.conversationId ?? ''}
+        onChange={(e) => select('conversationId', e.target.value, Number)}
+      >
+        <option value="">All patients</option>
+        {conversations.map((c) => (
+          <option key={c.id} value={c.id}>{c.subject_name || c.subject_code || `#${c.id}`}</option>
+        ))}
+      </select>
+      <input
+        type="date"
+        className="form-control form-control-sm"
+        title="From"
+        value={filter.dateFrom ?? ''}
+        max={filter.dateTo ?? undefined}
+        onChange={(e) => select('dateFrom', e.target.value, String)}
+      />
+      <input
+        type="date"
+        className="form-control form-control-sm"
+        title="To"
+        value={filter.dateTo ?? ''}
+        min={filter.dateFrom ?? undefined}
+        onChange={(e) => select('dateTo', e.target.value, String)}
+      />
+      {active && (
+        <button
+          type="button"
+          className="btn btn-link btn-sm p-0"
+          onClick={() => onChange({ type: null, severity: null, status: null, conversationId: null, dateFrom: null, dateTo: null })}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
+
+const AlertTriagePanel: React.FC<{
+  inbox: AlertInboxState;
+  onOpenAlert: (alert: Alert) => void;
+}> = ({ inbox, onOpenAlert }) => {
+  const { details } = inbox;
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    setNote('');
+  }, [inbox.selectedId]);
+
+  if (inbox.detailsLoading || !details) {
+    return inbox.actionError ? (
+      <div className="alert alert-danger py-2 small">{inbox.actionError}</div>
+    ) : (
+      <div className="text-center text-muted py-4">
+        <div className="spinner-border spinner-border-sm" role="status" />
+      </div>
+    );
+  }
+
+  const { alert, events, colleagues } = details;
+  const status: AlertStatus = alert.status ?? 'new';
+  const noteRequired = NOTE_REQUIRED_TYPES.includes(alert.alert_type);
+  const changeStatus = async (next: AlertStatus) => {
+    if (await inbox.updateStatus(next, note.trim() || undefined)) setNote('');
+  };
+
+  return (
+    <div className="tc-alert-inbox__triage">
+      <div className="d-flex align-items-center flex-wrap mb-2 tc-flex-gap-sm">
+        <AlertSeverityBadge severity={alert.severity} label={alert.severity_label} />
+        <AlertStatusBadge status={status} label={alert.status_label} />
+        <AlertEscalationBadge alert={alert} />
+        <strong className="small">{alert.alert_type_label || alert.alert_type}</strong>
+        <span className="small text-muted">· {alert.subject_name}</span>
+        <span className="small text-muted ml-auto">{formatDateTime(alert.created_at)}</span>
+      </div>
+
+      <div className="border rounded bg-light p-2 small mb-2 tc-alert-inbox__message">{alert.message}</div>
+
+      {alert.conversation_id && (
+        <button
+          type="button"
+          className="btn btn-outline-secondary btn-sm mb-3"
+          onClick={() => onOpenAlert(alert)}
+        >
+          <i className={`fas ${alert.message_id ? 'fa-comment-dots' : 'fa-comments'} mr-1`} />
+          {alert.message_id ? 'Show triggering message' : 'Open conversation'}
+        </button>
+      )}
+
+      {inbox.actionError && <div className="alert alert-danger py-2 small">{inbox.actionError}</div>}
+
+      <div className="form-group mb-2">
+        <label className="small font-weight-bold mb-1">Assigned to</label>
+        <select
+          className="form-control form-control-sm"
+          value={alert.id_assignedTo ?? ''}
+          disabled={inbox.saving}
+          onChange={(e) => inbox.assign(e.target.value ? Number(e.target.value) : null)}
+        >
+          <option value="">Unassigned</option>
+          {colleagues.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      </div>
+
+      {status === 'resolved' ? (
+        <div className="mb-3">
+          <label className="small font-weight-bold mb-1 d-block">Resolution</label>
+          <div className="small mb-2 tc-alert-inbox__message">
+            {alert.resolution_note || <span className="text-muted">No note</span>}
+          </div>
+          <button
+            type="button"
+            className="btn btn-outline-warning btn-sm"
+            disabled={inbox.saving}
+            onClick={() => changeStatus('in_progress')}
+          >
+            <i className="fas fa-undo mr-1" />
+            Reopen
+          </button>
+        </div>
+      ) : (
+        <div className="mb-3">
+          <label className="small font-weight-bold mb-1">
+            Resolution note{noteRequired && <span className="text-danger"> (required to resolve)</span>}
+          </label>
+          <textarea
+            className="form-control form-control-sm mb-2"
+            rows={3}
+            value={note}
+            maxLength={NOTE_MAX_LENGTH}
+            placeholder="How was the alert handled? (e.g. called the patient, safety plan reviewed)"
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="d-flex flex-wrap tc-flex-gap-sm">
+            {status === 'new' && (
+              <button
+                type="button"
+                className="btn btn-outline-secondary btn-sm"
+                disabled={inbox.saving}
+                onClick={() => changeStatus('acknowledged')}
+              >
+                <i className="fas fa-check mr-1" />
+                Acknowledge
+              </button>
+            )}
+            {status !== 'in_progress' && (
+              <button
+                type="button"
+                className="btn btn-outline-warning btn-sm"
+                disabled={inbox.saving}
+                onClick={() => changeStatus('in_progress')}
+              >
+                <i className="fas fa-play mr-1" />
+                Start working
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-success btn-sm"
+              disabled={inbox.saving || (noteRequired && !note.trim())}
+              onClick={() => changeStatus('resolved')}
+            >
+              <i className="fas fa-check-double mr-1" />
+              Resolve
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="small font-weight-bold mb-1 d-block">
+        <i className="fas fa-clipboard-list mr-1" />
+        Audit trail
+      </label>
+      {events.length === 0 ? (
+        <p className="small text-muted mb-0">Nobody has handled this alert yet.</p>
+      ) : (
+        <ul className="list-unstyled small mb-0 tc-alert-inbox__events">
+          {events.map((e) => (
+            <li key={e.id} className="mb-1">
+              <span className="text-muted mr-1">{formatDateTime(e.created_at)}</span>
+              {describeEvent(e)}
+              {e.note && <div className="text-muted pl-2 tc-alert-inbox__message">“{e.note}”</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const AlertInboxModal: React.FC<AlertInboxModalProps> = ({ inbox, conversations, onOpenAlert }) => {
+  const triage = inbox.selectedId !== null;
+  const unread = inbox.alerts.filter((a) => !a.is_read).length;
+
+  return (
+    <Modal open={inbox.open} onClose={inbox.close} title="Alerts">
+      <ModalHeader
+        title={
+          <>
+            <i className="fas fa-bell mr-2" />
+            Alerts
+          </>
+        }
+        onClose={inbox.close}
+      />
+
+      <ModalBody>
+        {triage ? (
+          <>
+            <button type="button" className="btn btn-link btn-sm p-0 mb-2" onClick={() => inbox.select(null)}>
+              <i className="fas fa-arrow-left mr-1" />
+              All alerts
+            </button>
+            <AlertTriagePanel inbox={inbox} onOpenAlert={onOpenAlert} />
+          </>
+        ) : (
+          <>
+            <AlertFilterBar filter={inbox.filter} onChange={inbox.setFilter} conversations={conversations} />
+            {inbox.error && (
+              <div className="alert alert-danger py-2 small">
+                {inbox.error}
+                <button type="button" className="btn btn-link btn-sm p-0 ml-2" onClick={inbox.reload}>Retry</button>
+              </div>
+            )}
+            {inbox.loading && inbox.alerts.length === 0 ? (
+              <div className="text-center text-muted py-4">
+                <div className="spinner-border spinner-border-sm" role="status" />
+              </div>
+            ) : inbox.alerts.length === 0 ? (
+              <p className="text-muted text-center my-4">No alerts match the filters.</p>
+            ) : (
+              <div className="list-group tc-alert-inbox__list">
+                {inbox.alerts.map((a) => (
+                  <button
+                    key={a.id}
+                    type="button"
+                    className={`list-group-item list-group-item-action py-2 px-3${a.is_read ? '' : ' tc-alert-inbox__item--unread'}`}
+                    onClick={() => inbox.select(a.id)}
+                  >
+                    <div className="d-flex align-items-center tc-flex-gap-sm">
+                      <AlertSeverityBadge severity={a.severity} label={a.severity_label} />
+                      <strong className="small text-truncate">{a.subject_name}</strong>
+                      <span className="small text-muted text-nowrap">{a.alert_type_label || a.alert_type}</span>
+                      <span className="ml-auto text-nowrap">
+                        <AlertEscalationBadge alert={a} className="mr-1" />
+                        <AlertStatusBadge status={a.status ?? 'new'} label={a.status_label} />
+                      </span>
+                    </div>
+                    <div className="small text-truncate mt-1">{getAlertDisplayMessage(a)}</div>
+                    <div className="tc-font-xs text-muted mt-1">
+                      {formatDateTime(a.created_at)}
+                      {a.assigned_to_name && (
+                        <span className="ml-2">
+                          <i className="fas fa-user-check mr-1" />
+                          {a.assigned_to_name}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        {!triage && unread > 0 && (
+          <button className="btn btn-outline-primary" onClick={inbox.markAllRead}>
+            <i className="fas fa-check-double mr-1" />
+            Mark all as read
+          </button>
+        )}
+        <button className="btn btn-outline-secondary" onClick={inbox.close}>
+          Close
+        </button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export default AlertInboxModal;
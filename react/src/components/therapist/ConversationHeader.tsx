@@ -1,6 +1,9 @@
 /**
  * ConversationHeader – Conversation header bar with patient info and risk/AI indicators
  *
+ * Shows a hint when the patient has not opened the chat for
+ * INACTIVE_HINT_DAYS days (or never), based on subject_last_seen.
+ *
  * Action buttons (AI toggle + risk controls) are intentionally
  * NOT here – they live exclusively in the right-sidebar RiskStatusControls
  * to avoid confusing duplicate controls.
@@ -11,10 +14,25 @@ import { RiskBadge } from '../../utils/badgeHelpers';
 import type { Conversation } from '../../types';
 import type { TherapistDashboardLabels, TherapistFeatures } from '../../types';
 
+/** Days without the patient opening the chat before the hint is shown */
+const INACTIVE_HINT_DAYS = 3;
+
+/** "Patient hasn't opened the chat …" text, or null while the patient is active */
+function inactivityHint(lastSeen: string | null | undefined): string | null {
+  if (!lastSeen) return 'Patient has not opened the chat yet';
+  const time = new Date(lastSeen.replace(' ', 'T')).getTime();
+  if (isNaN(time)) return null;
+  const days = Math.floor((Date.now() - time) / 86400000);
+  return days >= INACTIVE_HINT_DAYS ? `Patient hasn't opened the chat in ${days} days` : null;
+}
+
 export interface ConversationHeaderProps {
   conversation: Conversation;
   unreadCount: number;
   onMarkRead?: () => void | Promise<void>;
+  /** Toggles the message search bar */
+  onToggleSearch?: () => void;
+  searchOpen?: boolean;
   labels: TherapistDashboardLabels;
   features: TherapistFeatures;
 }
@@ -23,41 +41,62 @@ export const ConversationHeader: React.FC<ConversationHeaderProps> = ({
   conversation,
   unreadCount,
   onMarkRead,
+  onToggleSearch,
+  searchOpen = false,
   labels,
   features,
-}) => (
-  <div className="card-header bg-white d-flex justify-content-between align-items-center py-2">
-    <div>
-      <h5 className="mb-0">{conversation.subject_name || labels.subjectLabel}</h5>
-      <small className="text-muted">
-        {conversation.subject_code}
-        {conversation.ai_enabled ? (
-          <span className="ml-2 text-success">
-            <i className="fas fa-robot mr-1" />
-            {labels.aiModeIndicator}
-          </span>
-        ) : (
-          <span className="ml-2 text-warning">
-            <i className="fas fa-user-md mr-1" />
-            {labels.humanModeIndicator}
-          </span>
+}) => {
+  const hint = conversation.no_conversation ? null : inactivityHint(conversation.subject_last_seen);
+
+  return (
+    <div className="card-header bg-white d-flex justify-content-between align-items-center py-2">
+      <div>
+        <h5 className="mb-0">{conversation.subject_name || labels.subjectLabel}</h5>
+        <small className="text-muted">
+          {conversation.subject_code}
+          {conversation.ai_enabled ? (
+            <span className="ml-2 text-success">
+              <i className="fas fa-robot mr-1" />
+              {labels.aiModeIndicator}
+            </span>
+          ) : (
+            <span className="ml-2 text-warning">
+              <i className="fas fa-user-md mr-1" />
+              {labels.humanModeIndicator}
+            </span>
+          )}
+          {hint && (
+            <span className="ml-2 tc-inactive-hint" title={conversation.subject_last_seen ? `Last opened: ${conversation.subject_last_seen}` : undefined}>
+              <i className="far fa-eye-slash mr-1" />
+              {hint}
+            </span>
+          )}
+        </small>
+      </div>
+      <div className="d-flex align-items-center tc-flex-gap-sm">
+        {onToggleSearch && (
+          <button
+            className={`btn btn-sm ${searchOpen ? 'btn-secondary' : 'btn-outline-secondary'}`}
+            title="Search messages (Ctrl+F)"
+            onClick={onToggleSearch}
+          >
+            <i className="fas fa-search" />
+          </button>
         )}
-      </small>
-    </div>
-    <div className="d-flex align-items-center tc-flex-gap-sm">
-      {unreadCount > 0 && onMarkRead && (
-        <button
-          className="btn btn-sm btn-outline-primary"
-          title="Mark all messages as read"
-          onClick={onMarkRead}
-        >
-          <i className="fas fa-check-double mr-1" />
-          Mark read
-        </button>
-      )}
-      {features.showRiskColumn && <RiskBadge risk={conversation.risk_level} labels={labels} />}
+        {unreadCount > 0 && onMarkRead && (
+          <button
+            className="btn btn-sm btn-outline-primary"
+            title="Mark all messages as read"
+            onClick={onMarkRead}
+          >
+            <i className="fas fa-check-double mr-1" />
+            Mark read
+          </button>
+        )}
+        {features.showRiskColumn && <RiskBadge risk={conversation.risk_level} labels={labels} />}
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export default ConversationHeader;
@@ -6,13 +6,23 @@
  * Handles message display, sending, and conversation management.
  */
 
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
 import { MessageList } from '../shared/MessageList';
 import { MessageInput } from '../shared/MessageInput';
+import type { MentionItem } from '../shared/MessageInput';
 import { LoadingIndicator } from '../shared/LoadingIndicator';
+import { TypingIndicator } from '../shared/TypingIndicator';
 import { ConversationHeader } from './ConversationHeader';
+import { MessageSearchBar } from './MessageSearchBar';
+import { ScheduledMessageQueue } from './ScheduledMessageQueue';
+import type { ScheduledMessagesState } from './ScheduledMessageQueue';
+import { useMessageSearch } from '../../hooks/useMessageSearch';
+import { useMessageFocus } from '../../hooks/useMessageFocus';
 import type {
   Conversation,
+  Message,
+  MessageHistory,
   TherapistDashboardLabels,
   TherapistFeatures,
   TherapistDashboardConfig,
@@ -25,27 +35,68 @@ export interface ChatState {
   isLoading: boolean;
   isSending: boolean;
   error: string | null;
+  /** Older history exists on the server */
+  hasMore: boolean;
+  isLoadingOlder: boolean;
   loadConversation: (id?: number | string) => Promise<void>;
-  sendMessage: (message: string) => Promise<void>;
+  loadOlderMessages: () => Promise<Message[]>;
+  sendMessage: (message: string, files?: File[]) => Promise<void>;
   pollMessages: (afterId?: number) => Promise<void>;
   clearError: () => void;
   setError: (error: string | null) => void;
   setConversation: (conversation: Conversation | null) => void;
-  setMessages: (messages: any[]) => void;
+  setMessages: Dispatch<SetStateAction<Message[]>>;
+}
+
+/** Inline edit / delete state for the therapist's own messages (useMessageEditor) */
+export interface MessageEditorState {
+  editingId: number | null;
+  editingText: string;
+  setEditingText: (value: string) => void;
+  startEditing: (messageId: number, text: string) => void;
+  cancelEditing: () => void;
+  save: () => void | Promise<void>;
+  remove: (messageId: number) => void | Promise<void>;
+}
+
+/**
+ * A message to open once its conversation is loaded: in the search bar
+ * with `query` (cross-patient search), otherwise highlighted (alerts)
+ */
+export interface MessageJumpTarget {
+  conversationId: number | string;
+  messageId: number;
+  query?: string;
 }
 
 export interface ConversationViewerProps {
   conversation: Conversation;
   chat: ChatState;
+  messageEditor: MessageEditorState;
+  onLoadMessageHistory: (messageId: number) => Promise<MessageHistory>;
+  /** URL of a stored message attachment */
+  getAttachmentUrl: (attachmentId: number | string, download?: boolean) => string;
   unreadCount: number;
   labels: TherapistDashboardLabels;
   features: TherapistFeatures;
   config: TherapistDashboardConfig;
   onMarkRead: () => void | Promise<void>;
+  /** The patient is typing in this conversation */
+  patientTyping?: boolean;
+  /** Typing notifications from the message input */
+  onTyping?: (typing: boolean) => void;
+  /** "Send later" queue of this conversation */
+  scheduled?: ScheduledMessagesState;
+  /** Resolved message templates for the `/` trigger */
+  templateSuggestions?: MentionItem[];
+  onManageTemplates?: () => void;
   onCreateDraft: () => void | Promise<void>;
   onGenerateSummary: () => void | Promise<void>;
   draftModalOpen: boolean;
   summaryModalOpen: boolean;
+  /** Pending jump from the cross-patient search or an alert */
+  jumpTarget?: MessageJumpTarget | null;
+  onJumpHandled?: () => void;
 }
 
 /**
@@ -54,16 +105,78 @@ export interface ConversationViewerProps {
 export const ConversationViewer: React.FC<ConversationViewerProps> = ({
   conversation,
   chat,
+  messageEditor,
+  onLoadMessageHistory,
+  getAttachmentUrl,
   unreadCount,
   labels,
   features,
   config,
   onMarkRead,
+  patientTyping = false,
+  onTyping,
+  scheduled,
+  templateSuggestions,
+  onManageTemplates,
   onCreateDraft,
   onGenerateSummary,
   draftModalOpen,
   summaryModalOpen,
+  jumpTarget,
+  onJumpHandled,
 }) => {
+  // ---- Message search ----
+  const [searchOpen, setSearchOpen] = useState(false);
+  const search = useMessageSearch({
+    messages: chat.messages,
+    hasMore: chat.hasMore,
+    loadOlder: chat.loadOlderMessages,
+  });
+  const { reset: resetSearch, jumpTo } = search;
+
+  // ---- Linked message (alerts) ----
+  const messageFocus = useMessageFocus({
+    messages: chat.messages,
+    loadOlder: chat.loadOlderMessages,
+  });
+  const { focus: focusMessage, clear: clearFocus } = messageFocus;
+
+  const closeSearch = useCallback(() => {
+    setSearchOpen(false);
+    resetSearch();
+  }, [resetSearch]);
+
+  // New patient selected: start without a search or linked message
+  useEffect(() => {
+    closeSearch();
+    clearFocus();
+  }, [conversation.id, closeSearch, clearFocus]);
+
+  // Cross-patient search result: open the search on that message once
+  // its conversation has finished loading; alert: highlight the message
+  useEffect(() => {
+    if (!jumpTarget || chat.isLoading || String(conversation.id) !== String(jumpTarget.conversationId)) return;
+    onJumpHandled?.();
+    if (jumpTarget.query) {
+      setSearchOpen(true);
+      jumpTo(jumpTarget.query, jumpTarget.messageId);
+    } else {
+      focusMessage(jumpTarget.messageId);
+    }
+  }, [jumpTarget, chat.isLoading, conversation.id, onJumpHandled, jumpTo, focusMessage]);
+
+  // Ctrl+F / Cmd+F opens the conversation search
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    };
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  }, []);
+
   return (
     <div className="card border-0 shadow-sm h-100 d-flex flex-column">
       {/* Header – conversation context only; actions stay in right sidebar */}
@@ -71,10 +184,16 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({
         conversation={conversation}
         unreadCount={unreadCount}
         onMarkRead={onMarkRead}
+        onToggleSearch={() => (searchOpen ? closeSearch() : setSearchOpen(true))}
+        searchOpen={searchOpen}
         labels={labels}
         features={features}
       />
 
+      {searchOpen && (
+        <MessageSearchBar search={search} hasMore={chat.hasMore} labels={labels} onClose={closeSearch} />
+      )}
+
       {/* Error Display */}
       {chat.error && (
         <div className="alert alert-danger m-3 mb-0 alert-dismissible fade show" role="alert">
@@ -88,6 +207,7 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({
       {/* Messages */}
       <div className="card-body p-0 flex-grow-1 d-flex flex-column overflow-hidden">
         <MessageList
+          key={conversation.id}
           messages={chat.messages}
           isLoading={chat.isLoading}
           isTherapistView={true}
@@ -101,7 +221,29 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({
             system: 'System',
             you: 'You',
           }}
+          editingMessageId={messageEditor.editingId}
+          editingMessageText={messageEditor.editingText}
+          onEditStart={messageEditor.startEditing}
+          onEditCancel={messageEditor.cancelEditing}
+          onEditTextChange={messageEditor.setEditingText}
+          onEditSave={messageEditor.save}
+          onDeleteMessage={messageEditor.remove}
+          onLoadHistory={onLoadMessageHistory}
+          search={searchOpen && search.isActive
+            ? { query: search.filters.query, matchIds: search.matchIds, activeId: search.activeId }
+            : undefined}
+          focusedMessageId={searchOpen && search.isActive ? null : messageFocus.focusedId}
+          hasMore={chat.hasMore}
+          isLoadingOlder={chat.isLoadingOlder}
+          onLoadOlder={chat.loadOlderMessages}
+          getAttachmentUrl={getAttachmentUrl}
         />
+        {patientTyping && <TypingIndicator name={labels.subjectLabel} />}
+        {messageFocus.isLocating && (
+          <div className="px-3 pb-2">
+            <LoadingIndicator text="Finding the linked message..." />
+          </div>
+        )}
         {chat.isSending && (
           <div className="px-3 pb-2">
             <LoadingIndicator text={labels.loading} />
@@ -129,8 +271,20 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({
             <i className="fas fa-file-alt mr-1" />
             Summarize
           </button>
+          {onManageTemplates && (
+            <button
+              className="btn btn-outline-secondary btn-sm ml-auto"
+              onClick={onManageTemplates}
+              title="Manage message templates (insert with /)"
+            >
+              <i className="fas fa-clipboard-list mr-1" />
+              Templates
+            </button>
+          )}
         </div>
 
+        {scheduled && <ScheduledMessageQueue scheduled={scheduled} currentUserId={config.userId} />}
+
         {/* Message Input */}
         <MessageInput
           onSend={chat.sendMessage}
@@ -139,6 +293,10 @@ export const ConversationViewer: React.FC<ConversationViewerProps> = ({
           buttonLabel={labels.sendButton}
           speechToTextEnabled={config.speechToTextEnabled}
           sectionId={config.sectionId}
+          allowAttachments
+          onTyping={onTyping}
+          onSchedule={scheduled?.schedule}
+          templateSuggestions={templateSuggestions}
         />
       </div>
     </div>
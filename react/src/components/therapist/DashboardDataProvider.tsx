@@ -19,6 +19,7 @@ import type {
   TherapistGroup,
   Draft,
   DashboardStats,
+  RealtimeEvent,
 } from '../../types';
 
 // ---------------------------------------------------------------------------
@@ -33,6 +34,8 @@ interface DashboardState {
   unreadCounts: UnreadCounts;
   groups: TherapistGroup[];
   stats: DashboardStats | null;
+  /** Conversations in which the patient is typing (real-time `typing` events) */
+  typingConversationIds: number[];
   
   // UI State
   selectedConversationId: number | string | null;
@@ -65,6 +68,7 @@ type DashboardAction =
   | { type: 'SET_UNREAD_COUNTS'; payload: UnreadCounts }
   | { type: 'SET_GROUPS'; payload: TherapistGroup[] }
   | { type: 'SET_STATS'; payload: DashboardStats }
+  | { type: 'SET_TYPING_CONVERSATIONS'; payload: number[] }
   | { type: 'SET_SELECTED_CONVERSATION'; payload: number | string | null }
   | { type: 'SET_ACTIVE_GROUP'; payload: number | string | null }
   | { type: 'SET_ACTIVE_FILTER'; payload: 'all' | 'active' | 'critical' | 'unread' }
@@ -75,7 +79,8 @@ type DashboardAction =
   | { type: 'DELETE_NOTE'; payload: number }
   | { type: 'UPDATE_CONVERSATION'; payload: { id: number | string; conversation: Partial<Conversation> } }
   | { type: 'ADD_ALERT'; payload: Alert }
-  | { type: 'MARK_ALERT_READ'; payload: number };
+  | { type: 'MARK_ALERT_READ'; payload: number }
+  | { type: 'MARK_ALL_ALERTS_READ' };
 
 interface DashboardContextValue {
   state: DashboardState;
@@ -99,9 +104,11 @@ interface DashboardContextValue {
     deleteNote: (id: number) => void;
     updateConversation: (id: number | string, conversation: Partial<Conversation>) => void;
     markAlertRead: (alertId: number) => void;
+    markAllAlertsRead: () => Promise<void>;
     
     // Utility
     refresh: () => Promise<void>;
+    handleRealtimeEvent: (event: RealtimeEvent) => Promise<void>;
   };
 }
 
@@ -130,6 +137,7 @@ const initialState: DashboardState = {
   unreadCounts: { total: 0, totalAlerts: 0, bySubject: {} },
   groups: [],
   stats: null,
+  typingConversationIds: [],
   selectedConversationId: null,
   activeGroupId: null,
   activeFilter: 'all',
@@ -169,6 +177,9 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
     case 'SET_STATS':
       return { ...state, stats: action.payload };
     
+    case 'SET_TYPING_CONVERSATIONS':
+      return { ...state, typingConversationIds: action.payload };
+    
     case 'SET_SELECTED_CONVERSATION':
       return { ...state, selectedConversationId: action.payload };
     
@@ -225,6 +236,9 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
           alert.id === action.payload ? { ...alert, is_read: true } : alert
         ),
       };
+
+    case 'MARK_ALL_ALERTS_READ':
+      return { ...state, alerts: state.alerts.map(alert => ({ ...alert, is_read: true })) };
     
     default:
       return state;
@@ -406,6 +420,16 @@ export const DashboardDataProvider: React.FC<DashboardDataProviderProps> = ({
     }
   }, [api]);
 
+  const markAllAlertsRead = useCallback(async () => {
+    dispatch({ type: 'MARK_ALL_ALERTS_READ' });
+    try {
+      await api.markAllAlertsRead();
+    } catch (err) {
+      console.error('Failed to mark all alerts as read:', err);
+    }
+    await Promise.all([loadAlerts(), loadUnreadCounts()]);
+  }, [api, loadAlerts, loadUnreadCounts]);
+
   // ---------------------------------------------------------------------------
   // Utility actions
   // ---------------------------------------------------------------------------
@@ -419,6 +443,33 @@ export const DashboardDataProvider: React.FC<DashboardDataProviderProps> = ({
     ]);
   }, [state.activeGroupId, state.activeFilter, loadConversations, loadAlerts, loadUnreadCounts, loadStats]);
 
+  /** Reload only the data affected by a real-time change event */
+  const handleRealtimeEvent = useCallback(async (event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'message':
+        await Promise.all([
+          loadConversations(state.activeGroupId, state.activeFilter, true),
+          loadUnreadCounts(),
+        ]);
+        break;
+      case 'unread':
+        await loadUnreadCounts();
+        break;
+      case 'alert':
+        await Promise.all([loadAlerts(), loadStats()]);
+        break;
+      case 'conversation':
+        await Promise.all([
+          loadConversations(state.activeGroupId, state.activeFilter, true),
+          loadStats(),
+        ]);
+        break;
+      case 'typing':
+        dispatch({ type: 'SET_TYPING_CONVERSATIONS', payload: event.data.typing_conversations ?? [] });
+        break;
+    }
+  }, [state.activeGroupId, state.activeFilter, loadConversations, loadAlerts, loadUnreadCounts, loadStats]);
+
   // ---------------------------------------------------------------------------
   // Initial data loading (runs once on mount)
   // ---------------------------------------------------------------------------
@@ -468,7 +519,9 @@ export const DashboardDataProvider: React.FC<DashboardDataProviderProps> = ({
       deleteNote,
       updateConversation,
       markAlertRead,
+      markAllAlertsRead,
       refresh,
+      handleRealtimeEvent,
     },
   };
 
@@ -3,9 +3,23 @@
  *
  * Contains ContentEditableDraft subcomponent that avoids React re-render loops
  * by using a ref so React never re-writes the DOM while the user is typing.
+ * The draft is kept as markdown: it is rendered with markdownToHtml and the
+ * edited DOM is serialized back with htmlToMarkdown, so toolbar formatting
+ * (bold, italic, underline, headings, lists, links) is sent to the patient.
+ *
+ * After "Regenerate" every candidate stays available as a tab: its
+ * paragraphs can be copied into the reply one by one, the whole candidate
+ * can replace the reply, and two candidates can be compared side by side.
+ *
+ * The guidance row (instruction, tone, target length) steers the next
+ * generation; each candidate shows the guidance it was generated with.
  */
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
+import { DiffView } from '../shared/DiffView';
+import { candidateText } from '../../hooks/useDraftState';
+import { markdownToHtml, htmlToMarkdown } from '../../utils/markdown';
+import type { Draft, DraftGuidance, DraftTone, DraftLength } from '../../types';
 
 export interface DraftEditorModalProps {
   open: boolean;
@@ -16,6 +30,22 @@ export interface DraftEditorModalProps {
   draftUndoStack: string[];
   hasActiveDraft: boolean;
   subjectName?: string;
+  /** Every generated candidate of this reply */
+  candidates: Draft[];
+  /** Candidate tab being viewed */
+  activeCandidateIndex: number;
+  /** Candidate the reply text is based on */
+  baseCandidateIndex: number;
+  onSelectCandidate: (index: number) => void;
+  /** Replace the reply with a whole candidate */
+  onApplyCandidate: (index: number) => void;
+  /** Append one paragraph of a candidate to the reply */
+  onInsertParagraph: (index: number, paragraph: string) => void;
+  sending?: boolean;
+  sendError?: string | null;
+  /** Guidance for the next generation */
+  guidance: DraftGuidance;
+  onGuidanceChange: (guidance: DraftGuidance) => void;
   onRegenerate: () => void | Promise<void>;
   onUndo: () => void;
   onSend: () => void | Promise<void>;
@@ -24,31 +54,265 @@ export interface DraftEditorModalProps {
   onRetry: () => void | Promise<void>;
 }
 
-/** Simple markdown → HTML for the draft editor initial render */
-function markdownToHtml(md: string): string {
-  if (!md) return '';
-  let html = md
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/^### (.+)$/gm, '<h5>$1</h5>')
-    .replace(/^## (.+)$/gm, '<h4>$1</h4>')
-    .replace(/^# (.+)$/gm, '<h3>$1</h3>')
-    .replace(/^---+$/gm, '<hr/>')
-    .replace(/\*\*\*(.+?)\*\*\*/g, '<strong><em>$1</em></strong>')
-    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.+?)\*/g, '<em>$1</em>')
-    .replace(/`([^`]+)`/g, '<code>$1</code>')
-    .replace(/\n\n/g, '</p><p>')
-    .replace(/\n/g, '<br/>');
-  html = '<p>' + html + '</p>';
-  html = html
-    .replace(/<p><\/p>/g, '')
-    .replace(/<p>(<h[3-5]>)/g, '$1')
-    .replace(/(<\/h[3-5]>)<\/p>/g, '$1');
-  return html;
+const INSTRUCTION_MAX_LENGTH = 500;
+
+const TONES: Array<{ value: DraftTone; label: string }> = [
+  { value: 'warm', label: 'Warm' },
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'direct', label: 'Direct' },
+  { value: 'encouraging', label: 'Encouraging' },
+];
+
+const LENGTHS: Array<{ value: DraftLength; label: string }> = [
+  { value: 'short', label: 'Short' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'long', label: 'Long' },
+];
+
+/** Quick instructions appended to the instruction field */
+const QUICK_INSTRUCTIONS = [
+  'Shorter',
+  'Validate feelings first',
+  'Suggest a breathing exercise',
+  'End with an open question',
+];
+
+/** One-line summary of the guidance a draft was generated with */
+function describeGuidance(guidance?: DraftGuidance | null): string | null {
+  if (!guidance) return null;
+  const parts = [
+    TONES.find((t) => t.value === guidance.tone)?.label,
+    LENGTHS.find((l) => l.value === guidance.length)?.label,
+    guidance.instruction ? `“${guidance.instruction}”` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/** Turn the current block into a heading (## in markdown) or back into a paragraph */
+function toggleHeading() {
+  const current = String(document.queryCommandValue('formatBlock') || '').toLowerCase();
+  document.execCommand('formatBlock', false, /^h[1-6]$/.test(current) ? '<p>' : '<h4>');
 }
 
+/** Link the selected text; only web and mail addresses are accepted */
+function insertLink() {
+  const selection = window.getSelection();
+  const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+  const url = window.prompt('Link address', 'https://');
+  if (!url || !/^(https?:\/\/\S+|mailto:\S+)$/i.test(url.trim())) return;
+  // The prompt may have moved the focus; restore the selection first
+  if (selection && range) {
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+  if (range && range.collapsed) {
+    // Nothing selected: insert the address itself as the link text
+    const link = document.createElement('a');
+    link.href = url.trim();
+    link.textContent = url.trim();
+    document.execCommand('insertHTML', false, link.outerHTML);
+  } else {
+    document.execCommand('createLink', false, url.trim());
+  }
+}
+
+/** Split a draft into paragraphs (blank-line separated) */
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+}
+
+/** Instruction, tone and target length for the next generation */
+const DraftGuidanceForm: React.FC<{
+  guidance: DraftGuidance;
+  onChange: (guidance: DraftGuidance) => void;
+}> = ({ guidance, onChange }) => {
+  const instruction = guidance.instruction ?? '';
+
+  const addQuickInstruction = (text: string) => {
+    const current = instruction.trim();
+    if (current.toLowerCase().includes(text.toLowerCase())) return;
+    onChange({ ...guidance, instruction: current ? `${current}; ${text.toLowerCase()}` : text });
+  };
+
+  return (
+    <div className="tc-draft-guidance mb-2 flex-shrink-0">
+      <div className="d-flex flex-wrap tc-flex-gap-xs">
+        <input
+          type="text"
+          className="form-control form-control-sm tc-draft-guidance__instruction"
+          placeholder="Instruction for the AI, e.g. validate feelings first"
+          value={instruction}
+          maxLength={INSTRUCTION_MAX_LENGTH}
+          onChange={(e) => onChange({ ...guidance, instruction: e.target.value })}
+        />
+        <select
+          className="form-control form-control-sm tc-draft-guidance__select"
+          title="Tone"
+          value={guidance.tone ?? ''}
+          onChange={(e) => onChange({ ...guidance, tone: (e.target.value || undefined) as DraftTone | undefined })}
+        >
+          <option value="">Any tone</option>
+          {TONES.map((t) => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <select
+          className="form-control form-control-sm tc-draft-guidance__select"
+          title="Target length"
+          value={guidance.length ?? ''}
+          onChange={(e) => onChange({ ...guidance, length: (e.target.value || undefined) as DraftLength | undefined })}
+        >
+          <option value="">Any length</option>
+          {LENGTHS.map((l) => (
+            <option key={l.value} value={l.value}>{l.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="mt-1">
+        {QUICK_INSTRUCTIONS.map((text) => (
+          <button
+            key={text}
+            type="button"
+            className="btn btn-light btn-sm border py-0 px-2 mr-1 mb-1 tc-font-xs"
+            onClick={() => addQuickInstruction(text)}
+          >
+            <i className="fas fa-plus mr-1" />
+            {text}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/** Candidate tabs with paragraph picking and side-by-side comparison */
+const DraftCandidates: React.FC<{
+  candidates: Draft[];
+  activeIndex: number;
+  baseIndex: number;
+  onSelect: (index: number) => void;
+  onApply: (index: number) => void;
+  onInsertParagraph: (index: number, paragraph: string) => void;
+}> = ({ candidates, activeIndex, baseIndex, onSelect, onApply, onInsertParagraph }) => {
+  const [comparing, setComparing] = useState(false);
+  const [compareLeft, setCompareLeft] = useState(0);
+  const [compareRight, setCompareRight] = useState(1);
+
+  const startCompare = () => {
+    // Compare the reply's candidate with the tab being viewed (or the newest)
+    const right = activeIndex !== baseIndex ? activeIndex : candidates.length - 1;
+    setCompareLeft(baseIndex !== right ? baseIndex : 0);
+    setCompareRight(right);
+    setComparing(true);
+  };
+
+  const active = candidates[activeIndex];
+  const compareSelect = (value: number, onChange: (v: number) => void) => (
+    <select
+      className="form-control form-control-sm tc-draft-compare-select"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    >
+      {candidates.map((_, i) => (
+        <option key={i} value={i}>Draft {i + 1}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="tc-draft-candidates border rounded mb-2 flex-shrink-0">
+      <ul className="nav nav-tabs px-2 pt-1">
+        {candidates.map((c, i) => (
+          <li key={c.id} className="nav-item">
+            <button
+              type="button"
+              className={`nav-link btn-link py-1 px-2 small ${!comparing && i === activeIndex ? 'active' : ''}`}
+              onClick={() => { setComparing(false); onSelect(i); }}
+              title={[i === baseIndex ? 'Your reply is based on this draft' : null, describeGuidance(c.guidance)]
+                .filter(Boolean).join('\n') || undefined}
+            >
+              Draft {i + 1}
+              {i === baseIndex && <i className="fas fa-check ml-1 text-success" />}
+            </button>
+          </li>
+        ))}
+        <li className="nav-item ml-auto">
+          <button
+            type="button"
+            className={`nav-link btn-link py-1 px-2 small ${comparing ? 'active' : ''}`}
+            onClick={startCompare}
+          >
+            <i className="fas fa-columns mr-1" />
+            Compare
+          </button>
+        </li>
+      </ul>
+
+      <div className="tc-draft-candidates__body p-2">
+        {comparing ? (
+          <>
+            <div className="row no-gutters mb-1">
+              <div className="col-6 pr-1">{compareSelect(compareLeft, setCompareLeft)}</div>
+              <div className="col-6 pl-1">{compareSelect(compareRight, setCompareRight)}</div>
+            </div>
+            <div className="row no-gutters small">
+              <div className="col-6 pr-1">
+                <DiffView
+                  before={candidateText(candidates[compareLeft])}
+                  after={candidateText(candidates[compareRight])}
+                  side="before"
+                  className="tc-draft-compare-pane border rounded p-2"
+                />
+              </div>
+              <div className="col-6 pl-1">
+                <DiffView
+                  before={candidateText(candidates[compareLeft])}
+                  after={candidateText(candidates[compareRight])}
+                  side="after"
+                  className="tc-draft-compare-pane border rounded p-2"
+                />
+              </div>
+            </div>
+          </>
+        ) : active && (
+          <>
+            {describeGuidance(active.guidance) && (
+              <div className="small text-muted mb-1">
+                <i className="fas fa-sliders-h mr-1" />
+                {describeGuidance(active.guidance)}
+              </div>
+            )}
+            <div className="d-flex justify-content-between align-items-center mb-1">
+              <small className="text-muted">Click + to append a paragraph to your reply.</small>
+              <button
+                type="button"
+                className="btn btn-outline-secondary btn-sm py-0"
+                onClick={() => onApply(activeIndex)}
+                title="Replace your reply with this draft (undo restores it)"
+              >
+                Use this draft
+              </button>
+            </div>
+            {splitParagraphs(candidateText(active)).map((paragraph, i) => (
+              <div key={i} className="tc-draft-paragraph d-flex align-items-start small mb-1">
+                <button
+                  type="button"
+                  className="btn btn-link btn-sm p-0 mr-2 text-success"
+                  title="Append this paragraph to your reply"
+                  onClick={() => onInsertParagraph(activeIndex, paragraph)}
+                >
+                  <i className="fas fa-plus-circle" />
+                </button>
+                <span className="tc-draft-paragraph__text">{paragraph}</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
 /** ContentEditable wrapper that avoids React re-render loops */
 const ContentEditableDraft: React.FC<{
   value: string;
@@ -72,7 +336,7 @@ const ContentEditableDraft: React.FC<{
       suppressContentEditableWarning
       onInput={() => {
         if (elRef.current) {
-          const text = elRef.current.innerText;
+          const text = htmlToMarkdown(elRef.current);
           internalRef.current = text;
           onChange(text);
         }
@@ -90,6 +354,16 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
   draftUndoStack,
   hasActiveDraft,
   subjectName,
+  candidates,
+  activeCandidateIndex,
+  baseCandidateIndex,
+  onSelectCandidate,
+  onApplyCandidate,
+  onInsertParagraph,
+  sending = false,
+  sendError = null,
+  guidance,
+  onGuidanceChange,
   onRegenerate,
   onUndo,
   onSend,
@@ -142,7 +416,14 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
               <p className="text-muted small mb-2 flex-shrink-0">
                 <i className="fas fa-info-circle mr-1" />
                 Review and edit the AI-generated response before sending it to the patient.
+                {candidates.length === 1 && describeGuidance(candidates[0].guidance) && (
+                  <span className="d-block mt-1">
+                    <i className="fas fa-sliders-h mr-1" />
+                    Generated with: {describeGuidance(candidates[0].guidance)}
+                  </span>
+                )}
               </p>
+              <DraftGuidanceForm guidance={guidance} onChange={onGuidanceChange} />
               <div className="d-flex justify-content-between mb-2 flex-shrink-0 flex-wrap tc-flex-gap-sm">
                 <div className="btn-toolbar" role="toolbar">
                   <div className="btn-group btn-group-sm mr-2">
@@ -179,6 +460,28 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
                     >
                       <i className="fas fa-underline" />
                     </button>
+                    <button
+                      type="button"
+                      className="btn btn-outline-secondary"
+                      title="Heading"
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        toggleHeading();
+                      }}
+                    >
+                      <i className="fas fa-heading" />
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn-outline-secondary"
+                      title="Link"
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        insertLink();
+                      }}
+                    >
+                      <i className="fas fa-link" />
+                    </button>
                   </div>
                   <div className="btn-group btn-group-sm mr-2">
                     <button
@@ -223,7 +526,7 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
                     <button
                       type="button"
                       className="btn btn-outline-warning btn-sm"
-                      title="Undo: restore the previous draft before last regeneration"
+                      title="Undo: restore the reply before the last change from a draft"
                       onClick={onUndo}
                     >
                       <i className="fas fa-undo mr-1" />
@@ -233,7 +536,7 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
                   <button
                     type="button"
                     className="btn btn-outline-info btn-sm"
-                    title="Regenerate a new AI draft (current text will be saved for undo)"
+                    title="Generate another AI draft with the guidance above (earlier drafts stay available as tabs)"
                     onClick={onRegenerate}
                   >
                     <i className="fas fa-sync-alt mr-1" />
@@ -241,6 +544,22 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
                   </button>
                 </div>
               </div>
+              {candidates.length > 1 && (
+                <DraftCandidates
+                  candidates={candidates}
+                  activeIndex={activeCandidateIndex}
+                  baseIndex={baseCandidateIndex}
+                  onSelect={onSelectCandidate}
+                  onApply={onApplyCandidate}
+                  onInsertParagraph={onInsertParagraph}
+                />
+              )}
+              {sendError && (
+                <div className="alert alert-danger py-2 small flex-shrink-0">
+                  <i className="fas fa-exclamation-triangle mr-1" />
+                  {sendError}
+                </div>
+              )}
               <ContentEditableDraft value={draftText} onChange={onDraftTextChange} />
               <div className="d-flex justify-content-between mt-2 flex-shrink-0">
                 <small className="text-muted">{draftText.length} characters</small>
@@ -260,9 +579,9 @@ export const DraftEditorModal: React.FC<DraftEditorModalProps> = ({
           <button
             className="btn btn-primary"
             onClick={onSend}
-            disabled={draftGenerating || !draftText.trim() || !!draftError}
+            disabled={draftGenerating || sending || !draftText.trim() || !!draftError}
           >
-            <i className="fas fa-paper-plane mr-1" />
+            <i className={`fas ${sending ? 'fa-spinner fa-spin' : 'fa-paper-plane'} mr-1`} />
             Send to Patient
           </button>
         </div>
@@ -0,0 +1,185 @@
+/**
+ * GlobalSearchPanel Component
+ * ===========================
+ *
+ * Dashboard-wide message search across all patients of the therapist's
+ * groups. Results are grouped by patient; clicking a match opens the
+ * conversation scrolled to that message.
+ */
+
+import React, { useState } from 'react';
+import { HighlightedText } from '../shared/HighlightedText';
+import type { GlobalSearchState } from '../../hooks/useGlobalSearch';
+import type {
+  MessageSearchGroup,
+  MessageSearchHit,
+  SenderType,
+  TherapistDashboardLabels,
+  TherapistGroup,
+} from '../../types';
+
+interface GlobalSearchPanelProps {
+  search: GlobalSearchState;
+  groups: TherapistGroup[];
+  labels: TherapistDashboardLabels;
+  onSelectResult: (group: MessageSearchGroup, hit: MessageSearchHit) => void;
+}
+
+function formatDateTime(ts: string): string {
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  const day = String(d.getDate()).padStart(2, '0');
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${day}.${mon}.${d.getFullYear()} ${hh}:${mm}`;
+}
+
+export const GlobalSearchPanel: React.FC<GlobalSearchPanelProps> = ({ search, groups, labels, onSelectResult }) => {
+  const { filters, setFilter, isActive, results, total, truncated, isSearching, error } = search;
+  // Results collapse after a pick and reopen when the input is used again
+  const [expanded, setExpanded] = useState(true);
+
+  const senderLabel = (type: SenderType): string => {
+    switch (type) {
+      case 'ai': return labels.aiLabel;
+      case 'therapist': return labels.therapistLabel;
+      case 'system': return 'System';
+      default: return labels.subjectLabel;
+    }
+  };
+
+  const close = () => {
+    search.reset();
+    setExpanded(true);
+  };
+
+  return (
+    <div className="tc-global-search card border-0 shadow-sm mb-3">
+      <div className="card-body py-2 px-3">
+        <div className="d-flex align-items-center flex-wrap tc-flex-gap-sm">
+          <div className="input-group input-group-sm tc-global-search__input">
+            <div className="input-group-prepend">
+              <span className="input-group-text bg-white"><i className="fas fa-search" /></span>
+            </div>
+            <input
+              type="search"
+              className="form-control"
+              placeholder="Search messages of all patients…"
+              value={filters.query}
+              onFocus={() => setExpanded(true)}
+              onChange={(e) => {
+                setExpanded(true);
+                setFilter('query', e.target.value);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') close();
+              }}
+            />
+          </div>
+          {groups.length > 1 && (
+            <select
+              className="custom-select custom-select-sm w-auto"
+              value={filters.groupId != null ? String(filters.groupId) : ''}
+              onChange={(e) => setFilter('groupId', e.target.value || null)}
+            >
+              <option value="">{labels.allGroupsTab}</option>
+              {groups.map((g) => (
+                <option key={g.id_groups} value={String(g.id_groups)}>{g.group_name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            className="custom-select custom-select-sm w-auto"
+            value={filters.senderType}
+            onChange={(e) => setFilter('senderType', e.target.value as SenderType | 'all')}
+          >
+            <option value="all">All senders</option>
+            <option value="subject">{labels.subjectLabel}</option>
+            <option value="therapist">{labels.therapistLabel}</option>
+            <option value="ai">{labels.aiLabel}</option>
+            <option value="system">System</option>
+          </select>
+          <label className="mb-0 small text-muted" htmlFor="tc-global-search-from">From</label>
+          <input
+            id="tc-global-search-from"
+            type="date"
+            className="form-control form-control-sm w-auto"
+            value={filters.dateFrom}
+            max={filters.dateTo || undefined}
+            onChange={(e) => setFilter('dateFrom', e.target.value)}
+          />
+          <label className="mb-0 small text-muted" htmlFor="tc-global-search-to">To</label>
+          <input
+            id="tc-global-search-to"
+            type="date"
+            className="form-control form-control-sm w-auto"
+            value={filters.dateTo}
+            min={filters.dateFrom || undefined}
+            onChange={(e) => setFilter('dateTo', e.target.value)}
+          />
+          {isActive && (
+            <button type="button" className="close ml-auto" title="Clear search" onClick={close}>
+              <span>&times;</span>
+            </button>
+          )}
+        </div>
+
+        {isActive && expanded && (
+          <div className="tc-global-search__results mt-2">
+            {isSearching && results.length === 0 ? (
+              <div className="text-muted small py-2">
+                <span className="spinner-border spinner-border-sm mr-2" role="status" />Searching…
+              </div>
+            ) : error ? (
+              <div className="text-danger small py-2">{error}</div>
+            ) : results.length === 0 ? (
+              <div className="text-muted small py-2">No messages found</div>
+            ) : (
+              <>
+                <small className="text-muted d-block mb-1">
+                  {total} {total === 1 ? 'message' : 'messages'} from {results.length} {results.length === 1 ? 'patient' : 'patients'}
+                  {truncated && ' – showing the most recent matches, refine the search to see more'}
+                  {isSearching && <span className="spinner-border spinner-border-sm ml-2" role="status" />}
+                </small>
+                {results.map((group) => (
+                  <div key={group.conversation_id} className="tc-global-search__group">
+                    <div className="tc-global-search__patient small font-weight-bold">
+                      <i className="fas fa-user mr-1 text-muted" />
+                      {group.subject_name || 'Unknown'}
+                      {group.subject_code && <span className="text-muted font-weight-normal ml-1">{group.subject_code}</span>}
+                      <span className="badge badge-light ml-2">{group.matches.length}</span>
+                    </div>
+                    <div className="list-group list-group-flush">
+                      {group.matches.map((hit) => (
+                        <button
+                          key={hit.message_id}
+                          type="button"
+                          className="list-group-item list-group-item-action py-1 px-2"
+                          onClick={() => {
+                            setExpanded(false);
+                            onSelectResult(group, hit);
+                          }}
+                        >
+                          <div className="d-flex justify-content-between small text-muted">
+                            <span>{senderLabel(hit.sender_type)}</span>
+                            <span>{formatDateTime(hit.timestamp)}</span>
+                          </div>
+                          <div className="small tc-global-search__snippet">
+                            <HighlightedText text={hit.snippet} query={filters.query} />
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlobalSearchPanel;
@@ -2,7 +2,7 @@
  * Header Area Component
  * =====================
  *
- * Container for the dashboard header with stats, alerts, and group tabs.
+ * Container for the dashboard header with stats, search, alerts, and group tabs.
  */
 
 import React from 'react';
@@ -11,6 +11,8 @@ import type { ReactNode } from 'react';
 export interface HeaderAreaProps {
   /** Stats header component */
   statsHeader: ReactNode;
+  /** Cross-patient message search */
+  searchPanel?: ReactNode;
   /** Alert banner component */
   alertBanner?: ReactNode;
   /** Group tabs component */
@@ -24,6 +26,7 @@ export interface HeaderAreaProps {
  */
 export const HeaderArea: React.FC<HeaderAreaProps> = ({
   statsHeader,
+  searchPanel,
   alertBanner,
   groupTabs,
   className = '',
@@ -31,6 +34,7 @@ export const HeaderArea: React.FC<HeaderAreaProps> = ({
   return (
     <div className={`tc-header-area ${className}`}>
       {statsHeader}
+      {searchPanel}
       {alertBanner}
       {groupTabs && (
         <div className="mb-3">
@@ -0,0 +1,131 @@
+/**
+ * MessageSearchBar Component
+ * ==========================
+ *
+ * Search bar shown under the conversation header: query, sender and date
+ * filters, match counter and older/newer navigation.
+ *
+ * Keyboard: Enter = older match, Shift+Enter = newer match, Esc = close.
+ */
+
+import React from 'react';
+import type { MessageSearchState } from '../../hooks/useMessageSearch';
+import type { SenderType, TherapistDashboardLabels } from '../../types';
+
+interface MessageSearchBarProps {
+  search: MessageSearchState;
+  hasMore: boolean;
+  labels: TherapistDashboardLabels;
+  onClose: () => void;
+}
+
+export const MessageSearchBar: React.FC<MessageSearchBarProps> = ({ search, hasMore, labels, onClose }) => {
+  const { filters, setFilter, isActive, matches, activeIndex, isSearchingOlder } = search;
+
+  const counter = !isActive
+    ? ''
+    : matches.length === 0
+      ? 'No matches'
+      : `${activeIndex + 1} / ${matches.length}${hasMore ? '+' : ''}`;
+
+  return (
+    <div className="tc-search-bar border-bottom bg-light px-3 py-2">
+      <div className="d-flex align-items-center tc-flex-gap-sm">
+        <div className="input-group input-group-sm flex-grow-1">
+          <div className="input-group-prepend">
+            <span className="input-group-text bg-white"><i className="fas fa-search" /></span>
+          </div>
+          <input
+            type="search"
+            className="form-control"
+            placeholder="Search messages…"
+            value={filters.query}
+            autoFocus
+            onChange={(e) => setFilter('query', e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onClose();
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                if (e.shiftKey) search.next();
+                else search.prev();
+              }
+            }}
+          />
+        </div>
+
+        <small className="text-muted text-nowrap tc-search-bar__counter">
+          {isSearchingOlder ? <span className="spinner-border spinner-border-sm" role="status" /> : counter}
+        </small>
+
+        <div className="btn-group btn-group-sm">
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            title="Older match (Enter)"
+            disabled={!isActive || !search.canPrev || isSearchingOlder}
+            onClick={search.prev}
+          >
+            <i className="fas fa-chevron-up" />
+          </button>
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            title="Newer match (Shift+Enter)"
+            disabled={!isActive || !search.canNext}
+            onClick={search.next}
+          >
+            <i className="fas fa-chevron-down" />
+          </button>
+        </div>
+
+        <button type="button" className="close ml-1" title="Close search" onClick={onClose}>
+          <span>&times;</span>
+        </button>
+      </div>
+
+      <div className="d-flex align-items-center flex-wrap tc-flex-gap-sm mt-2">
+        <select
+          className="custom-select custom-select-sm w-auto"
+          value={filters.senderType}
+          onChange={(e) => setFilter('senderType', e.target.value as SenderType | 'all')}
+        >
+          <option value="all">All senders</option>
+          <option value="subject">{labels.subjectLabel}</option>
+          <option value="therapist">{labels.therapistLabel}</option>
+          <option value="ai">{labels.aiLabel}</option>
+          <option value="system">System</option>
+        </select>
+        <label className="mb-0 small text-muted" htmlFor="tc-search-from">From</label>
+        <input
+          id="tc-search-from"
+          type="date"
+          className="form-control form-control-sm w-auto"
+          value={filters.dateFrom}
+          max={filters.dateTo || undefined}
+          onChange={(e) => setFilter('dateFrom', e.target.value)}
+        />
+        <label className="mb-0 small text-muted" htmlFor="tc-search-to">To</label>
+        <input
+          id="tc-search-to"
+          type="date"
+          className="form-control form-control-sm w-auto"
+          value={filters.dateTo}
+          min={filters.dateFrom || undefined}
+          onChange={(e) => setFilter('dateTo', e.target.value)}
+        />
+        {isActive && matches.length === 0 && hasMore && (
+          <button
+            type="button"
+            className="btn btn-link btn-sm p-0"
+            disabled={isSearchingOlder}
+            onClick={search.searchOlder}
+          >
+            <i className="fas fa-history mr-1" />Search older messages
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearchBar;
@@ -0,0 +1,176 @@
+/**
+ * NoteHistoryDrawer – revision history of a clinical note
+ *
+ * Opens below the note in the NotesPanel. Lists every saved version with
+ * its author and timestamp; the selected version is shown as a word-level
+ * diff against the previous version (or any other chosen version). Older
+ * versions can be restored, which saves them as a new revision.
+ */
+
+/* global $ -- jQuery + jquery-confirm loaded by SelfHelp host page */
+declare const $: any;
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { DiffView } from '../shared/DiffView';
+import type { NoteHistory, NoteVersion } from '../../types';
+
+export interface NoteHistoryDrawerProps {
+  noteId: number;
+  loadHistory: (noteId: number) => Promise<NoteHistory>;
+  onRestore: (version: NoteVersion) => Promise<boolean>;
+  onClose: () => void;
+}
+
+function formatDateTime(ts?: string | null): string {
+  if (!ts) return '';
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  const day = String(d.getDate()).padStart(2, '0');
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${day}.${mon}.${d.getFullYear()} ${hh}:${mm}`;
+}
+
+export const NoteHistoryDrawer: React.FC<NoteHistoryDrawerProps> = ({ noteId, loadHistory, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  /** Version shown in the diff (defaults to the current one) */
+  const [selected, setSelected] = useState<number | null>(null);
+  /** Version it is compared with (defaults to the one before) */
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const history = await loadHistory(noteId);
+      setVersions(history.versions);
+      setSelected(null);
+      setCompareTo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load note history');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadHistory, noteId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const current = versions[versions.length - 1];
+  const shown = versions.find((v) => v.version === selected) ?? current;
+  const previous = shown
+    ? versions.find((v) => v.version === (compareTo ?? shown.version - 1))
+    : undefined;
+
+  const confirmRestore = (version: NoteVersion) => {
+    ($ as any).confirm({
+      title: 'Restore Version',
+      content: `Replace the current note with version ${version.version}? The current text stays in the history.`,
+      type: 'orange',
+      buttons: {
+        confirm: {
+          text: 'Restore',
+          btnClass: 'btn-warning',
+          action: async () => {
+            setRestoring(true);
+            const ok = await onRestore(version);
+            setRestoring(false);
+            if (ok) load();
+            else setError('Failed to restore version');
+          },
+        },
+        cancel: { text: 'Cancel' },
+      },
+    });
+  };
+
+  return (
+    <div className="tc-note-history border-top mt-2 pt-2">
+      <div className="d-flex align-items-center mb-1">
+        <small className="font-weight-bold">
+          <i className="fas fa-history mr-1" />
+          Note history
+        </small>
+        <button type="button" className="close ml-auto tc-font-sm" title="Close history" onClick={onClose}>
+          <span>&times;</span>
+        </button>
+      </div>
+
+      {loading && (
+        <div className="text-center text-muted py-2">
+          <div className="spinner-border spinner-border-sm" role="status" />
+        </div>
+      )}
+      {error && <div className="alert alert-danger py-1 px-2 mb-1 small">{error}</div>}
+
+      {!loading && shown && (
+        <>
+          <div className="list-group list-group-flush mb-2 tc-note-history__list">
+            {[...versions].reverse().map((v) => (
+              <button
+                key={v.version}
+                type="button"
+                className={`list-group-item list-group-item-action py-1 px-2 tc-font-xs${v.version === shown.version ? ' active' : ''}`}
+                onClick={() => { setSelected(v.version); setCompareTo(null); }}
+              >
+                <span className="font-weight-bold mr-1">
+                  {v.is_original ? 'Created' : `Version ${v.version}`}
+                </span>
+                {v.user_name && <span>· {v.user_name}</span>}
+                {v === current && <span className="badge badge-light border ml-1">Current</span>}
+                <span className="float-right">{formatDateTime(v.timestamp)}</span>
+              </button>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <div className="d-flex align-items-center mb-1 tc-flex-gap-sm">
+              <small className="text-muted text-nowrap">Compare with</small>
+              <select
+                className="form-control form-control-sm"
+                value={previous?.version ?? ''}
+                onChange={(e) => setCompareTo(e.target.value ? Number(e.target.value) : null)}
+              >
+                {!previous && <option value="">Nothing</option>}
+                {versions
+                  .filter((v) => v.version !== shown.version)
+                  .map((v) => (
+                    <option key={v.version} value={v.version}>
+                      Version {v.version}{v === current ? ' (current)' : ''}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+
+          <div className="border rounded bg-white p-2 small tc-note-history__diff">
+            {previous ? (
+              <DiffView before={previous.content} after={shown.content} />
+            ) : (
+              <div className="tc-diff">{shown.content}</div>
+            )}
+          </div>
+
+          {shown !== current && (
+            <button
+              type="button"
+              className="btn btn-outline-warning btn-sm py-0 px-2 mt-2"
+              onClick={() => confirmRestore(shown)}
+              disabled={restoring}
+            >
+              {restoring ? <i className="fas fa-spinner fa-spin mr-1" /> : <i className="fas fa-undo mr-1" />}
+              Restore this version
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NoteHistoryDrawer;
@@ -0,0 +1,86 @@
+/**
+ * NoteTagInput – tag chips with a text field and suggested tags
+ *
+ * A tag is added with Enter or a comma; Backspace in the empty field
+ * removes the last tag. Suggestions not yet used are shown as buttons.
+ */
+
+import React, { useState } from 'react';
+import { NOTE_MAX_TAGS, NOTE_TAG_MAX_LENGTH, normalizeTag } from '../../utils/noteFilters';
+
+export interface NoteTagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+}
+
+export const NoteTagInput: React.FC<NoteTagInputProps> = ({ tags, onChange, suggestions = [] }) => {
+  const [input, setInput] = useState('');
+  const full = tags.length >= NOTE_MAX_TAGS;
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag) && !full) onChange([...tags, tag]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const unused = suggestions.filter((s) => !tags.includes(s));
+
+  return (
+    <div className="tc-note-tags-input mb-2">
+      <div className="d-flex flex-wrap align-items-center tc-flex-gap-xs">
+        {tags.map((tag) => (
+          <span key={tag} className="badge badge-info tc-note-tag">
+            {tag}
+            <button
+              type="button"
+              className="btn btn-link p-0 ml-1 text-white tc-font-xs"
+              title={`Remove tag "${tag}"`}
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+            >
+              <i className="fas fa-times" />
+            </button>
+          </span>
+        ))}
+        {!full && (
+          <input
+            type="text"
+            className="form-control form-control-sm tc-note-tags-input__field"
+            value={input}
+            maxLength={NOTE_TAG_MAX_LENGTH}
+            placeholder={tags.length === 0 ? 'Add tags…' : ''}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => input.trim() && addTag(input)}
+          />
+        )}
+      </div>
+      {!full && unused.length > 0 && (
+        <div className="mt-1">
+          {unused.map((s) => (
+            <button
+              key={s}
+              type="button"
+              className="btn btn-outline-secondary btn-sm py-0 px-1 mr-1 mb-1 tc-font-xs"
+              onClick={() => addTag(s)}
+            >
+              <i className="fas fa-plus mr-1" />
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteTagInput;
@@ -0,0 +1,56 @@
+/**
+ * NoteTemplateForm – section fields of a structured clinical note
+ * (SOAP, DAP, risk assessment) and the matching read-only view.
+ *
+ * Templates come from the dashboard config (THERAPY_NOTE_TEMPLATES); the
+ * server renders the sections to markdown for the note's content.
+ */
+
+import React from 'react';
+import { MarkdownRenderer } from '../shared/MarkdownRenderer';
+import type { NoteTemplate } from '../../types';
+
+export interface NoteTemplateFormProps {
+  template: NoteTemplate;
+  sections: Record<string, string>;
+  onChange: (sections: Record<string, string>) => void;
+  rows?: number;
+}
+
+export const NoteTemplateForm: React.FC<NoteTemplateFormProps> = ({ template, sections, onChange, rows = 2 }) => (
+  <div className="tc-note-template-form">
+    {template.sections.map((section) => (
+      <div key={section.key} className="form-group mb-2">
+        <label className="small font-weight-bold mb-0">{section.label}</label>
+        <textarea
+          className="form-control form-control-sm"
+          rows={rows}
+          value={sections[section.key] ?? ''}
+          placeholder={section.hint}
+          onChange={(e) => onChange({ ...sections, [section.key]: e.target.value })}
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export interface StructuredNoteViewProps {
+  template: NoteTemplate;
+  sections: Record<string, string>;
+}
+
+/** Sections of a structured note, empty sections omitted */
+export const StructuredNoteView: React.FC<StructuredNoteViewProps> = ({ template, sections }) => (
+  <div className="tc-structured-note">
+    {template.sections
+      .filter((section) => (sections[section.key] ?? '').trim() !== '')
+      .map((section) => (
+        <div key={section.key} className="tc-structured-note__section">
+          <div className="tc-structured-note__label">{section.label}</div>
+          <MarkdownRenderer content={sections[section.key]} />
+        </div>
+      ))}
+  </div>
+);
+
+export default NoteTemplateForm;
@@ -1,147 +1,357 @@
 /**
  * NotesPanel – Clinical notes sidebar with list, add, edit, delete
+ *
+ * Notes are free text or follow a structured template (SOAP, DAP, risk
+ * assessment) chosen in the footer; structured notes are edited and shown
+ * section by section.
+ *
+ * Pinned notes stay at the top. The list can be filtered by tag, author
+ * and note type; clicking a tag on a note filters by that tag. The
+ * history button opens the note's revisions below it.
  */
 
 /* global $ -- jQuery + jquery-confirm loaded by SelfHelp host page */
 declare const $: any;
 
-import React from 'react';
+import React, { useState } from 'react';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
-import type { Note } from '../../types';
+import { NoteTemplateForm, StructuredNoteView } from './NoteTemplateForm';
+import { NoteTagInput } from './NoteTagInput';
+import { NoteHistoryDrawer } from './NoteHistoryDrawer';
+import { emptySections, findNoteTemplate, hasSectionText } from '../../utils/noteTemplates';
+import {
+  EMPTY_NOTE_FILTER,
+  filterNotes,
+  isNoteFilterActive,
+  noteFilterOptions,
+  sortNotes,
+  type NoteFilter,
+} from '../../utils/noteFilters';
+import type { Note, NoteHistory, NoteTemplate, NoteType, NoteVersion } from '../../types';
 import type { TherapistDashboardLabels } from '../../types';
 
 export interface NotesPanelProps {
   notes: Note[];
+  /** Structured note formats; the template select is hidden when empty */
+  noteTemplates?: NoteTemplate[];
   newNote: string;
   onNewNoteChange: (value: string) => void;
+  newNoteTemplate?: string | null;
+  onNewNoteTemplateChange?: (template: string | null) => void;
+  newNoteSections?: Record<string, string>;
+  onNewNoteSectionsChange?: (sections: Record<string, string>) => void;
+  /** Tags offered in the tag input */
+  noteTagSuggestions?: string[];
+  newNoteTags?: string[];
+  onNewNoteTagsChange?: (tags: string[]) => void;
   onAddNote: () => void | Promise<void>;
   editingNoteId: number | null;
   editingNoteText: string;
-  onEditStart: (noteId: number, text: string) => void;
+  editingNoteTemplate?: string | null;
+  editingNoteSections?: Record<string, string>;
+  editingNoteTags?: string[];
+  onEditStart: (note: Note) => void;
   onEditCancel: () => void;
   onEditTextChange: (value: string) => void;
+  onEditSectionsChange?: (sections: Record<string, string>) => void;
+  onEditTagsChange?: (tags: string[]) => void;
   onEditSave: () => void | Promise<void>;
   onDeleteNote: (noteId: number) => void | Promise<void>;
+  /** Pin / unpin; the pin button is hidden when not given */
+  onTogglePin?: (note: Note) => void | Promise<void>;
+  /** Revision history; the history button is hidden when not given */
+  loadNoteHistory?: (noteId: number) => Promise<NoteHistory>;
+  onRestoreVersion?: (note: Note, version: NoteVersion) => Promise<boolean>;
   labels: TherapistDashboardLabels;
 }
 
 export const NotesPanel: React.FC<NotesPanelProps> = ({
   notes,
+  noteTemplates = [],
   newNote,
   onNewNoteChange,
+  newNoteTemplate = null,
+  onNewNoteTemplateChange,
+  newNoteSections = {},
+  onNewNoteSectionsChange,
+  noteTagSuggestions = [],
+  newNoteTags = [],
+  onNewNoteTagsChange,
   onAddNote,
   editingNoteId,
   editingNoteText,
+  editingNoteTemplate = null,
+  editingNoteSections = {},
+  editingNoteTags = [],
   onEditStart,
   onEditCancel,
   onEditTextChange,
+  onEditSectionsChange,
+  onEditTagsChange,
   onEditSave,
   onDeleteNote,
+  onTogglePin,
+  loadNoteHistory,
+  onRestoreVersion,
   labels,
-}) => (
-  <div className="card border-0 shadow-sm">
-    <div className="card-header bg-light py-2">
-      <h6 className="mb-0">
-        <i className="fas fa-sticky-note mr-2" />
-        {labels.notesHeading}
-      </h6>
-    </div>
-    <div className="card-body p-2 tc-notes-list">
-      {notes.length === 0 ? (
-        <p className="text-muted text-center mb-0 small">No notes yet.</p>
-      ) : (
-        notes.map((n) => (
-          <div key={n.id} className="tc-note-item mb-2 p-2 rounded">
-            <div className="d-flex justify-content-between text-muted mb-1">
-              <small className="font-weight-bold">{n.author_name}</small>
-              <div className="d-flex align-items-center tc-flex-gap-sm">
-                <small>{new Date(n.created_at).toLocaleDateString()}</small>
-                <button
-                  className="btn btn-link btn-sm p-0 text-muted"
-                  title="Edit note"
-                  onClick={() => onEditStart(n.id, n.content)}
-                >
-                  <i className="fas fa-pencil-alt tc-font-sm" />
-                </button>
+}) => {
+  const [filter, setFilter] = useState<NoteFilter>(EMPTY_NOTE_FILTER);
+  const [historyNoteId, setHistoryNoteId] = useState<number | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const options = noteFilterOptions(notes);
+  const filtering = isNoteFilterActive(filter);
+  const visibleNotes = sortNotes(filterNotes(notes, filter));
+  const tagSuggestions = [...new Set([...noteTagSuggestions, ...options.tags])];
+
+  const newTemplate = findNoteTemplate(noteTemplates, newNoteTemplate);
+  const editTemplate = findNoteTemplate(noteTemplates, editingNoteTemplate);
+  const canAdd = newTemplate ? hasSectionText(newNoteSections) : !!newNote.trim();
+  const canSave = editTemplate ? hasSectionText(editingNoteSections) : !!editingNoteText.trim();
+
+  return (
+    <div className="card border-0 shadow-sm">
+      <div className="card-header bg-light py-2">
+        <div className="d-flex justify-content-between align-items-center">
+          <h6 className="mb-0">
+            <i className="fas fa-sticky-note mr-2" />
+            {labels.notesHeading}
+          </h6>
+          {notes.length > 0 && (
+            <button
+              className={`btn btn-link btn-sm p-0 ${filtering ? 'text-primary' : 'text-muted'}`}
+              title="Filter notes"
+              onClick={() => setShowFilters((v) => !v)}
+            >
+              <i className="fas fa-filter tc-font-sm" />
+            </button>
+          )}
+        </div>
+        {(showFilters || filtering) && notes.length > 0 && (
+          <div className="mt-2 tc-note-filters">
+            <select
+              className="form-control form-control-sm mb-1"
+              value={filter.tag ?? ''}
+              onChange={(e) => setFilter({ ...filter, tag: e.target.value || null })}
+            >
+              <option value="">All tags</option>
+              {options.tags.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <select
+              className="form-control form-control-sm mb-1"
+              value={filter.author ?? ''}
+              onChange={(e) => setFilter({ ...filter, author: e.target.value || null })}
+            >
+              <option value="">All authors</option>
+              {options.authors.map((a) => <option key={a} value={a}>{a}</option>)}
+            </select>
+            <select
+              className="form-control form-control-sm mb-1"
+              value={filter.type ?? ''}
+              onChange={(e) => setFilter({ ...filter, type: (e.target.value || null) as NoteType | null })}
+            >
+              <option value="">All note types</option>
+              {options.types.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+            {filtering && (
+              <small className="text-muted">
+                {visibleNotes.length} of {notes.length} notes
                 <button
-                  className="btn btn-link btn-sm p-0 text-danger"
-                  title="Delete note"
-                  onClick={() => {
-                    ($ as any).confirm({
-                      title: 'Delete Note',
-                      content: 'Are you sure you want to delete this note?',
-                      type: 'red',
-                      buttons: {
-                        confirm: {
-                          text: 'Delete',
-                          btnClass: 'btn-danger',
-                          action: () => onDeleteNote(n.id),
-                        },
-                        cancel: { text: 'Cancel' },
-                      },
-                    });
-                  }}
+                  className="btn btn-link btn-sm p-0 ml-2 align-baseline tc-font-xs"
+                  onClick={() => setFilter(EMPTY_NOTE_FILTER)}
                 >
-                  <i className="fas fa-trash-alt tc-font-sm" />
+                  Clear filters
                 </button>
-              </div>
-            </div>
-            {editingNoteId === n.id ? (
-              <div>
-                <textarea
-                  className="form-control form-control-sm mb-1"
-                  rows={2}
-                  value={editingNoteText}
-                  onChange={(e) => onEditTextChange(e.target.value)}
-                />
-                <div className="d-flex tc-flex-gap-xs">
-                  <button
-                    className="btn btn-primary btn-sm py-0 px-2"
-                    onClick={onEditSave}
-                    disabled={!editingNoteText.trim()}
-                  >
-                    Save
-                  </button>
-                  <button className="btn btn-outline-secondary btn-sm py-0 px-2" onClick={onEditCancel}>
-                    Cancel
-                  </button>
-                </div>
-              </div>
-            ) : (
-              <>
-                <div className="mb-0 small tc-markdown tc-note-content">
-                  <MarkdownRenderer content={n.content} />
-                </div>
-                {n.last_edited_by_name && (
-                  <small className="text-muted tc-font-xs">
-                    <i className="fas fa-edit mr-1" />
-                    Last edited by {n.last_edited_by_name}
-                  </small>
-                )}
-              </>
+              </small>
             )}
           </div>
-        ))
-      )}
-    </div>
-    <div className="card-footer bg-white p-2">
-      <textarea
-        className="form-control form-control-sm mb-2"
-        rows={2}
-        value={newNote}
-        onChange={(e) => onNewNoteChange(e.target.value)}
-        placeholder={labels.addNotePlaceholder}
-      />
-      <button
-        className="btn btn-outline-primary btn-sm"
-        onClick={onAddNote}
-        disabled={!newNote.trim()}
-      >
-        <i className="fas fa-plus mr-1" />
-        {labels.addNoteButton}
-      </button>
+        )}
+      </div>
+      <div className="card-body p-2 tc-notes-list">
+        {notes.length === 0 ? (
+          <p className="text-muted text-center mb-0 small">No notes yet.</p>
+        ) : visibleNotes.length === 0 ? (
+          <p className="text-muted text-center mb-0 small">No notes match the filters.</p>
+        ) : (
+          visibleNotes.map((n) => {
+            const template = n.sections ? findNoteTemplate(noteTemplates, n.template) : undefined;
+            return (
+              <div key={n.id} className={`tc-note-item mb-2 p-2 rounded${n.pinned ? ' tc-note-item--pinned' : ''}`}>
+                <div className="d-flex justify-content-between text-muted mb-1">
+                  <small className="font-weight-bold">
+                    {n.pinned && <i className="fas fa-thumbtack mr-1 text-warning" title="Pinned" />}
+                    {n.author_name}
+                    {template && <span className="badge badge-light border ml-1">{template.label}</span>}
+                  </small>
+                  <div className="d-flex align-items-center tc-flex-gap-sm">
+                    <small>{new Date(n.created_at).toLocaleDateString()}</small>
+                    {onTogglePin && (
+                      <button
+                        className={`btn btn-link btn-sm p-0 ${n.pinned ? 'text-warning' : 'text-muted'}`}
+                        title={n.pinned ? 'Unpin note' : 'Pin note to the top'}
+                        onClick={() => onTogglePin(n)}
+                      >
+                        <i className="fas fa-thumbtack tc-font-sm" />
+                      </button>
+                    )}
+                    {loadNoteHistory && (
+                      <button
+                        className={`btn btn-link btn-sm p-0 ${historyNoteId === n.id ? 'text-primary' : 'text-muted'}`}
+                        title="Show note history"
+                        onClick={() => setHistoryNoteId(historyNoteId === n.id ? null : n.id)}
+                      >
+                        <i className="fas fa-history tc-font-sm" />
+                      </button>
+                    )}
+                    <button
+                      className="btn btn-link btn-sm p-0 text-muted"
+                      title="Edit note"
+                      onClick={() => onEditStart(n)}
+                    >
+                      <i className="fas fa-pencil-alt tc-font-sm" />
+                    </button>
+                    <button
+                      className="btn btn-link btn-sm p-0 text-danger"
+                      title="Delete note"
+                      onClick={() => {
+                        ($ as any).confirm({
+                          title: 'Delete Note',
+                          content: 'Are you sure you want to delete this note?',
+                          type: 'red',
+                          buttons: {
+                            confirm: {
+                              text: 'Delete',
+                              btnClass: 'btn-danger',
+                              action: () => onDeleteNote(n.id),
+                            },
+                            cancel: { text: 'Cancel' },
+                          },
+                        });
+                      }}
+                    >
+                      <i className="fas fa-trash-alt tc-font-sm" />
+                    </button>
+                  </div>
+                </div>
+                {editingNoteId === n.id ? (
+                  <div>
+                    {editTemplate ? (
+                      <NoteTemplateForm
+                        template={editTemplate}
+                        sections={emptySections(editTemplate, editingNoteSections)}
+                        onChange={(sections) => onEditSectionsChange?.(sections)}
+                      />
+                    ) : (
+                      <textarea
+                        className="form-control form-control-sm mb-1"
+                        rows={2}
+                        value={editingNoteText}
+                        onChange={(e) => onEditTextChange(e.target.value)}
+                      />
+                    )}
+                    {onEditTagsChange && (
+                      <NoteTagInput tags={editingNoteTags} onChange={onEditTagsChange} suggestions={tagSuggestions} />
+                    )}
+                    <div className="d-flex tc-flex-gap-xs">
+                      <button
+                        className="btn btn-primary btn-sm py-0 px-2"
+                        onClick={onEditSave}
+                        disabled={!canSave}
+                      >
+                        Save
+                      </button>
+                      <button className="btn btn-outline-secondary btn-sm py-0 px-2" onClick={onEditCancel}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="mb-0 small tc-markdown tc-note-content">
+                      {template && n.sections ? (
+                        <StructuredNoteView template={template} sections={n.sections} />
+                      ) : (
+                        <MarkdownRenderer content={n.content} />
+                      )}
+                    </div>
+                    {(n.tags ?? []).length > 0 && (
+                      <div className="mt-1">
+                        {n.tags!.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            className={`badge mr-1 border-0 tc-note-tag ${filter.tag === tag ? 'badge-primary' : 'badge-info'}`}
+                            title={`Show notes tagged "${tag}"`}
+                            onClick={() => setFilter({ ...filter, tag: filter.tag === tag ? null : tag })}
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {n.last_edited_by_name && (
+                      <small className="text-muted tc-font-xs">
+                        <i className="fas fa-edit mr-1" />
+                        Last edited by {n.last_edited_by_name}
+                      </small>
+                    )}
+                    {historyNoteId === n.id && loadNoteHistory && onRestoreVersion && (
+                      <NoteHistoryDrawer
+                        noteId={n.id}
+                        loadHistory={loadNoteHistory}
+                        onRestore={(version) => onRestoreVersion(n, version)}
+                        onClose={() => setHistoryNoteId(null)}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+      <div className="card-footer bg-white p-2">
+        {noteTemplates.length > 0 && onNewNoteTemplateChange && (
+          <select
+            className="form-control form-control-sm mb-2"
+            value={newNoteTemplate ?? ''}
+            onChange={(e) => onNewNoteTemplateChange(e.target.value || null)}
+            title="Note format"
+          >
+            <option value="">Free text</option>
+            {noteTemplates.map((t) => (
+              <option key={t.key} value={t.key}>{t.label}</option>
+            ))}
+          </select>
+        )}
+        {newTemplate ? (
+          <NoteTemplateForm
+            template={newTemplate}
+            sections={emptySections(newTemplate, newNoteSections)}
+            onChange={(sections) => onNewNoteSectionsChange?.(sections)}
+          />
+        ) : (
+          <textarea
+            className="form-control form-control-sm mb-2"
+            rows={2}
+            value={newNote}
+            onChange={(e) => onNewNoteChange(e.target.value)}
+            placeholder={labels.addNotePlaceholder}
+          />
+        )}
+        {onNewNoteTagsChange && (
+          <NoteTagInput tags={newNoteTags} onChange={onNewNoteTagsChange} suggestions={tagSuggestions} />
+        )}
+        <button
+          className="btn btn-outline-primary btn-sm"
+          onClick={onAddNote}
+          disabled={!canAdd}
+        >
+          <i className="fas fa-plus mr-1" />
+          {labels.addNoteButton}
+        </button>
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export default NotesPanel;
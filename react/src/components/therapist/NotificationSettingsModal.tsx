@@ -0,0 +1,151 @@
+/**
+ * Notification Settings Modal
+ * ===========================
+ *
+ * Opt-in desktop notifications for new alerts: which severities notify
+ * and whether emergency/critical alerts play a sound. Settings apply to
+ * this browser only, like the notification permission itself.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '../shared/Modal';
+import { SOUND_SEVERITIES } from '../../utils/notifications';
+import type { NotificationSettings } from '../../utils/notifications';
+import type { AlertSeverity } from '../../types';
+
+export interface NotificationSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+  settings: NotificationSettings;
+  permission: NotificationPermission | 'unsupported';
+  onSave: (settings: NotificationSettings) => Promise<void>;
+  onTestSound: () => void;
+}
+
+const SEVERITIES: Array<{ value: AlertSeverity; label: string }> = [
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'info', label: 'Info' },
+];
+
+export const NotificationSettingsModal: React.FC<NotificationSettingsModalProps> = ({
+  open,
+  onClose,
+  settings,
+  permission,
+  onSave,
+  onTestSound,
+}) => {
+  const [draft, setDraft] = useState(settings);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const toggleSeverity = (severity: AlertSeverity) => {
+    setDraft({ ...draft, severities: { ...draft.severities, [severity]: !draft.severities[severity] } });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const blocked = permission === 'denied' || permission === 'unsupported';
+
+  return (
+    <Modal open={open} onClose={onClose} title="Notification settings">
+      <ModalHeader
+        title={
+          <>
+            <i className="fas fa-bell mr-2" />
+            Notification settings
+          </>
+        }
+        onClose={onClose}
+      />
+
+      <ModalBody>
+        <div className="custom-control custom-switch mb-1">
+          <input
+            type="checkbox"
+            className="custom-control-input"
+            id="tc-notify-enabled"
+            checked={draft.enabled && !blocked}
+            disabled={blocked}
+            onChange={() => setDraft({ ...draft, enabled: !draft.enabled })}
+          />
+          <label className="custom-control-label" htmlFor="tc-notify-enabled">
+            Desktop notifications for new alerts
+          </label>
+        </div>
+        <small className="form-text text-muted mb-3">
+          {permission === 'unsupported'
+            ? 'This browser does not support desktop notifications.'
+            : permission === 'denied'
+              ? 'Notifications are blocked for this site. Allow them in the browser settings to enable them.'
+              : 'Shown while the dashboard tab is in the background. Click a notification to open the conversation.'}
+        </small>
+
+        <div className="form-group">
+          <label className="small font-weight-bold mb-1">Notify for</label>
+          {SEVERITIES.map((s) => (
+            <div key={s.value} className="custom-control custom-checkbox">
+              <input
+                type="checkbox"
+                className="custom-control-input"
+                id={`tc-notify-${s.value}`}
+                checked={draft.severities[s.value]}
+                onChange={() => toggleSeverity(s.value)}
+              />
+              <label className="custom-control-label" htmlFor={`tc-notify-${s.value}`}>
+                {s.label}
+                {SOUND_SEVERITIES.includes(s.value) && draft.sound && (
+                  <i className="fas fa-volume-up text-muted ml-2" title="Plays a sound" />
+                )}
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <div className="d-flex align-items-center">
+          <div className="custom-control custom-switch">
+            <input
+              type="checkbox"
+              className="custom-control-input"
+              id="tc-notify-sound"
+              checked={draft.sound}
+              onChange={() => setDraft({ ...draft, sound: !draft.sound })}
+            />
+            <label className="custom-control-label" htmlFor="tc-notify-sound">
+              Sound for emergency and critical alerts
+            </label>
+          </div>
+          <button type="button" className="btn btn-link btn-sm ml-auto" onClick={onTestSound}>
+            <i className="fas fa-play mr-1" />
+            Test sound
+          </button>
+        </div>
+      </ModalBody>
+
+      <ModalFooter>
+        <button className="btn btn-outline-secondary" onClick={onClose} disabled={saving}>
+          Cancel
+        </button>
+        <button className="btn btn-primary" onClick={save} disabled={saving}>
+          {saving ? <i className="fas fa-spinner fa-spin mr-1" /> : <i className="fas fa-save mr-1" />}
+          Save
+        </button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export default NotificationSettingsModal;
@@ -7,6 +7,7 @@
  * whether the AI responds. When danger is detected the system sets
  * `ai_enabled = false` and blocks the conversation; the therapist
  * can re-enable AI here, which also unblocks the conversation.
+ * The attachments card decides whether the patient may upload files.
  */
 
 import React from 'react';
@@ -25,6 +26,10 @@ export interface RiskStatusControlsProps {
   onSetRisk: (risk: RiskLevel) => void;
   /** Called when AI is toggled */
   onToggleAI: () => void;
+  /** Whether the patient may attach files */
+  patientUploadsAllowed: boolean;
+  /** Called when patient uploads are allowed / forbidden */
+  onTogglePatientUploads: () => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -39,6 +44,8 @@ export const RiskStatusControls: React.FC<RiskStatusControlsProps> = ({
   features,
   onSetRisk,
   onToggleAI,
+  patientUploadsAllowed,
+  onTogglePatientUploads,
   className = '',
 }) => {
   const getRiskButtonColor = (risk: RiskLevel, isActive: boolean): string => {
@@ -104,6 +111,26 @@ export const RiskStatusControls: React.FC<RiskStatusControlsProps> = ({
           </div>
         </div>
       )}
+
+      {/* Patient attachments */}
+      <div className="card border-0 shadow-sm mb-3">
+        <div className="card-header bg-light py-2">
+          <h6 className="mb-0">
+            <i className="fas fa-paperclip mr-2" />
+            Patient Attachments
+          </h6>
+        </div>
+        <div className="card-body p-2">
+          <button
+            className={`btn btn-sm btn-block ${patientUploadsAllowed ? 'btn-success' : 'btn-outline-secondary'}`}
+            onClick={onTogglePatientUploads}
+            aria-pressed={patientUploadsAllowed}
+          >
+            <i className={`fas ${patientUploadsAllowed ? 'fa-toggle-on' : 'fa-toggle-off'} mr-1`} />
+            {patientUploadsAllowed ? 'Uploads allowed' : 'Uploads disabled'}
+          </button>
+        </div>
+      </div>
     </div>
   );
 };
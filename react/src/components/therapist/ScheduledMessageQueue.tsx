@@ -0,0 +1,138 @@
+/**
+ * ScheduledMessageQueue – pending "send later" messages of the open
+ * conversation, shown above the message input. The author can edit the
+ * text and send time or cancel the message until it has been sent.
+ */
+
+/* global $ -- jQuery + jquery-confirm loaded by SelfHelp host page */
+declare const $: any;
+
+import React, { useState } from 'react';
+import { SendLaterPicker } from '../shared/SendLaterPicker';
+import { formatScheduledTime } from '../../utils/schedule';
+import type { ScheduledMessage } from '../../types';
+
+/** Queue state and handlers (useScheduledMessages) */
+export interface ScheduledMessagesState {
+  items: ScheduledMessage[];
+  schedule: (message: string, scheduledAt: Date) => Promise<boolean>;
+  update: (scheduledId: number, message: string, scheduledAt: Date) => Promise<boolean>;
+  cancel: (scheduledId: number) => void | Promise<void>;
+}
+
+export interface ScheduledMessageQueueProps {
+  scheduled: ScheduledMessagesState;
+  currentUserId?: number;
+}
+
+export const ScheduledMessageQueue: React.FC<ScheduledMessageQueueProps> = ({ scheduled, currentUserId }) => {
+  const [expanded, setExpanded] = useState(true);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (scheduled.items.length === 0) return null;
+
+  const startEditing = (item: ScheduledMessage) => {
+    setEditingId(item.id);
+    setEditingText(item.content);
+  };
+
+  const save = async (sendAt: Date) => {
+    if (editingId === null || !editingText.trim()) return;
+    setSaving(true);
+    const ok = await scheduled.update(editingId, editingText.trim(), sendAt);
+    setSaving(false);
+    if (ok) setEditingId(null);
+  };
+
+  const confirmCancel = (item: ScheduledMessage) => {
+    ($ as any).confirm({
+      title: 'Cancel Scheduled Message',
+      content: `This message will not be sent on ${formatScheduledTime(item.scheduled_at)}.`,
+      type: 'red',
+      buttons: {
+        confirm: {
+          text: 'Cancel message',
+          btnClass: 'btn-danger',
+          action: () => scheduled.cancel(item.id),
+        },
+        cancel: { text: 'Keep' },
+      },
+    });
+  };
+
+  return (
+    <div className="tc-scheduled mb-2">
+      <button
+        type="button"
+        className="btn btn-link btn-sm p-0 text-muted"
+        onClick={() => setExpanded((v) => !v)}
+      >
+        <i className={`fas fa-chevron-${expanded ? 'down' : 'right'} mr-1`} />
+        <i className="far fa-clock mr-1" />
+        Scheduled ({scheduled.items.length})
+      </button>
+
+      {expanded && (
+        <div className="tc-scheduled__list mt-1">
+          {scheduled.items.map((item) => {
+            const own = currentUserId === undefined || Number(item.therapist_id) === Number(currentUserId);
+            return (
+              <div key={item.id} className="tc-scheduled__item border rounded p-2 mb-1">
+                <div className="d-flex justify-content-between align-items-center text-muted">
+                  <small>
+                    <i className="far fa-paper-plane mr-1" />
+                    {formatScheduledTime(item.scheduled_at)}
+                    {!own && <span className="ml-1">· {item.therapist_name}</span>}
+                  </small>
+                  {own && editingId !== item.id && (
+                    <div className="d-flex align-items-center tc-flex-gap-sm">
+                      <button
+                        className="btn btn-link btn-sm p-0 text-muted"
+                        title="Edit scheduled message"
+                        onClick={() => startEditing(item)}
+                      >
+                        <i className="fas fa-pencil-alt tc-font-sm" />
+                      </button>
+                      <button
+                        className="btn btn-link btn-sm p-0 text-danger"
+                        title="Cancel scheduled message"
+                        onClick={() => confirmCancel(item)}
+                      >
+                        <i className="fas fa-times tc-font-sm" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {editingId === item.id ? (
+                  <>
+                    <textarea
+                      className="form-control form-control-sm mt-1"
+                      rows={2}
+                      value={editingText}
+                      onChange={(e) => setEditingText(e.target.value)}
+                      disabled={saving}
+                    />
+                    <SendLaterPicker
+                      initial={new Date(item.scheduled_at)}
+                      confirmLabel="Save"
+                      busy={saving}
+                      disabledReason={editingText.trim() ? null : 'The message cannot be empty.'}
+                      onConfirm={save}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  </>
+                ) : (
+                  <div className="small tc-scheduled__content">{item.content}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledMessageQueue;
@@ -25,6 +25,12 @@ export interface StatsHeaderProps {
     statCritical: string;
     statAlerts: string;
   };
+  /** Open the alerts inbox when the alerts counter is clicked */
+  onOpenAlerts?: () => void;
+  /** Open the desktop notification settings */
+  onOpenNotificationSettings?: () => void;
+  /** Whether desktop notifications are switched on (bell icon state) */
+  notificationsEnabled?: boolean;
 }
 
 const StatItem: React.FC<{ value: number; label: string; className?: string }> = ({
@@ -43,12 +49,25 @@ export const StatsHeader: React.FC<StatsHeaderProps> = ({
   stats,
   unreadCounts,
   labels,
+  onOpenAlerts,
+  onOpenNotificationSettings,
+  notificationsEnabled = false,
 }) => (
   <div className="card border-0 shadow-sm mb-3">
     <div className="card-body d-flex justify-content-between align-items-center flex-wrap py-2">
-      <h5 className="mb-0">
+      <h5 className="mb-0 d-flex align-items-center">
         <i className="fas fa-stethoscope text-primary mr-2" />
         {title}
+        {onOpenNotificationSettings && (
+          <button
+            type="button"
+            className="btn btn-link btn-sm text-muted ml-2"
+            title={notificationsEnabled ? 'Desktop notifications on' : 'Desktop notifications off'}
+            onClick={onOpenNotificationSettings}
+          >
+            <i className={`fas ${notificationsEnabled ? 'fa-bell' : 'fa-bell-slash'}`} />
+          </button>
+        )}
       </h5>
       <div className="d-flex flex-wrap tc-flex-gap-md">
         <StatItem value={stats.total} label={labels.statPatients} />
@@ -60,11 +79,26 @@ export const StatsHeader: React.FC<StatsHeaderProps> = ({
           className={unreadCounts.total > 0 ? 'text-primary font-weight-bold' : ''}
         />
         <StatItem value={stats.risk_critical} label={labels.statCritical} className="text-danger" />
-        <StatItem
-          value={unreadCounts.totalAlerts}
-          label={labels.statAlerts}
-          className={unreadCounts.totalAlerts > 0 ? 'text-warning font-weight-bold' : 'text-warning'}
-        />
+        {onOpenAlerts ? (
+          <button
+            type="button"
+            className="btn btn-link p-0 text-decoration-none"
+            title="Open alerts inbox"
+            onClick={onOpenAlerts}
+          >
+            <StatItem
+              value={unreadCounts.totalAlerts}
+              label={labels.statAlerts}
+              className={unreadCounts.totalAlerts > 0 ? 'text-warning font-weight-bold' : 'text-warning'}
+            />
+          </button>
+        ) : (
+          <StatItem
+            value={unreadCounts.totalAlerts}
+            label={labels.statAlerts}
+            className={unreadCounts.totalAlerts > 0 ? 'text-warning font-weight-bold' : 'text-warning'}
+          />
+        )}
       </div>
     </div>
   </div>
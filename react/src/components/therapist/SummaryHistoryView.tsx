@@ -0,0 +1,184 @@
+/**
+ * SummaryHistoryView – past summaries of a conversation
+ *
+ * Shown in the SummaryModal. Lists every summary generated for the
+ * conversation (by any therapist, saved as a note or not) with the options
+ * it was generated with. A summary can be opened to review or save it;
+ * two summaries can be compared side by side to follow how the patient's
+ * situation evolved.
+ */
+
+import React, { useState } from 'react';
+import { DiffView } from '../shared/DiffView';
+import { findNoteTemplate } from '../../utils/noteTemplates';
+import type { NoteTemplate, SummaryHistoryEntry } from '../../types';
+
+export interface SummaryHistoryViewProps {
+  summaries: SummaryHistoryEntry[];
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onOpen: (entry: SummaryHistoryEntry) => void;
+  noteTemplates?: NoteTemplate[];
+}
+
+const FOCUS_LABELS: Record<string, string> = {
+  mood: 'Mood trajectory',
+  risk: 'Risk indicators',
+  homework: 'Homework adherence',
+};
+
+function formatDateTime(ts?: string | null): string {
+  if (!ts) return '';
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  const day = String(d.getDate()).padStart(2, '0');
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${day}.${mon}.${d.getFullYear()} ${hh}:${mm}`;
+}
+
+/** One-line description of the options a summary was generated with */
+function describeOptions(entry: SummaryHistoryEntry, noteTemplates: NoteTemplate[]): string {
+  const { options } = entry;
+  const parts: string[] = [];
+  if (options.since_last_summary) parts.push('Since last summary');
+  else if (options.date_from || options.date_to) parts.push(`${options.date_from ?? '…'} to ${options.date_to ?? 'today'}`);
+  else parts.push('Whole conversation');
+  if (options.focus?.length) parts.push(`Focus: ${options.focus.map((f) => FOCUS_LABELS[f] ?? f).join(', ')}`);
+  const template = findNoteTemplate(noteTemplates, options.note_template ?? null);
+  if (template) parts.push(`${template.label} note`);
+  else if (options.format === 'bullets') parts.push('Bullet points');
+  return parts.join(' · ');
+}
+
+export const SummaryHistoryView: React.FC<SummaryHistoryViewProps> = ({
+  summaries,
+  loading,
+  error,
+  onRetry,
+  onOpen,
+  noteTemplates = [],
+}) => {
+  /** Indexes of the compared summaries (older left, newer right) */
+  const [compare, setCompare] = useState<[number, number] | null>(null);
+
+  if (loading) {
+    return (
+      <div className="text-center text-muted py-4">
+        <div className="spinner-border spinner-border-sm" role="status" />
+      </div>
+    );
+  }
+  if (error) {
+    return (
+      <div className="alert alert-danger py-2 small">
+        {error}
+        <button type="button" className="btn btn-link btn-sm p-0 ml-2" onClick={onRetry}>Retry</button>
+      </div>
+    );
+  }
+  if (summaries.length === 0) {
+    return <p className="text-muted small text-center py-4 mb-0">No summaries have been generated for this conversation yet.</p>;
+  }
+
+  const label = (entry: SummaryHistoryEntry) => `${formatDateTime(entry.timestamp)}${entry.therapist_name ? ` · ${entry.therapist_name}` : ''}`;
+
+  if (compare) {
+    const [left, right] = compare;
+    const compareSelect = (value: number, onChange: (v: number) => void) => (
+      <select
+        className="form-control form-control-sm tc-draft-compare-select"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      >
+        {summaries.map((s, i) => (
+          <option key={s.id} value={i}>{label(s)}</option>
+        ))}
+      </select>
+    );
+
+    return (
+      <div className="tc-summary-history tc-summary-content">
+        <div className="d-flex align-items-center mb-2">
+          <button type="button" className="btn btn-link btn-sm p-0" onClick={() => setCompare(null)}>
+            <i className="fas fa-arrow-left mr-1" />
+            All summaries
+          </button>
+        </div>
+        <div className="row no-gutters mb-1">
+          <div className="col-6 pr-1">{compareSelect(left, (v) => setCompare([v, right]))}</div>
+          <div className="col-6 pl-1">{compareSelect(right, (v) => setCompare([left, v]))}</div>
+        </div>
+        <div className="row no-gutters">
+          <div className="col-6 pr-1">
+            <DiffView
+              before={summaries[left].content}
+              after={summaries[right].content}
+              side="before"
+              className="tc-draft-compare-pane border rounded p-2 small"
+            />
+          </div>
+          <div className="col-6 pl-1">
+            <DiffView
+              before={summaries[left].content}
+              after={summaries[right].content}
+              side="after"
+              className="tc-draft-compare-pane border rounded p-2 small"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="tc-summary-history tc-summary-content">
+      <div className="d-flex align-items-center mb-2">
+        <small className="text-muted">
+          {summaries.length} {summaries.length === 1 ? 'summary' : 'summaries'}, newest first
+        </small>
+        {summaries.length > 1 && (
+          <button
+            type="button"
+            className="btn btn-outline-secondary btn-sm py-0 ml-auto"
+            title="Compare the latest summary with the one before"
+            onClick={() => setCompare([1, 0])}
+          >
+            <i className="fas fa-columns mr-1" />
+            Compare
+          </button>
+        )}
+      </div>
+      <div className="list-group">
+        {summaries.map((entry) => (
+          <div key={entry.id} className="list-group-item py-2 px-3">
+            <div className="d-flex align-items-center">
+              <span className="small font-weight-bold">{formatDateTime(entry.timestamp)}</span>
+              {entry.therapist_name && <span className="small text-muted ml-1">· {entry.therapist_name}</span>}
+              {entry.saved_note_id ? (
+                <span className="badge badge-success ml-2">Saved as note</span>
+              ) : (
+                <span className="badge badge-light border ml-2">Not saved</span>
+              )}
+              <button type="button" className="btn btn-outline-primary btn-sm py-0 ml-auto" onClick={() => onOpen(entry)}>
+                Open
+              </button>
+            </div>
+            <div className="text-muted tc-font-xs mt-1">
+              {describeOptions(entry, noteTemplates)}
+              <span className="ml-2" title="Conversation the summary was logged in">
+                <i className="fas fa-link mr-1" />
+                #{entry.summary_conversation_id}
+              </span>
+            </div>
+            <div className="small text-truncate mt-1 tc-summary-history__preview">{entry.content}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SummaryHistoryView;
@@ -2,13 +2,27 @@
  * Summary Modal Component
  * =======================
  *
- * Modal for displaying and saving AI-generated conversation summaries.
+ * Modal for generating, displaying and saving AI conversation summaries.
  * Uses the shared modal system for consistent styling and behavior.
+ *
+ * The modal opens on the options step: the period to summarize (whole
+ * conversation, since the last summary or a date range), focus areas and
+ * the output format. With a note template as format, the summary
+ * pre-fills the template's sections, which can be edited before saving.
+ *
+ * The history step lists the earlier summaries of the conversation
+ * (see SummaryHistoryView); an unsaved result can be resumed from the
+ * options step after the modal was closed.
  */
 
 import React from 'react';
 import { Modal, ModalHeader, ModalBody, ModalFooter, ModalLoadingState, ModalErrorState } from '../shared/Modal';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
+import { NoteTemplateForm } from './NoteTemplateForm';
+import { SummaryHistoryView } from './SummaryHistoryView';
+import { emptySections, findNoteTemplate } from '../../utils/noteTemplates';
+import type { NoteTemplate, SummaryFocus, SummaryFormat, SummaryHistoryEntry, SummaryOptions } from '../../types';
+import type { SummaryInfo, SummaryStep } from '../../hooks/useSummaryState';
 
 export interface SummaryModalProps {
   open: boolean;
@@ -19,8 +33,178 @@ export interface SummaryModalProps {
   subjectName?: string;
   onRetry: () => void;
   onSaveAsNote: () => void;
+  step: SummaryStep;
+  options: SummaryOptions;
+  onOptionsChange: (options: SummaryOptions) => void;
+  onGenerate: () => void;
+  onEditOptions: () => void;
+  /** Structured note formats offered next to narrative / bullet points */
+  noteTemplates?: NoteTemplate[];
+  /** Note template the summary was generated for (null = free text) */
+  template?: string | null;
+  /** Sections of the summary when it was split into the template */
+  sections?: Record<string, string> | null;
+  onSectionsChange?: (sections: Record<string, string>) => void;
+  /** Tokens, period and message count of the generated summary */
+  info?: SummaryInfo;
+  /** The shown summary was already saved as a note */
+  saved?: boolean;
+  /** An unsaved summary can be resumed from the options step */
+  canResume?: boolean;
+  onResume?: () => void;
+  history?: SummaryHistoryEntry[];
+  historyLoading?: boolean;
+  historyError?: string | null;
+  onShowHistory?: () => void;
+  onCloseHistory?: () => void;
+  onReloadHistory?: () => void;
+  onOpenFromHistory?: (entry: SummaryHistoryEntry) => void;
+}
+
+const FORMATS: Array<{ value: SummaryFormat; label: string }> = [
+  { value: 'narrative', label: 'Narrative' },
+  { value: 'bullets', label: 'Bullet points' },
+];
+
+const FOCUS_AREAS: Array<{ value: SummaryFocus; label: string }> = [
+  { value: 'mood', label: 'Mood trajectory' },
+  { value: 'risk', label: 'Risk indicators' },
+  { value: 'homework', label: 'Homework adherence' },
+];
+
+type PeriodMode = 'all' | 'since_last' | 'range';
+
+function periodMode(options: SummaryOptions): PeriodMode {
+  if (options.sinceLastSummary) return 'since_last';
+  return options.dateFrom || options.dateTo ? 'range' : 'all';
+}
+
+/** YYYY-MM-DD of today minus `days` (local time) */
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  const mon = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mon}-${day}`;
 }
 
+function formatDate(ts?: string | null): string {
+  if (!ts) return '';
+  const d = new Date(ts);
+  return isNaN(d.getTime()) ? ts : d.toLocaleDateString();
+}
+
+const SummaryOptionsForm: React.FC<{
+  options: SummaryOptions;
+  onChange: (options: SummaryOptions) => void;
+  noteTemplates: NoteTemplate[];
+}> = ({ options, onChange, noteTemplates }) => {
+  const mode = periodMode(options);
+  const focus = options.focus ?? [];
+  const format = options.noteTemplate ? `template:${options.noteTemplate}` : options.format ?? 'narrative';
+
+  const setMode = (next: PeriodMode) => {
+    if (next === 'all') onChange({ ...options, sinceLastSummary: false, dateFrom: undefined, dateTo: undefined });
+    else if (next === 'since_last') onChange({ ...options, sinceLastSummary: true, dateFrom: undefined, dateTo: undefined });
+    else onChange({ ...options, sinceLastSummary: false, dateFrom: options.dateFrom || daysAgo(7), dateTo: options.dateTo });
+  };
+
+  const setFormat = (value: string) => {
+    if (value.startsWith('template:')) onChange({ ...options, noteTemplate: value.slice('template:'.length), format: undefined });
+    else onChange({ ...options, noteTemplate: null, format: value as SummaryFormat });
+  };
+
+  const toggleFocus = (value: SummaryFocus) => {
+    onChange({ ...options, focus: focus.includes(value) ? focus.filter((f) => f !== value) : [...focus, value] });
+  };
+
+  return (
+    <div className="tc-summary-options">
+      <div className="form-group mb-3">
+        <label className="small font-weight-bold mb-1">Period</label>
+        <div>
+          {([
+            ['all', 'Whole conversation'],
+            ['since_last', 'Since last summary'],
+            ['range', 'Date range'],
+          ] as Array<[PeriodMode, string]>).map(([value, label]) => (
+            <div key={value} className="custom-control custom-radio custom-control-inline">
+              <input
+                type="radio"
+                id={`tc-summary-period-${value}`}
+                className="custom-control-input"
+                checked={mode === value}
+                onChange={() => setMode(value)}
+              />
+              <label className="custom-control-label small" htmlFor={`tc-summary-period-${value}`}>{label}</label>
+            </div>
+          ))}
+        </div>
+        {mode === 'range' && (
+          <div className="d-flex align-items-center flex-wrap mt-2 tc-flex-gap-sm">
+            <input
+              type="date"
+              className="form-control form-control-sm tc-summary-options__date"
+              value={options.dateFrom ?? ''}
+              max={options.dateTo || undefined}
+              onChange={(e) => onChange({ ...options, dateFrom: e.target.value || undefined })}
+            />
+            <small className="text-muted">to</small>
+            <input
+              type="date"
+              className="form-control form-control-sm tc-summary-options__date"
+              value={options.dateTo ?? ''}
+              min={options.dateFrom || undefined}
+              onChange={(e) => onChange({ ...options, dateTo: e.target.value || undefined })}
+            />
+            <button
+              type="button"
+              className="btn btn-link btn-sm p-0"
+              onClick={() => onChange({ ...options, dateFrom: daysAgo(7), dateTo: undefined })}
+            >
+              Last 7 days
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="form-group mb-3">
+        <label className="small font-weight-bold mb-1">Focus</label>
+        <div>
+          {FOCUS_AREAS.map((f) => (
+            <div key={f.value} className="custom-control custom-checkbox custom-control-inline">
+              <input
+                type="checkbox"
+                id={`tc-summary-focus-${f.value}`}
+                className="custom-control-input"
+                checked={focus.includes(f.value)}
+                onChange={() => toggleFocus(f.value)}
+              />
+              <label className="custom-control-label small" htmlFor={`tc-summary-focus-${f.value}`}>{f.label}</label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="form-group mb-0">
+        <label className="small font-weight-bold mb-1">Format</label>
+        <select
+          className="form-control form-control-sm tc-summary-template-select"
+          value={format}
+          onChange={(e) => setFormat(e.target.value)}
+        >
+          {FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+          {noteTemplates.map((t) => (
+            <option key={t.key} value={`template:${t.key}`}>{t.label} note</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
 export const SummaryModal: React.FC<SummaryModalProps> = ({
   open,
   onClose,
@@ -30,58 +214,168 @@ export const SummaryModal: React.FC<SummaryModalProps> = ({
   subjectName,
   onRetry,
   onSaveAsNote,
-}) => (
-  <Modal open={open} onClose={onClose} title="Conversation Summary">
-    <ModalHeader
-      title={
-        <>
-          <i className="fas fa-file-alt mr-2" />
-          Conversation Summary
-          {subjectName && (
-            <small className="ml-2 font-weight-normal">for {subjectName}</small>
-          )}
-        </>
-      }
-      onClose={onClose}
-    />
-
-    <ModalBody>
-      {generating ? (
-        <ModalLoadingState
-          message="Generating conversation summary..."
-          subMessage="This may take a moment."
-          size="lg"
-          variant="secondary"
-        />
-      ) : error ? (
-        <ModalErrorState error={error} onRetry={onRetry} retryText="Retry" variant="danger" />
-      ) : (
-        <>
-          <p className="text-muted small mb-2 flex-shrink-0">
-            <i className="fas fa-info-circle mr-1" />
-            AI-generated clinical summary. You can save it as a note.
-          </p>
-          <div className="border rounded p-3 bg-light tc-draft-editor tc-markdown tc-summary-content">
-            <MarkdownRenderer content={summaryText} />
-          </div>
-        </>
-      )}
-    </ModalBody>
-
-    <ModalFooter>
-      <button className="btn btn-outline-secondary" onClick={onClose}>
-        Close
-      </button>
-      <button
-        className="btn btn-success"
-        onClick={onSaveAsNote}
-        disabled={generating || !summaryText.trim() || !!error}
-      >
-        <i className="fas fa-save mr-1" />
-        Save as Clinical Note
-      </button>
-    </ModalFooter>
-  </Modal>
-);
+  step,
+  options,
+  onOptionsChange,
+  onGenerate,
+  onEditOptions,
+  noteTemplates = [],
+  template = null,
+  sections = null,
+  onSectionsChange,
+  info,
+  saved = false,
+  canResume = false,
+  onResume,
+  history = [],
+  historyLoading = false,
+  historyError = null,
+  onShowHistory,
+  onCloseHistory,
+  onReloadHistory,
+  onOpenFromHistory,
+}) => {
+  const noteTemplate = findNoteTemplate(noteTemplates, template);
+
+  return (
+    <Modal open={open} onClose={onClose} title="Conversation Summary">
+      <ModalHeader
+        title={
+          <>
+            <i className="fas fa-file-alt mr-2" />
+            Conversation Summary
+            {subjectName && (
+              <small className="ml-2 font-weight-normal">for {subjectName}</small>
+            )}
+          </>
+        }
+        onClose={onClose}
+      />
+
+      <ModalBody>
+        {step === 'history' ? (
+          <SummaryHistoryView
+            summaries={history}
+            loading={historyLoading}
+            error={historyError}
+            onRetry={() => onReloadHistory?.()}
+            onOpen={(entry) => onOpenFromHistory?.(entry)}
+            noteTemplates={noteTemplates}
+          />
+        ) : step === 'options' ? (
+          <>
+            {canResume && (
+              <div className="alert alert-info py-2 small d-flex align-items-center">
+                <i className="fas fa-undo mr-2" />
+                The last summary was not saved.
+                <button type="button" className="btn btn-link btn-sm p-0 ml-auto" onClick={onResume}>
+                  Show it
+                </button>
+              </div>
+            )}
+            <SummaryOptionsForm options={options} onChange={onOptionsChange} noteTemplates={noteTemplates} />
+          </>
+        ) : generating ? (
+          <ModalLoadingState
+            message="Generating conversation summary..."
+            subMessage="This may take a moment."
+            size="lg"
+            variant="secondary"
+          />
+        ) : error ? (
+          <ModalErrorState error={error} onRetry={onRetry} retryText="Retry" variant="danger" />
+        ) : (
+          <>
+            <p className="text-muted small mb-2 flex-shrink-0">
+              <i className="fas fa-info-circle mr-1" />
+              {saved
+                ? 'AI-generated clinical summary. It has already been saved as a note.'
+                : 'AI-generated clinical summary. You can save it as a note.'}
+            </p>
+            {noteTemplate && sections ? (
+              <div className="border rounded p-3 bg-light tc-summary-content">
+                <NoteTemplateForm
+                  template={noteTemplate}
+                  sections={emptySections(noteTemplate, sections)}
+                  onChange={(value) => onSectionsChange?.(value)}
+                  rows={4}
+                />
+              </div>
+            ) : (
+              <>
+                {noteTemplate && (
+                  <div className="alert alert-warning py-2 small flex-shrink-0">
+                    The summary could not be split into {noteTemplate.label} sections and will be saved as free text.
+                  </div>
+                )}
+                <div className="border rounded p-3 bg-light tc-draft-editor tc-markdown tc-summary-content">
+                  <MarkdownRenderer content={summaryText} />
+                </div>
+              </>
+            )}
+            {info && (info.messageCount !== null || info.tokensUsed !== null) && (
+              <div className="text-muted tc-font-xs mt-2 flex-shrink-0">
+                {info.messageCount !== null && (
+                  <span className="mr-3">
+                    <i className="fas fa-comments mr-1" />
+                    {info.messageCount} messages
+                    {info.periodFrom && ` from ${formatDate(info.periodFrom)} to ${formatDate(info.periodTo)}`}
+                  </span>
+                )}
+                {info.tokensUsed !== null && (
+                  <span>
+                    <i className="fas fa-coins mr-1" />
+                    {info.tokensUsed.toLocaleString()} tokens
+                  </span>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        <button className="btn btn-outline-secondary" onClick={onClose}>
+          Close
+        </button>
+        {step === 'history' ? (
+          <button className="btn btn-outline-primary" onClick={onCloseHistory}>
+            <i className="fas fa-arrow-left mr-1" />
+            Back
+          </button>
+        ) : (
+          <button className="btn btn-outline-secondary" onClick={onShowHistory}>
+            <i className="fas fa-history mr-1" />
+            History
+          </button>
+        )}
+        {step === 'options' && (
+          <button className="btn btn-primary" onClick={onGenerate}>
+            <i className="fas fa-magic mr-1" />
+            Generate Summary
+          </button>
+        )}
+        {step === 'result' && (
+          <>
+            <button className="btn btn-outline-primary" onClick={onEditOptions} disabled={generating}>
+              <i className="fas fa-sliders-h mr-1" />
+              Options
+            </button>
+            <button
+              className="btn btn-success"
+              onClick={onSaveAsNote}
+              disabled={generating || saved || !summaryText.trim() || !!error}
+            >
+              <i className={`fas ${saved ? 'fa-check' : 'fa-save'} mr-1`} />
+              {saved
+                ? 'Saved as Note'
+                : noteTemplate && sections ? `Save as ${noteTemplate.label} Note` : 'Save as Clinical Note'}
+            </button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
 
 export default SummaryModal;
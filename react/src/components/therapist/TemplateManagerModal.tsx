@@ -0,0 +1,244 @@
+/**
+ * Template Manager Modal
+ * ======================
+ *
+ * Manages the therapist's message templates (canned responses). Personal
+ * templates are only visible to their author; group templates are shared
+ * with every therapist of the group. Only the author can edit or delete a
+ * template. Templates are inserted in the message input by typing `/`.
+ */
+
+/* global $ -- jQuery + jquery-confirm loaded by SelfHelp host page */
+declare const $: any;
+
+import React, { useState, useEffect } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '../shared/Modal';
+import { TEMPLATE_VARIABLES } from '../../utils/templates';
+import type { MessageTemplate, TherapistGroup } from '../../types';
+
+/** Template library state and handlers (useMessageTemplates) */
+export interface TemplateLibraryState {
+  templates: MessageTemplate[];
+  error: string | null;
+  setError: (error: string | null) => void;
+  save: (templateId: number | null, title: string, content: string, groupId: number | null) => Promise<boolean>;
+  remove: (templateId: number) => void | Promise<void>;
+}
+
+export interface TemplateManagerModalProps {
+  open: boolean;
+  onClose: () => void;
+  library: TemplateLibraryState;
+  groups: TherapistGroup[];
+  currentUserId: number;
+}
+
+const TITLE_MAX_LENGTH = 100;
+const CONTENT_MAX_LENGTH = 4000;
+
+export const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({
+  open,
+  onClose,
+  library,
+  groups,
+  currentUserId,
+}) => {
+  // null = list view, 0 = new template, otherwise the edited template's ID
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [groupId, setGroupId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { setError } = library;
+  useEffect(() => {
+    if (!open) {
+      setEditingId(null);
+      setError(null);
+    }
+  }, [open, setError]);
+
+  const startEditing = (template: MessageTemplate | null) => {
+    setEditingId(template ? template.id : 0);
+    setTitle(template?.title ?? '');
+    setContent(template?.content ?? '');
+    setGroupId(template?.group_id ?? null);
+    setError(null);
+  };
+
+  const save = async () => {
+    if (editingId === null || !title.trim() || !content.trim()) return;
+    setSaving(true);
+    const ok = await library.save(editingId || null, title.trim(), content.trim(), groupId);
+    setSaving(false);
+    if (ok) setEditingId(null);
+  };
+
+  const confirmDelete = (template: MessageTemplate) => {
+    ($ as any).confirm({
+      title: 'Delete Template',
+      content: template.group_id
+        ? `"${template.title}" will be removed for everyone in ${template.group_name}.`
+        : `Are you sure you want to delete "${template.title}"?`,
+      type: 'red',
+      buttons: {
+        confirm: {
+          text: 'Delete',
+          btnClass: 'btn-danger',
+          action: () => library.remove(template.id),
+        },
+        cancel: { text: 'Cancel' },
+      },
+    });
+  };
+
+  const editing = editingId !== null;
+
+  return (
+    <Modal open={open} onClose={onClose} title="Message Templates">
+      <ModalHeader
+        title={
+          <>
+            <i className="fas fa-file-alt mr-2" />
+            Message Templates
+          </>
+        }
+        onClose={onClose}
+      />
+
+      <ModalBody>
+        {library.error && (
+          <div className="alert alert-danger py-2 small">{library.error}</div>
+        )}
+
+        {editing ? (
+          <div>
+            <div className="form-group mb-2">
+              <label className="small font-weight-bold mb-1">Title</label>
+              <input
+                type="text"
+                className="form-control form-control-sm"
+                value={title}
+                maxLength={TITLE_MAX_LENGTH}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Breathing exercise"
+                autoFocus
+              />
+            </div>
+            <div className="form-group mb-2">
+              <label className="small font-weight-bold mb-1">Available to</label>
+              <select
+                className="form-control form-control-sm"
+                value={groupId ?? ''}
+                onChange={(e) => setGroupId(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">Only me</option>
+                {groups.map((g) => (
+                  <option key={g.id_groups} value={g.id_groups}>
+                    All therapists of {g.group_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group mb-1">
+              <label className="small font-weight-bold mb-1">Text</label>
+              <textarea
+                className="form-control form-control-sm"
+                rows={8}
+                value={content}
+                maxLength={CONTENT_MAX_LENGTH}
+                onChange={(e) => setContent(e.target.value)}
+              />
+            </div>
+            <div className="small text-muted">
+              Variables:
+              {TEMPLATE_VARIABLES.map((v) => (
+                <button
+                  key={v.name}
+                  type="button"
+                  className="btn btn-link btn-sm p-0 ml-2 align-baseline"
+                  title={`${v.description} – click to insert`}
+                  onClick={() => setContent((prev) => `${prev}{${v.name}}`)}
+                >
+                  <code>{`{${v.name}}`}</code>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : library.templates.length === 0 ? (
+          <p className="text-muted text-center my-4">
+            No templates yet. Create one and insert it while writing by typing <code>/</code>.
+          </p>
+        ) : (
+          <div className="list-group tc-template-list">
+            {library.templates.map((t) => {
+              const own = Number(t.author_id) === Number(currentUserId);
+              return (
+                <div key={t.id} className="list-group-item py-2 px-3">
+                  <div className="d-flex justify-content-between align-items-center">
+                    <strong className="small">{t.title}</strong>
+                    <div className="d-flex align-items-center tc-flex-gap-sm">
+                      <span className="badge badge-light border">
+                        {t.group_name ?? 'Personal'}
+                      </span>
+                      {own && (
+                        <>
+                          <button
+                            className="btn btn-link btn-sm p-0 text-muted"
+                            title="Edit template"
+                            onClick={() => startEditing(t)}
+                          >
+                            <i className="fas fa-pencil-alt tc-font-sm" />
+                          </button>
+                          <button
+                            className="btn btn-link btn-sm p-0 text-danger"
+                            title="Delete template"
+                            onClick={() => confirmDelete(t)}
+                          >
+                            <i className="fas fa-trash-alt tc-font-sm" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className="small text-muted tc-template-preview">{t.content}</div>
+                  {!own && <small className="text-muted tc-font-xs">by {t.author_name}</small>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        {editing ? (
+          <>
+            <button className="btn btn-outline-secondary" onClick={() => setEditingId(null)} disabled={saving}>
+              Back
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={save}
+              disabled={saving || !title.trim() || !content.trim()}
+            >
+              {saving ? <i className="fas fa-spinner fa-spin mr-1" /> : <i className="fas fa-save mr-1" />}
+              Save Template
+            </button>
+          </>
+        ) : (
+          <>
+            <button className="btn btn-outline-secondary" onClick={onClose}>
+              Close
+            </button>
+            <button className="btn btn-primary" onClick={() => startEditing(null)}>
+              <i className="fas fa-plus mr-1" />
+              New Template
+            </button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export default TemplateManagerModal;
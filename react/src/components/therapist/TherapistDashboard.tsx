@@ -3,54 +3,84 @@
  * ============================
  *
  * Main therapist monitoring dashboard. Composes layout, data provider,
- * and feature-specific hooks. All business logic lives in dedicated hooks;
- * this file is purely composition and wiring (~200 lines).
+ * and feature-specific hooks (chat, drafts, summaries, notes, message
+ * editing, alerts inbox and notifications, global search, scheduled
+ * messages, templates). Business logic lives in those hooks; this file
+ * wires them to the header, conversation area and modals, and owns the
+ * glue between them: the real-time transport chain, the URL state
+ * (selected patient, group and linked message) and alert deep links.
  */
 
-import React, { useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useChatState } from '../../hooks/useChatState';
-import { usePolling } from '../../hooks/usePolling';
+import { useRealtimeUpdates } from '../../hooks/useRealtimeUpdates';
 import { useDraftState } from '../../hooks/useDraftState';
 import { useSummaryState } from '../../hooks/useSummaryState';
+import { useAlertInbox } from '../../hooks/useAlertInbox';
+import { useAlertNotifications } from '../../hooks/useAlertNotifications';
 import { useNoteEditor } from '../../hooks/useNoteEditor';
+import { useMessageEditor } from '../../hooks/useMessageEditor';
 import { useConversationActions } from '../../hooks/useConversationActions';
+import { useGlobalSearch } from '../../hooks/useGlobalSearch';
+import { useScheduledMessages } from '../../hooks/useScheduledMessages';
+import { useMessageTemplates } from '../../hooks/useMessageTemplates';
 import { createTherapistApi } from '../../utils/api';
+import { createSseTransport, createWebSocketTransport, createPollingTransport } from '../../utils/realtime';
+import type { RealtimeTransport } from '../../utils/realtime';
 import { getUnreadForSubject, getTotalUnread } from '../../utils/unreadHelpers';
 import { readUrlState, writeUrlState } from '../../utils/urlState';
+import { resolveTemplate } from '../../utils/templates';
 import { DashboardDataProvider, useDashboardData } from './DashboardDataProvider';
 import { DashboardLayout } from './DashboardLayout';
 import { HeaderArea } from './HeaderArea';
 import { ConversationArea } from './ConversationArea';
 import { ConversationViewer } from './ConversationViewer';
+import type { MessageJumpTarget } from './ConversationViewer';
+import type { MentionItem } from '../shared/MessageInput';
 import { RiskStatusControls } from './RiskStatusControls';
 import { SummaryModal } from './SummaryModal';
 import { DraftEditorModal } from './DraftEditor';
+import { TemplateManagerModal } from './TemplateManagerModal';
 import { StatsHeader } from './StatsHeader';
 import { AlertBanner } from './AlertBanner';
+import { AlertInboxModal } from './AlertInboxModal';
+import { NotificationSettingsModal } from './NotificationSettingsModal';
 import { GroupTabs } from './GroupTabs';
+import { GlobalSearchPanel } from './GlobalSearchPanel';
 import { PatientList } from './PatientList';
 import { NotesPanel } from './NotesPanel';
 import type { FilterType } from './PatientList';
-import type { TherapistDashboardConfig } from '../../types';
+import type {
+  TherapistDashboardConfig,
+  RealtimeEvent,
+  MessageSearchGroup,
+  MessageSearchHit,
+  Alert,
+} from '../../types';
 
 // ---------------------------------------------------------------------------
 // Inner Dashboard (lives inside DashboardDataProvider)
 // ---------------------------------------------------------------------------
 
-const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> = ({ config }) => {
+const TherapistDashboardInner: React.FC<{
+  config: TherapistDashboardConfig;
+  /** Message linked in the URL (`mid`), highlighted once its conversation is loaded */
+  initialMessageId?: number;
+}> = ({ config, initialMessageId }) => {
   const api = useMemo(() => createTherapistApi(config.sectionId), [config.sectionId]);
   const { features, labels } = config;
   const { state, actions } = useDashboardData();
   const {
-    conversations, alerts, notes, unreadCounts, groups, stats,
+    conversations, alerts, notes, unreadCounts, groups, stats, typingConversationIds,
     selectedConversationId, activeGroupId, activeFilter, loading, errors,
   } = state;
 
   // ---- Chat state ----
   const chat = useChatState({
     loadFn: (convId) => api.getConversation(convId as number | string),
-    sendFn: (convId, msg) => api.sendMessage(convId, msg),
+    sendFn: (convId, msg, _clientId, files) => api.sendMessage(convId, msg, files),
     pollFn: (convId, afterId) => api.getMessages(convId, afterId),
+    loadOlderFn: (convId, beforeId) => api.getOlderMessages(convId, beforeId),
     senderType: 'therapist',
   });
 
@@ -78,37 +108,143 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
 
   // ---- Draft state ----
   const draft = useDraftState({
-    createDraft: (convId) => api.createDraft(convId),
-    sendMessage: chat.sendMessage,
+    createDraft: (convId, guidance) => api.createDraft(convId, guidance),
+    sendDraft: async (draftId, content, { candidateIds, pickedFrom }) => {
+      const convId = getConversationId();
+      if (!convId) throw new Error('No conversation selected');
+      await api.sendDraft(draftId, convId, { content, candidateIds, pickedFrom });
+      await chat.pollMessages();
+    },
+    discardDraft: api.discardDraft,
     getConversationId,
   });
 
   // ---- Summary state ----
   const summary = useSummaryState({
-    generateSummary: (convId) => api.generateSummary(convId),
-    addNote: (convId, content) => api.addNote(convId, content),
+    generateSummary: (convId, options) => api.generateSummary(convId, options),
+    addNote: (convId, content, structure, summaryMessageId) =>
+      api.addNote(convId, content, 'ai_summary', structure, undefined, summaryMessageId),
+    getSummaryHistory: (convId) => api.getSummaryHistory(convId),
     getConversationId,
     onNoteAdded: actions.addNote,
   });
 
+  // ---- Alerts inbox ----
+  const alertInboxApi = useMemo(() => ({
+    getAlertInbox: api.getAlertInbox,
+    getAlert: api.getAlert,
+    updateAlertStatus: api.updateAlertStatus,
+    assignAlert: api.assignAlert,
+    markAllAlertsRead: () => api.markAllAlertsRead(),
+  }), [api]);
+  const { loadAlerts, loadUnreadCounts } = actions;
+  const refreshAlerts = useCallback(async () => {
+    await Promise.all([loadAlerts(), loadUnreadCounts()]);
+  }, [loadAlerts, loadUnreadCounts]);
+  const alertInbox = useAlertInbox({ api: alertInboxApi, onAlertsChanged: refreshAlerts });
+
   // ---- Note editor state ----
+  const noteAuthor = useMemo(() => ({ id: config.userId, name: config.userName }), [config.userId, config.userName]);
   const noteEditor = useNoteEditor({
-    api: { addNote: api.addNote, editNote: api.editNote, deleteNote: api.deleteNote },
+    api: { addNote: api.addNote, editNote: api.editNote, deleteNote: api.deleteNote, pinNote: api.pinNote },
     getConversationId,
+    author: noteAuthor,
     onNoteAdded: actions.addNote,
     onNoteUpdated: actions.updateNote,
     onNoteDeleted: actions.deleteNote,
   });
 
-  // ---- Polling (refreshes dashboard data AND chat messages) ----
-  usePolling({
-    callback: async () => {
+  // ---- Message editor state (edit / delete own messages) ----
+  const messageEditor = useMessageEditor({
+    api: { editMessage: api.editMessage, deleteMessage: api.deleteMessage },
+    messages: chat.messages,
+    setMessages: chat.setMessages,
+    setError: chat.setError,
+  });
+
+  // ---- Scheduled ("send later") messages ----
+  const scheduled = useScheduledMessages({
+    api: {
+      getScheduledMessages: api.getScheduledMessages,
+      scheduleMessage: api.scheduleMessage,
+      updateScheduledMessage: api.updateScheduledMessage,
+      cancelScheduledMessage: api.cancelScheduledMessage,
+    },
+    conversationId: chat.conversation?.id,
+    setError: chat.setError,
+  });
+
+  // ---- Message templates (inserted with "/") ----
+  const templateLibrary = useMessageTemplates({
+    api: {
+      getTemplates: api.getTemplates,
+      createTemplate: api.createTemplate,
+      updateTemplate: api.updateTemplate,
+      deleteTemplate: api.deleteTemplate,
+    },
+  });
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+
+  const templateSuggestions: MentionItem[] = useMemo(() => {
+    const context = { conversation: chat.conversation, therapistName: config.userName };
+    return templateLibrary.templates.map((t) => {
+      const text = resolveTemplate(t.content, context);
+      return { id: t.id, display: t.title, insertText: text, description: text };
+    });
+  }, [templateLibrary.templates, chat.conversation, config.userName]);
+
+  // ---- Typing notifications for the open conversation ----
+  const reportTyping = useCallback((typing: boolean) => {
+    const convId = getConversationId();
+    if (!convId) return;
+    api.setTyping(convId, typing).catch(() => { /* typing pings are best-effort */ });
+  }, [api, getConversationId]);
+
+  const loadMessageHistory = useCallback(async (messageId: number) => {
+    const convId = getConversationId();
+    if (!convId) throw new Error('No conversation selected');
+    const res = await api.getMessageHistory(convId, messageId);
+    return res.history;
+  }, [api, getConversationId]);
+
+  const loadNoteHistory = useCallback(async (noteId: number) => {
+    const convId = getConversationId();
+    if (!convId) throw new Error('No conversation selected');
+    const res = await api.getNoteHistory(convId, noteId);
+    return res.history;
+  }, [api, getConversationId]);
+
+  // ---- Real-time updates (WebSocket / SSE, falling back to polling) ----
+  // SSE is opt-in only: each open stream holds a PHP worker
+  const transports = useMemo(() => {
+    const { transport = 'polling', websocketUrl = '' } = config.realtime ?? {};
+    const chain: RealtimeTransport[] = [];
+    if ((transport === 'auto' || transport === 'websocket') && websocketUrl) {
+      chain.push(createWebSocketTransport(websocketUrl));
+    }
+    if (transport === 'sse') {
+      chain.push(createSseTransport(api.getEventStreamUrl()));
+    }
+    chain.push(createPollingTransport(api.checkUpdates, config.pollingInterval || 5000));
+    return chain;
+  }, [api, config.realtime, config.pollingInterval]);
+
+  useRealtimeUpdates({
+    transports,
+    onEvent: async (event: RealtimeEvent) => {
+      await Promise.all([
+        actions.handleRealtimeEvent(event),
+        event.type === 'message' && chat.pollMessages(),
+        event.type === 'message' && scheduled.reload(),
+        (event.type === 'conversation' || event.type === 'receipt') && chat.refreshConversation(),
+      ]);
+    },
+    onResync: async () => {
       await Promise.all([
         actions.refresh(),
-        chat.pollMessages(),
+        chat.refreshConversation(),
       ]);
     },
-    interval: config.pollingInterval || 5000,
   });
 
   // ---- Load conversation + notes when selection changes ----
@@ -139,6 +275,50 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
     actions.setActiveFilter(filter);
   }, [actions]);
 
+  // ---- Cross-patient search ----
+  const globalSearch = useGlobalSearch({ searchFn: api.searchMessages });
+  const [jumpTarget, setJumpTarget] = useState<MessageJumpTarget | null>(() => (
+    initialMessageId && selectedConversationId
+      ? { conversationId: selectedConversationId, messageId: initialMessageId }
+      : null
+  ));
+  const clearJumpTarget = useCallback(() => setJumpTarget(null), []);
+
+  const openSearchResult = useCallback((group: MessageSearchGroup, hit: MessageSearchHit) => {
+    setJumpTarget({
+      conversationId: group.conversation_id,
+      messageId: hit.message_id,
+      query: globalSearch.filters.query.trim(),
+    });
+    selectConversation(group.conversation_id);
+  }, [globalSearch.filters.query, selectConversation]);
+
+  // ---- Alert deep links: open the conversation at the triggering message ----
+  const openAlert = useCallback((alert: Alert) => {
+    if (!alert.conversation_id) return;
+    if (alert.message_id) {
+      setJumpTarget({ conversationId: alert.conversation_id, messageId: alert.message_id });
+    }
+    actions.setSelectedConversation(alert.conversation_id);
+    writeUrlState({
+      uid: alert.conversation_id,
+      gid: activeGroupId ?? undefined,
+      mid: alert.message_id ?? undefined,
+    });
+  }, [actions, activeGroupId]);
+
+  // ---- Tab title, desktop notifications and sound cues ----
+  const notifications = useAlertNotifications({
+    userId: config.userId,
+    sectionId: config.sectionId,
+    alerts,
+    alertsLoading: loading.alerts,
+    alertsError: errors.alerts,
+    unreadCounts,
+    onOpenAlert: openAlert,
+  });
+  const [notificationSettingsOpen, setNotificationSettingsOpen] = useState(false);
+
   // ---- Computed values ----
   const selectedConversation = conversations.find(c => String(c.id) === String(selectedConversationId));
   const selectedUnreadCount = selectedConversationId
@@ -166,13 +346,31 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
                     statCritical: labels.statCritical,
                     statAlerts: labels.statAlerts,
                   }}
+                  onOpenAlerts={() => alertInbox.openInbox()}
+                  onOpenNotificationSettings={() => setNotificationSettingsOpen(true)}
+                  notificationsEnabled={notifications.settings.enabled}
                 />
               )
             }
+            searchPanel={
+              <GlobalSearchPanel
+                search={globalSearch}
+                groups={groups}
+                labels={labels}
+                onSelectResult={openSearchResult}
+              />
+            }
             alertBanner={(() => {
               const unreadAlerts = alerts.filter(a => !a.is_read);
               return unreadAlerts.length > 0 && (
-                <AlertBanner alerts={unreadAlerts} onAcknowledge={actions.markAlertRead} labels={labels} />
+                <AlertBanner
+                  alerts={unreadAlerts}
+                  onAcknowledge={actions.markAlertRead}
+                  onDismissAll={actions.markAllAlertsRead}
+                  onOpenInbox={() => alertInbox.openInbox()}
+                  onOpenAlert={openAlert}
+                  labels={labels}
+                />
               );
             })()}
             groupTabs={
@@ -214,15 +412,25 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
                 <ConversationViewer
                   conversation={chat.conversation}
                   chat={chat}
+                  messageEditor={messageEditor}
+                  onLoadMessageHistory={loadMessageHistory}
+                  getAttachmentUrl={api.getAttachmentUrl}
                   unreadCount={selectedUnreadCount}
                   labels={labels}
                   features={features}
                   config={config}
                   onMarkRead={convActions.markRead}
+                  patientTyping={typingConversationIds.includes(Number(chat.conversation.id))}
+                  onTyping={reportTyping}
+                  scheduled={scheduled}
+                  templateSuggestions={templateSuggestions}
+                  onManageTemplates={() => setTemplatesOpen(true)}
                   onCreateDraft={draft.generate}
-                  onGenerateSummary={summary.generate}
+                  onGenerateSummary={summary.start}
                   draftModalOpen={draft.open}
                   summaryModalOpen={summary.open}
+                  jumpTarget={jumpTarget}
+                  onJumpHandled={clearJumpTarget}
                 />
               )
             }
@@ -239,6 +447,8 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
                   features={features}
                   onSetRisk={convActions.setRisk}
                   onToggleAI={convActions.toggleAI}
+                  patientUploadsAllowed={!!chat.conversation.allow_patient_uploads}
+                  onTogglePatientUploads={convActions.togglePatientUploads}
                 />
               )}
               {/* Export CSV dropdown – grouped with right-sidebar controls */}
@@ -266,17 +476,34 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
               </div>
               {features.enableNotes && features.showNotesPanel && (
                 <NotesPanel
+                  key={selectedConversationId}
                   notes={notes}
+                  noteTemplates={config.noteTemplates}
                   newNote={noteEditor.newNote}
                   onNewNoteChange={noteEditor.setNewNote}
+                  newNoteTemplate={noteEditor.newNoteTemplate}
+                  onNewNoteTemplateChange={noteEditor.selectNewNoteTemplate}
+                  newNoteSections={noteEditor.newNoteSections}
+                  onNewNoteSectionsChange={noteEditor.setNewNoteSections}
+                  noteTagSuggestions={config.noteTagSuggestions}
+                  newNoteTags={noteEditor.newNoteTags}
+                  onNewNoteTagsChange={noteEditor.setNewNoteTags}
                   onAddNote={noteEditor.add}
                   editingNoteId={noteEditor.editingId}
                   editingNoteText={noteEditor.editingText}
+                  editingNoteTemplate={noteEditor.editingTemplate}
+                  editingNoteSections={noteEditor.editingSections}
+                  editingNoteTags={noteEditor.editingTags}
                   onEditStart={noteEditor.startEditing}
                   onEditCancel={noteEditor.cancelEditing}
                   onEditTextChange={noteEditor.setEditingText}
+                  onEditSectionsChange={noteEditor.setEditingSections}
+                  onEditTagsChange={noteEditor.setEditingTags}
                   onEditSave={noteEditor.save}
                   onDeleteNote={noteEditor.remove}
+                  onTogglePin={noteEditor.togglePin}
+                  loadNoteHistory={loadNoteHistory}
+                  onRestoreVersion={noteEditor.restore}
                   labels={labels}
                 />
               )}
@@ -295,6 +522,16 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
         draftUndoStack={draft.undoStack}
         hasActiveDraft={!!draft.text}
         subjectName={chat.conversation?.subject_name || ''}
+        candidates={draft.candidates}
+        activeCandidateIndex={draft.activeIndex}
+        baseCandidateIndex={draft.baseIndex}
+        onSelectCandidate={draft.setActiveIndex}
+        onApplyCandidate={draft.applyCandidate}
+        onInsertParagraph={draft.insertParagraph}
+        sending={draft.sending}
+        sendError={draft.sendError}
+        guidance={draft.guidance}
+        onGuidanceChange={draft.setGuidance}
         onRegenerate={draft.regenerate}
         onUndo={draft.undo}
         onSend={draft.send}
@@ -303,6 +540,15 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
         onRetry={draft.retry}
       />
 
+      {/* Template Manager Modal */}
+      <TemplateManagerModal
+        open={templatesOpen}
+        onClose={() => setTemplatesOpen(false)}
+        library={templateLibrary}
+        groups={groups}
+        currentUserId={config.userId}
+      />
+
       {/* Summary Modal */}
       <SummaryModal
         open={summary.open}
@@ -313,6 +559,46 @@ const TherapistDashboardInner: React.FC<{ config: TherapistDashboardConfig }> =
         subjectName={chat.conversation?.subject_name || ''}
         onRetry={summary.retry}
         onSaveAsNote={summary.saveAsNote}
+        step={summary.step}
+        options={summary.options}
+        onOptionsChange={summary.setOptions}
+        onGenerate={summary.generate}
+        onEditOptions={summary.editOptions}
+        noteTemplates={config.noteTemplates}
+        template={summary.template}
+        sections={summary.sections}
+        onSectionsChange={summary.setSections}
+        info={summary.info}
+        saved={summary.savedNoteId !== null}
+        canResume={summary.canResume}
+        onResume={summary.resume}
+        history={summary.history}
+        historyLoading={summary.historyLoading}
+        historyError={summary.historyError}
+        onShowHistory={summary.showHistory}
+        onCloseHistory={summary.closeHistory}
+        onReloadHistory={summary.loadHistory}
+        onOpenFromHistory={summary.openFromHistory}
+      />
+
+      {/* Alerts Inbox Modal */}
+      <AlertInboxModal
+        inbox={alertInbox}
+        conversations={conversations}
+        onOpenAlert={(alert) => {
+          alertInbox.close();
+          openAlert(alert);
+        }}
+      />
+
+      {/* Notification Settings Modal */}
+      <NotificationSettingsModal
+        open={notificationSettingsOpen}
+        onClose={() => setNotificationSettingsOpen(false)}
+        settings={notifications.settings}
+        permission={notifications.permission}
+        onSave={notifications.updateSettings}
+        onTestSound={notifications.testSound}
       />
     </>
   );
@@ -332,7 +618,7 @@ export const TherapistDashboard: React.FC<{ config: TherapistDashboardConfig }>
       initialGroupId={urlState.gid ?? null}
       initialSubjectId={urlState.uid ?? null}
     >
-      <TherapistDashboardInner config={config} />
+      <TherapistDashboardInner config={config} initialMessageId={urlState.mid} />
     </DashboardDataProvider>
   );
 };
@@ -0,0 +1,157 @@
+/**
+ * Alert Inbox Hook
+ * =================
+ *
+ * State of the alerts inbox: every alert of the therapist's patients
+ * (read or not) filtered by type, severity, status, patient and date, and
+ * the triage of the selected alert – status changes with a resolution
+ * note, assignment to a colleague and the audit trail.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { Alert, AlertDetails, AlertInboxFilter, AlertStatus } from '../types';
+
+interface UseAlertInboxOptions {
+  api: {
+    getAlertInbox: (filter: AlertInboxFilter) => Promise<{ alerts: Alert[] }>;
+    getAlert: (alertId: number) => Promise<AlertDetails>;
+    updateAlertStatus: (alertId: number, status: AlertStatus, note?: string) => Promise<AlertDetails>;
+    assignAlert: (alertId: number, assigneeId: number | null) => Promise<AlertDetails>;
+    markAllAlertsRead: () => Promise<unknown>;
+  };
+  /** Refresh the banner and counters after a change */
+  onAlertsChanged: () => void | Promise<void>;
+}
+
+export const EMPTY_ALERT_FILTER: AlertInboxFilter = {
+  type: null,
+  severity: null,
+  status: null,
+  conversationId: null,
+  dateFrom: null,
+  dateTo: null,
+};
+
+export function useAlertInbox({ api, onAlertsChanged }: UseAlertInboxOptions) {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<AlertInboxFilter>(EMPTY_ALERT_FILTER);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [details, setDetails] = useState<AlertDetails | null>(null);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getAlertInbox(filter);
+      setAlerts(response.alerts || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, filter]);
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, reload]);
+
+  /** Open the inbox, optionally with a filter (e.g. one patient) */
+  const openInbox = useCallback((initialFilter?: Partial<AlertInboxFilter>) => {
+    if (initialFilter) setFilter({ ...EMPTY_ALERT_FILTER, ...initialFilter });
+    setOpen(true);
+  }, []);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setSelectedId(null);
+    setDetails(null);
+  }, []);
+
+  /** Show an alert's triage panel (null = back to the list) */
+  const select = useCallback(async (alertId: number | null) => {
+    setSelectedId(alertId);
+    setDetails(null);
+    setActionError(null);
+    if (alertId === null) return;
+
+    setDetailsLoading(true);
+    try {
+      setDetails(await api.getAlert(alertId));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to load alert');
+    } finally {
+      setDetailsLoading(false);
+    }
+  }, [api]);
+
+  /** Apply a triage response: new details, updated list row, refreshed banner */
+  const applyDetails = useCallback((response: AlertDetails) => {
+    setDetails({ alert: response.alert, events: response.events, colleagues: response.colleagues });
+    setAlerts((prev) => prev.map((a) => (a.id === response.alert.id ? response.alert : a)));
+    onAlertsChanged();
+  }, [onAlertsChanged]);
+
+  const updateStatus = useCallback(async (status: AlertStatus, note?: string): Promise<boolean> => {
+    if (selectedId === null) return false;
+    setSaving(true);
+    setActionError(null);
+    try {
+      applyDetails(await api.updateAlertStatus(selectedId, status, note));
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update alert');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [api, selectedId, applyDetails]);
+
+  const assign = useCallback(async (assigneeId: number | null) => {
+    if (selectedId === null) return;
+    setSaving(true);
+    setActionError(null);
+    try {
+      applyDetails(await api.assignAlert(selectedId, assigneeId));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to assign alert');
+    } finally {
+      setSaving(false);
+    }
+  }, [api, selectedId, applyDetails]);
+
+  const markAllRead = useCallback(async () => {
+    try {
+      await api.markAllAlertsRead();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark alerts as read');
+    }
+    await Promise.all([reload(), onAlertsChanged()]);
+  }, [api, reload, onAlertsChanged]);
+
+  return {
+    open,
+    filter,
+    setFilter,
+    alerts,
+    loading,
+    error,
+    selectedId,
+    details,
+    detailsLoading,
+    saving,
+    actionError,
+    openInbox,
+    close,
+    reload,
+    select,
+    updateStatus,
+    assign,
+    markAllRead,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Alert Notifications Hook
+ * =========================
+ *
+ * Keeps therapists aware of new alerts when the dashboard tab is in the
+ * background: the tab title shows the unread count (messages + alerts),
+ * and – when opted in – new alerts of the selected severities raise a
+ * Web Notification and emergency/critical alerts play a sound cue.
+ * Clicking a notification focuses the tab and opens the alert.
+ *
+ * Alerts already waiting when the dashboard opens are not announced;
+ * only alerts arriving with later successful loads are.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getTotalUnread } from '../utils/unreadHelpers';
+import {
+  SOUND_SEVERITIES,
+  loadNotificationSettings,
+  saveNotificationSettings,
+  getNotificationPermission,
+  requestNotificationPermission,
+  formatTabTitle,
+  describeAlertNotification,
+  playAlertSound,
+  unlockAlertSound,
+} from '../utils/notifications';
+import type { NotificationSettings } from '../utils/notifications';
+import type { Alert, UnreadCounts } from '../types';
+
+interface UseAlertNotificationsOptions {
+  userId: number;
+  sectionId: number;
+  /** Unread alerts (DashboardDataProvider) */
+  alerts: Alert[];
+  /** Whether the alerts are being (re)loaded */
+  alertsLoading: boolean;
+  /** Error of the last alerts load (DashboardDataProvider) */
+  alertsError: string | null;
+  unreadCounts: UnreadCounts;
+  /** Open the alert's conversation (notification click) */
+  onOpenAlert: (alert: Alert) => void;
+}
+
+export function useAlertNotifications({
+  userId,
+  sectionId,
+  alerts,
+  alertsLoading,
+  alertsError,
+  unreadCounts,
+  onOpenAlert,
+}: UseAlertNotificationsOptions) {
+  const [settings, setSettings] = useState<NotificationSettings>(
+    () => loadNotificationSettings(userId, sectionId),
+  );
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onOpenAlertRef = useRef(onOpenAlert);
+  onOpenAlertRef.current = onOpenAlert;
+
+  // ---- Tab title ----
+  const baseTitleRef = useRef(document.title);
+  const unread = getTotalUnread(unreadCounts);
+  useEffect(() => {
+    document.title = formatTabTitle(baseTitleRef.current, unread);
+  }, [unread]);
+  useEffect(() => {
+    const baseTitle = baseTitleRef.current;
+    return () => { document.title = baseTitle; };
+  }, []);
+
+  // ---- Announce new alerts ----
+  const seenRef = useRef<Set<number> | null>(null);
+  const wasLoadingRef = useRef(false);
+
+  useEffect(() => {
+    if (alertsLoading) {
+      wasLoadingRef.current = true;
+      return;
+    }
+    if (!wasLoadingRef.current) return;
+    wasLoadingRef.current = false;
+    // A failed load left the list as it was: nothing to seed or announce
+    if (alertsError) return;
+    if (seenRef.current === null) {
+      // The first successful load only seeds the alerts already waiting
+      seenRef.current = new Set(alerts.map((a) => a.id));
+      return;
+    }
+
+    const seen = seenRef.current;
+    const fresh = alerts.filter((a) => !a.is_read && !seen.has(a.id));
+    fresh.forEach((a) => seen.add(a.id));
+    const current = settingsRef.current;
+    const announced = fresh.filter((a) => current.severities[a.severity]);
+    if (announced.length === 0) return;
+
+    if (current.sound) {
+      const loudest = SOUND_SEVERITIES.find((s) => announced.some((a) => a.severity === s));
+      if (loudest) playAlertSound(loudest);
+    }
+
+    const background = document.hidden || !document.hasFocus();
+    if (!current.enabled || !background || getNotificationPermission() !== 'granted') return;
+
+    announced.forEach((alert) => {
+      const { title, body } = describeAlertNotification(alert);
+      const notification = new Notification(title, {
+        body,
+        tag: `therapy-alert-${alert.id}`,
+        requireInteraction: alert.severity === 'emergency',
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+        onOpenAlertRef.current(alert);
+      };
+    });
+  }, [alerts, alertsLoading, alertsError]);
+
+  // ---- Settings ----
+  const updateSettings = useCallback(async (next: NotificationSettings) => {
+    let enabled = next.enabled;
+    if (enabled && !settingsRef.current.enabled) {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      enabled = result === 'granted';
+    }
+    if (next.sound) unlockAlertSound();
+
+    const saved = { ...next, enabled };
+    setSettings(saved);
+    saveNotificationSettings(userId, sectionId, saved);
+  }, [userId, sectionId]);
+
+  /** Preview the sound cue of the loudest severity */
+  const testSound = useCallback(() => {
+    playAlertSound('emergency');
+  }, []);
+
+  return { settings, permission, updateSettings, testSound };
+}
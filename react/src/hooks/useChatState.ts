@@ -6,31 +6,69 @@
  * Handles conversation loading, message sending, optimistic updates,
  * and polling for new messages.
  *
+ * When an `outbox` is passed, unsent messages are persisted instead of
+ * being dropped on failure: their bubbles show a pending / failed state,
+ * can be retried or discarded, and are resent automatically when the
+ * browser comes back online. Messages with attachments bypass the outbox
+ * (files cannot be persisted in localStorage) and fail like plain sends.
+ *
+ * With a `streamFn` the AI reply is shown while it is generated: a
+ * streaming bubble (`is_streaming`) grows with every delta and is replaced
+ * by the stored reply at the end. `cancelStreaming()` stops the reply; the
+ * sent message itself is kept.
+ *
  * IMPORTANT: loadFn / sendFn / pollFn are stored in refs so their
  * identity never affects the dependency arrays of the callbacks
  * returned to the consumer.  This prevents infinite re-render loops.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Message, Conversation, SendMessageResponse } from '../types';
+import { createClientId } from '../utils/outbox';
+import { createLocalAttachments, revokeLocalAttachments } from '../utils/attachments';
+import type { Outbox } from '../utils/outbox';
+import type { Message, Conversation, SendMessageResponse, SendMessageStreamHandlers } from '../types';
 
 interface UseChatStateOptions {
   /** Function that loads a conversation with messages */
-  loadFn: (conversationId?: number | string) => Promise<{ conversation?: Conversation; messages?: Message[] }>;
-  /** Function that sends a message */
-  sendFn: (conversationId: number | string, message: string) => Promise<SendMessageResponse>;
+  loadFn: (conversationId?: number | string) => Promise<{ conversation?: Conversation; messages?: Message[]; has_more?: boolean }>;
+  /** Function that sends a message (clientId is set when an outbox is used) */
+  sendFn: (conversationId: number | string, message: string, clientId?: string, files?: File[]) => Promise<SendMessageResponse>;
+  /** Function that sends a message and streams the AI reply (preferred over sendFn when set) */
+  streamFn?: (
+    conversationId: number | string,
+    message: string,
+    clientId: string | undefined,
+    files: File[] | undefined,
+    handlers: SendMessageStreamHandlers,
+    signal: AbortSignal,
+  ) => Promise<SendMessageResponse>;
   /** Function that polls for new messages */
   pollFn: (conversationId: number | string, afterId?: number) => Promise<{ messages: Message[] }>;
+  /** Function that loads a page of messages older than beforeId (enables history paging) */
+  loadOlderFn?: (conversationId: number | string, beforeId: number) => Promise<{ messages: Message[]; has_more?: boolean }>;
   /** Sender type for optimistic messages */
   senderType: 'subject' | 'therapist';
+  /** Persistent queue for unsent messages (optional) */
+  outbox?: Outbox;
 }
 
-export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStateOptions) {
+/** Persisted (server) message ID, or null for optimistic / client-only messages */
+function serverId(msg: Message): number | null {
+  const n = typeof msg.id === 'number' ? msg.id : Number(msg.id);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export function useChatState({ loadFn, sendFn, streamFn, pollFn, loadOlderFn, senderType, outbox }: UseChatStateOptions) {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  /** The sent message is stored and its AI reply is being streamed */
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** Older messages exist on the server (history paging) */
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const lastMsgIdRef = useRef<number | null>(null);
   /** Prevents poll from running while a load/send is in flight */
   const busyRef = useRef(false);
@@ -40,13 +78,27 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
   // even when the parent re-renders with new inline arrow functions.
   const loadFnRef = useRef(loadFn);
   const sendFnRef = useRef(sendFn);
+  const streamFnRef = useRef(streamFn);
   const pollFnRef = useRef(pollFn);
+  const loadOlderFnRef = useRef(loadOlderFn);
+  const messagesRef = useRef<Message[]>([]);
   const conversationRef = useRef(conversation);
+  const outboxRef = useRef(outbox);
+  /** History page request in flight (see loadOlderMessages) */
+  const olderRequestRef = useRef<Promise<Message[]> | null>(null);
+  /** Client IDs of outbox messages currently being sent */
+  const deliveringRef = useRef(new Set<string>());
+  /** Aborts the AI reply stream in flight */
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => { loadFnRef.current = loadFn; }, [loadFn]);
   useEffect(() => { sendFnRef.current = sendFn; }, [sendFn]);
+  useEffect(() => { streamFnRef.current = streamFn; }, [streamFn]);
   useEffect(() => { pollFnRef.current = pollFn; }, [pollFn]);
+  useEffect(() => { loadOlderFnRef.current = loadOlderFn; }, [loadOlderFn]);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
   useEffect(() => { conversationRef.current = conversation; }, [conversation]);
+  useEffect(() => { outboxRef.current = outbox; }, [outbox]);
 
   /** Update the tracked last message ID */
   const trackLastId = useCallback((msgs: Message[]) => {
@@ -56,6 +108,21 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
     if (!isNaN(n)) lastMsgIdRef.current = n;
   }, []);
 
+  /** Server messages followed by the conversation's unsent outbox messages */
+  const withOutbox = useCallback((msgs: Message[], conversationId?: number | string): Message[] => {
+    if (!outboxRef.current || conversationId == null) return msgs;
+    const queued: Message[] = outboxRef.current.list(conversationId).map((e) => ({
+      id: `temp-${e.clientId}`,
+      client_id: e.clientId,
+      role: 'user',
+      content: e.content,
+      sender_type: senderType,
+      timestamp: e.createdAt,
+      send_status: e.status,
+    }));
+    return queued.length ? [...msgs, ...queued] : msgs;
+  }, [senderType]);
+
   /** Load conversation + messages  (STABLE identity) */
   const loadConversation = useCallback(
     async (conversationId?: number | string) => {
@@ -64,11 +131,16 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
       setError(null);
       try {
         const res = await loadFnRef.current(conversationId);
-        if (res.conversation) setConversation(res.conversation);
+        if (res.conversation) {
+          setConversation(res.conversation);
+          // Available to follow-up calls (e.g. flushOutbox) before the next render
+          conversationRef.current = res.conversation;
+        }
         if (res.messages) {
-          setMessages(res.messages);
+          setMessages(withOutbox(res.messages, res.conversation?.id ?? conversationId));
           trackLastId(res.messages);
         }
+        setHasMore(!!res.has_more);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load conversation');
       } finally {
@@ -76,30 +148,72 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
         busyRef.current = false;
       }
     },
-    [trackLastId],
+    [trackLastId, withOutbox],
   );
 
-  /** Send a message with optimistic update  (STABLE identity) */
-  const sendMessage = useCallback(
-    async (content: string) => {
-      const convId = conversationRef.current?.id;
-      if (!content.trim() || !convId) return;
-
+  /**
+   * Deliver an optimistic message that is already shown under `tempId`.
+   * With a clientId (outbox mode) a failed send keeps the bubble as
+   * 'failed'; otherwise the bubble is removed and the error shown.
+   * Once a streamed send has stored the message, later failures only
+   * drop the streaming AI bubble.
+   */
+  const deliver = useCallback(
+    async (tempId: string, convId: number | string, content: string, clientId?: string, files?: File[]) => {
       setIsSending(true);
       setError(null);
+      if (clientId) deliveringRef.current.add(clientId);
 
-      const tempId = `temp-${Date.now()}`;
-      const optimistic: Message = {
-        id: tempId,
-        role: 'user',
-        content,
-        sender_type: senderType,
-        timestamp: new Date().toISOString(),
+      const streamId = `stream-${tempId}`;
+      let stored = false;
+      const abort = streamFnRef.current ? new AbortController() : null;
+      streamAbortRef.current = abort;
+
+      /** Replace the temp message with the stored one (or drop it if polling already delivered it) */
+      const confirm = (res: SendMessageResponse) => {
+        if (clientId) outboxRef.current?.remove(clientId);
+        if (!res.message_id) return;
+        const realId = res.message_id;
+        setMessages((prev) => (
+          prev.some((m) => String(m.id) === String(realId))
+            ? prev.filter((m) => m.id !== tempId)
+            : prev.map((m) => (m.id === tempId
+              ? { ...m, id: realId, client_id: undefined, send_status: undefined, attachments: res.attachments ?? m.attachments }
+              : m))
+        ));
+        lastMsgIdRef.current = realId;
+      };
+
+      /** Update the streaming AI bubble, creating it on first use */
+      const updateStream = (update: (current: string) => string) => {
+        setMessages((prev) => (
+          prev.some((m) => m.id === streamId)
+            ? prev.map((m) => (m.id === streamId ? { ...m, content: update(m.content) } : m))
+            : [...prev, {
+              id: streamId,
+              role: 'assistant',
+              content: update(''),
+              sender_type: 'ai',
+              timestamp: new Date().toISOString(),
+              is_streaming: true,
+            }]
+        ));
       };
-      setMessages((prev) => [...prev, optimistic]);
 
       try {
-        const res = await sendFnRef.current(convId, content);
+        const res = abort
+          ? await streamFnRef.current!(convId, content, clientId, files, {
+            onStored: (ack) => {
+              stored = true;
+              confirm(ack);
+              setIsStreaming(true);
+            },
+            onDelta: (text) => updateStream((current) => current + text),
+            // The unsafe reply's text is withheld; show the bubble as pending
+            onSafety: () => updateStream(() => ''),
+          }, abort.signal)
+          : await sendFnRef.current(convId, content, clientId, files);
+        if (clientId) outboxRef.current?.remove(clientId);
 
         if (res.blocked) {
           // Remove optimistic message and show safety notice
@@ -115,30 +229,123 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
           return;
         }
 
-        // Replace temp message with real one
-        if (res.message_id) {
-          setMessages((prev) => prev.map((m) => (m.id === tempId ? { ...m, id: res.message_id! } : m)));
-          lastMsgIdRef.current = res.message_id;
-        }
+        if (!stored) confirm(res);
 
-        // Append AI response if present
-        if (res.ai_message) {
-          setMessages((prev) => [...prev, res.ai_message!]);
-          const aiId = typeof res.ai_message.id === 'number'
-            ? res.ai_message.id
-            : parseInt(String(res.ai_message.id), 10);
+        // Append AI response if present (in place of the streaming bubble)
+        const aiMessage = res.ai_message;
+        setMessages((prev) => {
+          const rest = prev.filter((m) => m.id !== streamId);
+          return aiMessage && !rest.some((m) => String(m.id) === String(aiMessage.id))
+            ? [...rest, aiMessage]
+            : rest;
+        });
+        if (aiMessage) {
+          const aiId = typeof aiMessage.id === 'number' ? aiMessage.id : parseInt(String(aiMessage.id), 10);
           if (!isNaN(aiId)) lastMsgIdRef.current = aiId;
         }
+
+        // The safety check switched the conversation to human-only
+        if (res.conversation_blocked) {
+          setConversation((prev) => (prev ? { ...prev, ai_enabled: false } : prev));
+        }
       } catch (err) {
-        setMessages((prev) => prev.filter((m) => m.id !== tempId));
-        setError(err instanceof Error ? err.message : 'Failed to send message');
+        const message = err instanceof Error ? err.message : 'Failed to send message';
+        if (stored) {
+          // The message is sent; only the reply was stopped or failed
+          setMessages((prev) => prev.filter((m) => m.id !== streamId));
+          if (!abort?.signal.aborted) setError(message);
+        } else if (clientId && outboxRef.current) {
+          outboxRef.current.update(clientId, { status: 'failed', lastError: message });
+          setMessages((prev) => prev.map((m) => (m.id === tempId ? { ...m, send_status: 'failed' } : m)));
+        } else {
+          setMessages((prev) => prev.filter((m) => m.id !== tempId));
+          setError(message);
+        }
       } finally {
+        if (clientId) deliveringRef.current.delete(clientId);
+        if (streamAbortRef.current === abort) streamAbortRef.current = null;
+        setIsStreaming(false);
         setIsSending(false);
       }
     },
-    [senderType],   // <-- only senderType, which is stable
+    [],
+  );
+
+  /** Stop the AI reply that is being streamed  (STABLE identity) */
+  const cancelStreaming = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
+
+  /** Send a message with optimistic update  (STABLE identity) */
+  const sendMessage = useCallback(
+    async (content: string, files: File[] = []) => {
+      const convId = conversationRef.current?.id;
+      if ((!content.trim() && files.length === 0) || !convId) return;
+
+      const ob = files.length === 0 ? outboxRef.current : undefined;
+      const clientId = ob ? createClientId() : undefined;
+      const localAttachments = files.length ? createLocalAttachments(files) : undefined;
+      const tempId = clientId ? `temp-${clientId}` : `temp-${Date.now()}`;
+      const optimistic: Message = {
+        id: tempId,
+        role: 'user',
+        content,
+        sender_type: senderType,
+        timestamp: new Date().toISOString(),
+        ...(clientId ? { client_id: clientId, send_status: 'pending' as const } : {}),
+        ...(localAttachments ? { attachments: localAttachments } : {}),
+      };
+      setMessages((prev) => [...prev, optimistic]);
+
+      // Persist before sending so the text survives a reload mid-request
+      if (ob && clientId) {
+        ob.add({ clientId, conversationId: convId, content, createdAt: optimistic.timestamp, status: 'pending' });
+      }
+
+      await deliver(tempId, convId, content, clientId, files);
+      // Sent messages now carry the server attachments, failed ones are gone
+      revokeLocalAttachments(localAttachments);
+    },
+    [senderType, deliver],   // <-- both stable
+  );
+
+  /** Resend an outbox message  (STABLE identity) */
+  const retryMessage = useCallback(
+    async (clientId: string) => {
+      const entry = outboxRef.current?.list().find((e) => e.clientId === clientId);
+      if (!entry || deliveringRef.current.has(clientId)) return;
+
+      outboxRef.current!.update(clientId, { status: 'pending' });
+      setMessages((prev) => prev.map((m) => (m.client_id === clientId ? { ...m, send_status: 'pending' } : m)));
+      await deliver(`temp-${clientId}`, entry.conversationId, entry.content, clientId);
+    },
+    [deliver],
   );
 
+  /** Drop an unsent message from the outbox  (STABLE identity) */
+  const discardMessage = useCallback((clientId: string) => {
+    if (deliveringRef.current.has(clientId)) return;
+    outboxRef.current?.remove(clientId);
+    setMessages((prev) => prev.filter((m) => m.client_id !== clientId));
+  }, []);
+
+  /** Resend all queued messages of the current conversation, oldest first */
+  const flushOutbox = useCallback(async () => {
+    const convId = conversationRef.current?.id;
+    if (!outboxRef.current || convId == null) return;
+    for (const entry of outboxRef.current.list(convId)) {
+      await retryMessage(entry.clientId);
+    }
+  }, [retryMessage]);
+
+  // Resend automatically when the connection comes back
+  useEffect(() => {
+    if (!outbox) return;
+    const onOnline = () => { flushOutbox(); };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [outbox, flushOutbox]);
+
   /** Poll for new messages  (STABLE identity) */
   const pollMessages = useCallback(async () => {
     const convId = conversationRef.current?.id;
@@ -158,6 +365,73 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
     }
   }, [trackLastId]);
 
+  /**
+   * Silently re-fetch the current conversation (metadata + messages)
+   * without toggling the loading state. Used for real-time updates.
+   */
+  const refreshConversation = useCallback(async () => {
+    const convId = conversationRef.current?.id;
+    if (!convId || busyRef.current) return;
+    try {
+      const res = await loadFnRef.current(convId);
+      if (res.conversation) setConversation(res.conversation);
+      if (res.messages) {
+        // Keep loaded older history, optimistic (temp) messages the server does not
+        // know yet and an AI reply that is still streaming
+        setMessages((prev) => {
+          const firstId = res.messages!.length ? serverId(res.messages![0]) ?? 0 : Infinity;
+          const older = prev.filter((m) => (serverId(m) ?? Infinity) < firstId);
+          const pending = prev.filter((m) => String(m.id).startsWith('temp-') || m.is_streaming);
+          return [...older, ...res.messages!, ...pending];
+        });
+        trackLastId(res.messages);
+      }
+    } catch (err) {
+      console.error('Refresh error:', err);
+    }
+  }, [trackLastId]);
+
+  /**
+   * Prepend the page of messages before the oldest loaded one  (STABLE identity).
+   * Resolves with the fetched messages (empty when there is nothing older).
+   */
+  const loadOlderMessages = useCallback((): Promise<Message[]> => {
+    // Scroll-to-top fires repeatedly: share the page request that is in flight
+    if (olderRequestRef.current) return olderRequestRef.current;
+
+    const convId = conversationRef.current?.id;
+    const oldest = messagesRef.current.find((m) => serverId(m) !== null);
+    if (!convId || !oldest || !loadOlderFnRef.current) return Promise.resolve([]);
+
+    const request = (async (): Promise<Message[]> => {
+      setIsLoadingOlder(true);
+      try {
+        const res = await loadOlderFnRef.current!(convId, serverId(oldest)!);
+        // Another conversation was opened meanwhile
+        if (String(conversationRef.current?.id) !== String(convId)) return [];
+        const older = res.messages || [];
+        setHasMore(!!res.has_more && older.length > 0);
+        if (older.length) {
+          // Consecutive calls (before the next render) must page further back
+          messagesRef.current = [...older, ...messagesRef.current];
+          setMessages((prev) => {
+            const existingIds = new Set(prev.map((m) => String(m.id)));
+            return [...older.filter((m) => !existingIds.has(String(m.id))), ...prev];
+          });
+        }
+        return older;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load older messages');
+        return [];
+      } finally {
+        setIsLoadingOlder(false);
+        olderRequestRef.current = null;
+      }
+    })();
+    olderRequestRef.current = request;
+    return request;
+  }, []);
+
   const clearError = useCallback(() => setError(null), []);
 
   return {
@@ -165,10 +439,19 @@ export function useChatState({ loadFn, sendFn, pollFn, senderType }: UseChatStat
     messages,
     isLoading,
     isSending,
+    isStreaming,
     error,
+    hasMore,
+    isLoadingOlder,
     loadConversation,
     sendMessage,
     pollMessages,
+    refreshConversation,
+    loadOlderMessages,
+    retryMessage,
+    discardMessage,
+    flushOutbox,
+    cancelStreaming,
     clearError,
     setError,
     setConversation,
@@ -3,7 +3,7 @@
  * ==========================
  *
  * Encapsulates conversation-level actions: mark read, toggle AI,
- * set risk, and initialize conversation.
+ * allow / forbid patient uploads, set risk, and initialize conversation.
  *
  * After each mutation the relevant conversation state is updated
  * optimistically AND a full data refresh is triggered so the
@@ -17,6 +17,7 @@ import type { RiskLevel, Conversation } from '../types';
 interface ConversationApi {
   markMessagesRead: (conversationId: number | string) => Promise<any>;
   toggleAI: (conversationId: number | string, enabled: boolean) => Promise<{ ai_enabled: boolean }>;
+  togglePatientUploads: (conversationId: number | string, allowed: boolean) => Promise<{ allow_patient_uploads: boolean }>;
   setRiskLevel: (conversationId: number | string, risk: string) => Promise<any>;
   initializeConversation: (patientId: number) => Promise<{ conversation: Conversation; already_exists: boolean }>;
 }
@@ -74,6 +75,19 @@ export function useConversationActions({
     }
   }, [api, getConversation, updateConversation, reloadChat]);
 
+  const togglePatientUploads = useCallback(async () => {
+    const conv = getConversation();
+    if (!conv) return;
+    const newAllowed = !conv.allow_patient_uploads;
+    try {
+      await api.togglePatientUploads(conv.id, newAllowed);
+      updateConversation(conv.id, { allow_patient_uploads: newAllowed });
+      await reloadChat(conv.id);
+    } catch (err) {
+      console.error('Failed to toggle patient uploads:', err);
+    }
+  }, [api, getConversation, updateConversation, reloadChat]);
+
   const setRisk = useCallback(async (risk: RiskLevel) => {
     const conv = getConversation();
     if (!conv) return;
@@ -109,6 +123,7 @@ export function useConversationActions({
   return {
     markRead,
     toggleAI,
+    togglePatientUploads,
     setRisk,
     initializeConversation,
     initializingPatientId,
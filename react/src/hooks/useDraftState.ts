@@ -4,63 +4,140 @@
  *
  * Encapsulates all AI-draft modal state and handlers.
  * Keeps TherapistDashboard lean by extracting the draft workflow.
+ *
+ * Every generation is kept as a candidate (its own therapyDraftMessages
+ * row). The editor text starts as the first candidate; the therapist can
+ * switch to another candidate or copy single paragraphs from any of them.
+ * On send, the server is told which candidate the text is based on and
+ * which candidates paragraphs were picked from.
+ *
+ * Guidance (instruction, tone, length) is sent with every generation.
+ * Tone and length stay selected for the next draft; the instruction is
+ * specific to one reply and is cleared when the modal closes.
  */
 
 import { useState, useCallback } from 'react';
-import type { Draft } from '../types';
+import type { Draft, DraftGuidance } from '../types';
 
 interface UseDraftStateOptions {
-  createDraft: (conversationId: number | string) => Promise<{ success: boolean; draft?: Draft }>;
-  sendMessage: (content: string) => Promise<void>;
+  createDraft: (conversationId: number | string, guidance: DraftGuidance) => Promise<{ success: boolean; draft?: Draft }>;
+  sendDraft: (draftId: number, content: string, candidates: { candidateIds: number[]; pickedFrom: number[] }) => Promise<void>;
+  /** Mark unsent candidates as discarded (best-effort) */
+  discardDraft?: (draftId: number) => Promise<unknown>;
   getConversationId: () => number | string | undefined;
 }
 
-export function useDraftState({ createDraft, sendMessage, getConversationId }: UseDraftStateOptions) {
+/** Text of a candidate as generated (or last saved) */
+export function candidateText(draft: Draft): string {
+  return draft.edited_content || draft.ai_content || '';
+}
+
+/** Guidance without the reply-specific instruction */
+const keepPreferences = ({ tone, length }: DraftGuidance): DraftGuidance => ({ tone, length });
+
+export function useDraftState({ createDraft, sendDraft, discardDraft, getConversationId }: UseDraftStateOptions) {
   const [open, setOpen] = useState(false);
   const [text, setText] = useState('');
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [undoStack, setUndoStack] = useState<string[]>([]);
+  const [candidates, setCandidates] = useState<Draft[]>([]);
+  /** Candidate shown in the tabs */
+  const [activeIndex, setActiveIndex] = useState(0);
+  /** Candidate the editor text is based on (sent as draft_id) */
+  const [baseIndex, setBaseIndex] = useState(0);
+  /** Draft IDs paragraphs were copied from */
+  const [pickedFrom, setPickedFrom] = useState<number[]>([]);
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [guidance, setGuidance] = useState<DraftGuidance>({});
+
+  const reset = useCallback(() => {
+    setText('');
+    setError(null);
+    setUndoStack([]);
+    setCandidates([]);
+    setActiveIndex(0);
+    setBaseIndex(0);
+    setPickedFrom([]);
+    setSendError(null);
+    setGuidance(keepPreferences);
+  }, []);
 
   const generate = useCallback(async () => {
     const convId = getConversationId();
     if (!convId) return;
 
     // Open modal immediately so the user sees loading state
+    const requested = guidance;
+    reset();
     setOpen(true);
     setGenerating(true);
-    setError(null);
     try {
-      const response = await createDraft(convId);
+      const response = await createDraft(convId, requested);
       if (response.draft) {
-        setText(response.draft.edited_content || response.draft.ai_content || '');
+        setCandidates([response.draft]);
+        setText(candidateText(response.draft));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate draft');
     } finally {
       setGenerating(false);
     }
-  }, [createDraft, getConversationId]);
+  }, [createDraft, getConversationId, guidance, reset]);
 
+  /**
+   * Generate another candidate. The editor switches to it unless the
+   * therapist has already edited the text.
+   */
   const regenerate = useCallback(async () => {
     const convId = getConversationId();
     if (!convId) return;
 
-    if (text) setUndoStack(prev => [...prev, text]);
-
     setGenerating(true);
     setError(null);
     try {
-      const response = await createDraft(convId);
-      if (response.draft) {
-        setText(response.draft.edited_content || response.draft.ai_content || '');
+      const response = await createDraft(convId, guidance);
+      const draft = response.draft;
+      if (draft) {
+        const index = candidates.length;
+        const base = candidates[baseIndex];
+        const edited = !!base && text !== candidateText(base);
+        setCandidates((prev) => [...prev, draft]);
+        setActiveIndex(index);
+        if (!edited || !text.trim()) {
+          if (text) setUndoStack((prev) => [...prev, text]);
+          setText(candidateText(draft));
+          setBaseIndex(index);
+        }
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to regenerate draft');
     } finally {
       setGenerating(false);
     }
-  }, [createDraft, getConversationId, text]);
+  }, [createDraft, getConversationId, guidance, candidates, baseIndex, text]);
+
+  /** Replace the editor text with a whole candidate */
+  const applyCandidate = useCallback((index: number) => {
+    const draft = candidates[index];
+    if (!draft) return;
+    if (text) setUndoStack((prev) => [...prev, text]);
+    setText(candidateText(draft));
+    setBaseIndex(index);
+    setActiveIndex(index);
+  }, [candidates, text]);
+
+  /** Append one paragraph of a candidate to the editor text */
+  const insertParagraph = useCallback((index: number, paragraph: string) => {
+    const draft = candidates[index];
+    if (!draft) return;
+    setUndoStack((prev) => [...prev, text]);
+    setText(text.trim() ? `${text.trimEnd()}\n\n${paragraph}` : paragraph);
+    if (index !== baseIndex) {
+      setPickedFrom((prev) => (prev.includes(draft.id) ? prev : [...prev, draft.id]));
+    }
+  }, [candidates, baseIndex, text]);
 
   const undo = useCallback(() => {
     if (undoStack.length > 0) {
@@ -70,29 +147,39 @@ export function useDraftState({ createDraft, sendMessage, getConversationId }: U
   }, [undoStack]);
 
   const send = useCallback(async () => {
-    if (!text.trim()) return;
+    const base = candidates[baseIndex];
+    if (!text.trim() || !base) return;
+    setSending(true);
+    setSendError(null);
     try {
-      await sendMessage(text);
+      await sendDraft(base.id, text, {
+        candidateIds: candidates.map((c) => c.id),
+        pickedFrom,
+      });
       setOpen(false);
-      setText('');
-      setError(null);
-      setUndoStack([]);
+      reset();
     } catch (err) {
-      console.error('Failed to send draft:', err);
+      setSendError(err instanceof Error ? err.message : 'Failed to send draft');
+    } finally {
+      setSending(false);
     }
-  }, [text, sendMessage]);
+  }, [text, candidates, baseIndex, pickedFrom, sendDraft, reset]);
 
   const discard = useCallback(() => {
+    if (discardDraft) {
+      candidates.forEach((c) => {
+        discardDraft(c.id).catch(() => { /* status bookkeeping only */ });
+      });
+    }
     setOpen(false);
-    setText('');
-    setError(null);
-    setUndoStack([]);
-  }, []);
+    reset();
+  }, [candidates, discardDraft, reset]);
 
   const retry = useCallback(() => {
     setError(null);
-    generate();
-  }, [generate]);
+    if (candidates.length > 0) regenerate();
+    else generate();
+  }, [candidates.length, generate, regenerate]);
 
   return {
     open,
@@ -100,13 +187,23 @@ export function useDraftState({ createDraft, sendMessage, getConversationId }: U
     generating,
     error,
     undoStack,
+    candidates,
+    activeIndex,
+    baseIndex,
+    sending,
+    sendError,
+    guidance,
     setText,
+    setGuidance,
+    setActiveIndex,
     generate,
     regenerate,
+    applyCandidate,
+    insertParagraph,
     undo,
     send,
     discard,
-    close: () => { setOpen(false); setError(null); },
+    close: () => { setOpen(false); setError(null); setGuidance(keepPreferences); },
     retry,
   };
 }
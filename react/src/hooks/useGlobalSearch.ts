@@ -0,0 +1,101 @@
+/**
+ * Global Search Hook
+ * ===================
+ *
+ * Server-side message search across every patient of the therapist's
+ * groups. Requests are debounced while typing; responses that arrive after
+ * a newer request was started are dropped.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MIN_QUERY_LENGTH } from './useMessageSearch';
+import type { MessageSearchFilters } from './useMessageSearch';
+import type { SearchMessagesFilters } from '../utils/api';
+import type { MessageSearchGroup, SearchMessagesResponse } from '../types';
+
+/** Delay between the last keystroke and the request */
+const DEBOUNCE_MS = 350;
+
+export interface GlobalSearchFilters extends MessageSearchFilters {
+  /** Restrict to one group (null = all assigned groups) */
+  groupId: number | string | null;
+}
+
+interface UseGlobalSearchOptions {
+  searchFn: (query: string, filters: SearchMessagesFilters) => Promise<SearchMessagesResponse>;
+}
+
+const EMPTY_FILTERS: GlobalSearchFilters = { query: '', senderType: 'all', dateFrom: '', dateTo: '', groupId: null };
+
+export function useGlobalSearch({ searchFn }: UseGlobalSearchOptions) {
+  const [filters, setFilters] = useState<GlobalSearchFilters>(EMPTY_FILTERS);
+  const [results, setResults] = useState<MessageSearchGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const searchFnRef = useRef(searchFn);
+  searchFnRef.current = searchFn;
+  const requestRef = useRef(0);
+
+  const query = filters.query.trim();
+  const isActive = query.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    if (!isActive) {
+      setResults([]);
+      setTotal(0);
+      setTruncated(false);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await searchFnRef.current(query, {
+          groupId: filters.groupId,
+          senderType: filters.senderType === 'all' ? undefined : filters.senderType,
+          dateFrom: filters.dateFrom || undefined,
+          dateTo: filters.dateTo || undefined,
+        });
+        if (requestId !== requestRef.current) return;
+        setResults(res.results || []);
+        setTotal(res.total || 0);
+        setTruncated(!!res.truncated);
+        setError(null);
+      } catch (err) {
+        if (requestId !== requestRef.current) return;
+        setResults([]);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (requestId === requestRef.current) setIsSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [query, isActive, filters.groupId, filters.senderType, filters.dateFrom, filters.dateTo]);
+
+  const setFilter = useCallback(<K extends keyof GlobalSearchFilters>(key: K, value: GlobalSearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const reset = useCallback(() => setFilters(EMPTY_FILTERS), []);
+
+  return {
+    filters,
+    setFilter,
+    reset,
+    isActive,
+    results,
+    total,
+    truncated,
+    isSearching,
+    error,
+  };
+}
+
+export type GlobalSearchState = ReturnType<typeof useGlobalSearch>;
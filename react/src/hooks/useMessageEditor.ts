@@ -0,0 +1,96 @@
+/**
+ * Message Editor Hook
+ * ====================
+ *
+ * Encapsulates inline edit / delete state for the therapist's own messages.
+ * Changes are applied optimistically to the chat message list and rolled
+ * back to the previous message if the request fails.
+ */
+
+import { useState, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { Message } from '../types';
+
+interface UseMessageEditorOptions {
+  api: {
+    editMessage: (messageId: number, content: string) => Promise<{ success: boolean }>;
+    deleteMessage: (messageId: number) => Promise<{ success: boolean }>;
+  };
+  messages: Message[];
+  setMessages: Dispatch<SetStateAction<Message[]>>;
+  setError: (error: string | null) => void;
+}
+
+export function useMessageEditor({ api, messages, setMessages, setError }: UseMessageEditorOptions) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState('');
+
+  /** Put a single message back to its pre-change state */
+  const rollback = useCallback((original: Message) => {
+    setMessages((prev) => prev.map((m) => (String(m.id) === String(original.id) ? original : m)));
+  }, [setMessages]);
+
+  const startEditing = useCallback((messageId: number, text: string) => {
+    setEditingId(messageId);
+    setEditingText(text);
+  }, []);
+
+  const cancelEditing = useCallback(() => {
+    setEditingId(null);
+    setEditingText('');
+  }, []);
+
+  const save = useCallback(async () => {
+    const content = editingText.trim();
+    if (!editingId || !content) return;
+
+    const original = messages.find((m) => String(m.id) === String(editingId));
+    if (!original) return;
+
+    setEditingId(null);
+    setEditingText('');
+    if (content === original.content) return;
+
+    setMessages((prev) => prev.map((m) => (
+      String(m.id) === String(editingId)
+        ? { ...m, content, is_edited: true, edited_at: new Date().toISOString() }
+        : m
+    )));
+
+    try {
+      const res = await api.editMessage(editingId, content);
+      if (!res.success) throw new Error('Failed to edit message');
+    } catch (err) {
+      rollback(original);
+      setError(err instanceof Error ? err.message : 'Failed to edit message');
+    }
+  }, [editingId, editingText, messages, api, setMessages, setError, rollback]);
+
+  const remove = useCallback(async (messageId: number) => {
+    const original = messages.find((m) => String(m.id) === String(messageId));
+    if (!original) return;
+
+    if (editingId === messageId) cancelEditing();
+    setMessages((prev) => prev.map((m) => (
+      String(m.id) === String(messageId) ? { ...m, is_deleted: true } : m
+    )));
+
+    try {
+      const res = await api.deleteMessage(messageId);
+      if (!res.success) throw new Error('Failed to delete message');
+    } catch (err) {
+      rollback(original);
+      setError(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  }, [editingId, messages, api, setMessages, setError, rollback, cancelEditing]);
+
+  return {
+    editingId,
+    editingText,
+    setEditingText,
+    startEditing,
+    cancelEditing,
+    save,
+    remove,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Message Focus Hook
+ * ===================
+ *
+ * Scrolls to and highlights one message of the open conversation (e.g. the
+ * message behind an alert), paging older history in until it is loaded.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { Message } from '../types';
+
+/** Upper bound of history pages fetched to find the message */
+const MAX_PAGES = 20;
+
+interface UseMessageFocusOptions {
+  messages: Message[];
+  /** Prepends the previous history page; resolves with the fetched messages */
+  loadOlder: () => Promise<Message[]>;
+}
+
+export function useMessageFocus({ messages, loadOlder }: UseMessageFocusOptions) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  /** Focus a message; resolves false when it is not in the conversation history */
+  const focus = useCallback(async (messageId: number | string): Promise<boolean> => {
+    const id = String(messageId);
+    let loaded = messagesRef.current.some((m) => String(m.id) === id);
+    if (!loaded) {
+      setIsLocating(true);
+      try {
+        for (let page = 0; !loaded && page < MAX_PAGES; page++) {
+          const older = await loadOlder();
+          if (older.length === 0) break;
+          loaded = older.some((m) => String(m.id) === id);
+        }
+      } finally {
+        setIsLocating(false);
+      }
+    }
+    setFocusedId(loaded ? id : null);
+    return loaded;
+  }, [loadOlder]);
+
+  const clear = useCallback(() => {
+    setFocusedId(null);
+  }, []);
+
+  return { focusedId, isLocating, focus, clear };
+}
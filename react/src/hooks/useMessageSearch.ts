@@ -0,0 +1,177 @@
+/**
+ * Message Search Hook
+ * ====================
+ *
+ * Client-side search over the loaded messages of one conversation with
+ * sender-type and date-range filters. Navigation starts at the newest
+ * match; stepping past the oldest loaded match pages older history in
+ * through `loadOlder` until another match turns up. `jumpTo` opens a search
+ * on a specific message (e.g. a cross-patient search result).
+ */
+
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { containsQuery } from '../utils/highlight';
+import type { Message, SenderType } from '../types';
+
+/** Minimum query length before searching */
+export const MIN_QUERY_LENGTH = 2;
+
+/** Upper bound of history pages fetched by one "older" step */
+const MAX_PAGES_PER_STEP = 20;
+
+export interface MessageSearchFilters {
+  query: string;
+  senderType: SenderType | 'all';
+  /** Inclusive local dates, YYYY-MM-DD (empty = open) */
+  dateFrom: string;
+  dateTo: string;
+}
+
+interface UseMessageSearchOptions {
+  messages: Message[];
+  hasMore: boolean;
+  /** Prepends the previous history page; resolves with the fetched messages */
+  loadOlder: () => Promise<Message[]>;
+}
+
+const EMPTY_FILTERS: MessageSearchFilters = { query: '', senderType: 'all', dateFrom: '', dateTo: '' };
+
+function messageSender(msg: Message): SenderType {
+  if (msg.sender_type) return msg.sender_type;
+  if (msg.role === 'assistant') return 'ai';
+  if (msg.role === 'system') return 'system';
+  return 'subject';
+}
+
+function matchesFilters(msg: Message, f: MessageSearchFilters): boolean {
+  if (msg.is_deleted || msg.send_status) return false;
+  if (!containsQuery(msg.content, f.query)) return false;
+  if (f.senderType !== 'all' && messageSender(msg) !== f.senderType) return false;
+  const ts = new Date(msg.timestamp).getTime();
+  if (f.dateFrom && ts < new Date(`${f.dateFrom}T00:00:00`).getTime()) return false;
+  if (f.dateTo && ts > new Date(`${f.dateTo}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+export function useMessageSearch({ messages, hasMore, loadOlder }: UseMessageSearchOptions) {
+  const [filters, setFilters] = useState<MessageSearchFilters>(EMPTY_FILTERS);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isSearchingOlder, setIsSearchingOlder] = useState(false);
+
+  const isActive = filters.query.trim().length >= MIN_QUERY_LENGTH;
+
+  const matches = useMemo(
+    () => (isActive ? messages.filter((m) => matchesFilters(m, filters)) : []),
+    [messages, filters, isActive],
+  );
+  const matchIds = useMemo(() => new Set(matches.map((m) => String(m.id))), [matches]);
+  const activeIndex = activeId ? matches.findIndex((m) => String(m.id) === activeId) : -1;
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  /** Message to activate instead of the newest match (set by jumpTo) */
+  const jumpTargetRef = useRef<string | null>(null);
+
+  // New search criteria: jump to the newest match (or the jumpTo target)
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
+  useEffect(() => {
+    const target = jumpTargetRef.current;
+    jumpTargetRef.current = null;
+    const last = matchesRef.current[matchesRef.current.length - 1];
+    setActiveId(target ?? (last ? String(last.id) : null));
+  }, [filters]);
+
+  const setFilter = useCallback(<K extends keyof MessageSearchFilters>(key: K, value: MessageSearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  /** Page in older history until a match is found or history is exhausted */
+  const searchOlder = useCallback(async () => {
+    if (!isActive || isSearchingOlder) return;
+    setIsSearchingOlder(true);
+    try {
+      for (let page = 0; page < MAX_PAGES_PER_STEP; page++) {
+        const older = await loadOlder();
+        if (older.length === 0) break;
+
+        const found = older.filter((m) => matchesFilters(m, filters));
+        if (found.length) {
+          setActiveId(String(found[found.length - 1].id));
+          break;
+        }
+        // Everything further back is before the date range
+        const oldestTs = new Date(older[0].timestamp).getTime();
+        if (filters.dateFrom && oldestTs < new Date(`${filters.dateFrom}T00:00:00`).getTime()) break;
+      }
+    } finally {
+      setIsSearchingOlder(false);
+    }
+  }, [isActive, isSearchingOlder, loadOlder, filters]);
+
+  /**
+   * Search for `query` with `messageId` as the active match, paging older
+   * history in until the message is loaded. Resolves false when it could
+   * not be found (the newest match is activated instead).
+   */
+  const jumpTo = useCallback(async (query: string, messageId: number | string): Promise<boolean> => {
+    const id = String(messageId);
+    let loaded = messagesRef.current.some((m) => String(m.id) === id);
+    if (!loaded) {
+      setIsSearchingOlder(true);
+      try {
+        for (let page = 0; !loaded && page < MAX_PAGES_PER_STEP; page++) {
+          const older = await loadOlder();
+          if (older.length === 0) break;
+          loaded = older.some((m) => String(m.id) === id);
+        }
+      } finally {
+        setIsSearchingOlder(false);
+      }
+    }
+    jumpTargetRef.current = loaded ? id : null;
+    setFilters({ ...EMPTY_FILTERS, query });
+    return loaded;
+  }, [loadOlder]);
+
+  /** Step to the previous (older) match */
+  const prev = useCallback(() => {
+    if (activeIndex > 0) {
+      setActiveId(String(matches[activeIndex - 1].id));
+    } else if (hasMore) {
+      searchOlder();
+    }
+  }, [activeIndex, matches, hasMore, searchOlder]);
+
+  /** Step to the next (newer) match */
+  const next = useCallback(() => {
+    if (activeIndex >= 0 && activeIndex < matches.length - 1) {
+      setActiveId(String(matches[activeIndex + 1].id));
+    }
+  }, [activeIndex, matches]);
+
+  const reset = useCallback(() => {
+    setFilters(EMPTY_FILTERS);
+    setActiveId(null);
+  }, []);
+
+  return {
+    filters,
+    setFilter,
+    isActive,
+    matches,
+    matchIds,
+    activeId,
+    activeIndex,
+    isSearchingOlder,
+    canPrev: activeIndex > 0 || hasMore,
+    canNext: activeIndex >= 0 && activeIndex < matches.length - 1,
+    prev,
+    next,
+    searchOlder,
+    jumpTo,
+    reset,
+  };
+}
+
+export type MessageSearchState = ReturnType<typeof useMessageSearch>;
@@ -0,0 +1,72 @@
+/**
+ * Message Templates Hook
+ * =======================
+ *
+ * Loads the therapist's template library (personal + group templates)
+ * once and keeps it in sync after create / update / delete.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { MessageTemplate } from '../types';
+
+interface UseMessageTemplatesOptions {
+  api: {
+    getTemplates: () => Promise<{ templates: MessageTemplate[] }>;
+    createTemplate: (title: string, content: string, groupId: number | null) => Promise<{ template: MessageTemplate }>;
+    updateTemplate: (templateId: number, title: string, content: string, groupId: number | null) => Promise<{ template: MessageTemplate }>;
+    deleteTemplate: (templateId: number) => Promise<{ success: boolean }>;
+  };
+}
+
+const byTitle = (a: MessageTemplate, b: MessageTemplate) => a.title.localeCompare(b.title);
+
+export function useMessageTemplates({ api }: UseMessageTemplatesOptions) {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await api.getTemplates();
+      setTemplates([...(response.templates || [])].sort(byTitle));
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /** Create or update a template; resolves false when the request failed */
+  const save = useCallback(async (
+    templateId: number | null,
+    title: string,
+    content: string,
+    groupId: number | null,
+  ): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = templateId
+        ? await api.updateTemplate(templateId, title, content, groupId)
+        : await api.createTemplate(title, content, groupId);
+      const saved = response.template;
+      setTemplates((prev) => [...prev.filter((t) => t.id !== saved.id), saved].sort(byTitle));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+      return false;
+    }
+  }, [api]);
+
+  const remove = useCallback(async (templateId: number) => {
+    setError(null);
+    try {
+      await api.deleteTemplate(templateId);
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  }, [api]);
+
+  return { templates, error, setError, reload, save, remove };
+}
@@ -3,60 +3,123 @@
  * =================
  *
  * Encapsulates clinical note CRUD state and handlers.
+ *
+ * A note is either free text or follows a template (SOAP, DAP, ...); for
+ * template notes the sections are sent and the server returns the
+ * rendered content. Tags are edited together with the note; pinning is
+ * a separate request. Restoring an older version saves it through
+ * editNote, so it becomes a new revision.
  */
 
 import { useState, useCallback } from 'react';
-import type { Note } from '../types';
+import { hasSectionText } from '../utils/noteTemplates';
+import type { Note, NoteStructure, NoteVersion } from '../types';
 
 interface UseNoteEditorOptions {
   api: {
-    addNote: (conversationId: number | string, content: string) => Promise<{ note_id: number }>;
-    editNote: (noteId: number, content: string) => Promise<{ success: boolean }>;
+    addNote: (conversationId: number | string, content: string, noteType?: string, structure?: NoteStructure | null, tags?: string[]) => Promise<{ note_id: number; content?: string; tags?: string[] | null }>;
+    editNote: (noteId: number, content: string, structure?: NoteStructure | null, tags?: string[]) => Promise<{ success: boolean; content?: string; tags?: string[] | null }>;
     deleteNote: (noteId: number) => Promise<{ success: boolean }>;
+    pinNote: (noteId: number, pinned: boolean) => Promise<{ success: boolean }>;
   };
   getConversationId: () => number | string | undefined;
+  /** Current therapist, shown as author of notes added in this session */
+  author?: { id: number; name?: string | null };
   onNoteAdded: (note: Note) => void;
   onNoteUpdated: (id: number, update: Partial<Note>) => void;
   onNoteDeleted: (id: number) => void;
 }
 
-export function useNoteEditor({ api, getConversationId, onNoteAdded, onNoteUpdated, onNoteDeleted }: UseNoteEditorOptions) {
+export function useNoteEditor({ api, getConversationId, author, onNoteAdded, onNoteUpdated, onNoteDeleted }: UseNoteEditorOptions) {
   const [newNote, setNewNote] = useState('');
+  /** Template of the new note (null = free text) */
+  const [newNoteTemplate, setNewNoteTemplate] = useState<string | null>(null);
+  const [newNoteSections, setNewNoteSections] = useState<Record<string, string>>({});
+  const [newNoteTags, setNewNoteTags] = useState<string[]>([]);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editingText, setEditingText] = useState('');
+  const [editingTemplate, setEditingTemplate] = useState<string | null>(null);
+  const [editingSections, setEditingSections] = useState<Record<string, string>>({});
+  const [editingTags, setEditingTags] = useState<string[]>([]);
 
   const add = useCallback(async () => {
     const convId = getConversationId();
-    if (!convId || !newNote.trim()) return;
+    const structure = newNoteTemplate ? { template: newNoteTemplate, sections: newNoteSections } : null;
+    if (!convId || (structure ? !hasSectionText(newNoteSections) : !newNote.trim())) return;
 
     try {
-      const response = await api.addNote(convId, newNote);
+      const response = await api.addNote(convId, structure ? '' : newNote, undefined, structure, newNoteTags);
       onNoteAdded({
         id: response.note_id,
         id_llmConversations: typeof convId === 'string' ? parseInt(convId, 10) : convId,
-        id_users: 0,
-        content: newNote,
+        id_users: author?.id ?? 0,
+        author_name: author?.name ?? undefined,
+        content: response.content ?? newNote,
+        note_type: 'manual',
+        template: structure?.template ?? null,
+        sections: structure?.sections ?? null,
+        pinned: false,
+        tags: response.tags ?? newNoteTags,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
       setNewNote('');
+      setNewNoteSections({});
+      setNewNoteTags([]);
     } catch (err) {
       console.error('Failed to add note:', err);
     }
-  }, [newNote, api, getConversationId, onNoteAdded]);
+  }, [newNote, newNoteTemplate, newNoteSections, newNoteTags, api, getConversationId, author, onNoteAdded]);
 
   const save = useCallback(async () => {
-    if (!editingId || !editingText.trim()) return;
+    const structure = editingTemplate ? { template: editingTemplate, sections: editingSections } : null;
+    if (!editingId || (structure ? !hasSectionText(editingSections) : !editingText.trim())) return;
 
     try {
-      await api.editNote(editingId, editingText);
-      onNoteUpdated(editingId, { content: editingText });
+      const response = await api.editNote(editingId, structure ? '' : editingText, structure, editingTags);
+      onNoteUpdated(editingId, {
+        content: response.content ?? editingText,
+        template: structure?.template ?? null,
+        sections: structure?.sections ?? null,
+        tags: response.tags ?? editingTags,
+      });
       setEditingId(null);
       setEditingText('');
     } catch (err) {
       console.error('Failed to edit note:', err);
     }
-  }, [editingId, editingText, api, onNoteUpdated]);
+  }, [editingId, editingText, editingTemplate, editingSections, editingTags, api, onNoteUpdated]);
+
+  /** Save an older version as the note's content; resolves false on failure */
+  const restore = useCallback(async (note: Note, version: NoteVersion): Promise<boolean> => {
+    const structure = version.template && version.sections ? { template: version.template, sections: version.sections } : null;
+    try {
+      const response = await api.editNote(note.id, structure ? '' : version.content, structure);
+      onNoteUpdated(note.id, {
+        content: response.content ?? version.content,
+        template: structure?.template ?? null,
+        sections: structure?.sections ?? null,
+        last_edited_by_name: author?.name ?? note.last_edited_by_name,
+        updated_at: new Date().toISOString(),
+      });
+      if (editingId === note.id) setEditingId(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to restore note version:', err);
+      return false;
+    }
+  }, [api, author, editingId, onNoteUpdated]);
+
+  const togglePin = useCallback(async (note: Note) => {
+    const pinned = !note.pinned;
+    onNoteUpdated(note.id, { pinned });
+    try {
+      await api.pinNote(note.id, pinned);
+    } catch (err) {
+      console.error('Failed to pin note:', err);
+      onNoteUpdated(note.id, { pinned: !pinned });
+    }
+  }, [api, onNoteUpdated]);
 
   const remove = useCallback(async (noteId: number) => {
     try {
@@ -67,9 +130,18 @@ export function useNoteEditor({ api, getConversationId, onNoteAdded, onNoteUpdat
     }
   }, [api, onNoteDeleted]);
 
-  const startEditing = useCallback((noteId: number, text: string) => {
-    setEditingId(noteId);
-    setEditingText(text);
+  const startEditing = useCallback((note: Note) => {
+    setEditingId(note.id);
+    setEditingText(note.content);
+    setEditingTemplate(note.template && note.sections ? note.template : null);
+    setEditingSections(note.sections ?? {});
+    setEditingTags(note.tags ?? []);
+  }, []);
+
+  /** Switch the new note between free text and a template */
+  const selectNewNoteTemplate = useCallback((template: string | null) => {
+    setNewNoteTemplate(template);
+    setNewNoteSections({});
   }, []);
 
   const cancelEditing = useCallback(() => {
@@ -80,12 +152,25 @@ export function useNoteEditor({ api, getConversationId, onNoteAdded, onNoteUpdat
   return {
     newNote,
     setNewNote,
+    newNoteTemplate,
+    selectNewNoteTemplate,
+    newNoteSections,
+    setNewNoteSections,
+    newNoteTags,
+    setNewNoteTags,
     editingId,
     editingText,
     setEditingText,
+    editingTemplate,
+    editingSections,
+    setEditingSections,
+    editingTags,
+    setEditingTags,
     add,
     save,
     remove,
+    restore,
+    togglePin,
     startEditing,
     cancelEditing,
   };
@@ -0,0 +1,80 @@
+/**
+ * Real-time Updates Hook
+ * =======================
+ *
+ * Runs an ordered chain of real-time transports (see utils/realtime).
+ * The first transport is started; when it reports failure the next one
+ * takes over. The last transport should be polling, which never fails.
+ *
+ * `onResync` fires whenever a transport (re)connects, since events may
+ * have been missed while disconnected.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { RealtimeTransport } from '../utils/realtime';
+import type { RealtimeEvent, RealtimeTransportKind } from '../types';
+
+interface UseRealtimeUpdatesOptions {
+  /** Transports in order of preference */
+  transports: RealtimeTransport[];
+  onEvent: (event: RealtimeEvent) => void | Promise<void>;
+  onResync?: () => void | Promise<void>;
+  enabled?: boolean;
+}
+
+export function useRealtimeUpdates({
+  transports,
+  onEvent,
+  onResync,
+  enabled = true,
+}: UseRealtimeUpdatesOptions): { mode: RealtimeTransportKind | null } {
+  const [mode, setMode] = useState<RealtimeTransportKind | null>(null);
+  const onEventRef = useRef(onEvent);
+  const onResyncRef = useRef(onResync);
+  onEventRef.current = onEvent;
+  onResyncRef.current = onResync;
+
+  useEffect(() => {
+    if (!enabled || transports.length === 0) return;
+
+    let active: RealtimeTransport | null = null;
+    let cancelled = false;
+    let connectedOnce = false;
+
+    const run = async (fn: () => void | Promise<void>) => {
+      try {
+        await fn();
+      } catch (err) {
+        console.error('Realtime update error:', err);
+      }
+    };
+
+    const startAt = (index: number) => {
+      if (cancelled || index >= transports.length) return;
+      active = transports[index];
+      setMode(active.kind);
+      active.start({
+        onEvent: (event) => run(() => onEventRef.current(event)),
+        onOpen: () => {
+          // Initial data is loaded on mount; only resync after a (re)connect
+          if (connectedOnce && onResyncRef.current) run(onResyncRef.current);
+          connectedOnce = true;
+        },
+        onFail: (reason) => {
+          console.warn(`Realtime: ${transports[index].kind} unavailable (${reason}), falling back`);
+          transports[index].stop();
+          startAt(index + 1);
+        },
+      });
+    };
+
+    startAt(0);
+
+    return () => {
+      cancelled = true;
+      active?.stop();
+    };
+  }, [enabled, transports]);
+
+  return { mode };
+}
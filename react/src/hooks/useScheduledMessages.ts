@@ -0,0 +1,87 @@
+/**
+ * Scheduled Messages Hook
+ * ========================
+ *
+ * Loads and manages the "send later" queue of the open conversation.
+ * Due messages are delivered by the server; the queue is reloaded when a
+ * new message arrives so delivered entries drop out of the list.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ScheduledMessage } from '../types';
+
+interface UseScheduledMessagesOptions {
+  api: {
+    getScheduledMessages: (conversationId: number | string) => Promise<{ scheduled_messages: ScheduledMessage[] }>;
+    scheduleMessage: (conversationId: number | string, message: string, scheduledAt: Date) => Promise<{ scheduled_message: ScheduledMessage }>;
+    updateScheduledMessage: (scheduledId: number, message: string, scheduledAt: Date) => Promise<{ scheduled_message: ScheduledMessage }>;
+    cancelScheduledMessage: (scheduledId: number) => Promise<{ success: boolean }>;
+  };
+  conversationId: number | string | undefined;
+  setError: (error: string | null) => void;
+}
+
+const bySendTime = (a: ScheduledMessage, b: ScheduledMessage) =>
+  new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime();
+
+export function useScheduledMessages({ api, conversationId, setError }: UseScheduledMessagesOptions) {
+  const [items, setItems] = useState<ScheduledMessage[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!conversationId) {
+      setItems([]);
+      return;
+    }
+    try {
+      const response = await api.getScheduledMessages(conversationId);
+      setItems([...(response.scheduled_messages || [])].sort(bySendTime));
+    } catch (err) {
+      console.error('Failed to load scheduled messages:', err);
+    }
+  }, [api, conversationId]);
+
+  useEffect(() => {
+    setItems([]);
+    reload();
+  }, [reload]);
+
+  /** Queue a message; resolves false when the server rejected it */
+  const schedule = useCallback(async (message: string, scheduledAt: Date): Promise<boolean> => {
+    if (!conversationId) return false;
+    try {
+      const response = await api.scheduleMessage(conversationId, message, scheduledAt);
+      setItems((prev) => [...prev, response.scheduled_message].sort(bySendTime));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule message');
+      return false;
+    }
+  }, [api, conversationId, setError]);
+
+  const update = useCallback(async (scheduledId: number, message: string, scheduledAt: Date): Promise<boolean> => {
+    try {
+      const response = await api.updateScheduledMessage(scheduledId, message, scheduledAt);
+      setItems((prev) => prev
+        .map((item) => (item.id === scheduledId ? response.scheduled_message : item))
+        .sort(bySendTime));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update scheduled message');
+      // The message may have been sent in the meantime
+      reload();
+      return false;
+    }
+  }, [api, reload, setError]);
+
+  const cancel = useCallback(async (scheduledId: number) => {
+    try {
+      await api.cancelScheduledMessage(scheduledId);
+      setItems((prev) => prev.filter((item) => item.id !== scheduledId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel scheduled message');
+      reload();
+    }
+  }, [api, reload, setError]);
+
+  return { items, reload, schedule, update, cancel };
+}
@@ -3,74 +3,242 @@
  * ===================
  *
  * Encapsulates all summary-modal state and handlers.
+ *
+ * The modal opens on the options step (period, focus areas, output
+ * format); the options stay selected for the next summary. With a note
+ * template as format (SOAP, DAP, ...) the summary is generated in the
+ * template's sections, which pre-fill a structured note the therapist can
+ * review before saving.
+ *
+ * Every generated summary is kept on the server; the history step lists
+ * them so earlier summaries can be reopened, saved or compared. Closing
+ * the modal keeps an unsaved result, which can be resumed when the modal
+ * is opened again for the same conversation.
  */
 
 import { useState, useCallback } from 'react';
-import type { Note } from '../types';
+import type { Note, NoteStructure, SummaryHistoryEntry, SummaryOptions } from '../types';
 
 interface UseSummaryStateOptions {
-  generateSummary: (conversationId: number | string) => Promise<{ summary: string }>;
-  addNote: (conversationId: number | string, content: string) => Promise<{ note_id: number }>;
+  generateSummary: (conversationId: number | string, options: SummaryOptions) => Promise<{
+    summary: string;
+    tokens_used?: number | null;
+    note_template?: string | null;
+    sections?: Record<string, string> | null;
+    period_from?: string | null;
+    period_to?: string | null;
+    message_count?: number;
+    summary_message_id?: number | null;
+  }>;
+  addNote: (
+    conversationId: number | string,
+    content: string,
+    structure: NoteStructure | null,
+    summaryMessageId: number | null,
+  ) => Promise<{ note_id: number; content?: string }>;
+  getSummaryHistory: (conversationId: number | string) => Promise<{ summaries: SummaryHistoryEntry[] }>;
   getConversationId: () => number | string | undefined;
   onNoteAdded: (note: Note) => void;
 }
 
-export function useSummaryState({ generateSummary, addNote, getConversationId, onNoteAdded }: UseSummaryStateOptions) {
+/** Facts about the generated summary shown below it */
+export interface SummaryInfo {
+  tokensUsed: number | null;
+  periodFrom: string | null;
+  periodTo: string | null;
+  messageCount: number | null;
+}
+
+const EMPTY_INFO: SummaryInfo = { tokensUsed: null, periodFrom: null, periodTo: null, messageCount: null };
+
+export type SummaryStep = 'options' | 'result' | 'history';
+
+export function useSummaryState({ generateSummary, addNote, getSummaryHistory, getConversationId, onNoteAdded }: UseSummaryStateOptions) {
   const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<SummaryStep>('options');
+  const [options, setOptions] = useState<SummaryOptions>({});
   const [generating, setGenerating] = useState(false);
   const [text, setText] = useState('');
   const [error, setError] = useState<string | null>(null);
+  /** Template the current summary was generated for */
+  const [template, setTemplate] = useState<string | null>(null);
+  /** Sections of the generated summary; null if it could not be split */
+  const [sections, setSections] = useState<Record<string, string> | null>(null);
+  const [info, setInfo] = useState<SummaryInfo>(EMPTY_INFO);
+  /** llmMessages.id of the shown summary, linked to the note when saved */
+  const [summaryMessageId, setSummaryMessageId] = useState<number | null>(null);
+  /** Note the shown summary was already saved as */
+  const [savedNoteId, setSavedNoteId] = useState<number | null>(null);
+  /** Conversation the shown summary belongs to */
+  const [resultConversationId, setResultConversationId] = useState<number | string | null>(null);
+  const [history, setHistory] = useState<SummaryHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const clearResult = useCallback(() => {
+    setText('');
+    setSections(null);
+    setError(null);
+    setInfo(EMPTY_INFO);
+    setSummaryMessageId(null);
+    setSavedNoteId(null);
+    setResultConversationId(null);
+  }, []);
+
+  /** An unsaved summary of the current conversation is waiting to be resumed */
+  const canResume = !!text.trim() && !error && savedNoteId === null
+    && resultConversationId !== null && String(resultConversationId) === String(getConversationId());
+
+  /**
+   * Open the modal on the options step. A summary still being generated
+   * is shown right away; a result of another conversation is dropped.
+   */
+  const start = useCallback(() => {
+    const convId = getConversationId();
+    if (!convId) return;
+    if (resultConversationId !== null && String(resultConversationId) !== String(convId)) clearResult();
+    setStep(generating ? 'result' : 'options');
+    setOpen(true);
+  }, [getConversationId, resultConversationId, generating, clearResult]);
 
   const generate = useCallback(async () => {
     const convId = getConversationId();
     if (!convId) return;
 
-    // Open modal immediately so the user sees loading state
-    setOpen(true);
+    clearResult();
+    setResultConversationId(convId);
+    setStep('result');
     setGenerating(true);
-    setError(null);
+    setTemplate(options.noteTemplate ?? null);
     try {
-      const response = await generateSummary(convId);
+      const response = await generateSummary(convId, options);
       setText(response.summary);
+      setSections(response.note_template && response.sections ? response.sections : null);
+      setInfo({
+        tokensUsed: response.tokens_used ?? null,
+        periodFrom: response.period_from ?? null,
+        periodTo: response.period_to ?? null,
+        messageCount: response.message_count ?? null,
+      });
+      setSummaryMessageId(response.summary_message_id ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate summary');
     } finally {
       setGenerating(false);
     }
-  }, [generateSummary, getConversationId]);
+  }, [generateSummary, getConversationId, options, clearResult]);
+
+  /** Back to the options step; an unsaved result stays resumable */
+  const editOptions = useCallback(() => {
+    setStep('options');
+  }, []);
+
+  /** Show the summary that was left without saving */
+  const resume = useCallback(() => {
+    setStep('result');
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    const convId = getConversationId();
+    if (!convId) return;
+
+    setHistoryLoading(true);
+    setHistoryError(null);
+    try {
+      const response = await getSummaryHistory(convId);
+      setHistory(response.summaries);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to load summary history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, [getSummaryHistory, getConversationId]);
+
+  const showHistory = useCallback(() => {
+    setStep('history');
+    loadHistory();
+  }, [loadHistory]);
+
+  /** Leave the history: back to the result if there is one */
+  const closeHistory = useCallback(() => {
+    setStep(text.trim() || generating ? 'result' : 'options');
+  }, [text, generating]);
+
+  /** Show a summary from the history in the result step */
+  const openFromHistory = useCallback((entry: SummaryHistoryEntry) => {
+    clearResult();
+    setText(entry.content);
+    setTemplate(entry.note_template);
+    setSections(entry.note_template && entry.sections ? entry.sections : null);
+    setInfo({ ...EMPTY_INFO, tokensUsed: entry.tokens_used });
+    setSummaryMessageId(entry.id);
+    setSavedNoteId(entry.saved_note_id);
+    setResultConversationId(getConversationId() ?? null);
+    setStep('result');
+  }, [clearResult, getConversationId]);
 
   const saveAsNote = useCallback(async () => {
     const convId = getConversationId();
+    const structure = template && sections ? { template, sections } : null;
     if (!convId || !text.trim()) return;
 
     try {
-      const response = await addNote(convId, text);
+      const response = await addNote(convId, text, structure, summaryMessageId);
       onNoteAdded({
         id: response.note_id,
         id_llmConversations: typeof convId === 'string' ? parseInt(convId, 10) : convId,
         id_users: 0,
-        content: text,
+        content: response.content ?? text,
+        note_type: 'ai_summary',
+        template: structure?.template ?? null,
+        sections: structure?.sections ?? null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
       setOpen(false);
-      setText('');
-      setError(null);
+      clearResult();
     } catch (err) {
       console.error('Failed to save summary as note:', err);
     }
-  }, [text, addNote, getConversationId, onNoteAdded]);
+  }, [text, template, sections, summaryMessageId, addNote, getConversationId, onNoteAdded, clearResult]);
 
   const retry = useCallback(() => {
     setError(null);
     generate();
   }, [generate]);
 
+  /** Close the modal; an unsaved result is kept so it can be resumed */
   const close = useCallback(() => {
     setOpen(false);
-    setText('');
-    setError(null);
   }, []);
 
-  return { open, generating, text, error, generate, saveAsNote, retry, close };
+  return {
+    open,
+    step,
+    options,
+    setOptions,
+    generating,
+    text,
+    error,
+    template,
+    sections,
+    setSections,
+    info,
+    savedNoteId,
+    canResume,
+    history,
+    historyLoading,
+    historyError,
+    start,
+    generate,
+    editOptions,
+    resume,
+    showHistory,
+    loadHistory,
+    closeHistory,
+    openFromHistory,
+    saveAsNote,
+    retry,
+    close,
+  };
 }
@@ -0,0 +1,274 @@
+/**
+ * Virtual List Hook
+ * ==================
+ *
+ * Windowed rendering for the chat message list. Only the items inside the
+ * viewport (plus an overscan margin) are mounted; spacers stand in for the
+ * rest. Item heights are measured with a ResizeObserver and estimated until
+ * an item has been rendered once.
+ *
+ * Scroll position is kept relative to an anchor item, so prepending older
+ * history or re-measuring items above the viewport never moves the visible
+ * messages. While the list is scrolled to the bottom it stays pinned there.
+ *
+ * Layout assumptions (matching `.tc-msg-list`): a vertical flex container
+ * with `gap`, where the top spacer is the second child (after the sticky
+ * "older messages" row) and items follow directly after it.
+ */
+
+import { useState, useRef, useMemo, useCallback, useLayoutEffect, useEffect } from 'react';
+import type { RefObject } from 'react';
+
+/** Distance from the bottom (px) within which the list counts as pinned */
+const PIN_THRESHOLD = 40;
+
+/** Distance from the top (px) that triggers `onNearTop` */
+const NEAR_TOP_THRESHOLD = 200;
+
+interface UseVirtualListOptions {
+  containerRef: RefObject<HTMLElement>;
+  /** Stable item keys in display order */
+  keys: string[];
+  /** Window the items (otherwise every item is rendered, anchoring still applies) */
+  enabled: boolean;
+  /** Height assumed for items that have not been measured yet */
+  estimateHeight?: number;
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number;
+  /** Called while the user is scrolled close to the top */
+  onNearTop?: () => void;
+}
+
+interface Anchor {
+  key: string;
+  /** Item top minus scrollTop */
+  delta: number;
+}
+
+/** Index of the first item whose bottom edge lies below `y` */
+function findIndex(offsets: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= y) lo = mid + 1;
+    else hi = mid;
+  }
+  return Math.max(0, lo);
+}
+
+export function useVirtualList({
+  containerRef,
+  keys,
+  enabled,
+  estimateHeight = 96,
+  overscan = 800,
+  onNearTop,
+}: UseVirtualListOptions) {
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const anchorRef = useRef<Anchor | null>(null);
+  const pinnedRef = useRef(true);
+  /** Container padding-top + the gaps before the first item, and the item gap */
+  const layoutRef = useRef<{ top: number; gap: number } | null>(null);
+  const onNearTopRef = useRef(onNearTop);
+  onNearTopRef.current = onNearTop;
+
+  // ---- Offsets (item tops relative to the first item, plus the total) ----
+  const offsets = useMemo(() => {
+    const gap = layoutRef.current?.gap ?? 0;
+    const o = new Array<number>(keys.length + 1);
+    o[0] = 0;
+    for (let i = 0; i < keys.length; i++) {
+      o[i + 1] = o[i] + (heightsRef.current.get(keys[i]) ?? estimateHeight + gap);
+    }
+    return o;
+  }, [keys, measureVersion, estimateHeight]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const indexByKey = useMemo(() => new Map(keys.map((k, i) => [k, i])), [keys]);
+
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+
+  // ---- Where the list should be scrolled after this render ----
+  const top = layoutRef.current?.top ?? 0;
+  const total = offsets[keys.length];
+  let targetScrollTop: number | null = null;
+  if (pinnedRef.current) {
+    targetScrollTop = Math.max(0, top + total - viewport.height);
+  } else if (anchorRef.current && indexByKey.has(anchorRef.current.key)) {
+    targetScrollTop = Math.max(0, top + offsets[indexByKey.get(anchorRef.current.key)!] - anchorRef.current.delta);
+  }
+  const scrollTop = targetScrollTop ?? viewport.scrollTop;
+
+  const windowAt = useCallback((st: number, height: number): [number, number] => {
+    const o = offsetsRef.current;
+    const n = o.length - 1;
+    if (!enabled || n === 0) return [0, n];
+    const listTop = layoutRef.current?.top ?? 0;
+    return [
+      findIndex(o, st - listTop - overscan),
+      Math.min(n, findIndex(o, st - listTop + height + overscan) + 1),
+    ];
+  }, [enabled, overscan]);
+
+  const [start, end] = windowAt(scrollTop, viewport.height);
+  const rangeRef = useRef([start, end]);
+  rangeRef.current = [start, end];
+
+  // ---- Apply the target position before paint ----
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    if (!layoutRef.current) {
+      const style = window.getComputedStyle(el);
+      const gap = parseFloat(style.rowGap) || 0;
+      // Sticky "older messages" row and top spacer each add one gap
+      layoutRef.current = { top: (parseFloat(style.paddingTop) || 0) + 2 * gap, gap };
+    }
+    if (el.clientHeight !== viewport.height) {
+      setViewport({ scrollTop: el.scrollTop, height: el.clientHeight });
+    }
+
+    if (pinnedRef.current) {
+      el.scrollTop = el.scrollHeight;
+    } else if (targetScrollTop !== null && Math.abs(el.scrollTop - targetScrollTop) > 1) {
+      el.scrollTop = targetScrollTop;
+    }
+  });
+
+  // ---- Scroll tracking ----
+  const onScroll = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const st = el.scrollTop;
+    const o = offsetsRef.current;
+    const ks = keysRef.current;
+    const listTop = layoutRef.current?.top ?? 0;
+
+    pinnedRef.current = el.scrollHeight - st - el.clientHeight < PIN_THRESHOLD;
+    const i = findIndex(o, st - listTop);
+    anchorRef.current = ks[i] ? { key: ks[i], delta: listTop + o[i] - st } : null;
+
+    // Re-render only when a different set of items has to be mounted
+    const [nextStart, nextEnd] = windowAt(st, el.clientHeight);
+    const [curStart, curEnd] = rangeRef.current;
+    if (nextStart !== curStart || nextEnd !== curEnd) {
+      setViewport({ scrollTop: st, height: el.clientHeight });
+    }
+
+    if (st < NEAR_TOP_THRESHOLD) onNearTopRef.current?.();
+  }, [containerRef, windowAt]);
+
+  useEffect(() => {
+    window.addEventListener('resize', onScroll);
+    return () => window.removeEventListener('resize', onScroll);
+  }, [onScroll]);
+
+  // ---- Measurement ----
+  const keyByElementRef = useRef(new WeakMap<Element, string>());
+  const elementByKeyRef = useRef(new Map<string, Element>());
+  const refCallbacksRef = useRef(new Map<string, (el: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const getObserver = useCallback((): ResizeObserver | null => {
+    if (observerRef.current || typeof ResizeObserver === 'undefined') return observerRef.current;
+    observerRef.current = new ResizeObserver((entries) => {
+      const gap = layoutRef.current?.gap ?? 0;
+      let changed = false;
+      for (const entry of entries) {
+        const key = keyByElementRef.current.get(entry.target);
+        if (key === undefined) continue;
+        const stride = (entry.target as HTMLElement).offsetHeight + gap;
+        if (Math.abs((heightsRef.current.get(key) ?? -1) - stride) > 0.5) {
+          heightsRef.current.set(key, stride);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion((v) => v + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  /** Ref callback for the item with `key` (stable per key) */
+  const measure = useCallback((key: string) => {
+    let cb = refCallbacksRef.current.get(key);
+    if (!cb) {
+      cb = (el: HTMLElement | null) => {
+        const observer = getObserver();
+        const prev = elementByKeyRef.current.get(key);
+        if (prev && prev !== el) {
+          observer?.unobserve(prev);
+          elementByKeyRef.current.delete(key);
+        }
+        if (el) {
+          keyByElementRef.current.set(el, key);
+          elementByKeyRef.current.set(key, el);
+          observer?.observe(el);
+        }
+      };
+      refCallbacksRef.current.set(key, cb);
+    }
+    return cb;
+  }, [getObserver]);
+
+  // Forget measurements of items that are gone (e.g. another conversation)
+  useEffect(() => {
+    const current = new Set(keys);
+    for (const key of Array.from(heightsRef.current.keys())) {
+      if (!current.has(key)) heightsRef.current.delete(key);
+    }
+    for (const key of Array.from(refCallbacksRef.current.keys())) {
+      if (!current.has(key)) refCallbacksRef.current.delete(key);
+    }
+  }, [keys]);
+
+  // ---- Programmatic scrolling ----
+  const scrollToEnd = useCallback(() => {
+    const el = containerRef.current;
+    pinnedRef.current = true;
+    anchorRef.current = null;
+    if (el) {
+      el.scrollTop = el.scrollHeight;
+      setViewport({ scrollTop: el.scrollTop, height: el.clientHeight });
+    }
+  }, [containerRef]);
+
+  /** Center the item with `key` in the viewport; false when it is not in the list */
+  const scrollToKey = useCallback((key: string): boolean => {
+    const el = containerRef.current;
+    const i = keysRef.current.indexOf(key);
+    if (!el || i < 0) return false;
+
+    const o = offsetsRef.current;
+    const listTop = layoutRef.current?.top ?? 0;
+    const itemTop = listTop + o[i];
+    const target = Math.max(0, itemTop - (el.clientHeight - (o[i + 1] - o[i])) / 2);
+
+    pinnedRef.current = false;
+    anchorRef.current = { key, delta: itemTop - target };
+    el.scrollTop = target;
+    setViewport({ scrollTop: target, height: el.clientHeight });
+    return true;
+  }, [containerRef]);
+
+  const gap = layoutRef.current?.gap ?? 0;
+  return {
+    start,
+    end,
+    /** Heights of the top / bottom spacers */
+    padTop: offsets[start],
+    padBottom: Math.max(0, total - offsets[end] - gap),
+    measure,
+    onScroll,
+    scrollToEnd,
+    scrollToKey,
+  };
+}
@@ -31,12 +31,27 @@ export type AlertType =
 /** Alert severity (therapyAlertSeverity lookup) */
 export type AlertSeverity = 'info' | 'warning' | 'critical' | 'emergency';
 
+/** Alert triage status (therapyAlertStatus lookup) */
+export type AlertStatus = 'new' | 'acknowledged' | 'in_progress' | 'resolved';
+
 /** Tag urgency (stored in alert metadata JSON) */
 export type TagUrgency = 'normal' | 'urgent' | 'emergency';
 
 /** Draft status (therapyDraftStatus lookup) */
 export type DraftStatus = 'draft' | 'sent' | 'discarded';
 
+/** Tone an AI draft is asked to be written in (THERAPY_VALID_DRAFT_TONES) */
+export type DraftTone = 'warm' | 'neutral' | 'direct' | 'encouraging';
+
+/** Target length of an AI draft (THERAPY_VALID_DRAFT_LENGTHS) */
+export type DraftLength = 'short' | 'medium' | 'long';
+
+/** Free-text output formats of an AI summary (THERAPY_VALID_SUMMARY_FORMATS) */
+export type SummaryFormat = 'narrative' | 'bullets';
+
+/** Focus areas of an AI summary (THERAPY_VALID_SUMMARY_FOCUS_AREAS) */
+export type SummaryFocus = 'mood' | 'risk' | 'homework';
+
 /** Note types (therapyNoteTypes lookup) */
 export type NoteType = 'manual' | 'ai_summary';
 
@@ -61,6 +76,67 @@ export interface Message {
   edited_at?: string;
   /** Whether this message was soft-deleted */
   is_deleted?: boolean;
+  /** Client-generated ID of a message that is still in the outbox */
+  client_id?: string;
+  /** Delivery state of an unconfirmed own message (absent once stored) */
+  send_status?: 'pending' | 'failed';
+  /** Attached images / PDFs (empty for deleted messages) */
+  attachments?: MessageAttachment[];
+  /** AI reply that is still being generated (client-only) */
+  is_streaming?: boolean;
+  /** Read receipts: recipients other than the sender who have seen the message, first reader first */
+  seen_by?: MessageReceipt[];
+  /** When the message was first seen (null = delivered, not seen yet) */
+  seen_at?: string | null;
+}
+
+/** A read receipt (therapyMessageRecipients.seen_at) */
+export interface MessageReceipt {
+  id: number;
+  name: string;
+  seen_at: string;
+}
+
+/** A user typing in a conversation (therapyTypingStatus) */
+export interface TypingUser {
+  id: number;
+  name: string;
+}
+
+/** A file attached to a message (therapyMessageAttachments) */
+export interface MessageAttachment {
+  /** Attachment ID, or a `local-…` ID while the upload is in flight */
+  id: number | string;
+  file_name: string;
+  mime_type: string;
+  /** Size in bytes */
+  file_size: number;
+  /** Object URL of the local file, set on optimistic messages only */
+  preview_url?: string;
+}
+
+/** One version of a message in its edit history */
+export interface MessageVersion {
+  /** 1-based version number (1 = original) */
+  version: number;
+  content: string;
+  /** When this version was written (message timestamp for the original) */
+  timestamp: string;
+  /** Sender of the original, editor of later versions */
+  user_id?: number | null;
+  user_name?: string | null;
+  is_original: boolean;
+}
+
+/** Edit/delete audit trail of a message (therapist-only, get_message_history) */
+export interface MessageHistory {
+  message_id: number;
+  is_deleted: boolean;
+  deleted_at?: string | null;
+  deleted_by?: number | null;
+  deleted_by_name?: string | null;
+  /** All versions, oldest first; deleted messages include their original content */
+  versions: MessageVersion[];
 }
 
 /** A therapy conversation (from view_therapyConversations) */
@@ -70,12 +146,17 @@ export interface Conversation {
   title?: string;
   mode?: ConversationMode;
   ai_enabled: boolean;
+  /** Patient may attach files (therapists can always attach) */
+  allow_patient_uploads?: boolean;
   risk_level?: RiskLevel;
   model?: string;
   created_at: string;
   updated_at?: string;
   /** Patient user ID */
   id_users?: number;
+  /** Last time the patient / a therapist opened the conversation */
+  subject_last_seen?: string | null;
+  therapist_last_seen?: string | null;
   subject_name?: string;
   subject_code?: string;
   subject_email?: string;
@@ -102,8 +183,67 @@ export interface Alert {
   read_at?: string;
   created_at: string;
   conversation_title?: string;
+  /** therapyConversationMeta.id of the alert's conversation */
+  conversation_id?: number | null;
+  /** Message that triggered the alert (tagging or flagged patient message) */
+  message_id?: number | null;
+  subject_id?: number;
   subject_name?: string;
   subject_code?: string;
+  status?: AlertStatus;
+  status_label?: string;
+  /** Colleague handling the alert */
+  id_assignedTo?: number | null;
+  assigned_to_name?: string | null;
+  /** How the alert was handled (set when resolved) */
+  resolution_note?: string | null;
+  resolved_at?: string | null;
+  /** When the unacknowledged alert was escalated to supervisors */
+  escalated_at?: string | null;
+  /** Escalation deadline (ISO 8601) while the alert is still new */
+  escalation_due_at?: string | null;
+  /** Delay of the matching escalation rule */
+  escalation_minutes?: number | null;
+}
+
+/** Audit trail entry of an alert (therapyAlertEvents) */
+export interface AlertEvent {
+  id: number;
+  event: 'status' | 'assigned' | 'escalated';
+  note: string | null;
+  created_at: string;
+  user_id: number | null;
+  user_name: string | null;
+  /** Status and assignee after the event */
+  status: AlertStatus | null;
+  status_label: string | null;
+  assigned_to: number | null;
+  assigned_to_name: string | null;
+}
+
+/** Filter of the alerts inbox (null = any) */
+export interface AlertInboxFilter {
+  type: AlertType | null;
+  severity: AlertSeverity | null;
+  status: AlertStatus | null;
+  /** therapyConversationMeta.id of the patient's conversation */
+  conversationId: number | null;
+  /** Inclusive creation dates (YYYY-MM-DD) */
+  dateFrom: string | null;
+  dateTo: string | null;
+}
+
+/** Therapist an alert can be assigned to */
+export interface AlertColleague {
+  id: number;
+  name: string;
+}
+
+/** get_alert response */
+export interface AlertDetails {
+  alert: Alert;
+  events: AlertEvent[];
+  colleagues: AlertColleague[];
 }
 
 /** Clinical note (from therapyNotes) */
@@ -113,13 +253,65 @@ export interface Note {
   id_users: number;
   content: string;
   note_type?: NoteType;
+  /** Display name of the note type (lookup_value) */
+  note_type_label?: string;
   note_status?: string;
+  /** Pinned notes are listed first */
+  pinned?: boolean;
+  /** Lowercase tags, e.g. "medication", "safety plan" */
+  tags?: string[];
+  /** Template key (THERAPY_NOTE_TEMPLATES) for structured notes, null for free text */
+  template?: string | null;
+  /** Section key → text of a structured note; content holds the rendered markdown */
+  sections?: Record<string, string> | null;
   author_name?: string;
   last_edited_by_name?: string;
   created_at: string;
   updated_at?: string;
 }
 
+/** A saved version of a note (get_note_history) */
+export interface NoteVersion {
+  /** 1-based version number (1 = as created) */
+  version: number;
+  content: string;
+  template?: string | null;
+  sections?: Record<string, string> | null;
+  /** When this version was saved */
+  timestamp: string;
+  /** Therapist who saved this version */
+  user_id?: number | null;
+  user_name?: string | null;
+  is_original: boolean;
+}
+
+/** Revision history of a note, oldest version first */
+export interface NoteHistory {
+  note_id: number;
+  versions: NoteVersion[];
+}
+
+/** Section of a structured note template */
+export interface NoteTemplateSection {
+  key: string;
+  label: string;
+  /** What belongs in the section (placeholder) */
+  hint?: string;
+}
+
+/** Structured clinical note format (THERAPY_NOTE_TEMPLATES) */
+export interface NoteTemplate {
+  key: string;
+  label: string;
+  sections: NoteTemplateSection[];
+}
+
+/** Template and section texts of a structured note */
+export interface NoteStructure {
+  template: string;
+  sections: Record<string, string>;
+}
+
 /** AI draft message (from therapyDraftMessages) */
 export interface Draft {
   id: number;
@@ -128,6 +320,85 @@ export interface Draft {
   ai_content: string;
   edited_content?: string;
   status: DraftStatus;
+  /** Guidance the draft was generated with */
+  guidance?: DraftGuidance | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** Therapist guidance for generating an AI draft */
+export interface DraftGuidance {
+  /** Free-text instruction, e.g. "validate feelings first" */
+  instruction?: string;
+  tone?: DraftTone;
+  length?: DraftLength;
+}
+
+/** Options for generating an AI summary */
+export interface SummaryOptions {
+  /** Structured note template (SOAP, DAP, ...); takes precedence over format */
+  noteTemplate?: string | null;
+  format?: SummaryFormat;
+  focus?: SummaryFocus[];
+  /** Inclusive period (YYYY-MM-DD); ignored with sinceLastSummary */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Only the messages since the conversation was last summarized */
+  sinceLastSummary?: boolean;
+}
+
+/** A previously generated summary (get_summary_history) */
+export interface SummaryHistoryEntry {
+  /** llmMessages.id of the summary */
+  id: number;
+  content: string;
+  timestamp: string;
+  tokens_used: number | null;
+  /** Therapist's tools conversation the summary was logged in */
+  summary_conversation_id: number;
+  therapist_id: number;
+  therapist_name: string | null;
+  /** Options the summary was generated with, as sent to generate_summary */
+  options: {
+    note_template?: string;
+    format?: SummaryFormat;
+    focus?: SummaryFocus[];
+    date_from?: string;
+    date_to?: string;
+    since_last_summary?: boolean;
+  };
+  /** Note the summary was saved as (null = never saved) */
+  saved_note_id: number | null;
+  note_template: string | null;
+  sections: Record<string, string> | null;
+}
+
+/** A therapist message waiting for its send time (therapyScheduledMessages) */
+export interface ScheduledMessage {
+  id: number;
+  conversation_id: number;
+  /** Therapist who scheduled it (only they can edit or cancel it) */
+  therapist_id: number;
+  therapist_name: string;
+  content: string;
+  /** Send time, ISO 8601 with offset */
+  scheduled_at: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** Canned response inserted with "/" (from therapyMessageTemplates) */
+export interface MessageTemplate {
+  id: number;
+  title: string;
+  /** Text with optional {patient_name} / {therapist_name} variables */
+  content: string;
+  /** Shared with this group; null for a personal template */
+  group_id: number | null;
+  group_name: string | null;
+  /** Only the author can edit or delete the template */
+  author_id: number;
+  author_name: string;
   created_at: string;
   updated_at?: string;
 }
@@ -139,6 +410,25 @@ export interface TherapistGroup {
   patient_count?: number;
 }
 
+/** One matching message from the cross-patient search */
+export interface MessageSearchHit {
+  message_id: number;
+  sender_type: SenderType;
+  /** Plain-text excerpt around the match */
+  snippet: string;
+  timestamp: string;
+}
+
+/** Search matches of one patient conversation */
+export interface MessageSearchGroup {
+  conversation_id: number | string;
+  subject_id: number;
+  subject_name: string;
+  subject_code?: string;
+  /** Newest first */
+  matches: MessageSearchHit[];
+}
+
 /** Predefined tag reason (passed from PHP config) */
 export interface TagReason {
   code: string;
@@ -183,6 +473,43 @@ export interface DashboardStats {
   unread_alerts: number;
 }
 
+// ---------------------------------------------------------------------------
+// Real-time Updates
+// ---------------------------------------------------------------------------
+
+/** Concrete transport used to receive dashboard change events */
+export type RealtimeTransportKind = 'websocket' | 'sse' | 'polling';
+
+/** Change events pushed to the dashboard (see TherapistDashboardModel::getRealtimeEvents) */
+export type RealtimeEventType = 'message' | 'alert' | 'unread' | 'conversation' | 'receipt' | 'typing';
+
+/** Change-detection snapshot (check_updates response / SSE event payload) */
+export interface RealtimeSnapshot {
+  unread_messages: number;
+  unread_alerts: number;
+  latest_message_id: number | null;
+  latest_alert_id?: number | null;
+  /** Last time an alert was escalated */
+  latest_alert_escalated_at?: string | null;
+  conversations_updated_at?: string | null;
+  /** Last time a patient read a message (read receipts) */
+  latest_seen_at?: string | null;
+  /** Conversations in which the patient is typing right now */
+  typing_conversations?: number[];
+}
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: RealtimeSnapshot;
+}
+
+/** Real-time settings from the dashboard style fields */
+export interface RealtimeConfig {
+  /** 'auto' tries WebSocket (if a URL is set), then polling; SSE only with 'sse' */
+  transport: 'auto' | RealtimeTransportKind;
+  websocketUrl?: string;
+}
+
 // ---------------------------------------------------------------------------
 // UI Label Interfaces
 // ---------------------------------------------------------------------------
@@ -306,6 +633,8 @@ export interface SubjectChatConfig {
   aiEnabled: boolean;
   taggingEnabled: boolean;
   dangerDetectionEnabled: boolean;
+  /** Show AI replies while they are generated (send_message_stream) */
+  aiStreamingEnabled?: boolean;
   pollingInterval: number;
   labels: SubjectChatLabels;
   tagReasons: TagReason[];
@@ -321,13 +650,21 @@ export interface SubjectChatConfig {
 export interface TherapistDashboardConfig {
   baseUrl?: string;
   userId: number;
+  /** Display name of the therapist (resolves {therapist_name} in templates) */
+  userName?: string | null;
   sectionId: number;
   selectedGroupId?: number | null;
   selectedSubjectId?: number | string | null;
   stats: DashboardStats;
   groups?: TherapistGroup[];
   assignedGroups?: TherapistGroup[];
+  /** Structured clinical note formats (SOAP, DAP, risk assessment) */
+  noteTemplates?: NoteTemplate[];
+  /** Tags offered when tagging a note (THERAPY_NOTE_SUGGESTED_TAGS) */
+  noteTagSuggestions?: string[];
   pollingInterval: number;
+  /** Real-time transport settings (falls back to polling when absent) */
+  realtime?: RealtimeConfig;
   features: TherapistFeatures;
   labels: TherapistDashboardLabels;
   speechToTextEnabled?: boolean;
@@ -353,16 +690,36 @@ export interface SendMessageResponse extends ApiResponse {
   type?: string;
   message?: string;
   ai_message?: Message;
+  /** Stored attachments of the sent message */
+  attachments?: MessageAttachment[];
+  /** The message was already stored by an earlier attempt with the same client ID */
+  duplicate?: boolean;
+  /** The AI response triggered the safety check and the conversation was switched to human-only */
+  conversation_blocked?: boolean;
+}
+
+/** Callbacks for the events of a streamed send (send_message_stream) */
+export interface SendMessageStreamHandlers {
+  /** The patient message was saved (same fields as the final response, without the AI reply) */
+  onStored?: (res: SendMessageResponse) => void;
+  /** Next piece of the AI reply's display text */
+  onDelta?: (text: string) => void;
+  /** The AI reply reports a safety concern; its text arrives with the final response */
+  onSafety?: () => void;
 }
 
 export interface GetMessagesResponse extends ApiResponse {
   messages: Message[];
   conversation_id?: number | string;
+  /** Set for history pages (before_id): older messages exist */
+  has_more?: boolean;
 }
 
 export interface GetConversationResponse extends ApiResponse {
   conversation: Conversation;
   messages: Message[];
+  /** Messages older than the returned page exist */
+  has_more?: boolean;
   notes?: Note[];
   alerts?: Alert[];
 }
@@ -371,6 +728,14 @@ export interface GetConversationsResponse extends ApiResponse {
   conversations: Conversation[];
 }
 
+export interface SearchMessagesResponse extends ApiResponse {
+  results: MessageSearchGroup[];
+  /** Number of matching messages returned */
+  total: number;
+  /** The server result limit was reached – narrow the search */
+  truncated: boolean;
+}
+
 export interface TagTherapistResponse extends ApiResponse {
   alert_id?: number;
   alert_created?: boolean;
@@ -13,17 +13,33 @@ import type {
   SubjectChatConfig,
   TherapistDashboardConfig,
   SendMessageResponse,
+  SendMessageStreamHandlers,
   GetMessagesResponse,
   GetConversationResponse,
   GetConversationsResponse,
   TagTherapistResponse,
   Conversation,
+  MessageHistory,
   Alert,
+  AlertDetails,
+  AlertInboxFilter,
+  AlertStatus,
   Note,
+  NoteHistory,
+  NoteStructure,
   Draft,
+  DraftGuidance,
+  SummaryHistoryEntry,
+  SummaryOptions,
   DashboardStats,
   UnreadCounts,
   TherapistGroup,
+  RealtimeSnapshot,
+  SearchMessagesResponse,
+  SenderType,
+  TypingUser,
+  ScheduledMessage,
+  MessageTemplate,
 } from '../types';
 
 // ---------------------------------------------------------------------------
@@ -58,14 +74,21 @@ async function apiGet<T>(action: string, params: Record<string, string> = {}, cu
   return data;
 }
 
-async function apiPost<T>(formData: FormData, customBaseUrl?: string): Promise<T> {
-  // Use the full current URL (including query string) so SelfHelp can route
-  // correctly. The POST body contains action + section_id for the controller.
+/**
+ * URL for POST requests: the full current URL (including query string) so
+ * SelfHelp can route correctly. The POST body contains action + section_id
+ * for the controller.
+ */
+function postUrl(customBaseUrl?: string): string {
   const base = customBaseUrl || window.location.href;
   const url = new URL(base, window.location.origin);
   // Remove volatile params that might conflict with form body
   url.searchParams.delete('action');
-  const res = await fetch(url.toString(), {
+  return url.toString();
+}
+
+async function apiPost<T>(formData: FormData, customBaseUrl?: string): Promise<T> {
+  const res = await fetch(postUrl(customBaseUrl), {
     method: 'POST',
     body: formData,
     headers: { Accept: 'application/json', 'X-Requested-With': 'XMLHttpRequest' },
@@ -86,23 +109,82 @@ function postData(action: string, sectionId?: number): FormData {
   return fd;
 }
 
-/** Generic POST action helper to avoid repetitive fd.append boilerplate */
-async function postAction<T>(
-  action: string,
-  sectionId: number | undefined,
-  params: Record<string, string | number | boolean | null | undefined>,
-  customBaseUrl?: string
-): Promise<T> {
+type PostParams = Record<string, string | number | boolean | File[] | null | undefined>;
+
+/** FormData for an action; file lists are sent as `key[]` uploads */
+function actionData(action: string, sectionId: number | undefined, params: PostParams): FormData {
   const fd = postData(action, sectionId);
   for (const [key, value] of Object.entries(params)) {
     if (value === undefined || value === null) continue;
-    if (typeof value === 'boolean') {
+    if (Array.isArray(value)) {
+      for (const file of value) fd.append(`${key}[]`, file, file.name);
+    } else if (typeof value === 'boolean') {
       fd.append(key, value ? '1' : '0');
     } else {
       fd.append(key, String(value));
     }
   }
-  return apiPost<T>(fd, customBaseUrl);
+  return fd;
+}
+
+/**
+ * Generic POST action helper to avoid repetitive fd.append boilerplate.
+ */
+async function postAction<T>(
+  action: string,
+  sectionId: number | undefined,
+  params: PostParams,
+  customBaseUrl?: string
+): Promise<T> {
+  return apiPost<T>(actionData(action, sectionId, params), customBaseUrl);
+}
+
+/**
+ * Read the Server-Sent Events of a streamed send and resolve with the
+ * final `done` payload. Responses that are not an event stream (request
+ * validation errors) are handled like a regular JSON response.
+ */
+async function readSendStream(res: Response, handlers: SendMessageStreamHandlers): Promise<SendMessageResponse> {
+  if (!res.body || !(res.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    const data = await res.json().catch(() => {
+      throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+    });
+    if (!res.ok) throw new Error(data?.error ?? `HTTP ${res.status}`);
+    return data;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let event = 'message';
+      const lines: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) lines.push(line.slice(5).trim());
+      }
+      if (lines.length === 0) continue;
+      const data = JSON.parse(lines.join('\n'));
+
+      switch (event) {
+        case 'stored': handlers.onStored?.(data); break;
+        case 'delta': handlers.onDelta?.(data.text ?? ''); break;
+        case 'safety': handlers.onSafety?.(); break;
+        case 'done': return data;
+        case 'error': throw new Error(data?.error ?? 'Failed to send message');
+      }
+    }
+  }
+  throw new Error('The connection closed before the response was complete');
 }
 
 /** Append optional section_id to GET params */
@@ -141,15 +223,59 @@ export function createSubjectApi(sectionId?: number, baseUrl?: string) {
       return apiGet('get_messages', withSection(p, sectionId), baseUrl);
     },
 
-    async sendMessage(conversationId: number | string | undefined, message: string): Promise<SendMessageResponse> {
+    /** Page of messages older than `beforeId` */
+    async getOlderMessages(conversationId: number | string, beforeId: number): Promise<GetMessagesResponse> {
+      return apiGet('get_messages', withSection({
+        conversation_id: String(conversationId),
+        before_id: String(beforeId),
+      }, sectionId), baseUrl);
+    },
+
+    async sendMessage(
+      conversationId: number | string | undefined,
+      message: string,
+      clientMessageId?: string,
+      files?: File[],
+    ): Promise<SendMessageResponse> {
       return postAction<SendMessageResponse>(
         'send_message',
         sectionId,
-        { message, conversation_id: conversationId },
+        { message, conversation_id: conversationId, client_message_id: clientMessageId, attachments: files },
         baseUrl
       );
     },
 
+    /**
+     * Send a message and stream the AI reply while it is generated.
+     * Aborting `signal` stops the reply (the patient message stays sent).
+     */
+    async sendMessageStream(
+      conversationId: number | string | undefined,
+      message: string,
+      clientMessageId: string | undefined,
+      files: File[] | undefined,
+      handlers: SendMessageStreamHandlers,
+      signal?: AbortSignal,
+    ): Promise<SendMessageResponse> {
+      const res = await fetch(postUrl(baseUrl), {
+        method: 'POST',
+        body: actionData('send_message_stream', sectionId, {
+          message, conversation_id: conversationId, client_message_id: clientMessageId, attachments: files,
+        }),
+        headers: { Accept: 'text/event-stream', 'X-Requested-With': 'XMLHttpRequest' },
+        credentials: 'same-origin',
+        signal,
+      });
+      return readSendStream(res, handlers);
+    },
+
+    /** URL that serves an attachment (inline, or as download) */
+    getAttachmentUrl(attachmentId: number | string, download = false): string {
+      const p: Record<string, string> = { attachment_id: String(attachmentId) };
+      if (download) p.download = '1';
+      return buildUrl('get_attachment', withSection(p, sectionId), baseUrl);
+    },
+
     async tagTherapist(conversationId: number | string, reason?: string, urgency?: string): Promise<TagTherapistResponse> {
       return postAction<TagTherapistResponse>(
         'tag_therapist',
@@ -168,10 +294,20 @@ export function createSubjectApi(sectionId?: number, baseUrl?: string) {
       );
     },
 
-    async checkUpdates(): Promise<{ latest_message_id: number | null; unread_count: number }> {
+    async checkUpdates(): Promise<{
+      latest_message_id: number | null;
+      unread_count: number;
+      last_seen_at?: string | null;
+      typing?: TypingUser[];
+    }> {
       return apiGet('check_updates', withSection({}, sectionId), baseUrl);
     },
 
+    /** Keystroke ping (`false` once the input was cleared) */
+    async setTyping(typing: boolean): Promise<ApiOk> {
+      return postAction<ApiOk>('typing', sectionId, { typing }, baseUrl);
+    },
+
     async getTherapists(): Promise<{ therapists: Array<{ id: number; display: string; name: string; email?: string }> }> {
       return apiGet('get_therapists', withSection({}, sectionId), baseUrl);
     },
@@ -210,15 +346,31 @@ export function createTherapistApi(sectionId?: number) {
       return apiGet('get_messages', withSection(p, sectionId));
     },
 
+    /** Page of messages older than `beforeId` (newest first page ends right before it) */
+    async getOlderMessages(conversationId: number | string, beforeId: number): Promise<GetMessagesResponse> {
+      return apiGet('get_messages', withSection({
+        conversation_id: String(conversationId),
+        before_id: String(beforeId),
+      }, sectionId));
+    },
+
     // ---- Messaging ----
 
-    async sendMessage(conversationId: number | string, message: string): Promise<SendMessageResponse> {
+    async sendMessage(conversationId: number | string, message: string, files?: File[]): Promise<SendMessageResponse> {
       return postAction<SendMessageResponse>('send_message', sectionId, {
         conversation_id: conversationId,
         message,
+        attachments: files,
       });
     },
 
+    /** URL that serves an attachment (inline, or as download) */
+    getAttachmentUrl(attachmentId: number | string, download = false): string {
+      const p: Record<string, string> = { attachment_id: String(attachmentId) };
+      if (download) p.download = '1';
+      return buildUrl('get_attachment', withSection(p, sectionId));
+    },
+
     async editMessage(messageId: number, newContent: string): Promise<ApiOk> {
       return postAction<ApiOk>('edit_message', sectionId, {
         message_id: messageId,
@@ -230,11 +382,31 @@ export function createTherapistApi(sectionId?: number) {
       return postAction<ApiOk>('delete_message', sectionId, { message_id: messageId });
     },
 
+    async getMessageHistory(conversationId: number | string, messageId: number): Promise<{ history: MessageHistory }> {
+      return apiGet('get_message_history', withSection({
+        conversation_id: String(conversationId),
+        message_id: String(messageId),
+      }, sectionId));
+    },
+
+    /** Search messages across all patients of the therapist's groups */
+    async searchMessages(query: string, filters: SearchMessagesFilters = {}): Promise<SearchMessagesResponse> {
+      const p: Record<string, string> = { q: query };
+      if (filters.groupId != null) p.group_id = String(filters.groupId);
+      if (filters.senderType) p.sender_type = filters.senderType;
+      if (filters.dateFrom) p.date_from = filters.dateFrom;
+      if (filters.dateTo) p.date_to = filters.dateTo;
+      return apiGet('search_messages', withSection(p, sectionId));
+    },
+
     // ---- AI Drafts ----
 
-    async createDraft(conversationId: number | string): Promise<{ success: boolean; draft?: Draft }> {
+    async createDraft(conversationId: number | string, guidance: DraftGuidance = {}): Promise<{ success: boolean; draft?: Draft }> {
       return postAction<{ success: boolean; draft?: Draft }>('create_draft', sectionId, {
         conversation_id: conversationId,
+        instruction: guidance.instruction?.trim() || undefined,
+        tone: guidance.tone,
+        length: guidance.length,
       });
     },
 
@@ -245,10 +417,17 @@ export function createTherapistApi(sectionId?: number) {
       });
     },
 
-    async sendDraft(draftId: number, conversationId: number | string): Promise<SendMessageResponse> {
+    /**
+     * Send a draft candidate. `content` is the final editor text; the
+     * candidate lists are stored with the message for draft evaluation.
+     */
+    async sendDraft(draftId: number, conversationId: number | string, options: SendDraftOptions = {}): Promise<SendMessageResponse> {
       return postAction<SendMessageResponse>('send_draft', sectionId, {
         draft_id: draftId,
         conversation_id: conversationId,
+        content: options.content,
+        candidate_ids: options.candidateIds?.join(','),
+        picked_from: options.pickedFrom?.join(','),
       });
     },
 
@@ -256,6 +435,32 @@ export function createTherapistApi(sectionId?: number) {
       return postAction<ApiOk>('discard_draft', sectionId, { draft_id: draftId });
     },
 
+    // ---- Scheduled messages ----
+
+    async getScheduledMessages(conversationId: number | string): Promise<{ scheduled_messages: ScheduledMessage[] }> {
+      return apiGet('get_scheduled_messages', withSection({ conversation_id: String(conversationId) }, sectionId));
+    },
+
+    async scheduleMessage(conversationId: number | string, message: string, scheduledAt: Date): Promise<ScheduledMessageResponse> {
+      return postAction<ScheduledMessageResponse>('schedule_message', sectionId, {
+        conversation_id: conversationId,
+        message,
+        scheduled_at: scheduledAt.toISOString(),
+      });
+    },
+
+    async updateScheduledMessage(scheduledId: number, message: string, scheduledAt: Date): Promise<ScheduledMessageResponse> {
+      return postAction<ScheduledMessageResponse>('update_scheduled_message', sectionId, {
+        scheduled_id: scheduledId,
+        message,
+        scheduled_at: scheduledAt.toISOString(),
+      });
+    },
+
+    async cancelScheduledMessage(scheduledId: number): Promise<ApiOk> {
+      return postAction<ApiOk>('cancel_scheduled_message', sectionId, { scheduled_id: scheduledId });
+    },
+
     // ---- Conversation initialization ----
 
     async initializeConversation(patientId: number): Promise<InitializeConversationResponse> {
@@ -273,6 +478,13 @@ export function createTherapistApi(sectionId?: number) {
       });
     },
 
+    async togglePatientUploads(conversationId: number | string, allowed: boolean): Promise<{ success: boolean; allow_patient_uploads: boolean }> {
+      return postAction<{ success: boolean; allow_patient_uploads: boolean }>('toggle_patient_uploads', sectionId, {
+        conversation_id: conversationId,
+        allowed,
+      });
+    },
+
     async setRiskLevel(conversationId: number | string, riskLevel: string): Promise<ApiOk> {
       return postAction<ApiOk>('set_risk', sectionId, {
         conversation_id: conversationId,
@@ -282,11 +494,22 @@ export function createTherapistApi(sectionId?: number) {
 
     // ---- Notes ----
 
-    async addNote(conversationId: number | string, content: string, noteType?: string): Promise<{ success: boolean; note_id: number }> {
-      return postAction<{ success: boolean; note_id: number }>('add_note', sectionId, {
+    async addNote(
+      conversationId: number | string,
+      content: string,
+      noteType?: string,
+      structure?: NoteStructure | null,
+      tags?: string[],
+      summaryMessageId?: number | null,
+    ): Promise<NoteResponse & { note_id: number }> {
+      return postAction<NoteResponse & { note_id: number }>('add_note', sectionId, {
         conversation_id: conversationId,
         content,
         note_type: noteType,
+        template: structure?.template,
+        sections: structure ? JSON.stringify(structure.sections) : undefined,
+        tags: tags ? JSON.stringify(tags) : undefined,
+        summary_message_id: summaryMessageId || undefined,
       });
     },
 
@@ -294,17 +517,56 @@ export function createTherapistApi(sectionId?: number) {
       return apiGet('get_notes', withSection({ conversation_id: String(conversationId) }, sectionId));
     },
 
-    async editNote(noteId: number, content: string): Promise<ApiOk> {
-      return postAction<ApiOk>('edit_note', sectionId, {
+    /** Tags are replaced when given and kept when omitted */
+    async editNote(noteId: number, content: string, structure?: NoteStructure | null, tags?: string[]): Promise<NoteResponse> {
+      return postAction<NoteResponse>('edit_note', sectionId, {
         note_id: noteId,
         content,
+        template: structure?.template,
+        sections: structure ? JSON.stringify(structure.sections) : undefined,
+        tags: tags ? JSON.stringify(tags) : undefined,
       });
     },
 
+    /** Every saved version of a note, oldest first */
+    async getNoteHistory(conversationId: number | string, noteId: number): Promise<{ history: NoteHistory }> {
+      return apiGet('get_note_history', withSection({
+        conversation_id: String(conversationId),
+        note_id: String(noteId),
+      }, sectionId));
+    },
+
+    async pinNote(noteId: number, pinned: boolean): Promise<ApiOk & { pinned: boolean }> {
+      return postAction<ApiOk & { pinned: boolean }>('pin_note', sectionId, { note_id: noteId, pinned });
+    },
+
     async deleteNote(noteId: number): Promise<ApiOk> {
       return postAction<ApiOk>('delete_note', sectionId, { note_id: noteId });
     },
 
+    // ---- Message templates ----
+
+    async getTemplates(): Promise<{ templates: MessageTemplate[] }> {
+      return apiGet('get_templates', withSection({}, sectionId));
+    },
+
+    async createTemplate(title: string, content: string, groupId: number | null): Promise<TemplateResponse> {
+      return postAction<TemplateResponse>('create_template', sectionId, { title, content, group_id: groupId });
+    },
+
+    async updateTemplate(templateId: number, title: string, content: string, groupId: number | null): Promise<TemplateResponse> {
+      return postAction<TemplateResponse>('update_template', sectionId, {
+        template_id: templateId,
+        title,
+        content,
+        group_id: groupId,
+      });
+    },
+
+    async deleteTemplate(templateId: number): Promise<ApiOk> {
+      return postAction<ApiOk>('delete_template', sectionId, { template_id: templateId });
+    },
+
     // ---- Alerts ----
 
     async getAlerts(unreadOnly?: boolean): Promise<{ alerts: Alert[] }> {
@@ -323,6 +585,38 @@ export function createTherapistApi(sectionId?: number) {
       });
     },
 
+    /** Alerts inbox: every alert matching the filter (read or not) */
+    async getAlertInbox(filter: AlertInboxFilter): Promise<{ alerts: Alert[] }> {
+      // THERAPY_ALERT_INBOX_LIMIT
+      const p: Record<string, string> = { limit: '200' };
+      if (filter.type) p.alert_type = filter.type;
+      if (filter.severity) p.severity = filter.severity;
+      if (filter.status) p.status = filter.status;
+      if (filter.conversationId) p.conversation_id = String(filter.conversationId);
+      if (filter.dateFrom) p.date_from = filter.dateFrom;
+      if (filter.dateTo) p.date_to = filter.dateTo;
+      return apiGet('get_alerts', withSection(p, sectionId));
+    },
+
+    async getAlert(alertId: number): Promise<AlertDetails> {
+      return apiGet('get_alert', withSection({ alert_id: String(alertId) }, sectionId));
+    },
+
+    async updateAlertStatus(alertId: number, status: AlertStatus, note?: string): Promise<ApiOk & AlertDetails> {
+      return postAction<ApiOk & AlertDetails>('update_alert_status', sectionId, {
+        alert_id: alertId,
+        status,
+        note: note || undefined,
+      });
+    },
+
+    async assignAlert(alertId: number, assigneeId: number | null): Promise<ApiOk & AlertDetails> {
+      return postAction<ApiOk & AlertDetails>('assign_alert', sectionId, {
+        alert_id: alertId,
+        assignee_id: assigneeId ?? 0,
+      });
+    },
+
     // ---- Read receipts ----
 
     async markMessagesRead(conversationId: number | string): Promise<ApiOk> {
@@ -331,6 +625,14 @@ export function createTherapistApi(sectionId?: number) {
       });
     },
 
+    /** Keystroke ping (`false` once the input was cleared) */
+    async setTyping(conversationId: number | string, typing: boolean): Promise<ApiOk> {
+      return postAction<ApiOk>('typing', sectionId, {
+        conversation_id: conversationId,
+        typing,
+      });
+    },
+
     async getUnreadCounts(): Promise<{ unread_counts: UnreadCounts }> {
       return apiGet('get_unread_counts', withSection({}, sectionId));
     },
@@ -364,27 +666,84 @@ export function createTherapistApi(sectionId?: number) {
       return apiGet('check_updates', withSection({}, sectionId));
     },
 
+    // ---- Real-time ----
+
+    /** URL of the Server-Sent Events stream (consumed by EventSource) */
+    getEventStreamUrl(): string {
+      return buildUrl('stream_events', withSection({}, sectionId));
+    },
+
     // ---- Summarization ----
 
-    async generateSummary(conversationId: number | string): Promise<SummaryResponse> {
+    async generateSummary(conversationId: number | string, options: SummaryOptions = {}): Promise<SummaryResponse> {
       return postAction<SummaryResponse>('generate_summary', sectionId, {
         conversation_id: conversationId,
+        note_template: options.noteTemplate || undefined,
+        format: options.format,
+        focus: options.focus?.length ? options.focus.join(',') : undefined,
+        date_from: options.sinceLastSummary ? undefined : options.dateFrom || undefined,
+        date_to: options.sinceLastSummary ? undefined : options.dateTo || undefined,
+        since_last_summary: options.sinceLastSummary || undefined,
       });
     },
+
+    async getSummaryHistory(conversationId: number | string): Promise<{ summaries: SummaryHistoryEntry[] }> {
+      return apiGet('get_summary_history', withSection({ conversation_id: String(conversationId) }, sectionId));
+    },
   };
 }
 
-export interface CheckUpdatesResponse {
-  unread_messages: number;
-  unread_alerts: number;
-  latest_message_id: number | null;
-}
+export type CheckUpdatesResponse = RealtimeSnapshot;
 
 export interface SummaryResponse {
   success: boolean;
   summary: string;
   summary_conversation_id: number | null;
+  /** llmMessages.id of the summary; pass to addNote to link the saved note */
+  summary_message_id: number | null;
   tokens_used: number | null;
+  /** Template the summary was split into (null when no sections were found) */
+  note_template?: string | null;
+  sections?: Record<string, string> | null;
+  /** Timestamps of the first and last summarized message */
+  period_from?: string | null;
+  period_to?: string | null;
+  message_count?: number;
+}
+
+export interface NoteResponse {
+  success: boolean;
+  /** Stored content (rendered markdown for structured notes) */
+  content: string;
+  /** Normalized tags (null when the edit kept the current tags) */
+  tags?: string[] | null;
+}
+
+export interface ScheduledMessageResponse {
+  success: boolean;
+  scheduled_message: ScheduledMessage;
+}
+
+export interface SendDraftOptions {
+  content?: string;
+  /** Every candidate generated for this reply */
+  candidateIds?: number[];
+  /** Candidates paragraphs were copied from */
+  pickedFrom?: number[];
+}
+
+export interface TemplateResponse {
+  success: boolean;
+  template: MessageTemplate;
+}
+
+/** Optional filters of the cross-patient message search */
+export interface SearchMessagesFilters {
+  groupId?: number | string | null;
+  senderType?: SenderType;
+  /** Inclusive dates, YYYY-MM-DD */
+  dateFrom?: string;
+  dateTo?: string;
 }
 
 // ---------------------------------------------------------------------------
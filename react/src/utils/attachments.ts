@@ -0,0 +1,79 @@
+/**
+ * Message Attachments
+ * ====================
+ *
+ * Client-side rules for files attached to chat messages. They mirror the
+ * server limits in TherapyLookups.php (THERAPY_MAX_ATTACHMENT_SIZE,
+ * THERAPY_MAX_ATTACHMENTS_PER_MESSAGE, THERAPY_ATTACHMENT_MIME_TYPES) so
+ * most mistakes are caught before uploading; the server re-checks every
+ * file and detects the type from its content.
+ */
+
+import type { MessageAttachment } from '../types';
+
+/** Maximum size of one file in bytes (10 MB) */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/** Maximum number of files per message */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+/** Accepted MIME types (images and PDF) */
+export const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+/** `accept` attribute for file inputs */
+export const ATTACHMENT_ACCEPT = ATTACHMENT_MIME_TYPES.join(',');
+
+/** Human-readable file size, e.g. "1.4 MB" */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImageAttachment(attachment: Pick<MessageAttachment, 'mime_type'>): boolean {
+  return attachment.mime_type.startsWith('image/');
+}
+
+/**
+ * Split picked / dropped files into those that can be attached and error
+ * messages for the rest. `existingCount` files are already selected.
+ */
+export function validateAttachmentFiles(files: File[], existingCount = 0): { accepted: File[]; errors: string[] } {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+      errors.push(`${file.name}: only images (JPEG, PNG, GIF, WebP) and PDF files can be attached`);
+    } else if (file.size > MAX_ATTACHMENT_SIZE) {
+      errors.push(`${file.name} is too large (max ${formatFileSize(MAX_ATTACHMENT_SIZE)})`);
+    } else if (existingCount + accepted.length >= MAX_ATTACHMENTS_PER_MESSAGE) {
+      errors.push(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} files can be attached to one message`);
+      break;
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, errors };
+}
+
+/**
+ * Attachment entries for an optimistic message. Images get an object URL
+ * for their preview; release it with `revokeLocalAttachments`.
+ */
+export function createLocalAttachments(files: File[]): MessageAttachment[] {
+  return files.map((file, i) => ({
+    id: `local-${Date.now()}-${i}`,
+    file_name: file.name,
+    mime_type: file.type,
+    file_size: file.size,
+    preview_url: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+  }));
+}
+
+export function revokeLocalAttachments(attachments: MessageAttachment[] | undefined): void {
+  for (const a of attachments ?? []) {
+    if (a.preview_url) URL.revokeObjectURL(a.preview_url);
+  }
+}
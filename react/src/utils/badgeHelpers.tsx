@@ -2,7 +2,7 @@
  * Badge Helper Components
  * ========================
  *
- * Shared risk-level and AI-mode badge rendering used by
+ * Shared risk-level, AI-mode and alert badge rendering used by
  * PatientList, ConversationHeader, and other therapist components.
  *
  * NOTE: StatusBadge was removed — the "status" concept (active/paused)
@@ -10,7 +10,7 @@
  */
 
 import React from 'react';
-import type { RiskLevel, TherapistDashboardLabels } from '../types';
+import type { AlertSeverity, AlertStatus, RiskLevel, TherapistDashboardLabels } from '../types';
 
 const RISK_CLASSES: Record<RiskLevel, string> = {
   low: 'badge-success',
@@ -19,6 +19,20 @@ const RISK_CLASSES: Record<RiskLevel, string> = {
   critical: 'badge-danger',
 };
 
+const SEVERITY_CLASSES: Record<AlertSeverity, string> = {
+  info: 'badge-info',
+  warning: 'badge-warning',
+  critical: 'badge-danger',
+  emergency: 'badge-danger',
+};
+
+const ALERT_STATUS_CLASSES: Record<AlertStatus, string> = {
+  new: 'badge-primary',
+  acknowledged: 'badge-secondary',
+  in_progress: 'badge-warning',
+  resolved: 'badge-success',
+};
+
 function labelFor(labels: TherapistDashboardLabels, prefix: string, key: string): string {
   const prop = `${prefix}${key.charAt(0).toUpperCase()}${key.slice(1)}` as keyof TherapistDashboardLabels;
   const val = labels[prop];
@@ -48,3 +62,20 @@ export function AiModeBadge({ aiEnabled, labels }: { aiEnabled: boolean; labels:
     </span>
   );
 }
+
+export function AlertSeverityBadge({ severity, label }: { severity: AlertSeverity; label?: string }): React.ReactElement {
+  return (
+    <span className={`badge ${SEVERITY_CLASSES[severity] ?? 'badge-secondary'}`}>
+      {severity === 'emergency' && <i className="fas fa-exclamation-triangle mr-1" />}
+      {label || severity}
+    </span>
+  );
+}
+
+export function AlertStatusBadge({ status, label }: { status: AlertStatus; label?: string }): React.ReactElement {
+  return (
+    <span className={`badge ${ALERT_STATUS_CLASSES[status] ?? 'badge-secondary'}`}>
+      {label || status}
+    </span>
+  );
+}
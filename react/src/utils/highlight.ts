@@ -0,0 +1,98 @@
+/**
+ * Search Highlight Utilities
+ * ==========================
+ *
+ * Case-insensitive term matching shared by plain-text bubbles
+ * (HighlightedText) and markdown-rendered messages (rehypeHighlight).
+ */
+
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Global, case-insensitive regex for the query (null for an empty query) */
+export function buildSearchRegex(query: string): RegExp | null {
+  const q = query.trim();
+  return q ? new RegExp(escapeRegExp(q), 'gi') : null;
+}
+
+/** True when `text` contains the query (case-insensitive) */
+export function containsQuery(text: string, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  return !!q && text.toLowerCase().includes(q);
+}
+
+/** Split text into alternating non-matching / matching parts */
+export function splitByQuery(text: string, query: string): TextPart[] {
+  const re = buildSearchRegex(query);
+  if (!re) return [{ text, match: false }];
+
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const m of text.matchAll(re)) {
+    const start = m.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: m[0], match: true });
+    last = start + m[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// rehype plugin (markdown messages)
+// ---------------------------------------------------------------------------
+
+/** Minimal hast shapes – only what the plugin touches */
+interface HastText {
+  type: 'text';
+  value: string;
+}
+interface HastParent {
+  type: string;
+  tagName?: string;
+  children?: HastNode[];
+}
+type HastNode = HastText | HastParent;
+
+/** Tags whose text is never highlighted */
+const SKIP_TAGS = new Set(['mark', 'script', 'style']);
+
+function highlightChildren(node: HastParent, query: string): void {
+  if (!node.children || (node.tagName && SKIP_TAGS.has(node.tagName))) return;
+
+  const next: HastNode[] = [];
+  for (const child of node.children) {
+    if (child.type === 'text') {
+      for (const part of splitByQuery((child as HastText).value, query)) {
+        next.push(part.match
+          ? {
+              type: 'element',
+              tagName: 'mark',
+              properties: { className: ['tc-search-hit'] },
+              children: [{ type: 'text', value: part.text }],
+            } as HastParent
+          : { type: 'text', value: part.text });
+      }
+    } else {
+      highlightChildren(child as HastParent, query);
+      next.push(child);
+    }
+  }
+  node.children = next;
+}
+
+/**
+ * rehype plugin that wraps query matches in `<mark class="tc-search-hit">`.
+ * Runs on the HTML tree, so markdown syntax never produces false matches.
+ */
+export function rehypeHighlight(query: string) {
+  return () => (tree: HastParent) => {
+    if (query.trim()) highlightChildren(tree, query);
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToHtml, htmlToMarkdown } from './markdown';
+
+/** Render markdown into a detached element, as the draft editor does */
+function render(markdown: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = markdownToHtml(markdown);
+  return root;
+}
+
+function roundTrip(markdown: string): string {
+  return htmlToMarkdown(render(markdown));
+}
+
+describe('markdown round trip', () => {
+  it.each([
+    ['paragraphs', 'First paragraph.\n\nSecond paragraph.'],
+    ['line breaks', 'One line\nNext line'],
+    ['headings', '# Title\n\n## Section\n\n### Subsection\n\nText'],
+    ['bullet lists', '- one\n- two\n- three'],
+    ['numbered lists', '1. first\n2. second'],
+    ['numbered lists with a start', '3. third\n4. fourth'],
+    ['nested lists', '- outer\n  - inner\n  - inner two\n- outer two'],
+    ['bold and italic', 'Some **bold**, *italic* and ***both***.'],
+    ['underline', 'Please <u>read this</u> first.'],
+    ['links', 'See [the guide](https://example.org/guide_(2)) or [mail](mailto:care@example.org).'],
+    ['inline code', 'Run `npm test` now.'],
+    ['horizontal rules', 'Above\n\n---\n\nBelow'],
+    ['escaped characters', 'Not \\*bold\\*, not \\[a link\\] and 5 \\* 3.'],
+    ['escaped line starts', '\\# not a heading\n\n\\- not a list\n\n1\\. not numbered'],
+    ['escaped underline tags', 'Literal \\<u>tag\\</u> text'],
+  ])('keeps %s', (_, markdown) => {
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('normalizes list markers and emphasis markers', () => {
+    expect(roundTrip('* one\n+ two')).toBe('- one\n- two');
+    expect(roundTrip('__bold__ and _italic_')).toBe('**bold** and *italic*');
+  });
+
+  it('is stable after the first round trip', () => {
+    const once = roundTrip('1) first\n2) second\n\n__Bold__ text');
+    expect(roundTrip(once)).toBe(once);
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('renders headings one level below the modal title', () => {
+    expect(markdownToHtml('# Title')).toBe('<h3>Title</h3>');
+  });
+
+  it('escapes HTML', () => {
+    expect(markdownToHtml('<script>alert("x")</script> & more')).toBe(
+      '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; more</p>',
+    );
+  });
+
+  it('drops links that are not web or mail addresses', () => {
+    expect(markdownToHtml('[click](javascript:alert(1))')).toBe('<p>[click](javascript:alert(1))</p>');
+  });
+
+  it('does not format inside inline code', () => {
+    expect(markdownToHtml('`**not bold**`')).toBe('<p><code>**not bold**</code></p>');
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('serializes editor formatting', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<p><b>bold</b> <i>italic</i> <u>under</u> <span style="font-weight: bold">styled</span></p>';
+    expect(htmlToMarkdown(root)).toBe('**bold** *italic* <u>under</u> **styled**');
+  });
+
+  it('escapes typed markdown characters', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<p># 1. *star* [x] _under_</p>';
+    expect(htmlToMarkdown(root)).toBe('\\# 1. \\*star\\* \\[x\\] \\_under\\_');
+  });
+
+  it('keeps only the text of unsafe links', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<p><a href="javascript:alert(1)">label</a></p>';
+    expect(htmlToMarkdown(root)).toBe('label');
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Markdown ⇄ HTML for the Draft Editor
+ * ====================================
+ *
+ * The AI draft editor edits rendered HTML (contentEditable) while drafts
+ * are stored and sent as markdown. `markdownToHtml` renders the subset the
+ * editor toolbar produces – paragraphs, headings, bullet and numbered lists
+ * (nested), bold, italic, underline, inline code, links and horizontal
+ * rules – and `htmlToMarkdown` serializes the edited DOM back to markdown,
+ * so formatting survives editing. Markdown has no underline, so it is kept
+ * as inline `<u>…</u>` HTML, which the chat's MarkdownRenderer renders.
+ * Other markdown (tables, quotes) is kept as plain text.
+ *
+ * Round trip: `htmlToMarkdown(markdownToHtml(md))` equals `md` up to
+ * whitespace, list markers (`-`, renumbered `1.`), emphasis markers
+ * (`**` / `*`) and backslash escapes.
+ */
+
+/** ASCII punctuation that can be backslash-escaped (CommonMark) */
+const ESCAPABLE = '!"#$%&\'()*+,\\-./:;<=>?@[\\\\\\]^_`{|}~';
+
+const ESCAPE_OR_CODE = new RegExp(`\\\\([${ESCAPABLE}])|\`([^\`\\n]+)\``, 'g');
+const HR = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+/** [label](url) – the URL may contain balanced parentheses */
+const LINK = /\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+const LINK_URL = /^(?:[^()\s]|\([^()\s]*\))+$/;
+/** <u>…</u> – the only inline HTML the editor writes */
+const UNDERLINE = /<u>(.+?)<\/u>/g;
+
+/** Markdown heading level ↔ editor heading tag (# is rendered as h3) */
+const HEADING_TAG_OFFSET = 2;
+
+/** Placeholder for HTML that later inline rules must not touch */
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Only web and mail links are kept */
+function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown → HTML
+// ---------------------------------------------------------------------------
+
+/** Render one line of inline markdown */
+function renderInline(text: string): string {
+  const tokens: string[] = [];
+  const protect = (html: string) => `\u0000${tokens.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/\u0000/g, '')
+    .replace(ESCAPE_OR_CODE, (_, escaped: string | undefined, code: string | undefined) =>
+      protect(escaped !== undefined ? escapeHtml(escaped) : `<code>${escapeHtml(code ?? '')}</code>`))
+    .replace(LINK, (match, label: string, url: string) => {
+      const href = url.replace(PLACEHOLDER, (_, i: string) => tokens[Number(i)]);
+      if (!isSafeUrl(href)) return match;
+      return `${protect(`<a href="${escapeHtml(href)}">`)}${label}${protect('</a>')}`;
+    })
+    .replace(UNDERLINE, (_, inner: string) => `${protect('<u>')}${inner}${protect('</u>')}`);
+
+  html = escapeHtml(html)
+    .replace(/\*\*\*(\S(?:.*?\S)?)\*\*\*/g, '<strong><em>$1</em></strong>')
+    .replace(/\*\*(\S(?:.*?\S)?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(?<!\w)__(\S(?:.*?\S)?)__(?!\w)/g, '<strong>$1</strong>')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '<em>$1</em>')
+    .replace(/(?<!\w)_(\S(?:.*?\S)?)_(?!\w)/g, '<em>$1</em>');
+
+  // Protected HTML may itself contain placeholders (escapes inside links)
+  while (html.includes('\u0000')) {
+    html = html.replace(PLACEHOLDER, (_, i: string) => tokens[Number(i)]);
+  }
+  return html;
+}
+
+function isListType(match: RegExpExecArray, ordered: boolean): boolean {
+  return /\d/.test(match[2]) === ordered;
+}
+
+/** Render the list starting at `start`; nested lists are more indented */
+function renderList(lines: string[], start: number): { html: string; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM.exec(lines[i]);
+    if (!item || item[1].length !== indent || !isListType(item, ordered)) break;
+
+    const content = [item[3]];
+    let nested = '';
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line only continues the list if more items follow
+        let j = i + 1;
+        while (j < lines.length && !lines[j].trim()) j++;
+        const following = j < lines.length ? LIST_ITEM.exec(lines[j]) : null;
+        if (!following || following[1].length < indent) break;
+        if (following[1].length === indent && !isListType(following, ordered)) break;
+        i = j;
+        continue;
+      }
+      const sub = LIST_ITEM.exec(line);
+      if (sub) {
+        if (sub[1].length <= indent) break;
+        const list = renderList(lines, i);
+        nested += list.html;
+        i = list.next;
+        continue;
+      }
+      if (HEADING.test(line) || HR.test(line)) break;
+      content.push(line.trim());
+      i++;
+    }
+    items.push(`<li>${content.map(renderInline).join('<br/>')}${nested}</li>`);
+    // Stop at the blank line that ends this list
+    if (i < lines.length && !lines[i].trim()) break;
+  }
+
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttr = startNumber !== 1 ? ` start="${startNumber}"` : '';
+  return { html: `<${tag}${startAttr}>${items.join('')}</${tag}>`, next: i };
+}
+
+/** Render draft markdown as HTML for the contentEditable editor */
+export function markdownToHtml(markdown: string): string {
+  if (!markdown) return '';
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/^[ \t]+/, (indent) => indent.replace(/\t/g, '    ')));
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    if (HR.test(line)) {
+      blocks.push('<hr/>');
+      i++;
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const tag = `h${Math.min(heading[1].length + HEADING_TAG_OFFSET, 6)}`;
+      blocks.push(`<${tag}>${renderInline(heading[2].trim())}</${tag}>`);
+      i++;
+      continue;
+    }
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i);
+      blocks.push(list.html);
+      i = list.next;
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim()
+      && !HR.test(lines[i]) && !HEADING.test(lines[i]) && !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(`<p>${paragraph.map(renderInline).join('<br/>')}</p>`);
+  }
+
+  return blocks.join('');
+}
+
+// ---------------------------------------------------------------------------
+// HTML → Markdown
+// ---------------------------------------------------------------------------
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI',
+  'HR', 'BLOCKQUOTE', 'PRE', 'TABLE', 'SECTION', 'ARTICLE',
+]);
+
+interface InlineContext {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === Node.ELEMENT_NODE;
+}
+
+function isBlock(node: Node): boolean {
+  return isElement(node) && BLOCK_TAGS.has(node.tagName);
+}
+
+function isList(node: Node): node is HTMLUListElement | HTMLOListElement {
+  return isElement(node) && (node.tagName === 'UL' || node.tagName === 'OL');
+}
+
+/** Escape characters that would otherwise be read as inline markdown */
+function escapeText(text: string): string {
+  return text
+    .replace(new RegExp(`\\\\(?=[${ESCAPABLE}])|[*\`[\\]]`, 'g'), '\\$&')
+    .replace(/(^|\W)_|_(?=\W|$)/g, (match) => match.replace('_', '\\_'))
+    .replace(/<(?=\/?u>)/g, '\\<');
+}
+
+/** Escape a line start that would otherwise begin a heading, list or rule */
+function escapeLineStart(line: string): string {
+  if (HR.test(line)) return line.replace(/^(\s*)/, '$1\\');
+  return line
+    .replace(/^(\s*)(#{1,6}|[+-])(?=\s|$)/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+/** Wrap every non-empty line in an emphasis marker, keeping outer spaces outside */
+function emphasize(text: string, marker: string, closing = marker): string {
+  return text
+    .split('\n')
+    .map((line) => {
+      const [, before, inner, after] = /^(\s*)(.*?)(\s*)$/.exec(line)!;
+      return inner ? `${before}${marker}${inner}${closing}${after}` : line;
+    })
+    .join('\n');
+}
+
+function serializeInline(nodes: ArrayLike<Node>, context: InlineContext): string {
+  return Array.from(nodes).map((node) => serializeInlineNode(node, context)).join('');
+}
+
+function serializeInlineNode(node: Node, context: InlineContext): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeText((node.textContent ?? '').replace(/\u00a0/g, ' ').replace(/\s*\n\s*/g, ' '));
+  }
+  if (!isElement(node)) return '';
+
+  const tag = node.tagName;
+  if (tag === 'BR') return '\n';
+  if (tag === 'HR') return '\n';
+  if (isBlock(node)) return `\n${serializeInline(node.childNodes, context)}\n`;
+
+  if (tag === 'CODE') {
+    const code = node.textContent ?? '';
+    return code && !code.includes('`') && !code.includes('\n') ? `\`${code}\`` : escapeText(code);
+  }
+  if (tag === 'A') {
+    const href = node.getAttribute('href') ?? '';
+    const label = serializeInline(node.childNodes, context).trim();
+    if (!isSafeUrl(href)) return label;
+    let url = href.replace(/\s/g, encodeURIComponent);
+    if (!LINK_URL.test(url)) url = url.replace(/[()]/g, encodeURIComponent);
+    return `[${label || escapeText(href)}](${url})`;
+  }
+
+  const weight = node.style.fontWeight;
+  const bold = tag === 'B' || tag === 'STRONG' || weight === 'bold' || Number(weight) >= 600;
+  const italic = tag === 'I' || tag === 'EM' || node.style.fontStyle === 'italic';
+  const underline = tag === 'U' || node.style.textDecorationLine === 'underline'
+    || node.style.textDecoration === 'underline';
+  const inner = serializeInline(node.childNodes, {
+    bold: context.bold || bold,
+    italic: context.italic || italic,
+    underline: context.underline || underline,
+  });
+
+  let text = inner;
+  if (underline && !context.underline) text = emphasize(text, '<u>', '</u>');
+  if (italic && !context.italic) text = emphasize(text, '*');
+  if (bold && !context.bold) text = emphasize(text, '**');
+  return text;
+}
+
+/** Inline content as markdown lines (one block) */
+function serializeLines(nodes: ArrayLike<Node>, escapeStarts = true): string[] {
+  const lines = serializeInline(nodes, { bold: false, italic: false, underline: false })
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return escapeStarts ? lines.map(escapeLineStart) : lines;
+}
+
+function serializeList(list: HTMLElement, indent: string): string {
+  const ordered = list.tagName === 'OL';
+  let number = ordered ? parseInt(list.getAttribute('start') ?? '', 10) || 1 : 0;
+  const lines: string[] = [];
+
+  Array.from(list.childNodes).forEach((child) => {
+    // Some browsers nest an indented list directly in the parent list
+    if (isList(child)) {
+      lines.push(serializeList(child, `${indent}  `));
+      return;
+    }
+    if (!isElement(child) || child.tagName !== 'LI') return;
+
+    const marker = ordered ? `${number}.` : '-';
+    const pad = indent + ' '.repeat(marker.length + 1);
+    const nested = Array.from(child.childNodes).filter(isList);
+    const text = serializeLines(Array.from(child.childNodes).filter((n) => !isList(n)));
+    if (text.length === 0 && nested.length === 0) return;
+
+    lines.push(`${indent}${marker} ${text[0] ?? ''}`);
+    text.slice(1).forEach((line) => lines.push(pad + line));
+    nested.forEach((sub) => lines.push(serializeList(sub, pad)));
+    if (ordered) number++;
+  });
+
+  return lines.join('\n');
+}
+
+function serializeBlocks(nodes: ArrayLike<Node>): string[] {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+
+  const flushInline = () => {
+    const lines = serializeLines(inline);
+    if (lines.length > 0) blocks.push(lines.join('\n'));
+    inline = [];
+  };
+
+  Array.from(nodes).forEach((node) => {
+    if (!isBlock(node)) {
+      inline.push(node);
+      return;
+    }
+    flushInline();
+    const element = node as HTMLElement;
+    const tag = element.tagName;
+
+    if (/^H[1-6]$/.test(tag)) {
+      const level = Math.max(Number(tag[1]) - HEADING_TAG_OFFSET, 1);
+      const text = serializeLines(element.childNodes, false).join(' ');
+      if (text) blocks.push(`${'#'.repeat(level)} ${text}`);
+    } else if (isList(element)) {
+      const list = serializeList(element, '');
+      if (list) blocks.push(list);
+    } else if (tag === 'HR') {
+      blocks.push('---');
+    } else if (Array.from(element.childNodes).some(isBlock)) {
+      blocks.push(...serializeBlocks(element.childNodes));
+    } else {
+      inline = Array.from(element.childNodes);
+      flushInline();
+    }
+  });
+  flushInline();
+
+  return blocks;
+}
+
+/** Serialize the edited draft (contentEditable DOM) back to markdown */
+export function htmlToMarkdown(root: Node): string {
+  return serializeBlocks(root.childNodes).join('\n\n');
+}
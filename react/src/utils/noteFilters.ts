@@ -0,0 +1,66 @@
+/**
+ * Note Filters
+ * =============
+ *
+ * Ordering, tag normalization and filtering of clinical notes in the
+ * NotesPanel. Pinned notes are always listed first.
+ */
+
+import type { Note, NoteType } from '../types';
+
+/** Mirrors THERAPY_NOTE_MAX_TAGS / THERAPY_NOTE_TAG_MAX_LENGTH */
+export const NOTE_MAX_TAGS = 10;
+export const NOTE_TAG_MAX_LENGTH = 40;
+
+export interface NoteFilter {
+  tag: string | null;
+  author: string | null;
+  type: NoteType | null;
+}
+
+export const EMPTY_NOTE_FILTER: NoteFilter = { tag: null, author: null, type: null };
+
+/** Same normalization as the server: trimmed, single spaces, lowercase */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** Pinned notes first, otherwise the order is kept (newest first from the server) */
+export function sortNotes(notes: Note[]): Note[] {
+  return [...notes.filter((n) => n.pinned), ...notes.filter((n) => !n.pinned)];
+}
+
+export function isNoteFilterActive(filter: NoteFilter): boolean {
+  return filter.tag !== null || filter.author !== null || filter.type !== null;
+}
+
+export function filterNotes(notes: Note[], filter: NoteFilter): Note[] {
+  return notes.filter((n) =>
+    (filter.tag === null || (n.tags ?? []).includes(filter.tag))
+    && (filter.author === null || n.author_name === filter.author)
+    && (filter.type === null || n.note_type === filter.type),
+  );
+}
+
+export interface NoteFilterOptions {
+  tags: string[];
+  authors: string[];
+  types: { value: NoteType; label: string }[];
+}
+
+/** Tags, authors and note types that occur in the notes */
+export function noteFilterOptions(notes: Note[]): NoteFilterOptions {
+  const tags = new Set<string>();
+  const authors = new Set<string>();
+  const types = new Map<NoteType, string>();
+  notes.forEach((n) => {
+    (n.tags ?? []).forEach((t) => tags.add(t));
+    if (n.author_name) authors.add(n.author_name);
+    if (n.note_type) types.set(n.note_type, n.note_type_label || n.note_type);
+  });
+  return {
+    tags: [...tags].sort(),
+    authors: [...authors].sort(),
+    types: [...types].map(([value, label]) => ({ value, label })),
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Note Templates
+ * ===============
+ *
+ * Helpers for structured clinical notes (SOAP, DAP, risk assessment).
+ * Template definitions come from the dashboard config.
+ */
+
+import type { NoteTemplate } from '../types';
+
+/** Look up a template by key */
+export function findNoteTemplate(templates: NoteTemplate[], key?: string | null): NoteTemplate | undefined {
+  return key ? templates.find((t) => t.key === key) : undefined;
+}
+
+/** Section texts with every section of the template present */
+export function emptySections(template: NoteTemplate, prefill?: Record<string, string> | null): Record<string, string> {
+  return Object.fromEntries(template.sections.map((s) => [s.key, prefill?.[s.key] ?? '']));
+}
+
+/** True if at least one section has text */
+export function hasSectionText(sections: Record<string, string>): boolean {
+  return Object.values(sections).some((text) => text.trim() !== '');
+}
@@ -0,0 +1,141 @@
+/**
+ * Desktop Notifications
+ * =====================
+ *
+ * Opt-in browser notifications and sound cues for new alerts on the
+ * therapist dashboard. Settings are per browser (the notification
+ * permission is too), so they live in localStorage keyed by user and
+ * dashboard section.
+ */
+
+import type { Alert, AlertSeverity } from '../types';
+
+export interface NotificationSettings {
+  /** Show Web Notifications for new alerts while the tab is not focused */
+  enabled: boolean;
+  /** Severities that trigger a notification */
+  severities: Record<AlertSeverity, boolean>;
+  /** Play a sound cue for new emergency and critical alerts */
+  sound: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  severities: { emergency: true, critical: true, warning: true, info: false },
+  sound: false,
+};
+
+/** Severities that have a sound cue */
+export const SOUND_SEVERITIES: AlertSeverity[] = ['emergency', 'critical'];
+
+function storageKey(userId: number, sectionId: number): string {
+  return `therapy_chat_notifications_${userId}_${sectionId}`;
+}
+
+/** Read the stored settings, falling back to the defaults */
+export function loadNotificationSettings(userId: number, sectionId: number): NotificationSettings {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId, sectionId));
+    if (!raw) return DEFAULT_NOTIFICATION_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<NotificationSettings>;
+    return {
+      enabled: !!stored.enabled,
+      severities: { ...DEFAULT_NOTIFICATION_SETTINGS.severities, ...stored.severities },
+      sound: !!stored.sound,
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(userId: number, sectionId: number, settings: NotificationSettings): void {
+  try {
+    window.localStorage.setItem(storageKey(userId, sectionId), JSON.stringify(settings));
+  } catch {
+    /* settings only last for this page view */
+  }
+}
+
+/** Whether the browser supports Web Notifications */
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/** Current notification permission ('unsupported' without the Notification API) */
+export function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return notificationsSupported() ? Notification.permission : 'unsupported';
+}
+
+/** Ask for the notification permission (must run from a user gesture) */
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/** Prefix the page title with the unread count, e.g. "(3) Dashboard" */
+export function formatTabTitle(baseTitle: string, unread: number): string {
+  if (unread <= 0) return baseTitle;
+  return `(${unread > 99 ? '99+' : unread}) ${baseTitle}`;
+}
+
+/** Notification title and body of an alert */
+export function describeAlertNotification(alert: Alert): { title: string; body: string } {
+  const severity = alert.severity_label || alert.severity;
+  const patient = alert.subject_name || alert.conversation_title || 'Patient';
+  return {
+    title: `${severity.charAt(0).toUpperCase()}${severity.slice(1)} alert: ${patient}`,
+    body: alert.message,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sound cues
+// ---------------------------------------------------------------------------
+
+/** Tones (Hz) per severity: emergency repeats a high two-tone, critical plays once */
+const SOUND_PATTERNS: Partial<Record<AlertSeverity, number[]>> = {
+  emergency: [880, 660, 880, 660],
+  critical: [660, 880],
+};
+const TONE_SECONDS = 0.18;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Create (or resume) the shared AudioContext. Browsers only allow audio
+ * after a user gesture, so this is also called when sound is switched on.
+ */
+export function unlockAlertSound(): AudioContext | null {
+  const Ctor = window.AudioContext
+    || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctor) return null;
+  if (!audioContext) audioContext = new Ctor();
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => { /* stays muted until the next gesture */ });
+  }
+  return audioContext;
+}
+
+/** Play the sound cue of a severity (no-op for severities without one) */
+export function playAlertSound(severity: AlertSeverity): void {
+  const pattern = SOUND_PATTERNS[severity];
+  if (!pattern) return;
+  const ctx = unlockAlertSound();
+  if (!ctx) return;
+
+  const start = ctx.currentTime;
+  pattern.forEach((frequency, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const at = start + i * TONE_SECONDS;
+    osc.type = 'sine';
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.3, at + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + TONE_SECONDS - 0.01);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(at);
+    osc.stop(at + TONE_SECONDS);
+  });
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createOutbox } from './outbox';
+import type { OutboxEntry } from './outbox';
+
+function entry(clientId: string, content = 'Hello'): OutboxEntry {
+  return { clientId, conversationId: 7, content, createdAt: '2026-01-01T10:00:00Z', status: 'pending' };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+describe('createOutbox', () => {
+  it('persists entries in localStorage', () => {
+    createOutbox(1, 2).add(entry('a'));
+    expect(createOutbox(1, 2).list(7)).toEqual([entry('a')]);
+  });
+
+  it('keeps entries in memory when localStorage cannot be written', () => {
+    const outbox = createOutbox(1, 2);
+    outbox.add(entry('a'));
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    outbox.add(entry('b'));
+    outbox.update('a', { status: 'failed' });
+
+    expect(outbox.list(7)).toEqual([{ ...entry('a'), status: 'failed' }, entry('b')]);
+  });
+
+  it('returns to localStorage once a write succeeds again', () => {
+    const outbox = createOutbox(1, 2);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementationOnce(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    outbox.add(entry('a'));
+    setItem.mockRestore();
+
+    outbox.add(entry('b'));
+    expect(createOutbox(1, 2).list()).toEqual([entry('a'), entry('b')]);
+  });
+});
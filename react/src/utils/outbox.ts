@@ -0,0 +1,93 @@
+/**
+ * Message Outbox
+ * ===============
+ *
+ * Persists unsent patient messages in localStorage so they survive failed
+ * requests, reloads and lost connections. Entries are removed as soon as
+ * the server confirms the message.
+ *
+ * Each entry carries a `clientId` that is sent along with the message;
+ * the server uses it to drop duplicates when a retried request had in fact
+ * already been stored.
+ */
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  clientId: string;
+  conversationId: number | string;
+  content: string;
+  createdAt: string;
+  status: OutboxStatus;
+  lastError?: string;
+}
+
+export interface Outbox {
+  list: (conversationId?: number | string) => OutboxEntry[];
+  add: (entry: OutboxEntry) => void;
+  update: (clientId: string, changes: Partial<OutboxEntry>) => void;
+  remove: (clientId: string) => void;
+}
+
+/** Generate a unique client-side message ID */
+export function createClientId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Create an outbox bound to one user and chat section.
+ * Falls back to an in-memory store when localStorage is unavailable
+ * (private mode, storage quota, disabled cookies). After a failed write the
+ * stored copy is stale, so reads come from memory until a write succeeds.
+ */
+export function createOutbox(userId: number, sectionId?: number): Outbox {
+  const key = `therapy_chat_outbox_${userId}_${sectionId ?? 0}`;
+  let memory: OutboxEntry[] = [];
+  let storageFailed = false;
+
+  const read = (): OutboxEntry[] => {
+    if (storageFailed) return memory;
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+    } catch {
+      return memory;
+    }
+  };
+
+  const write = (entries: OutboxEntry[]) => {
+    memory = entries;
+    try {
+      if (entries.length) {
+        window.localStorage.setItem(key, JSON.stringify(entries));
+      } else {
+        window.localStorage.removeItem(key);
+      }
+      storageFailed = false;
+    } catch {
+      /* keep in memory only */
+      storageFailed = true;
+    }
+  };
+
+  return {
+    list(conversationId) {
+      const entries = read();
+      return conversationId == null
+        ? entries
+        : entries.filter((e) => String(e.conversationId) === String(conversationId));
+    },
+    add(entry) {
+      write([...read().filter((e) => e.clientId !== entry.clientId), entry]);
+    },
+    update(clientId, changes) {
+      write(read().map((e) => (e.clientId === clientId ? { ...e, ...changes } : e)));
+    },
+    remove(clientId) {
+      write(read().filter((e) => e.clientId !== clientId));
+    },
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Real-time Transports
+ * =====================
+ *
+ * Pluggable transports that deliver dashboard change events
+ * (message / alert / unread / conversation / receipt / typing). All transports share one
+ * interface so the dashboard does not care where events come from:
+ *
+ *   - WebSocket: external gateway relaying JSON `{ type, data }` frames
+ *   - SSE:       built-in `?action=stream_events` endpoint
+ *   - Polling:   two-phase `check_updates` polling (always available)
+ *
+ * A transport reports `onFail` when it cannot be used (unsupported,
+ * refused, or repeatedly dropped); useRealtimeUpdates then moves on to
+ * the next transport in the chain.
+ */
+
+import type {
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeSnapshot,
+  RealtimeTransportKind,
+} from '../types';
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface RealtimeHandlers {
+  /** A change event arrived */
+  onEvent: (event: RealtimeEvent) => void;
+  /** Connected (or re-connected) — events may have been missed, resync state */
+  onOpen: () => void;
+  /** Transport is unusable; the caller should fall back */
+  onFail: (reason: string) => void;
+}
+
+export interface RealtimeTransport {
+  readonly kind: RealtimeTransportKind;
+  start: (handlers: RealtimeHandlers) => void;
+  stop: () => void;
+}
+
+const EVENT_TYPES: RealtimeEventType[] = ['message', 'alert', 'unread', 'conversation', 'receipt', 'typing'];
+
+/** Consecutive connection errors before a push transport gives up */
+const MAX_CONSECUTIVE_ERRORS = 3;
+
+/** No frame (event or ping) within this window means the stream is stalled */
+const STALL_TIMEOUT_MS = 45000;
+
+// ---------------------------------------------------------------------------
+// Snapshot diffing (same rules as TherapistDashboardModel::getRealtimeEvents)
+// ---------------------------------------------------------------------------
+
+export function diffSnapshots(prev: RealtimeSnapshot, next: RealtimeSnapshot): RealtimeEvent[] {
+  const events: RealtimeEvent[] = [];
+  const emit = (type: RealtimeEventType) => events.push({ type, data: next });
+
+  if (next.latest_message_id !== prev.latest_message_id) emit('message');
+  if (
+    next.latest_alert_id !== prev.latest_alert_id
+    || (next.latest_alert_escalated_at ?? null) !== (prev.latest_alert_escalated_at ?? null)
+    || next.unread_alerts !== prev.unread_alerts
+  ) emit('alert');
+  if (next.unread_messages !== prev.unread_messages || next.unread_alerts !== prev.unread_alerts) emit('unread');
+  if (next.conversations_updated_at !== prev.conversations_updated_at) emit('conversation');
+  if ((next.latest_seen_at ?? null) !== (prev.latest_seen_at ?? null)) emit('receipt');
+  if ((next.typing_conversations ?? []).join() !== (prev.typing_conversations ?? []).join()) emit('typing');
+
+  return events;
+}
+
+function isEventType(type: unknown): type is RealtimeEventType {
+  return typeof type === 'string' && (EVENT_TYPES as string[]).includes(type);
+}
+
+// ---------------------------------------------------------------------------
+// Server-Sent Events
+// ---------------------------------------------------------------------------
+
+export function createSseTransport(url: string): RealtimeTransport {
+  let source: EventSource | null = null;
+  let stallTimer: number | null = null;
+  let errors = 0;
+
+  const clearStall = () => {
+    if (stallTimer !== null) window.clearTimeout(stallTimer);
+    stallTimer = null;
+  };
+
+  const stop = () => {
+    clearStall();
+    source?.close();
+    source = null;
+  };
+
+  return {
+    kind: 'sse',
+    start(handlers) {
+      if (typeof window.EventSource === 'undefined') {
+        handlers.onFail('EventSource not supported');
+        return;
+      }
+
+      const fail = (reason: string) => {
+        stop();
+        handlers.onFail(reason);
+      };
+      // Buffering proxies deliver nothing until the stream closes
+      const armStall = () => {
+        clearStall();
+        stallTimer = window.setTimeout(() => fail('Event stream stalled'), STALL_TIMEOUT_MS);
+      };
+
+      source = new EventSource(url, { withCredentials: true });
+      armStall();
+
+      source.addEventListener('ready', () => {
+        errors = 0;
+        armStall();
+        handlers.onOpen();
+      });
+      source.addEventListener('ping', armStall);
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, (e) => {
+          armStall();
+          try {
+            handlers.onEvent({ type, data: JSON.parse((e as MessageEvent).data) });
+          } catch (err) {
+            console.error('Realtime: invalid SSE payload', err);
+          }
+        });
+      }
+      // The server closes the stream periodically; EventSource reconnects
+      // by itself, so only repeated errors count as failure.
+      source.onerror = () => {
+        errors++;
+        if (errors >= MAX_CONSECUTIVE_ERRORS || source?.readyState === EventSource.CLOSED) {
+          fail('Event stream unavailable');
+        }
+      };
+    },
+    stop,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket
+// ---------------------------------------------------------------------------
+
+export function createWebSocketTransport(url: string): RealtimeTransport {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+  let stopped = false;
+  let errors = 0;
+
+  const stop = () => {
+    stopped = true;
+    if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+    socket = null;
+  };
+
+  return {
+    kind: 'websocket',
+    start(handlers) {
+      if (typeof window.WebSocket === 'undefined') {
+        handlers.onFail('WebSocket not supported');
+        return;
+      }
+      stopped = false;
+
+      const connect = () => {
+        try {
+          socket = new WebSocket(url);
+        } catch (err) {
+          stop();
+          handlers.onFail(err instanceof Error ? err.message : 'Invalid WebSocket URL');
+          return;
+        }
+
+        socket.onopen = () => {
+          errors = 0;
+          handlers.onOpen();
+        };
+        socket.onmessage = (e) => {
+          try {
+            const frame = JSON.parse(String(e.data));
+            if (isEventType(frame?.type)) handlers.onEvent({ type: frame.type, data: frame.data ?? {} });
+          } catch (err) {
+            console.error('Realtime: invalid WebSocket frame', err);
+          }
+        };
+        socket.onclose = () => {
+          if (stopped) return;
+          errors++;
+          if (errors >= MAX_CONSECUTIVE_ERRORS) {
+            stop();
+            handlers.onFail('WebSocket connection lost');
+            return;
+          }
+          // Back off 1s, 2s, 4s ...
+          reconnectTimer = window.setTimeout(connect, 1000 * 2 ** (errors - 1));
+        };
+      };
+
+      connect();
+    },
+    stop,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Two-phase polling (fallback)
+// ---------------------------------------------------------------------------
+
+/**
+ * Polls the lightweight `check_updates` endpoint and derives events from
+ * snapshot changes, so consumers only fetch full data when something changed.
+ */
+export function createPollingTransport(
+  check: () => Promise<RealtimeSnapshot>,
+  interval: number,
+): RealtimeTransport {
+  let timer: number | null = null;
+  let snapshot: RealtimeSnapshot | null = null;
+  /** Bumped by start() and stop(); a check answered for an older run is dropped */
+  let generation = 0;
+
+  const stop = () => {
+    generation++;
+    if (timer !== null) window.clearInterval(timer);
+    timer = null;
+  };
+
+  return {
+    kind: 'polling',
+    start(handlers) {
+      stop();
+      const run = generation;
+      let inFlight = false;
+
+      const tick = async () => {
+        if (inFlight) return;
+        inFlight = true;
+        try {
+          const next = await check();
+          if (run !== generation) return;
+          if (snapshot) diffSnapshots(snapshot, next).forEach(handlers.onEvent);
+          snapshot = next;
+        } catch (err) {
+          if (run === generation) console.error('Polling error:', err);
+        } finally {
+          inFlight = false;
+        }
+      };
+
+      snapshot = null;
+      handlers.onOpen();
+      tick();
+      timer = window.setInterval(tick, Math.max(interval, 1000));
+    },
+    stop,
+  };
+}
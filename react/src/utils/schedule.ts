@@ -0,0 +1,53 @@
+/**
+ * Scheduled Messages
+ * ===================
+ *
+ * Date helpers for "send later" therapist messages. The picker works with
+ * `<input type="datetime-local">` values in the browser's time zone; the
+ * API receives ISO strings and returns ISO send times with an offset.
+ */
+
+/** Hour of day used by the quick presets */
+const PRESET_HOUR = 9;
+
+/** Value for a datetime-local input, e.g. "2026-03-02T09:00" */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Parse a datetime-local input value (local time); null when incomplete */
+export function fromDateTimeInputValue(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Quick choices: tomorrow morning and next Monday morning */
+export function getSchedulePresets(now = new Date()): Array<{ label: string; date: Date }> {
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+  tomorrow.setHours(PRESET_HOUR, 0, 0, 0);
+
+  const monday = new Date(now);
+  monday.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7));
+  monday.setHours(PRESET_HOUR, 0, 0, 0);
+
+  const presets = [{ label: 'Tomorrow 9:00', date: tomorrow }];
+  if (monday.getTime() !== tomorrow.getTime()) {
+    presets.push({ label: 'Monday 9:00', date: monday });
+  }
+  return presets;
+}
+
+/** Short send time for the queue, e.g. "Mon, 02.03., 09:00" */
+export function formatScheduledTime(iso: string): string {
+  return new Date(iso).toLocaleString([], {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
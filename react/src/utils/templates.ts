@@ -0,0 +1,47 @@
+/**
+ * Message Templates
+ * ==================
+ *
+ * Variable substitution for therapist message templates. Templates are
+ * stored with `{variable}` placeholders and resolved in the browser when
+ * inserted, using the open conversation and the current therapist.
+ * Unknown variables and variables without a value are left as typed so the
+ * therapist notices them before sending.
+ */
+
+import type { Conversation, MessageTemplate } from '../types';
+
+/** Supported variables, shown as help in the template manager */
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'patient_name', description: "Patient's name" },
+  { name: 'patient_code', description: "Patient's code" },
+  { name: 'therapist_name', description: 'Your name' },
+];
+
+export interface TemplateContext {
+  conversation?: Conversation | null;
+  therapistName?: string | null;
+}
+
+function variableValues({ conversation, therapistName }: TemplateContext): Record<string, string | null | undefined> {
+  return {
+    patient_name: conversation?.subject_name,
+    patient_code: conversation?.subject_code,
+    therapist_name: therapistName,
+  };
+}
+
+/** Replace `{variable}` placeholders with values from the context */
+export function resolveTemplate(content: string, context: TemplateContext): string {
+  const values = variableValues(context);
+  return content.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] || placeholder);
+}
+
+/** Filter templates by title or content (case-insensitive) */
+export function filterTemplates(templates: MessageTemplate[], query: string): MessageTemplate[] {
+  const lower = query.trim().toLowerCase();
+  if (!lower) return templates;
+  return templates.filter(
+    (t) => t.title.toLowerCase().includes(lower) || t.content.toLowerCase().includes(lower),
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Text Diff Utilities
+ * ===================
+ *
+ * Word-level diff used by audit views (message edit history etc.).
+ * Whitespace is kept as separate tokens so the rendered diff preserves
+ * the original spacing and line breaks.
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/** Above this many LCS cells, fall back to a whole-text replace */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/** Split text into word and whitespace tokens */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((t) => t !== '');
+}
+
+/** Append a segment, merging it with the previous one when the op matches */
+function push(segments: DiffSegment[], op: DiffOp, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Compute a word-level diff between two texts (LCS based).
+ * Returns segments in reading order; deletions precede insertions
+ * at the same position.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  // Trim common prefix / suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if (start > 0) push(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    if (n) push(segments, 'delete', midA.join(''));
+    if (m) push(segments, 'insert', midB.join(''));
+  } else if (n || m) {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push(segments, 'delete', midA[i]);
+        i++;
+      } else {
+        push(segments, 'insert', midB[j]);
+        j++;
+      }
+    }
+    while (i < n) push(segments, 'delete', midA[i++]);
+    while (j < m) push(segments, 'insert', midB[j++]);
+  }
+
+  if (endA < a.length) push(segments, 'equal', a.slice(endA).join(''));
+
+  return segments;
+}
+
+/** True when the diff contains any insertions or deletions */
+export function hasChanges(segments: DiffSegment[]): boolean {
+  return segments.some((s) => s.op !== 'equal');
+}
@@ -2,9 +2,9 @@
  * URL State Helpers
  * ==================
  *
- * Read/write `gid` (group) and `uid` (user/conversation) URL parameters
- * for the therapist dashboard. Uses replaceState so navigation doesn't
- * pollute browser history.
+ * Read/write `gid` (group), `uid` (user/conversation) and `mid` (linked
+ * message) URL parameters for the therapist dashboard. Uses replaceState
+ * so navigation doesn't pollute browser history.
  */
 
 export interface UrlState {
@@ -12,9 +12,11 @@ export interface UrlState {
   gid?: number | string;
   /** User/conversation ID – kept as raw string for padded IDs */
   uid?: number | string;
+  /** Message to scroll to in the conversation (e.g. the one behind an alert) */
+  mid?: number;
 }
 
-/** Read gid/uid from the current URL search params (preserves padded strings) */
+/** Read gid/uid/mid from the current URL search params (preserves padded strings) */
 export function readUrlState(): UrlState {
   if (typeof window === 'undefined') return {};
 
@@ -36,6 +38,9 @@ export function readUrlState(): UrlState {
       state.uid = (!isNaN(uid) && String(uid) === uidStr) ? uid : uidStr;
     }
 
+    const mid = Number(sp.get('mid'));
+    if (mid > 0) state.mid = mid;
+
     return state;
   } catch {
     return {};
@@ -43,7 +48,7 @@ export function readUrlState(): UrlState {
 }
 
 /**
- * Write gid/uid to the URL without creating a history entry.
+ * Write gid/uid/mid to the URL without creating a history entry.
  * Only the keys present in `state` are touched; missing keys are removed.
  */
 export function writeUrlState(state: Partial<UrlState>): void {
@@ -58,6 +63,9 @@ export function writeUrlState(state: Partial<UrlState>): void {
     if (state.uid !== undefined) sp.set('uid', String(state.uid));
     else sp.delete('uid');
 
+    if (state.mid !== undefined) sp.set('mid', String(state.mid));
+    else sp.delete('mid');
+
     const newUrl = `${window.location.pathname}?${sp.toString()}${window.location.hash}`;
     window.history.replaceState(null, '', newUrl);
   } catch {
@@ -5,6 +5,7 @@
  * Builds the React chat component as a UMD bundle for SelfHelp CMS.
  * Includes both TherapyChat (subject) and TherapistDashboard components.
  */
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
@@ -79,4 +80,9 @@ export default defineConfig({
       '@': resolve(__dirname, 'src'),
     },
   },
+
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.ts'],
+  },
 });
@@ -13,9 +13,10 @@ require_once __DIR__ . "/../../constants/TherapyLookups.php";
  * Extracts duplicated logic from TherapyChatController and
  * TherapistDashboardController:
  *   - Section routing check
- *   - JSON response helper with activity logging
+ *   - JSON response and Server-Sent Event helpers
  *   - JSON error/exception handlers for AJAX mode
  *   - Audio upload validation for speech-to-text
+ *   - Attachment upload validation and download streaming
  *
  * @package LLM Therapy Chat Plugin
  */
@@ -86,6 +87,19 @@ abstract class TherapyBaseController extends BaseController
         exit;
     }
 
+    /**
+     * Write one Server-Sent Event and flush it to the client.
+     *
+     * @param string $type Event name
+     * @param mixed $data JSON-encoded as the event data
+     */
+    protected function sendSseEvent($type, $data)
+    {
+        echo "event: " . $type . "\n";
+        echo "data: " . json_encode($data) . "\n\n";
+        flush();
+    }
+
     /* =========================================================================
      * ERROR HANDLERS
      * ========================================================================= */
@@ -124,6 +138,112 @@ abstract class TherapyBaseController extends BaseController
         });
     }
 
+    /* =========================================================================
+     * ATTACHMENTS
+     * ========================================================================= */
+
+    /**
+     * Validate the files uploaded as `attachments[]` with a message.
+     *
+     * Checks:
+     *  1. At most THERAPY_MAX_ATTACHMENTS_PER_MESSAGE files, each without upload error
+     *  2. File size within THERAPY_MAX_ATTACHMENT_SIZE
+     *  3. MIME type detected from the content is in THERAPY_ATTACHMENT_MIME_TYPES
+     *     (the browser-supplied type is ignored)
+     *
+     * Sends a JSON error and terminates on failure.
+     *
+     * @return array [{tmp_name, file_name, mime_type, file_size}] (empty when nothing was uploaded)
+     */
+    protected function validateAttachmentUploads()
+    {
+        if (empty($_FILES['attachments']) || !is_array($_FILES['attachments']['name'])) {
+            return array();
+        }
+
+        $upload = $_FILES['attachments'];
+        $count = count($upload['name']);
+        if ($count > THERAPY_MAX_ATTACHMENTS_PER_MESSAGE) {
+            $this->json(['error' => 'Too many attachments (max ' . THERAPY_MAX_ATTACHMENTS_PER_MESSAGE . ')'], 400);
+        }
+
+        $finfo = new finfo(FILEINFO_MIME_TYPE);
+        $maxMb = (int)(THERAPY_MAX_ATTACHMENT_SIZE / (1024 * 1024));
+        $files = array();
+        for ($i = 0; $i < $count; $i++) {
+            $name = $this->sanitizeFileName($upload['name'][$i]);
+
+            if ($upload['error'][$i] === UPLOAD_ERR_INI_SIZE || $upload['error'][$i] === UPLOAD_ERR_FORM_SIZE
+                || $upload['size'][$i] > THERAPY_MAX_ATTACHMENT_SIZE) {
+                $this->json(['error' => $name . ' is too large (max ' . $maxMb . 'MB)'], 400);
+            }
+            if ($upload['error'][$i] !== UPLOAD_ERR_OK || !is_uploaded_file($upload['tmp_name'][$i])) {
+                $this->json(['error' => 'Upload of ' . $name . ' failed'], 400);
+            }
+
+            $mimeType = $finfo->file($upload['tmp_name'][$i]);
+            if (!in_array($mimeType, THERAPY_ATTACHMENT_MIME_TYPES, true)) {
+                $this->json(['error' => $name . ': unsupported file type. Supported: JPEG, PNG, GIF, WebP, PDF'], 400);
+            }
+
+            $files[] = array(
+                'tmp_name' => $upload['tmp_name'][$i],
+                'file_name' => $name,
+                'mime_type' => $mimeType,
+                'file_size' => (int)$upload['size'][$i]
+            );
+        }
+
+        return $files;
+    }
+
+    /**
+     * Stream a stored attachment and terminate.
+     *
+     * Images and PDFs are shown inline unless $download is set. The type
+     * was verified on upload; nosniff keeps browsers from reinterpreting it.
+     *
+     * @param array $attachment Row from TherapyMessageService::getAttachment()
+     * @param string $path Absolute path of the stored file
+     * @param bool $download Force a download instead of inline display
+     */
+    protected function sendAttachment($attachment, $path, $download = false)
+    {
+        if (!is_file($path)) {
+            $this->json(['error' => 'Attachment not found'], 404);
+        }
+
+        $this->model->get_services()->get_router()->log_user_activity();
+
+        $fileName = $attachment['file_name'];
+        $asciiName = preg_replace('/[^A-Za-z0-9._ -]/', '_', $fileName);
+        header('Content-Type: ' . $attachment['mime_type']);
+        header('Content-Length: ' . filesize($path));
+        header('Content-Disposition: ' . ($download ? 'attachment' : 'inline')
+            . '; filename="' . $asciiName . '"; filename*=UTF-8\'\'' . rawurlencode($fileName));
+        header('X-Content-Type-Options: nosniff');
+        header('Cache-Control: private, max-age=3600');
+        readfile($path);
+
+        if (function_exists('uopz_allow_exit')) {
+            uopz_allow_exit(true);
+        }
+        exit;
+    }
+
+    /**
+     * Display-safe file name: no path, no control characters, max 255 chars.
+     */
+    private function sanitizeFileName($name)
+    {
+        $name = preg_replace('/[\x00-\x1F\x7F]/u', '', basename((string)$name));
+        $name = trim($name);
+        if ($name === '') {
+            $name = 'attachment';
+        }
+        return mb_substr($name, 0, 255);
+    }
+
     /* =========================================================================
      * AUDIO UPLOAD VALIDATION
      * ========================================================================= */
@@ -65,17 +65,21 @@ class TherapistDashboardController extends TherapyBaseController
             case 'edit_message':
             case 'delete_message':
             case 'mark_messages_read':
+            case 'typing':
                 $this->handleMessageAction($action, $data);
                 break;
 
             case 'add_note':
             case 'edit_note':
             case 'delete_note':
+            case 'pin_note':
                 $this->handleNoteAction($action, $data);
                 break;
 
             case 'mark_alert_read':
             case 'mark_all_read':
+            case 'update_alert_status':
+            case 'assign_alert':
                 $this->handleAlertAction($action, $data);
                 break;
 
@@ -86,7 +90,22 @@ class TherapistDashboardController extends TherapyBaseController
                 $this->handleDraftAction($action, $data);
                 break;
 
+            case 'schedule_message':
+            case 'update_scheduled_message':
+            case 'cancel_scheduled_message':
+            case 'get_scheduled_messages':
+                $this->handleScheduledAction($action, $data);
+                break;
+
+            case 'create_template':
+            case 'update_template':
+            case 'delete_template':
+            case 'get_templates':
+                $this->handleTemplateAction($action, $data);
+                break;
+
             case 'toggle_ai':
+            case 'toggle_patient_uploads':
             case 'set_risk':
                 $this->handleControlAction($action, $data);
                 break;
@@ -154,7 +173,14 @@ class TherapistDashboardController extends TherapyBaseController
                 $this->handleGetMessages();
                 break;
 
+            case 'get_message_history':
+            case 'search_messages':
+            case 'get_attachment':
+                $this->handleMessageAction($action, $data);
+                break;
+
             case 'get_alerts':
+            case 'get_alert':
                 $this->handleAlertAction($action, $data);
                 break;
 
@@ -166,6 +192,22 @@ class TherapistDashboardController extends TherapyBaseController
                 $this->handleGetNotes();
                 break;
 
+            case 'get_note_history':
+                $this->handleNoteAction($action, $data);
+                break;
+
+            case 'get_summary_history':
+                $this->handleGetSummaryHistory();
+                break;
+
+            case 'get_scheduled_messages':
+                $this->handleScheduledAction($action, $data);
+                break;
+
+            case 'get_templates':
+                $this->handleTemplateAction($action, $data);
+                break;
+
             case 'get_unread_counts':
             case 'check_updates':
                 $this->handlePollingAction($action, $data);
@@ -178,6 +220,10 @@ class TherapistDashboardController extends TherapyBaseController
             case 'export_csv':
                 $this->handleExportCsv();
                 break;
+
+            case 'stream_events':
+                $this->handleStreamEvents();
+                break;
         }
     }
 
@@ -215,6 +261,18 @@ class TherapistDashboardController extends TherapyBaseController
             case 'mark_messages_read':
                 $this->handleMarkMessagesRead();
                 break;
+            case 'typing':
+                $this->handleTyping();
+                break;
+            case 'get_message_history':
+                $this->handleGetMessageHistory();
+                break;
+            case 'search_messages':
+                $this->handleSearchMessages();
+                break;
+            case 'get_attachment':
+                $this->handleGetAttachment();
+                break;
         }
     }
 
@@ -230,6 +288,12 @@ class TherapistDashboardController extends TherapyBaseController
             case 'delete_note':
                 $this->handleDeleteNote();
                 break;
+            case 'pin_note':
+                $this->handlePinNote();
+                break;
+            case 'get_note_history':
+                $this->handleGetNoteHistory();
+                break;
         }
     }
 
@@ -245,6 +309,15 @@ class TherapistDashboardController extends TherapyBaseController
             case 'mark_all_read':
                 $this->handleMarkAllRead();
                 break;
+            case 'get_alert':
+                $this->handleGetAlert();
+                break;
+            case 'update_alert_status':
+                $this->handleUpdateAlertStatus();
+                break;
+            case 'assign_alert':
+                $this->handleAssignAlert();
+                break;
         }
     }
 
@@ -266,6 +339,42 @@ class TherapistDashboardController extends TherapyBaseController
         }
     }
 
+    private function handleScheduledAction($action, $data)
+    {
+        switch ($action) {
+            case 'schedule_message':
+                $this->handleScheduleMessage();
+                break;
+            case 'update_scheduled_message':
+                $this->handleUpdateScheduledMessage();
+                break;
+            case 'cancel_scheduled_message':
+                $this->handleCancelScheduledMessage();
+                break;
+            case 'get_scheduled_messages':
+                $this->handleGetScheduledMessages();
+                break;
+        }
+    }
+
+    private function handleTemplateAction($action, $data)
+    {
+        switch ($action) {
+            case 'create_template':
+                $this->handleCreateTemplate();
+                break;
+            case 'update_template':
+                $this->handleUpdateTemplate();
+                break;
+            case 'delete_template':
+                $this->handleDeleteTemplate();
+                break;
+            case 'get_templates':
+                $this->handleGetTemplates();
+                break;
+        }
+    }
+
     private function handlePollingAction($action, $data)
     {
         switch ($action) {
@@ -284,6 +393,9 @@ class TherapistDashboardController extends TherapyBaseController
             case 'toggle_ai':
                 $this->handleToggleAI();
                 break;
+            case 'toggle_patient_uploads':
+                $this->handleTogglePatientUploads();
+                break;
             case 'set_risk':
                 $this->handleSetRisk();
                 break;
@@ -301,13 +413,19 @@ class TherapistDashboardController extends TherapyBaseController
         $message = trim($_POST['message'] ?? '');
 
         if (!$cid) { $this->json(['error' => 'Conversation ID is required'], 400); return; }
-        if (empty($message)) { $this->json(['error' => 'Message cannot be empty'], 400); return; }
         if (!$this->model->canAccessConversation($uid, $cid)) { $this->json(['error' => 'Access denied'], 403); return; }
 
+        $attachments = $this->validateAttachmentUploads();
+        if (empty($message) && empty($attachments)) { $this->json(['error' => 'Message cannot be empty'], 400); return; }
+
         try {
-            $result = $this->model->sendMessage($cid, $uid, $message);
+            $result = $this->model->sendMessage($cid, $uid, $message, $attachments);
             if (isset($result['error'])) { $this->json(['error' => $result['error']], 400); return; }
-            $this->json(['success' => true, 'message_id' => $result['message_id']]);
+            $this->json([
+                'success' => true,
+                'message_id' => $result['message_id'],
+                'attachments' => $result['attachments']
+            ]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
         }
@@ -354,6 +472,22 @@ class TherapistDashboardController extends TherapyBaseController
         });
     }
 
+    private function handleTogglePatientUploads()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+        $allowed = isset($_POST['allowed'])
+            ? filter_var($_POST['allowed'], FILTER_VALIDATE_BOOLEAN)
+            : true;
+
+        $this->runJsonAction(function () use ($cid, $allowed) {
+            $this->json([
+                'success' => $this->model->setPatientUploadsAllowed($cid, $allowed),
+                'allow_patient_uploads' => $allowed
+            ]);
+        });
+    }
+
     private function handleSetRisk()
     {
         $uid = $this->validateTherapistOrFail();
@@ -372,14 +506,18 @@ class TherapistDashboardController extends TherapyBaseController
     {
         $uid = $this->validateTherapistOrFail();
         $cid = $this->requireConversationId($uid, true);
-        $content = trim($_POST['content'] ?? '');
+        list($content, $structure) = $this->requireNoteInput();
+        $tags = $this->requireNoteTags() ?? array();
         $noteType = $_POST['note_type'] ?? THERAPY_NOTE_MANUAL;
+        if (!in_array($noteType, THERAPY_VALID_NOTE_TYPES, true)) { $this->json(['error' => 'Invalid note type'], 400); return; }
+        $summaryMessageId = (int)($_POST['summary_message_id'] ?? 0);
 
-        if (empty($content)) { $this->json(['error' => 'Content is required'], 400); return; }
-
-        $this->runJsonAction(function () use ($cid, $uid, $content, $noteType) {
-            $noteId = $this->model->addNote($cid, $uid, $content, $noteType);
-            $this->json(['success' => (bool)$noteId, 'note_id' => $noteId]);
+        $this->runJsonAction(function () use ($cid, $uid, $content, $noteType, $structure, $tags, $summaryMessageId) {
+            $noteId = $this->model->addNote($cid, $uid, $content, $noteType, $structure, $tags);
+            if ($noteId && $summaryMessageId) {
+                $this->model->markSummarySaved($summaryMessageId, $cid, $noteId);
+            }
+            $this->json(['success' => (bool)$noteId, 'note_id' => $noteId, 'content' => $content, 'tags' => $tags]);
         });
     }
 
@@ -387,17 +525,46 @@ class TherapistDashboardController extends TherapyBaseController
     {
         $uid = $this->validateTherapistOrFail();
         $noteId = $_POST['note_id'] ?? null;
-        $content = trim($_POST['content'] ?? '');
+        if (!$noteId) { $this->json(['error' => 'Note ID is required'], 400); return; }
+        list($content, $structure) = $this->requireNoteInput();
+        $tags = $this->requireNoteTags();
+
+        try {
+            $this->json(['success' => $this->model->editNote($noteId, $uid, $content, $structure, $tags), 'content' => $content, 'tags' => $tags]);
+        } catch (Exception $e) {
+            $this->json(['error' => $e->getMessage()], 500);
+        }
+    }
 
-        if (!$noteId || empty($content)) { $this->json(['error' => 'Note ID and content are required'], 400); return; }
+    private function handlePinNote()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $noteId = $_POST['note_id'] ?? null;
+        if (!$noteId) { $this->json(['error' => 'Note ID is required'], 400); return; }
+        $pinned = ($_POST['pinned'] ?? '') === '1';
 
         try {
-            $this->json(['success' => $this->model->editNote($noteId, $uid, $content)]);
+            $this->json(['success' => $this->model->pinNote($noteId, $uid, $pinned), 'pinned' => $pinned]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
         }
     }
 
+    private function handleGetNoteHistory()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+        $noteId = $this->requestValue('note_id');
+
+        if (!$noteId) { $this->json(['error' => 'Note ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($cid, $noteId) {
+            $history = $this->model->getNoteHistory($cid, (int)$noteId);
+            if (!$history) { $this->json(['error' => 'Note not found'], 404); return; }
+            $this->json(['history' => $history]);
+        });
+    }
+
     private function handleDeleteNote()
     {
         $uid = $this->validateTherapistOrFail();
@@ -413,12 +580,12 @@ class TherapistDashboardController extends TherapyBaseController
 
     private function handleMarkAlertRead()
     {
-        $this->validateTherapistOrFail();
+        $uid = $this->validateTherapistOrFail();
         $alertId = $_POST['alert_id'] ?? null;
         if (!$alertId) { $this->json(['error' => 'Alert ID is required'], 400); return; }
 
         try {
-            $this->json(['success' => $this->model->markAlertRead($alertId)]);
+            $this->json(['success' => $this->model->markAlertRead($alertId, $uid)]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
         }
@@ -436,6 +603,62 @@ class TherapistDashboardController extends TherapyBaseController
         }
     }
 
+    private function handleGetAlert()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $alertId = $this->requestValue('alert_id');
+        if (!$alertId) { $this->json(['error' => 'Alert ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($alertId, $uid) {
+            $details = $this->model->getAlertDetails((int)$alertId, $uid);
+            if (!$details) { $this->json(['error' => 'Alert not found'], 404); return; }
+            $this->json($details);
+        });
+    }
+
+    private function handleUpdateAlertStatus()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $alertId = (int)($_POST['alert_id'] ?? 0);
+        $status = $_POST['status'] ?? '';
+        $note = trim($_POST['note'] ?? '');
+
+        if (!$alertId) { $this->json(['error' => 'Alert ID is required'], 400); return; }
+        if ($status === THERAPY_ALERT_STATUS_NEW || !in_array($status, THERAPY_VALID_ALERT_STATUSES, true)) {
+            $this->json(['error' => 'Invalid alert status'], 400); return;
+        }
+        if (mb_strlen($note) > THERAPY_ALERT_NOTE_MAX_LENGTH) {
+            $this->json(['error' => 'Resolution note is too long'], 400); return;
+        }
+
+        $this->runJsonAction(function () use ($alertId, $uid, $status, $note) {
+            $details = $this->model->getAlertDetails($alertId, $uid);
+            if (!$details) { $this->json(['error' => 'Alert not found'], 404); return; }
+            if ($status === THERAPY_ALERT_STATUS_RESOLVED && $note === ''
+                && in_array($details['alert']['alert_type'], THERAPY_ALERT_TYPES_REQUIRING_RESOLUTION_NOTE, true)) {
+                $this->json(['error' => 'Describe how the alert was handled before resolving it'], 400); return;
+            }
+
+            $ok = $this->model->updateAlertStatus($alertId, $uid, $status, $note !== '' ? $note : null);
+            $this->json(array_merge(['success' => $ok], $this->model->getAlertDetails($alertId, $uid) ?: array()));
+        });
+    }
+
+    private function handleAssignAlert()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $alertId = (int)($_POST['alert_id'] ?? 0);
+        $assigneeId = (int)($_POST['assignee_id'] ?? 0);
+        if (!$alertId) { $this->json(['error' => 'Alert ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($alertId, $uid, $assigneeId) {
+            if (!$this->model->assignAlert($alertId, $uid, $assigneeId ?: null)) {
+                $this->json(['error' => 'The alert cannot be assigned to this therapist'], 400); return;
+            }
+            $this->json(array_merge(['success' => true], $this->model->getAlertDetails($alertId, $uid) ?: array()));
+        });
+    }
+
     private function handleMarkMessagesRead()
     {
         $uid = $this->validateTherapistOrFail();
@@ -449,6 +672,20 @@ class TherapistDashboardController extends TherapyBaseController
         });
     }
 
+    private function handleTyping()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+        $typing = isset($_POST['typing'])
+            ? filter_var($_POST['typing'], FILTER_VALIDATE_BOOLEAN)
+            : true;
+
+        $this->runJsonAction(function () use ($cid, $uid, $typing) {
+            $this->model->getTherapyService()->setTyping($cid, $uid, $typing);
+            $this->json(['success' => true]);
+        });
+    }
+
     /* ---- Drafts ---- */
 
     private function handleCreateDraft()
@@ -456,8 +693,10 @@ class TherapistDashboardController extends TherapyBaseController
         $uid = $this->validateTherapistOrFail();
         $cid = $this->requireConversationId($uid, true);
 
-        $this->runJsonAction(function () use ($cid, $uid) {
-            $result = $this->model->generateDraft($cid, $uid);
+        $guidance = $this->requireDraftGuidance();
+
+        $this->runJsonAction(function () use ($cid, $uid, $guidance) {
+            $result = $this->model->generateDraft($cid, $uid, $guidance);
             if (isset($result['error'])) { $this->json(['error' => $result['error']], 500); return; }
             $this->json($result);
         });
@@ -482,12 +721,15 @@ class TherapistDashboardController extends TherapyBaseController
     {
         $uid = $this->validateTherapistOrFail();
         $draftId = $_POST['draft_id'] ?? null;
-        $cid = $_POST['conversation_id'] ?? null;
+        if (!$draftId) { $this->json(['error' => 'Draft ID is required'], 400); return; }
+        $cid = $this->requireConversationId($uid, true);
 
-        if (!$draftId || !$cid) { $this->json(['error' => 'Draft ID and conversation ID are required'], 400); return; }
+        $content = trim($_POST['content'] ?? '');
+        $candidateIds = $this->requestIdList('candidate_ids');
+        $pickedFromIds = $this->requestIdList('picked_from');
 
         try {
-            $this->json($this->model->sendDraft($draftId, $uid, $cid));
+            $this->json($this->model->sendDraft($draftId, $uid, $cid, $content !== '' ? $content : null, $candidateIds, $pickedFromIds));
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
         }
@@ -506,6 +748,98 @@ class TherapistDashboardController extends TherapyBaseController
         }
     }
 
+    /* ---- Scheduled messages ---- */
+
+    private function handleScheduleMessage()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+        $message = trim($_POST['message'] ?? '');
+        if ($message === '') { $this->json(['error' => 'Message cannot be empty'], 400); return; }
+        $scheduledAt = $this->requireScheduledAt();
+
+        $this->runJsonAction(function () use ($cid, $uid, $message, $scheduledAt) {
+            $result = $this->model->scheduleMessage($cid, $uid, $message, $scheduledAt);
+            if (isset($result['error'])) { $this->json(['error' => $result['error']], 500); return; }
+            $this->json($result);
+        });
+    }
+
+    private function handleUpdateScheduledMessage()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $scheduledId = $_POST['scheduled_id'] ?? null;
+        $message = trim($_POST['message'] ?? '');
+
+        if (!$scheduledId) { $this->json(['error' => 'Scheduled message ID is required'], 400); return; }
+        if ($message === '') { $this->json(['error' => 'Message cannot be empty'], 400); return; }
+        $scheduledAt = $this->requireScheduledAt();
+
+        $this->runJsonAction(function () use ($scheduledId, $uid, $message, $scheduledAt) {
+            $result = $this->model->updateScheduledMessage($scheduledId, $uid, $message, $scheduledAt);
+            if (isset($result['error'])) { $this->json(['error' => $result['error']], 404); return; }
+            $this->json($result);
+        });
+    }
+
+    private function handleCancelScheduledMessage()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $scheduledId = $_POST['scheduled_id'] ?? null;
+        if (!$scheduledId) { $this->json(['error' => 'Scheduled message ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($scheduledId, $uid) {
+            if (!$this->model->cancelScheduledMessage($scheduledId, $uid)) {
+                $this->json(['error' => 'Scheduled message not found or already sent'], 404);
+                return;
+            }
+            $this->json(['success' => true]);
+        });
+    }
+
+    /* ---- Message templates ---- */
+
+    private function handleCreateTemplate()
+    {
+        $uid = $this->validateTherapistOrFail();
+        list($title, $content, $groupId) = $this->requireTemplateInput();
+
+        $this->runJsonAction(function () use ($uid, $title, $content, $groupId) {
+            $result = $this->model->createTemplate($uid, $title, $content, $groupId);
+            if (isset($result['error'])) { $this->json(['error' => $result['error']], 400); return; }
+            $this->json($result);
+        });
+    }
+
+    private function handleUpdateTemplate()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $templateId = $_POST['template_id'] ?? null;
+        if (!$templateId) { $this->json(['error' => 'Template ID is required'], 400); return; }
+        list($title, $content, $groupId) = $this->requireTemplateInput();
+
+        $this->runJsonAction(function () use ($templateId, $uid, $title, $content, $groupId) {
+            $result = $this->model->updateTemplate($templateId, $uid, $title, $content, $groupId);
+            if (isset($result['error'])) { $this->json(['error' => $result['error']], 404); return; }
+            $this->json($result);
+        });
+    }
+
+    private function handleDeleteTemplate()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $templateId = $_POST['template_id'] ?? null;
+        if (!$templateId) { $this->json(['error' => 'Template ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($templateId, $uid) {
+            if (!$this->model->deleteTemplate($templateId, $uid)) {
+                $this->json(['error' => 'Template not found or not editable'], 404);
+                return;
+            }
+            $this->json(['success' => true]);
+        });
+    }
+
     /* =========================================================================
      * GET HANDLERS
      * ========================================================================= */
@@ -554,24 +888,85 @@ class TherapistDashboardController extends TherapyBaseController
         $uid = $this->validateTherapistOrFail();
         $cid = $this->requireConversationId($uid, true);
         $afterId = isset($_POST['after_id']) ? (int)$_POST['after_id'] : (isset($_GET['after_id']) ? (int)$_GET['after_id'] : null);
-
-        $this->runJsonAction(function () use ($cid, $uid, $afterId) {
-            $messages = $this->model->getMessages($cid, 100, $afterId);
+        $beforeId = $this->requestValue('before_id') ? (int)$this->requestValue('before_id') : null;
+
+        $this->runJsonAction(function () use ($cid, $uid, $afterId, $beforeId) {
+            $messages = $this->model->getMessages($cid, THERAPY_DEFAULT_MESSAGE_LIMIT, $afterId, $beforeId);
+            if ($beforeId) {
+                // Older history page: nothing new to mark as read
+                $this->json([
+                    'messages' => $messages,
+                    'conversation_id' => $cid,
+                    'has_more' => count($messages) >= THERAPY_DEFAULT_MESSAGE_LIMIT
+                ]);
+                return;
+            }
             $this->model->markMessagesRead($cid, $uid);
             $this->json(['messages' => $messages, 'conversation_id' => $cid]);
         });
     }
 
+    private function handleGetMessageHistory()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+        $messageId = $this->requestValue('message_id');
+
+        if (!$messageId) { $this->json(['error' => 'Message ID is required'], 400); return; }
+
+        $this->runJsonAction(function () use ($cid, $messageId) {
+            $history = $this->model->getMessageHistory($cid, (int)$messageId);
+            if (!$history) { $this->json(['error' => 'Message not found'], 404); return; }
+            $this->json(['history' => $history]);
+        });
+    }
+
+    private function handleGetAttachment()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $attachmentId = (int)$this->requestValue('attachment_id');
+        if (!$attachmentId) { $this->json(['error' => 'Attachment ID is required'], 400); return; }
+
+        $attachment = $this->model->getAttachment($attachmentId);
+        if (!$attachment || $attachment['message_deleted']) { $this->json(['error' => 'Attachment not found'], 404); return; }
+        if (!$this->model->canAccessConversation($uid, $attachment['conversation_id'])) { $this->json(['error' => 'Access denied'], 403); return; }
+
+        $download = filter_var($this->requestValue('download') ?? false, FILTER_VALIDATE_BOOLEAN);
+        $this->sendAttachment($attachment, $this->model->getAttachmentPath($attachment), $download);
+    }
+
+    private function handleSearchMessages()
+    {
+        $this->validateTherapistOrFail();
+        $query = trim((string)$this->requestValue('q'));
+        if (mb_strlen($query) < THERAPY_SEARCH_MIN_QUERY_LENGTH) {
+            $this->json(['error' => 'Search term must be at least ' . THERAPY_SEARCH_MIN_QUERY_LENGTH . ' characters'], 400);
+            return;
+        }
+
+        $filters = [];
+        $gid = $this->requestValue('group_id');
+        $senderType = $this->requestValue('sender_type');
+        $dateFrom = $this->requestValue('date_from');
+        $dateTo = $this->requestValue('date_to');
+        if ($gid) $filters['group_id'] = (int)$gid;
+        if (in_array($senderType, ['subject', 'therapist', 'ai', 'system'], true)) $filters['sender_type'] = $senderType;
+        if ($dateFrom && preg_match('/^\d{4}-\d{2}-\d{2}$/', $dateFrom)) $filters['date_from'] = $dateFrom;
+        if ($dateTo && preg_match('/^\d{4}-\d{2}-\d{2}$/', $dateTo)) $filters['date_to'] = $dateTo;
+
+        $this->runJsonAction(function () use ($query, $filters) {
+            $this->json($this->model->searchMessages($query, $filters));
+        });
+    }
+
     private function handleGetAlerts()
     {
         $uid = $this->validateTherapistOrFail();
+        $filters = $this->requireAlertFilters();
+        $limit = min(max((int)($this->requestValue('limit') ?? 50), 1), THERAPY_ALERT_INBOX_LIMIT);
+
         try {
-            $filters = [];
-            $unread = $_POST['unread_only'] ?? $_GET['unread_only'] ?? null;
-            $type = $_POST['alert_type'] ?? $_GET['alert_type'] ?? null;
-            if ($unread) $filters['unread_only'] = true;
-            if ($type) $filters['alert_type'] = $type;
-            $this->json(['alerts' => $this->model->getAlerts($filters)]);
+            $this->json(['alerts' => $this->model->getAlerts($filters, $limit)]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
         }
@@ -597,6 +992,24 @@ class TherapistDashboardController extends TherapyBaseController
         });
     }
 
+    private function handleGetScheduledMessages()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+
+        $this->runJsonAction(function () use ($cid) {
+            $this->json(['scheduled_messages' => $this->model->getScheduledMessages($cid)]);
+        });
+    }
+
+    private function handleGetTemplates()
+    {
+        $this->validateTherapistOrFail();
+        $this->runJsonAction(function () {
+            $this->json(['templates' => $this->model->getTemplates()]);
+        });
+    }
+
     private function handleGetUnreadCounts()
     {
         $uid = $this->validateTherapistOrFail();
@@ -632,13 +1045,25 @@ class TherapistDashboardController extends TherapyBaseController
         $uid = $this->validateTherapistOrFail();
         $cid = $this->requireConversationId($uid, true);
 
-        $this->runJsonAction(function () use ($cid, $uid) {
-            $result = $this->model->generateSummary($cid, $uid);
+        $options = $this->requireSummaryOptions();
+
+        $this->runJsonAction(function () use ($cid, $uid, $options) {
+            $result = $this->model->generateSummary($cid, $uid, $options);
             if (isset($result['error'])) { $this->json(['error' => $result['error']], 500); return; }
             $this->json($result);
         });
     }
 
+    private function handleGetSummaryHistory()
+    {
+        $uid = $this->validateTherapistOrFail();
+        $cid = $this->requireConversationId($uid, true);
+
+        $this->runJsonAction(function () use ($cid) {
+            $this->json(['summaries' => $this->model->getSummaryHistory($cid)]);
+        });
+    }
+
     private function handleInitializeConversation()
     {
         $uid = $this->validateTherapistOrFail();
@@ -708,6 +1133,73 @@ class TherapistDashboardController extends TherapyBaseController
         }
     }
 
+    /* ---- Real-time (Server-Sent Events) ---- */
+
+    /**
+     * Stream dashboard change events as Server-Sent Events.
+     *
+     * The stream probes for changes every THERAPY_SSE_CHECK_INTERVAL seconds
+     * with a cheap change marker and builds a full checkUpdates() snapshot
+     * only when the marker moved. It closes after THERAPY_SSE_MAX_DURATION;
+     * EventSource reconnects on its own.
+     * Events: ready, message, alert, unread, conversation, receipt, typing, ping.
+     */
+    private function handleStreamEvents()
+    {
+        $uid = $this->validateTherapistOrFail();
+
+        // Release the session lock so other requests of this user are not blocked
+        if (session_status() === PHP_SESSION_ACTIVE) {
+            session_write_close();
+        }
+        $this->model->get_services()->get_router()->log_user_activity();
+
+        while (ob_get_level()) {
+            ob_end_clean();
+        }
+        set_time_limit(THERAPY_SSE_MAX_DURATION + 10);
+        ignore_user_abort(false);
+
+        header('Content-Type: text/event-stream');
+        header('Cache-Control: no-cache, no-store, must-revalidate');
+        header('Connection: keep-alive');
+        header('X-Accel-Buffering: no');
+
+        echo "retry: 3000\n\n";
+
+        $marker = $this->model->getChangeMarker($uid);
+        $snapshot = $this->model->checkUpdates($uid);
+        $this->sendSseEvent('ready', $snapshot);
+
+        $started = time();
+        $lastSent = time();
+        while (time() - $started < THERAPY_SSE_MAX_DURATION) {
+            sleep(THERAPY_SSE_CHECK_INTERVAL);
+            if (connection_aborted()) break;
+
+            $currentMarker = $this->model->getChangeMarker($uid);
+            if ($currentMarker !== $marker) {
+                $marker = $currentMarker;
+                $current = $this->model->checkUpdates($uid);
+                foreach ($this->model->getRealtimeEvents($snapshot, $current) as $event) {
+                    $this->sendSseEvent($event['type'], $event['data']);
+                    $lastSent = time();
+                }
+                $snapshot = $current;
+            }
+
+            if (time() - $lastSent >= THERAPY_SSE_PING_INTERVAL) {
+                $this->sendSseEvent('ping', array('time' => time()));
+                $lastSent = time();
+            }
+        }
+
+        if (function_exists('uopz_allow_exit')) {
+            uopz_allow_exit(true);
+        }
+        exit;
+    }
+
     /* =========================================================================
      * VALIDATION
      * ========================================================================= */
@@ -729,6 +1221,217 @@ class TherapistDashboardController extends TherapyBaseController
         return $conversationId;
     }
 
+    /**
+     * Read `scheduled_at` (ISO 8601 from the browser) as server time.
+     * Responds with 400 unless it lies in the future and at most
+     * THERAPY_SCHEDULE_MAX_DAYS ahead.
+     *
+     * @return string Y-m-d H:i:s
+     */
+    private function requireScheduledAt()
+    {
+        $value = $this->requestValue('scheduled_at');
+        try {
+            $time = $value ? new DateTime($value) : null;
+        } catch (Exception $e) {
+            $time = null;
+        }
+        if (!$time) {
+            $this->json(['error' => 'A valid send time is required'], 400);
+        }
+
+        $time->setTimezone(new DateTimeZone(date_default_timezone_get()));
+        $now = new DateTime();
+        if ($time <= $now) {
+            $this->json(['error' => 'The send time must be in the future'], 400);
+        }
+        if ($time > (clone $now)->modify('+' . THERAPY_SCHEDULE_MAX_DAYS . ' days')) {
+            $this->json(['error' => 'Messages can be scheduled at most ' . THERAPY_SCHEDULE_MAX_DAYS . ' days ahead'], 400);
+        }
+        return $time->format('Y-m-d H:i:s');
+    }
+
+    /**
+     * Read a comma-separated list of IDs (e.g. "12,15").
+     *
+     * @return int[]
+     */
+    private function requestIdList($name)
+    {
+        $value = (string)($this->requestValue($name) ?? '');
+        return array_values(array_filter(array_map('intval', explode(',', $value))));
+    }
+
+    /**
+     * Read and validate the template form fields.
+     *
+     * @return array [title, content, groupId|null]
+     */
+    private function requireTemplateInput()
+    {
+        $title = trim($_POST['title'] ?? '');
+        $content = trim($_POST['content'] ?? '');
+        $groupId = !empty($_POST['group_id']) ? (int)$_POST['group_id'] : null;
+
+        if ($title === '' || $content === '') {
+            $this->json(['error' => 'Title and content are required'], 400);
+        }
+        if (mb_strlen($title) > THERAPY_TEMPLATE_TITLE_MAX_LENGTH || mb_strlen($content) > THERAPY_TEMPLATE_MAX_LENGTH) {
+            $this->json(['error' => 'Template title or content is too long'], 400);
+        }
+        return array($title, $content, $groupId);
+    }
+
+    /**
+     * Read and validate the note fields: free-text content, or a template
+     * with its sections (JSON) from which the content is rendered.
+     *
+     * @return array [content, structure|null]
+     */
+    private function requireNoteInput()
+    {
+        $template = $_POST['template'] ?? '';
+        if ($template === '') {
+            $content = trim($_POST['content'] ?? '');
+            if ($content === '') { $this->json(['error' => 'Content is required'], 400); }
+            return array($content, null);
+        }
+
+        if (!isset(THERAPY_NOTE_TEMPLATES[$template])) { $this->json(['error' => 'Invalid note template'], 400); }
+        $sections = json_decode($_POST['sections'] ?? '', true);
+        $structure = $this->model->getTherapyService()->buildNoteStructure($template, $sections);
+        if (!$structure) { $this->json(['error' => 'At least one section is required'], 400); }
+
+        return array($this->model->getTherapyService()->renderNoteStructure($structure), $structure);
+    }
+
+    /**
+     * Read and validate the optional note tags (JSON array).
+     *
+     * @return array|null Normalized tags, null when no tags were sent
+     */
+    private function requireNoteTags()
+    {
+        if (!isset($_POST['tags'])) {
+            return null;
+        }
+
+        $tags = json_decode($_POST['tags'], true);
+        if (!is_array($tags)) { $this->json(['error' => 'Invalid tags'], 400); }
+        $tags = $this->model->getTherapyService()->normalizeNoteTags($tags);
+        if (count($tags) > THERAPY_NOTE_MAX_TAGS) {
+            $this->json(['error' => 'A note can have at most ' . THERAPY_NOTE_MAX_TAGS . ' tags'], 400);
+        }
+        foreach ($tags as $tag) {
+            if (mb_strlen($tag) > THERAPY_NOTE_TAG_MAX_LENGTH) { $this->json(['error' => 'Tag is too long'], 400); }
+        }
+
+        return $tags;
+    }
+
+    /**
+     * Read and validate the alert list filters (banner and alerts inbox).
+     *
+     * @return array unread_only, alert_type, severity, status, conversation_id, date_from, date_to
+     */
+    private function requireAlertFilters()
+    {
+        $filters = array();
+        $enums = array(
+            'alert_type' => THERAPY_VALID_ALERT_TYPES,
+            'severity' => THERAPY_VALID_SEVERITIES,
+            'status' => THERAPY_VALID_ALERT_STATUSES,
+        );
+        foreach ($enums as $name => $valid) {
+            $value = $this->requestValue($name);
+            if ($value === null || $value === '') continue;
+            if (!in_array($value, $valid, true)) { $this->json(['error' => 'Invalid ' . str_replace('_', ' ', $name)], 400); }
+            $filters[$name] = $value;
+        }
+        foreach (array('date_from', 'date_to') as $name) {
+            $value = $this->requestValue($name);
+            if ($value === null || $value === '') continue;
+            if (!preg_match('/^\d{4}-\d{2}-\d{2}$/', $value)) { $this->json(['error' => 'Dates must be given as YYYY-MM-DD'], 400); }
+            $filters[$name] = $value;
+        }
+        if ($this->requestValue('unread_only')) $filters['unread_only'] = true;
+        if ($this->requestValue('conversation_id')) $filters['conversation_id'] = (int)$this->requestValue('conversation_id');
+        return $filters;
+    }
+
+    /**
+     * Read and validate the optional summary options: note template or
+     * output format, focus areas (comma-separated) and the period.
+     *
+     * @return array Only the options that were given
+     */
+    private function requireSummaryOptions()
+    {
+        $options = array();
+        $noteTemplate = $_POST['note_template'] ?? '';
+        $format = $_POST['format'] ?? '';
+        $focus = array_filter(array_map('trim', explode(',', $_POST['focus'] ?? '')));
+        $dateFrom = $_POST['date_from'] ?? '';
+        $dateTo = $_POST['date_to'] ?? '';
+
+        if ($noteTemplate !== '' && !isset(THERAPY_NOTE_TEMPLATES[$noteTemplate])) {
+            $this->json(['error' => 'Invalid note template'], 400);
+        }
+        if ($format !== '' && !in_array($format, THERAPY_VALID_SUMMARY_FORMATS, true)) {
+            $this->json(['error' => 'Invalid summary format'], 400);
+        }
+        if (array_diff($focus, THERAPY_VALID_SUMMARY_FOCUS_AREAS)) {
+            $this->json(['error' => 'Invalid focus area'], 400);
+        }
+        foreach (array($dateFrom, $dateTo) as $date) {
+            if ($date !== '' && !preg_match('/^\d{4}-\d{2}-\d{2}$/', $date)) {
+                $this->json(['error' => 'Dates must be given as YYYY-MM-DD'], 400);
+            }
+        }
+        if ($dateFrom !== '' && $dateTo !== '' && $dateFrom > $dateTo) {
+            $this->json(['error' => 'The start date must be before the end date'], 400);
+        }
+
+        if ($noteTemplate !== '') $options['note_template'] = $noteTemplate;
+        if ($format !== '') $options['format'] = $format;
+        if (!empty($focus)) $options['focus'] = array_values(array_unique($focus));
+        if (($_POST['since_last_summary'] ?? '') === '1') {
+            $options['since_last_summary'] = true;
+        } else {
+            if ($dateFrom !== '') $options['date_from'] = $dateFrom;
+            if ($dateTo !== '') $options['date_to'] = $dateTo;
+        }
+        return $options;
+    }
+
+    /**
+     * Read and validate the optional draft guidance (instruction, tone, length).
+     *
+     * @return array Only the fields that were given
+     */
+    private function requireDraftGuidance()
+    {
+        $guidance = array();
+        $instruction = trim($_POST['instruction'] ?? '');
+        $tone = $_POST['tone'] ?? '';
+        $length = $_POST['length'] ?? '';
+
+        if (mb_strlen($instruction) > THERAPY_DRAFT_INSTRUCTION_MAX_LENGTH) {
+            $this->json(['error' => 'Instruction is too long'], 400);
+        }
+        if ($tone !== '' && !in_array($tone, THERAPY_VALID_DRAFT_TONES, true)) {
+            $this->json(['error' => 'Invalid tone'], 400);
+        }
+        if ($length !== '' && !in_array($length, THERAPY_VALID_DRAFT_LENGTHS, true)) {
+            $this->json(['error' => 'Invalid length'], 400);
+        }
+
+        if ($instruction !== '') $guidance['instruction'] = $instruction;
+        if ($tone !== '') $guidance['tone'] = $tone;
+        if ($length !== '') $guidance['length'] = $length;
+        return $guidance;
+    }
+
     private function runJsonAction($callback)
     {
         try {
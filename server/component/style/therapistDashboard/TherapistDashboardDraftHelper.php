@@ -22,11 +22,16 @@ trait TherapistDashboardDraftTrait
      * the model configured on this style, and saves both to llmMessages
      * (via the parent LLM plugin's addMessage) and to therapyDraftMessages.
      *
+     * The therapist can steer the draft with guidance (free-text
+     * instruction, tone, target length). It is appended to the draft
+     * instruction and stored with the draft.
+     *
      * @param int $conversationId
      * @param int $therapistId
-     * @return array {success, draft: {id, ai_content, edited_content, status}} or {error}
+     * @param array $guidance {instruction?, tone?, length?}
+     * @return array {success, draft: {id, ai_content, edited_content, status, guidance}} or {error}
      */
-    public function generateDraft($conversationId, $therapistId)
+    public function generateDraft($conversationId, $therapistId, $guidance = array())
     {
         // Build AI context from the conversation history
         $systemContext = $this->get_db_field('conversation_context', '');
@@ -38,6 +43,10 @@ trait TherapistDashboardDraftTrait
         if (!empty($draftContext)) {
             $draftInstruction .= "\n\nAdditional context and instructions from the therapist:\n" . $draftContext;
         }
+        $guidancePrompt = $this->buildDraftGuidancePrompt($guidance);
+        if ($guidancePrompt !== '') {
+            $draftInstruction .= "\n\n" . $guidancePrompt;
+        }
         $contextMessages[] = array(
             'role' => 'system',
             'content' => $draftInstruction
@@ -79,6 +88,7 @@ trait TherapistDashboardDraftTrait
                 array(
                     'therapy_sender_type' => 'therapist',
                     'draft_for_conversation' => $conversationId,
+                    'draft_guidance' => $guidance ?: null,
                     'is_draft' => true
                 )
             );
@@ -103,7 +113,7 @@ trait TherapistDashboardDraftTrait
         }
 
         // Also save in therapyDraftMessages for draft workflow tracking
-        $draftId = $this->messageService->createDraft($conversationId, $therapistId, $aiContent);
+        $draftId = $this->messageService->createDraft($conversationId, $therapistId, $aiContent, $guidance);
 
         if (!$draftId) {
             return array('error' => 'Failed to save draft to database. Check lookup values for therapyDraftStatus.');
@@ -115,11 +125,46 @@ trait TherapistDashboardDraftTrait
                 'id' => (int)$draftId,
                 'ai_content' => $aiContent,
                 'edited_content' => null,
-                'status' => THERAPY_DRAFT_DRAFT
+                'status' => THERAPY_DRAFT_DRAFT,
+                'guidance' => $guidance ?: null
             )
         );
     }
 
+    /**
+     * Turn draft guidance into an instruction for the LLM.
+     *
+     * @param array $guidance {instruction?, tone?, length?}
+     * @return string Empty when no guidance was given
+     */
+    private function buildDraftGuidancePrompt($guidance)
+    {
+        $tones = array(
+            'warm' => 'Use a warm, caring tone.',
+            'neutral' => 'Use a calm, neutral and professional tone.',
+            'direct' => 'Be clear and direct; avoid hedging.',
+            'encouraging' => 'Use an encouraging, hopeful tone that highlights the patient\'s strengths.'
+        );
+        $lengths = array(
+            'short' => 'Keep the response short: two or three sentences.',
+            'medium' => 'Keep the response to one or two short paragraphs.',
+            'long' => 'Write a detailed response of several paragraphs.'
+        );
+
+        $lines = array();
+        if (!empty($guidance['tone']) && isset($tones[$guidance['tone']])) {
+            $lines[] = $tones[$guidance['tone']];
+        }
+        if (!empty($guidance['length']) && isset($lengths[$guidance['length']])) {
+            $lines[] = $lengths[$guidance['length']];
+        }
+        if (!empty($guidance['instruction'])) {
+            $lines[] = "The therapist asked for this draft:\n" . $guidance['instruction'];
+        }
+
+        return empty($lines) ? '' : "Guidance for this draft:\n" . implode("\n", $lines);
+    }
+
     /**
      * Update a draft's edited content
      */
@@ -130,14 +175,21 @@ trait TherapistDashboardDraftTrait
 
     /**
      * Send a draft as a real message
+     *
+     * @param int $draftId Candidate the final text is based on
+     * @param int $therapistId
+     * @param int $conversationId
+     * @param string|null $content Final text from the editor
+     * @param array $candidateIds All candidates of this reply
+     * @param array $pickedFromIds Candidates paragraphs were copied from
      */
-    public function sendDraft($draftId, $therapistId, $conversationId)
+    public function sendDraft($draftId, $therapistId, $conversationId, $content = null, $candidateIds = array(), $pickedFromIds = array())
     {
-        $result = $this->messageService->sendDraft($draftId, $therapistId, $conversationId);
+        $result = $this->messageService->sendDraft($draftId, $therapistId, $conversationId, $content, $candidateIds, $pickedFromIds);
 
         // Notify patient (email + push) when draft is sent
         if (isset($result['success'])) {
-            $draft = $this->messageService->getActiveDraft($conversationId, $therapistId);
+            $draft = $this->messageService->getDraft($draftId, $therapistId);
             $content = $draft ? ($draft['edited_content'] ?: $draft['ai_generated_content']) : '';
             $this->notifyPatientNewMessage($conversationId, $therapistId, $content);
             $this->notifyPatientPush($conversationId, $therapistId, $content);
@@ -159,23 +211,40 @@ trait TherapistDashboardDraftTrait
      * Uses the LLM model configured on this therapistDashboard style.
      * Saves to llmMessages for full audit trail.
      *
+     * Options narrow the summary to a period (date_from / date_to or
+     * since_last_summary), focus areas and an output format. With a note
+     * template the summary is written in the template's sections, which
+     * are returned separately to pre-fill a structured note.
+     *
      * @param int $conversationId
      * @param int $therapistId
-     * @return array {success, summary, summary_conversation_id, tokens_used} or {error}
+     * @param array $options note_template, format, focus (list), date_from, date_to (Y-m-d), since_last_summary (bool)
+     * @return array {success, summary, summary_conversation_id, summary_message_id, tokens_used, note_template, sections, period_from, period_to, message_count} or {error}
      */
-    public function generateSummary($conversationId, $therapistId)
+    public function generateSummary($conversationId, $therapistId, $options = array())
     {
         // Get the customizable summarization context from the style field
         $summaryContext = $this->get_db_field('therapy_summary_context', '');
+        $noteTemplate = $options['note_template'] ?? null;
 
-        // Build a complete conversation history for summarization
-        $messages = $this->messageService->getTherapyMessages($conversationId, THERAPY_SUMMARY_MESSAGE_LIMIT);
         $conversation = $this->messageService->getTherapyConversation($conversationId);
-
         if (!$conversation) {
             return array('error' => 'Conversation not found');
         }
 
+        // Period to summarize
+        $from = !empty($options['date_from']) ? $options['date_from'] . ' 00:00:00' : null;
+        $to = !empty($options['date_to']) ? $options['date_to'] . ' 23:59:59' : null;
+        if (!empty($options['since_last_summary'])) {
+            $from = $this->messageService->getLastSummaryTime($conversationId);
+            $to = null;
+        }
+
+        $messages = $this->messageService->getMessagesForSummary($conversationId, $from, $to, THERAPY_SUMMARY_MESSAGE_LIMIT);
+        if (empty($messages)) {
+            return array('error' => 'There are no messages in the selected period.');
+        }
+
         // Build LLM messages for summarization
         $llmMessages = array();
 
@@ -185,13 +254,15 @@ trait TherapistDashboardDraftTrait
             $systemPrompt .= "Additional context and instructions from the therapist:\n" . $summaryContext . "\n\n";
         }
         $systemPrompt .= "Include: key topics discussed, patient emotional state, therapeutic interventions used, progress indicators, risk flags if any, and recommended next steps.";
+        $optionsPrompt = $this->buildSummaryOptionsPrompt($options, $from, $to);
+        if ($optionsPrompt !== '') {
+            $systemPrompt .= "\n\n" . $optionsPrompt;
+        }
 
         $llmMessages[] = array('role' => 'system', 'content' => $systemPrompt);
 
         // Add conversation history
         foreach ($messages as $msg) {
-            if (!empty($msg['is_deleted'])) continue;
-
             $senderLabel = '';
             switch ($msg['sender_type'] ?? '') {
                 case 'subject': $senderLabel = '[Patient]'; break;
@@ -233,17 +304,74 @@ trait TherapistDashboardDraftTrait
         $rawContent = $response['content'];
         $displayContent = $this->messageService->extractDisplayContent($rawContent);
 
-        // Create a new LLM conversation for the summary (for audit trail)
-        $summaryConvId = $this->messageService->createSummaryConversation(
+        // Log the summary in the therapist's tools conversation (audit trail, summary history)
+        $logged = $this->messageService->createSummaryConversation(
             $conversationId, $therapistId, $this->getSectionId(),
-            $displayContent, $llmMessages, $response
+            $displayContent, $llmMessages, $response, $options
         );
 
+        $structure = $noteTemplate ? $this->messageService->parseNoteStructure($noteTemplate, $displayContent) : null;
+
         return array(
             'success' => true,
             'summary' => $displayContent,
-            'summary_conversation_id' => $summaryConvId,
-            'tokens_used' => $response['tokens_used'] ?? null
+            'summary_conversation_id' => $logged['conversation_id'] ?? null,
+            'summary_message_id' => $logged['message_id'] ?? null,
+            'tokens_used' => $response['tokens_used'] ?? null,
+            'note_template' => $structure ? $structure['template'] : null,
+            'sections' => $structure ? $structure['sections'] : null,
+            'period_from' => $messages[0]['timestamp'],
+            'period_to' => $messages[count($messages) - 1]['timestamp'],
+            'message_count' => count($messages)
         );
     }
+
+    /**
+     * Prompt lines for the summary options (period, focus, format).
+     *
+     * @param array $options See generateSummary()
+     * @param string|null $from Start of the summarized period
+     * @param string|null $to End of the summarized period
+     * @return string Empty when no option changes the default summary
+     */
+    private function buildSummaryOptionsPrompt($options, $from, $to)
+    {
+        $focusAreas = array(
+            'mood' => 'Mood trajectory: how the patient\'s mood and emotional state developed over the period, with turning points.',
+            'risk' => 'Risk indicators: any signs of self-harm, suicidal ideation, crisis or deterioration, and protective factors.',
+            'homework' => 'Homework adherence: exercises or tasks agreed on, whether the patient did them and what got in the way.'
+        );
+        $formats = array(
+            'narrative' => 'Write the summary as short narrative paragraphs.',
+            'bullets' => 'Write the summary as concise bullet points grouped under short headings.'
+        );
+
+        $lines = array();
+        if (!empty($options['since_last_summary'])) {
+            $lines[] = $from
+                ? 'The conversation below only contains the messages since the last summary (' . $from . '). Focus on what changed in this period.'
+                : 'This is the first summary of this conversation.';
+        } elseif ($from || $to) {
+            $lines[] = 'The conversation below only contains the messages from ' . ($from ?: 'the beginning') . ' to ' . ($to ?: 'now') . '. Summarize this period and what changed in it.';
+        }
+
+        $focus = array_intersect_key($focusAreas, array_flip($options['focus'] ?? array()));
+        if (!empty($focus)) {
+            $lines[] = "Focus especially on:\n- " . implode("\n- ", $focus);
+        }
+
+        $noteTemplate = $options['note_template'] ?? null;
+        if ($noteTemplate && isset(THERAPY_NOTE_TEMPLATES[$noteTemplate])) {
+            $template = THERAPY_NOTE_TEMPLATES[$noteTemplate];
+            $sections = "Write the summary as a " . $template['label'] . " note. Use exactly these sections, each starting with a markdown heading (### <section>):";
+            foreach ($template['sections'] as $section) {
+                $sections .= "\n- " . $section['label'] . ': ' . $section['hint'];
+            }
+            $lines[] = $sections;
+        } elseif (!empty($options['format']) && isset($formats[$options['format']])) {
+            $lines[] = $formats[$options['format']];
+        }
+
+        return implode("\n\n", $lines);
+    }
 }
@@ -107,15 +107,17 @@ class TherapistDashboardModel extends StyleModel
     }
 
     /**
-     * Get messages for a conversation
+     * Get messages for a conversation (newer than $afterId, or a history
+     * page older than $beforeId)
      */
-    public function getMessages($conversationId, $limit = 100, $afterId = null)
+    public function getMessages($conversationId, $limit = 100, $afterId = null, $beforeId = null)
     {
         return $this->messageService->getTherapyMessages(
             $conversationId,
             $limit,
             $afterId,
-            $this->getMessageLabelOverrides()
+            $this->getMessageLabelOverrides(),
+            $beforeId
         );
     }
 
@@ -135,9 +137,9 @@ class TherapistDashboardModel extends StyleModel
     /**
      * Get alerts for this therapist
      */
-    public function getAlerts($filters = array())
+    public function getAlerts($filters = array(), $limit = 50)
     {
-        return $this->messageService->getAlertsForTherapist($this->userId, $filters);
+        return $this->withEscalationState($this->messageService->getAlertsForTherapist($this->userId, $filters, $limit));
     }
 
     /**
@@ -172,6 +174,50 @@ class TherapistDashboardModel extends StyleModel
         return $this->messageService->getTherapistAssignedGroups($this->userId);
     }
 
+    /**
+     * Search messages across all patients of this therapist, grouped by
+     * conversation. Groups are ordered by their most recent match.
+     *
+     * @param string $query
+     * @param array $filters group_id, sender_type, date_from, date_to
+     * @return array {results: [{conversation_id, subject_id, subject_name, subject_code, matches}], total, truncated}
+     */
+    public function searchMessages($query, $filters = array())
+    {
+        $rows = $this->messageService->searchMessagesForTherapist(
+            $this->userId,
+            $query,
+            $filters,
+            THERAPY_SEARCH_RESULT_LIMIT
+        );
+
+        $groups = array();
+        foreach ($rows as $row) {
+            $key = (string)$row['conversation_id'];
+            if (!isset($groups[$key])) {
+                $groups[$key] = array(
+                    'conversation_id' => $row['conversation_id'],
+                    'subject_id' => $row['subject_id'],
+                    'subject_name' => $row['subject_name'],
+                    'subject_code' => $row['subject_code'] ?? '',
+                    'matches' => array()
+                );
+            }
+            $groups[$key]['matches'][] = array(
+                'message_id' => (int)$row['message_id'],
+                'sender_type' => $row['sender_type'],
+                'snippet' => $row['snippet'],
+                'timestamp' => $row['timestamp']
+            );
+        }
+
+        return array(
+            'results' => array_values($groups),
+            'total' => count($rows),
+            'truncated' => count($rows) >= THERAPY_SEARCH_RESULT_LIMIT
+        );
+    }
+
     /* =========================================================================
      * MESSAGE OPERATIONS (business logic)
      * ========================================================================= */
@@ -181,18 +227,20 @@ class TherapistDashboardModel extends StyleModel
      *
      * @param int $conversationId
      * @param int $therapistId
-     * @param string $message
-     * @return array {success, message_id} or {error}
+     * @param string $message May be empty when files are attached
+     * @param array $attachments Validated uploads (see TherapyBaseController::validateAttachmentUploads)
+     * @return array {success, message_id, attachments} or {error}
      */
-    public function sendMessage($conversationId, $therapistId, $message)
+    public function sendMessage($conversationId, $therapistId, $message, $attachments = array())
     {
         $result = $this->messageService->sendTherapyMessage(
-            $conversationId, $therapistId, $message, TherapyMessageService::SENDER_THERAPIST
+            $conversationId, $therapistId, $message, TherapyMessageService::SENDER_THERAPIST, null, $attachments
         );
 
         if (isset($result['success'])) {
             $this->messageService->updateLastSeen($conversationId, 'therapist');
-            $this->notifyPatientMessageChannels($conversationId, $therapistId, $message);
+            $preview = trim($message . ' ' . $this->messageService->describeAttachments($result['attachments']));
+            $this->notifyPatientMessageChannels($conversationId, $therapistId, $preview);
         }
 
         return $result;
@@ -223,6 +271,156 @@ class TherapistDashboardModel extends StyleModel
         return $this->messageService->softDeleteMessage($messageId, $userId);
     }
 
+    /**
+     * Get the edit/delete history of a message
+     *
+     * @param int $conversationId
+     * @param int $messageId
+     * @return array|null
+     */
+    public function getMessageHistory($conversationId, $messageId)
+    {
+        return $this->messageService->getMessageHistory($conversationId, $messageId);
+    }
+
+    /**
+     * Get an attachment with its access-check data
+     *
+     * @param int $attachmentId
+     * @return array|null
+     */
+    public function getAttachment($attachmentId)
+    {
+        return $this->messageService->getAttachment($attachmentId);
+    }
+
+    /**
+     * Absolute path of a stored attachment
+     */
+    public function getAttachmentPath($attachment)
+    {
+        return $this->messageService->getAttachmentPath($attachment);
+    }
+
+    /* =========================================================================
+     * SCHEDULED MESSAGES
+     * ========================================================================= */
+
+    /**
+     * Pending scheduled messages of a conversation
+     *
+     * @param int $conversationId
+     * @return array
+     */
+    public function getScheduledMessages($conversationId)
+    {
+        return $this->messageService->getScheduledMessages($conversationId);
+    }
+
+    /**
+     * Schedule a therapist message
+     *
+     * @param int $conversationId
+     * @param int $therapistId
+     * @param string $message
+     * @param string $scheduledAt Server time (Y-m-d H:i:s)
+     * @return array {success, scheduled_message} or {error}
+     */
+    public function scheduleMessage($conversationId, $therapistId, $message, $scheduledAt)
+    {
+        $scheduledId = $this->messageService->scheduleMessage($conversationId, $therapistId, $message, $scheduledAt);
+        if (!$scheduledId) {
+            return array('error' => 'Failed to schedule message');
+        }
+        return array(
+            'success' => true,
+            'scheduled_message' => $this->messageService->getScheduledMessage($scheduledId, $therapistId)
+        );
+    }
+
+    /**
+     * Change a pending scheduled message (author only)
+     *
+     * @return array {success, scheduled_message} or {error}
+     */
+    public function updateScheduledMessage($scheduledId, $therapistId, $message, $scheduledAt)
+    {
+        if (!$this->messageService->updateScheduledMessage($scheduledId, $therapistId, $message, $scheduledAt)) {
+            return array('error' => 'Scheduled message not found or already sent');
+        }
+        return array(
+            'success' => true,
+            'scheduled_message' => $this->messageService->getScheduledMessage($scheduledId, $therapistId)
+        );
+    }
+
+    /**
+     * Cancel a pending scheduled message (author only)
+     *
+     * @return bool
+     */
+    public function cancelScheduledMessage($scheduledId, $therapistId)
+    {
+        return $this->messageService->cancelScheduledMessage($scheduledId, $therapistId);
+    }
+
+    /* =========================================================================
+     * MESSAGE TEMPLATES
+     * ========================================================================= */
+
+    /**
+     * Personal and group templates of this therapist
+     *
+     * @return array
+     */
+    public function getTemplates()
+    {
+        return $this->messageService->getTemplatesForTherapist($this->userId);
+    }
+
+    /**
+     * Create a template (personal, or shared with an assigned group)
+     *
+     * @return array {success, template} or {error}
+     */
+    public function createTemplate($therapistId, $title, $content, $groupId = null)
+    {
+        $templateId = $this->messageService->createTemplate($therapistId, $title, $content, $groupId);
+        if (!$templateId) {
+            return array('error' => 'Failed to create template');
+        }
+        return array(
+            'success' => true,
+            'template' => $this->messageService->getTemplate($templateId, $therapistId)
+        );
+    }
+
+    /**
+     * Update a template (author only)
+     *
+     * @return array {success, template} or {error}
+     */
+    public function updateTemplate($templateId, $therapistId, $title, $content, $groupId = null)
+    {
+        if (!$this->messageService->updateTemplate($templateId, $therapistId, $title, $content, $groupId)) {
+            return array('error' => 'Template not found or not editable');
+        }
+        return array(
+            'success' => true,
+            'template' => $this->messageService->getTemplate($templateId, $therapistId)
+        );
+    }
+
+    /**
+     * Delete a template (author only)
+     *
+     * @return bool
+     */
+    public function deleteTemplate($templateId, $therapistId)
+    {
+        return $this->messageService->deleteTemplate($templateId, $therapistId);
+    }
+
     /* =========================================================================
      * CONVERSATION INITIALIZATION (business logic)
      * ========================================================================= */
@@ -497,6 +695,14 @@ class TherapistDashboardModel extends StyleModel
         return $this->messageService->setAIEnabled($conversationId, $enabled);
     }
 
+    /**
+     * Allow or forbid patient file uploads for a conversation
+     */
+    public function setPatientUploadsAllowed($conversationId, $allowed)
+    {
+        return $this->messageService->setPatientUploadsAllowed($conversationId, $allowed);
+    }
+
     /**
      * Set risk level
      */
@@ -510,19 +716,63 @@ class TherapistDashboardModel extends StyleModel
      * ========================================================================= */
 
     /**
-     * Add a clinical note
+     * Add a clinical note (free text, or template-based with $structure)
      */
-    public function addNote($conversationId, $therapistId, $content, $noteType = THERAPY_NOTE_MANUAL)
+    public function addNote($conversationId, $therapistId, $content, $noteType = THERAPY_NOTE_MANUAL, $structure = null, $tags = array())
     {
-        return $this->messageService->addNote($conversationId, $therapistId, $content, $noteType);
+        return $this->messageService->addNote($conversationId, $therapistId, $content, $noteType, null, $structure, $tags);
     }
 
     /**
-     * Edit a note
+     * Edit a note ($tags null = keep the current tags)
      */
-    public function editNote($noteId, $therapistId, $content)
+    public function editNote($noteId, $therapistId, $content, $structure = null, $tags = null)
     {
-        return $this->messageService->updateNote($noteId, $therapistId, $content);
+        return $this->messageService->updateNote($noteId, $therapistId, $content, $structure, $tags);
+    }
+
+    /**
+     * Get every saved version of a note
+     *
+     * @param int $conversationId
+     * @param int $noteId
+     * @return array|null
+     */
+    public function getNoteHistory($conversationId, $noteId)
+    {
+        return $this->messageService->getNoteHistory($conversationId, $noteId);
+    }
+
+    /**
+     * Get the summaries generated for a conversation, newest first
+     *
+     * @param int $conversationId
+     * @return array
+     */
+    public function getSummaryHistory($conversationId)
+    {
+        return $this->messageService->getSummaryHistory($conversationId);
+    }
+
+    /**
+     * Link a generated summary to the note it was saved as
+     *
+     * @param int $summaryMessageId
+     * @param int $conversationId
+     * @param int $noteId
+     * @return bool
+     */
+    public function markSummarySaved($summaryMessageId, $conversationId, $noteId)
+    {
+        return $this->messageService->markSummarySaved($summaryMessageId, $conversationId, $noteId);
+    }
+
+    /**
+     * Pin or unpin a note
+     */
+    public function pinNote($noteId, $therapistId, $pinned)
+    {
+        return $this->messageService->setNotePinned($noteId, $therapistId, $pinned);
     }
 
     /**
@@ -537,9 +787,9 @@ class TherapistDashboardModel extends StyleModel
      * ALERTS (business logic)
      * ========================================================================= */
 
-    public function markAlertRead($alertId)
+    public function markAlertRead($alertId, $therapistId = null)
     {
-        return $this->messageService->markAlertRead($alertId);
+        return $this->messageService->markAlertRead($alertId, $therapistId);
     }
 
     public function markAllAlertsRead($therapistId, $conversationId = null)
@@ -547,6 +797,74 @@ class TherapistDashboardModel extends StyleModel
         return $this->messageService->markAllAlertsRead($therapistId, $conversationId);
     }
 
+    /**
+     * Get an alert with its audit trail and the colleagues it can be assigned to
+     *
+     * @param int $alertId
+     * @param int $therapistId
+     * @return array|null {alert, events, colleagues}
+     */
+    public function getAlertDetails($alertId, $therapistId)
+    {
+        $alert = $this->messageService->getAlertForTherapist($alertId, $therapistId);
+        if (!$alert) {
+            return null;
+        }
+
+        $colleagues = array();
+        foreach ($this->messageService->getTherapistsForPatient($alert['subject_id']) as $therapist) {
+            $colleagues[] = array('id' => (int)$therapist['id'], 'name' => $therapist['name']);
+        }
+
+        $withState = $this->withEscalationState(array($alert));
+        return array(
+            'alert' => $withState[0],
+            'events' => $this->messageService->getAlertEvents($alertId),
+            'colleagues' => $colleagues
+        );
+    }
+
+    public function updateAlertStatus($alertId, $therapistId, $status, $note = null)
+    {
+        return $this->messageService->updateAlertStatus($alertId, $therapistId, $status, $note);
+    }
+
+    public function assignAlert($alertId, $therapistId, $assigneeId)
+    {
+        return $this->messageService->assignAlert($alertId, $therapistId, $assigneeId);
+    }
+
+    /**
+     * Add the escalation deadline to alerts that are still unacknowledged:
+     * escalation_due_at (ISO 8601, so the browser can count down in its own
+     * time zone) and the rule's escalation_minutes.
+     *
+     * @param array $alerts Rows of view_therapyAlerts
+     * @return array
+     */
+    private function withEscalationState($alerts)
+    {
+        $rules = $this->getEscalationRules();
+        foreach ($alerts as &$alert) {
+            $due = $rules ? $this->messageService->getEscalationDueTime($alert, $rules) : null;
+            $rule = $due !== null ? $this->messageService->findEscalationRule($alert, $rules) : null;
+            $alert['escalation_due_at'] = $due !== null ? date('c', $due) : null;
+            $alert['escalation_minutes'] = $rule ? (int)$rule['minutes'] : null;
+        }
+        unset($alert);
+        return $alerts;
+    }
+
+    /**
+     * Escalation rules from the alert_escalation_rules field.
+     *
+     * @return array [{alert_type, severity, minutes}, ...]
+     */
+    private function getEscalationRules()
+    {
+        return $this->messageService->parseEscalationRules($this->get_db_field('alert_escalation_rules', '[]'));
+    }
+
     /**
      * Mark messages as read and update last seen
      */
@@ -582,7 +900,7 @@ class TherapistDashboardModel extends StyleModel
             $this->getMessageLabelOverrides()
         );
         $notes = $this->messageService->getNotesForConversation($conversationId);
-        $alerts = $this->messageService->getAlertsForTherapist($therapistId, array('unread_only' => false));
+        $alerts = $this->withEscalationState($this->messageService->getAlertsForTherapist($therapistId, array('unread_only' => false)));
 
         $this->messageService->updateLastSeen($conversationId, 'therapist');
         $this->messageService->markMessagesAsSeen($conversationId, $therapistId);
@@ -590,6 +908,7 @@ class TherapistDashboardModel extends StyleModel
         return array(
             'conversation' => $conversation,
             'messages' => $messages,
+            'has_more' => count($messages) >= THERAPY_DEFAULT_MESSAGE_LIMIT,
             'notes' => $notes,
             'alerts' => $alerts
         );
@@ -611,10 +930,71 @@ class TherapistDashboardModel extends StyleModel
         return array(
             'unread_messages' => (int)$unreadMessages,
             'unread_alerts' => (int)$unreadAlerts,
-            'latest_message_id' => $latestMsgId
+            'latest_message_id' => $latestMsgId,
+            'latest_alert_id' => $this->messageService->getLatestAlertIdForTherapist($therapistId),
+            'latest_alert_escalated_at' => $this->messageService->getLatestAlertEscalationForTherapist($therapistId),
+            'conversations_updated_at' => $this->messageService->getLatestConversationUpdateForTherapist($therapistId),
+            'latest_seen_at' => $this->messageService->getLatestPatientSeenAtForTherapist($therapistId),
+            'typing_conversations' => $this->messageService->getTypingConversationsForTherapist($therapistId)
         );
     }
 
+    /**
+     * Cheap change probe for SSE streams: checkUpdates() only needs to run
+     * again when this marker changed.
+     *
+     * @param int $therapistId
+     * @return string
+     */
+    public function getChangeMarker($therapistId)
+    {
+        return $this->messageService->getChangeMarkerForTherapist($therapistId);
+    }
+
+    /**
+     * Compare two checkUpdates() snapshots and derive real-time events.
+     *
+     * Event types mirror the frontend RealtimeEventType:
+     *   message      - a new message arrived in an accessible conversation
+     *   alert        - a new alert was raised or escalated, or alert read state changed
+     *   unread       - unread message/alert counts changed
+     *   conversation - conversation metadata (risk, status, AI) changed
+     *   receipt      - a patient read messages (read receipts changed)
+     *   typing       - patients started or stopped typing
+     *
+     * @param array $previous Snapshot from the previous check
+     * @param array $current  Snapshot from the current check
+     * @return array List of ['type' => string, 'data' => array]
+     */
+    public function getRealtimeEvents($previous, $current)
+    {
+        $events = array();
+
+        if ($current['latest_message_id'] !== $previous['latest_message_id']) {
+            $events[] = array('type' => 'message', 'data' => $current);
+        }
+        if ($current['latest_alert_id'] !== $previous['latest_alert_id']
+            || ($current['latest_alert_escalated_at'] ?? null) !== ($previous['latest_alert_escalated_at'] ?? null)
+            || $current['unread_alerts'] !== $previous['unread_alerts']) {
+            $events[] = array('type' => 'alert', 'data' => $current);
+        }
+        if ($current['unread_messages'] !== $previous['unread_messages']
+            || $current['unread_alerts'] !== $previous['unread_alerts']) {
+            $events[] = array('type' => 'unread', 'data' => $current);
+        }
+        if ($current['conversations_updated_at'] !== $previous['conversations_updated_at']) {
+            $events[] = array('type' => 'conversation', 'data' => $current);
+        }
+        if (($current['latest_seen_at'] ?? null) !== ($previous['latest_seen_at'] ?? null)) {
+            $events[] = array('type' => 'receipt', 'data' => $current);
+        }
+        if (($current['typing_conversations'] ?? array()) !== ($previous['typing_conversations'] ?? array())) {
+            $events[] = array('type' => 'typing', 'data' => $current);
+        }
+
+        return $events;
+    }
+
     /**
      * Get unread counts broken down by subject and group.
      *
@@ -737,6 +1117,43 @@ class TherapistDashboardModel extends StyleModel
      * REACT CONFIG
      * ========================================================================= */
 
+    /**
+     * Note templates as a list for the React dashboard.
+     *
+     * @return array [{key, label, sections: [{key, label, hint}]}]
+     */
+    private function getNoteTemplates()
+    {
+        $templates = array();
+        foreach (THERAPY_NOTE_TEMPLATES as $key => $template) {
+            $sections = array();
+            foreach ($template['sections'] as $sectionKey => $section) {
+                $sections[] = array('key' => $sectionKey, 'label' => $section['label'], 'hint' => $section['hint']);
+            }
+            $templates[] = array('key' => $key, 'label' => $template['label'], 'sections' => $sections);
+        }
+        return $templates;
+    }
+
+    /**
+     * Real-time transport settings for the React dashboard.
+     *
+     * @param callable $getField Field reader with default
+     * @return array {transport, websocketUrl}
+     */
+    private function getRealtimeConfig($getField)
+    {
+        $transport = $getField('dashboard_realtime_transport', 'polling');
+        if (!in_array($transport, THERAPY_VALID_REALTIME_TRANSPORTS)) {
+            $transport = 'polling';
+        }
+
+        return [
+            'transport' => $transport,
+            'websocketUrl' => $getField('dashboard_realtime_websocket_url', ''),
+        ];
+    }
+
     public function getReactConfig()
     {
         $stats = $this->getStats();
@@ -759,6 +1176,7 @@ class TherapistDashboardModel extends StyleModel
         return [
             // Core identifiers
             'userId' => $this->getUserId(),
+            'userName' => $this->messageService->getUserName($this->getUserId()),
             'sectionId' => $this->getSectionId(),
             'selectedGroupId' => $this->getSelectedGroupId(),
             'selectedSubjectId' => $this->getSelectedSubjectId(),
@@ -769,8 +1187,13 @@ class TherapistDashboardModel extends StyleModel
             // Assigned groups (for group filter UI)
             'assignedGroups' => $assignedGroups,
 
+            // Structured clinical note formats (SOAP, DAP, ...)
+            'noteTemplates' => $this->getNoteTemplates(),
+            'noteTagSuggestions' => THERAPY_NOTE_SUGGESTED_TAGS,
+
             // Configuration settings
             'pollingInterval' => $getNumField('dashboard_polling_interval', 5) * 1000,
+            'realtime' => $this->getRealtimeConfig($getField),
             'messagesPerPage' => $getNumField('dashboard_messages_per_page', 50),
             'conversationsPerPage' => $getNumField('dashboard_conversations_per_page', 20),
 
@@ -61,6 +61,9 @@ class TherapyChatController extends TherapyBaseController
             case 'send_message':
                 $this->handleSendMessage();
                 break;
+            case 'send_message_stream':
+                $this->handleSendMessageStream();
+                break;
             case 'tag_therapist':
                 $this->handleTagTherapist();
                 break;
@@ -71,6 +74,9 @@ class TherapyChatController extends TherapyBaseController
             case 'mark_messages_read':
                 $this->handleMarkMessagesRead();
                 break;
+            case 'typing':
+                $this->handleTyping();
+                break;
             case 'get_conversation':
                 $this->handleGetConversation();
                 break;
@@ -102,6 +108,7 @@ class TherapyChatController extends TherapyBaseController
             case 'get_messages':     $this->handleGetMessages(); break;
             case 'get_therapists':   $this->handleGetTherapists(); break;
             case 'check_updates':    $this->handleCheckUpdates(); break;
+            case 'get_attachment':   $this->handleGetAttachment(); break;
             default: break;
         }
     }
@@ -113,20 +120,10 @@ class TherapyChatController extends TherapyBaseController
     private function handleSendMessage()
     {
         $userId = $this->validatePatientOrFail();
-
-        $message = trim($_POST['message'] ?? $_GET['message'] ?? '');
-        if (empty($message)) {
-            $this->json(['error' => 'Message cannot be empty'], 400);
-            return;
-        }
-
-        $conversationId = $_POST['conversation_id'] ?? $_GET['conversation_id'] ?? null;
-        if ($conversationId) {
-            $conversationId = (int)$conversationId;
-        }
+        list($message, $conversationId, $clientMessageId, $attachments) = $this->readSendMessageRequest($userId);
 
         try {
-            $result = $this->model->sendPatientMessage($userId, $message, $conversationId);
+            $result = $this->model->sendPatientMessage($userId, $message, $conversationId, $clientMessageId, $attachments);
 
             if (isset($result['blocked']) || isset($result['error'])) {
                 $statusCode = isset($result['blocked']) ? 200 : 500;
@@ -140,6 +137,91 @@ class TherapyChatController extends TherapyBaseController
         }
     }
 
+    /**
+     * Send a message and stream the AI response as Server-Sent Events.
+     *
+     * Request validation errors are plain JSON responses. Once the stream
+     * is open it emits: stored (the patient message was saved), delta (display
+     * text), safety (the response reports a concern; its text is withheld),
+     * then done (same payload as send_message) or error. Closing the
+     * connection cancels the AI response unless it was flagged unsafe.
+     */
+    private function handleSendMessageStream()
+    {
+        $userId = $this->validatePatientOrFail();
+        list($message, $conversationId, $clientMessageId, $attachments) = $this->readSendMessageRequest($userId);
+
+        // Release the session lock so polling requests are not blocked meanwhile
+        if (session_status() === PHP_SESSION_ACTIVE) {
+            session_write_close();
+        }
+        $this->model->get_services()->get_router()->log_user_activity();
+
+        while (ob_get_level()) {
+            ob_end_clean();
+        }
+        set_time_limit(THERAPY_STREAM_MAX_DURATION + 10);
+        // Disconnects are detected per event, so the LLM request can be aborted cleanly
+        ignore_user_abort(true);
+
+        header('Content-Type: text/event-stream');
+        header('Cache-Control: no-cache, no-store, must-revalidate');
+        header('X-Accel-Buffering: no');
+
+        $stream = function ($event, $data) {
+            $this->sendSseEvent($event, $data);
+            return !connection_aborted();
+        };
+
+        try {
+            $result = $this->model->sendPatientMessage(
+                $userId, $message, $conversationId, $clientMessageId, $attachments, $stream
+            );
+            $this->sendSseEvent(isset($result['error']) ? 'error' : 'done', $result);
+        } catch (Exception $e) {
+            $this->sendSseEvent('error', array('error' => $e->getMessage()));
+        }
+
+        if (function_exists('uopz_allow_exit')) {
+            uopz_allow_exit(true);
+        }
+        exit;
+    }
+
+    /**
+     * Validate the fields shared by send_message and send_message_stream.
+     * Responds with a JSON error (and exits) when the request is invalid.
+     *
+     * @param int $userId
+     * @return array [message, conversationId, clientMessageId, attachments]
+     */
+    private function readSendMessageRequest($userId)
+    {
+        $message = trim($_POST['message'] ?? $_GET['message'] ?? '');
+        $conversationId = $_POST['conversation_id'] ?? $_GET['conversation_id'] ?? null;
+        if ($conversationId) {
+            $conversationId = (int)$conversationId;
+        }
+
+        $attachments = $this->validateAttachmentUploads();
+        if (empty($message) && empty($attachments)) {
+            $this->json(['error' => 'Message cannot be empty'], 400);
+            return;
+        }
+        if (!empty($attachments) && !$this->model->canUploadAttachments($userId, $conversationId)) {
+            $this->json(['error' => 'File uploads are disabled for this conversation'], 403);
+            return;
+        }
+
+        // Client-generated outbox ID used to drop duplicate retries
+        $clientMessageId = $_POST['client_message_id'] ?? null;
+        if ($clientMessageId !== null && !preg_match('/^[A-Za-z0-9_-]{1,64}$/', $clientMessageId)) {
+            $clientMessageId = null;
+        }
+
+        return array($message, $conversationId, $clientMessageId, $attachments);
+    }
+
     private function handleTagTherapist()
     {
         $userId = $this->validatePatientOrFail();
@@ -188,6 +270,7 @@ class TherapyChatController extends TherapyBaseController
             }
 
             if ($conversationId) {
+                $this->model->getTherapyService()->updateLastSeen($conversationId, 'subject');
                 $this->model->getTherapyService()->markMessagesAsSeen($conversationId, $userId);
             }
 
@@ -198,6 +281,29 @@ class TherapyChatController extends TherapyBaseController
         }
     }
 
+    /**
+     * Keystroke ping from the message input; `typing=0` when the input was
+     * cleared. Always applies to the patient's own conversation.
+     */
+    private function handleTyping()
+    {
+        $userId = $this->validatePatientOrFail();
+
+        try {
+            $conversation = $this->model->getOrCreateConversation();
+            if (!$conversation) {
+                $this->json(['error' => 'No conversation'], 404);
+                return;
+            }
+
+            $typing = filter_var($_POST['typing'] ?? true, FILTER_VALIDATE_BOOLEAN);
+            $this->model->getTherapyService()->setTyping($conversation['id'], $userId, $typing);
+            $this->json(['success' => true]);
+        } catch (Exception $e) {
+            $this->json(['error' => $e->getMessage()], 500);
+        }
+    }
+
     /* =========================================================================
      * GET HANDLERS
      * ========================================================================= */
@@ -264,7 +370,8 @@ class TherapyChatController extends TherapyBaseController
 
             $this->json([
                 'conversation' => $conversation,
-                'messages' => $messages
+                'messages' => $messages,
+                'has_more' => count($messages) >= THERAPY_DEFAULT_MESSAGE_LIMIT
             ]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
@@ -279,14 +386,16 @@ class TherapyChatController extends TherapyBaseController
             $therapyService = $this->model->getTherapyService();
             $conversation = $this->model->getOrCreateConversation();
             if (!$conversation) {
-                $this->json(['latest_message_id' => null, 'unread_count' => 0]);
+                $this->json(['latest_message_id' => null, 'unread_count' => 0, 'typing' => []]);
                 return;
             }
 
             $cid = $conversation['id'];
             $this->json([
                 'latest_message_id' => $therapyService->getLatestMessageIdForConversation($cid),
-                'unread_count' => (int)$therapyService->getUnreadCountForUser($userId)
+                'unread_count' => (int)$therapyService->getUnreadCountForUser($userId),
+                'last_seen_at' => $therapyService->getLatestSeenAtForConversation($cid, $userId),
+                'typing' => $therapyService->getTypingUsers($cid, $userId)
             ]);
         } catch (Exception $e) {
             $this->json(['error' => $e->getMessage()], 500);
@@ -299,6 +408,7 @@ class TherapyChatController extends TherapyBaseController
 
         $conversationId = $_POST['conversation_id'] ?? $_GET['conversation_id'] ?? null;
         $afterId = isset($_POST['after_id']) ? (int)$_POST['after_id'] : (isset($_GET['after_id']) ? (int)$_GET['after_id'] : null);
+        $beforeId = isset($_POST['before_id']) ? (int)$_POST['before_id'] : (isset($_GET['before_id']) ? (int)$_GET['before_id'] : null);
 
         if (!$conversationId) {
             $conversation = $this->model->getOrCreateConversation();
@@ -318,8 +428,20 @@ class TherapyChatController extends TherapyBaseController
                 $conversationId,
                 THERAPY_DEFAULT_MESSAGE_LIMIT,
                 $afterId,
-                $this->model->getMessageLabelOverrides()
+                $this->model->getMessageLabelOverrides(),
+                $beforeId
             );
+
+            if ($beforeId) {
+                // Older history page: nothing new to mark as seen
+                $this->json([
+                    'messages' => $messages,
+                    'conversation_id' => $conversationId,
+                    'has_more' => count($messages) >= THERAPY_DEFAULT_MESSAGE_LIMIT
+                ]);
+                return;
+            }
+
             $therapyService->updateLastSeen($conversationId, 'subject');
             $therapyService->markMessagesAsSeen($conversationId, $userId);
 
@@ -332,6 +454,31 @@ class TherapyChatController extends TherapyBaseController
         }
     }
 
+    private function handleGetAttachment()
+    {
+        $userId = $this->validatePatientOrFail();
+
+        $attachmentId = (int)($_GET['attachment_id'] ?? 0);
+        if (!$attachmentId) {
+            $this->json(['error' => 'Attachment ID is required'], 400);
+            return;
+        }
+
+        $therapyService = $this->model->getTherapyService();
+        $attachment = $therapyService->getAttachment($attachmentId);
+        if (!$attachment || $attachment['message_deleted']) {
+            $this->json(['error' => 'Attachment not found'], 404);
+            return;
+        }
+        if ((int)$attachment['patient_id'] !== (int)$userId) {
+            $this->json(['error' => 'Access denied'], 403);
+            return;
+        }
+
+        $download = filter_var($_GET['download'] ?? false, FILTER_VALIDATE_BOOLEAN);
+        $this->sendAttachment($attachment, $therapyService->getAttachmentPath($attachment), $download);
+    }
+
     /* =========================================================================
      * VALIDATION
      * ========================================================================= */
@@ -211,6 +211,11 @@ class TherapyChatModel extends StyleModel
         return (int)$this->get_db_field('therapy_chat_polling_interval', '3');
     }
 
+    public function isAIStreamingEnabled()
+    {
+        return (bool)$this->get_db_field('therapy_chat_stream_ai', '1');
+    }
+
     public function getConversationContext()
     {
         return $this->get_db_field('conversation_context', '');
@@ -395,9 +400,13 @@ class TherapyChatModel extends StyleModel
      * @param int $userId Patient ID
      * @param string $message Message content
      * @param int|null $conversationId
+     * @param string|null $clientMessageId Outbox ID; a repeated ID is not stored twice
+     * @param array $attachments Validated uploads (see TherapyBaseController::validateAttachmentUploads)
+     * @param callable|null $stream function(string $event, array $data): bool — streams the AI
+     *        response (events: stored, delta, safety); false means the client went away
      * @return array Response for frontend
      */
-    public function sendPatientMessage($userId, $message, $conversationId = null)
+    public function sendPatientMessage($userId, $message, $conversationId = null, $clientMessageId = null, $attachments = array(), $stream = null)
     {
         $conversation = $this->resolveConversation($userId, $conversationId);
         if (!$conversation) {
@@ -413,19 +422,42 @@ class TherapyChatModel extends StyleModel
         // the assigned therapists.
 
         // Send user message (normal flow)
-        $result = $this->therapyService->sendTherapyMessage(
-            $conversationId, $userId, $message, TherapyMessageService::SENDER_SUBJECT
-        );
+        if ($clientMessageId) {
+            $result = $this->therapyService->sendTherapyMessageOnce(
+                $conversationId, $userId, $message, TherapyMessageService::SENDER_SUBJECT,
+                $clientMessageId, null, $attachments
+            );
+        } else {
+            $result = $this->therapyService->sendTherapyMessage(
+                $conversationId, $userId, $message, TherapyMessageService::SENDER_SUBJECT,
+                null, $attachments
+            );
+        }
 
         if (isset($result['error'])) {
             return $result;
         }
 
+        // Retry of a message that was already stored: acknowledge it again.
+        // The AI reply (if any) reaches the client through polling.
+        if (!empty($result['duplicate'])) {
+            return array(
+                'success' => true,
+                'message_id' => $result['message_id'],
+                'conversation_id' => $conversationId,
+                'duplicate' => true
+            );
+        }
+
         $response = array(
             'success' => true,
             'message_id' => $result['message_id'],
-            'conversation_id' => $conversationId
+            'conversation_id' => $conversationId,
+            'attachments' => $result['attachments']
         );
+        if ($stream) {
+            $stream('stored', $response);
+        }
 
         // Detect @mentions once (used for notifications and AI decision)
         $mentionResult = $this->therapyService->detectMentionedTherapists($message, $userId);
@@ -437,12 +469,17 @@ class TherapyChatModel extends StyleModel
 
         // Notify therapists when tagged or when AI is off
         if ($isTag || !$aiActive) {
-            $this->notifyTherapists($conversationId, $userId, $message, $isTag);
+            $preview = trim($message . ' ' . $this->therapyService->describeAttachments($result['attachments']));
+            $this->notifyTherapists($conversationId, $userId, $preview, $isTag);
         }
 
         // Process AI response only if active and no tag
         if ($aiActive && !$isTag) {
-            $aiResponse = $this->processAIResponse($conversationId, $conversation);
+            $onDelta = $stream ? $this->createStreamDeltaHandler($stream) : null;
+            $aiResponse = $this->processAIResponse($conversationId, $conversation, $onDelta);
+            if (!empty($aiResponse['conversation_blocked'])) {
+                $response['conversation_blocked'] = true;
+            }
             if ($aiResponse && !isset($aiResponse['error'])) {
                 $messageLabels = $this->getMessageLabelOverrides();
                 $response['ai_message'] = array(
@@ -460,6 +497,48 @@ class TherapyChatModel extends StyleModel
         return $response;
     }
 
+    /**
+     * Turn raw LLM chunks into display-text events for a streamed response.
+     *
+     * The LLM answers with structured JSON, so only the text of
+     * content.text_blocks[] is forwarded (as 'delta' events), and none of it
+     * before the complete "safety" object has been received and judged
+     * safe; text that arrives earlier is held back. When the response
+     * reports a safety concern no text is sent — the client gets a 'safety'
+     * event and the final safety message with the result — and cancelling
+     * is ignored so the safety assessment always completes.
+     *
+     * @param callable $stream See sendPatientMessage()
+     * @return callable function(string $rawChunk): bool
+     */
+    private function createStreamDeltaHandler($stream)
+    {
+        $raw = '';
+        $sent = '';
+        $safe = null;
+
+        return function ($chunk) use ($stream, &$raw, &$sent, &$safe) {
+            $raw .= $chunk;
+            if ($safe === null) {
+                $safe = TherapyMessageService::assessPartialSafety($raw);
+                if ($safe === false) {
+                    $stream('safety', array());
+                }
+            }
+            if ($safe !== true) {
+                return true;
+            }
+
+            $text = TherapyMessageService::extractPartialDisplayText($raw);
+            if (strlen($text) <= strlen($sent) || strpos($text, $sent) !== 0) {
+                return true;
+            }
+            $delta = substr($text, strlen($sent));
+            $sent = $text;
+            return $stream('delta', array('text' => $delta));
+        };
+    }
+
     /**
      * Resolve or create the conversation for a patient message.
      *
@@ -479,6 +558,20 @@ class TherapyChatModel extends StyleModel
         return $conversation;
     }
 
+    /**
+     * Whether the patient may attach files in the conversation they are sending to.
+     * Therapists can forbid patient uploads per conversation.
+     *
+     * @param int $userId Patient ID
+     * @param int|null $conversationId
+     * @return bool
+     */
+    public function canUploadAttachments($userId, $conversationId = null)
+    {
+        $conversation = $this->resolveConversation($userId, $conversationId);
+        return $conversation && !empty($conversation['allow_patient_uploads']);
+    }
+
     /**
      * Check if a conversation has AI actively processing messages.
      *
@@ -503,9 +596,10 @@ class TherapyChatModel extends StyleModel
      *
      * @param int $conversationId therapyConversationMeta.id
      * @param array $conversation Therapy conversation record
-     * @return array|null
+     * @param callable|null $onDelta Streams the response, see TherapyMessageService::processAIResponse()
+     * @return array|null Result; 'conversation_blocked' is set when the safety check blocked the conversation
      */
-    public function processAIResponse($conversationId, $conversation)
+    public function processAIResponse($conversationId, $conversation, $onDelta = null)
     {
         $systemContext = $this->getConversationContext();
         $contextMessages = $this->therapyService->buildAIContext($conversationId, $systemContext, 50);
@@ -547,12 +641,13 @@ class TherapyChatModel extends StyleModel
             $contextMessages,
             $this->getLlmModel() ?: $conversation['model'],
             $this->getLlmTemperature(),
-            $this->getLlmMaxTokens()
+            $this->getLlmMaxTokens(),
+            $onDelta
         );
 
         // Post-LLM safety detection: parse the structured response
         if ($responseService && $result && !isset($result['error'])) {
-            $this->handlePostLlmSafetyDetection(
+            $result['conversation_blocked'] = $this->handlePostLlmSafetyDetection(
                 $result, $conversationId, $conversation, $responseService
             );
         }
@@ -602,23 +697,24 @@ class TherapyChatModel extends StyleModel
      * @param int $conversationId therapyConversationMeta.id
      * @param array $conversation Therapy conversation record
      * @param LlmResponseService $responseService
+     * @return bool Whether the conversation was blocked
      */
     private function handlePostLlmSafetyDetection($result, $conversationId, $conversation, $responseService)
     {
         // Use raw_content (the original JSON from the LLM) for safety parsing,
         // since 'content' has already been converted to display text.
         $content = $result['raw_content'] ?? $result['content'] ?? '';
-        if (empty($content)) return;
+        if (empty($content)) return false;
 
         // The LLM should return structured JSON; try to parse it
         $parsed = $this->parseStructuredResponse($content);
-        if (!$parsed) return;
+        if (!$parsed) return false;
 
         $safety = $responseService->assessSafety($parsed);
 
         // If safe, nothing to do
         if ($safety['is_safe'] && $safety['danger_level'] === null) {
-            return;
+            return false;
         }
 
         $detectedConcerns = $safety['detected_concerns'] ?? array();
@@ -648,9 +744,12 @@ class TherapyChatModel extends StyleModel
             $alertMessage = $safety['safety_message']
                 ?? $result['content']
                 ?? implode(', ', $detectedConcerns);
+            // The assessment is about the patient's message the AI answered;
+            // the alert links to it.
             $extraEmails = implode(',', $this->getDangerNotificationEmails());
             $this->therapyService->createDangerAlert(
-                $conversationId, $detectedConcerns, $alertMessage, $extraEmails
+                $conversationId, $detectedConcerns, $alertMessage, $extraEmails,
+                $this->therapyService->getLatestPatientMessageId($conversationId)
             );
             $this->therapyService->setAIEnabled($conversationId, false);
 
@@ -670,7 +769,10 @@ class TherapyChatModel extends StyleModel
             } catch (Exception $e) {
                 error_log('TherapyChat: Failed to log post-LLM safety transaction: ' . $e->getMessage());
             }
+            return true;
         }
+
+        return false;
     }
 
     /**
@@ -867,6 +969,7 @@ class TherapyChatModel extends StyleModel
             'isSubject' => $this->isSubject(),
             'taggingEnabled' => $this->isTaggingEnabled(),
             'dangerDetectionEnabled' => $this->isDangerDetectionEnabled(),
+            'aiStreamingEnabled' => $this->isAIStreamingEnabled(),
 
             // Floating mode flag (set by server when rendered inside modal)
             'isFloatingMode' => false,
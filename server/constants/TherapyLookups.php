@@ -33,6 +33,9 @@ define('THERAPY_LOOKUP_ALERT_TYPES', 'therapyAlertTypes');
 /** Alert severity type code */
 define('THERAPY_LOOKUP_ALERT_SEVERITY', 'therapyAlertSeverity');
 
+/** Alert triage status type code */
+define('THERAPY_LOOKUP_ALERT_STATUS', 'therapyAlertStatus');
+
 /** Note type type code */
 define('THERAPY_LOOKUP_NOTE_TYPES', 'therapyNoteTypes');
 
@@ -42,6 +45,9 @@ define('THERAPY_LOOKUP_NOTE_STATUS', 'therapyNoteStatus');
 /** Draft message status type code */
 define('THERAPY_LOOKUP_DRAFT_STATUS', 'therapyDraftStatus');
 
+/** Scheduled message status type code */
+define('THERAPY_LOOKUP_SCHEDULED_STATUS', 'therapyScheduledStatus');
+
 /** Floating button position type code */
 define('THERAPY_LOOKUP_FLOATING_BUTTON_POSITIONS', 'floatingButtonPositions');
 
@@ -145,6 +151,38 @@ define('THERAPY_DRAFT_SENT', 'sent');
 /** Draft was discarded */
 define('THERAPY_DRAFT_DISCARDED', 'discarded');
 
+// =====================================================
+// SCHEDULED MESSAGE STATUS VALUES (lookup_code)
+// =====================================================
+
+/** Waiting for its send time */
+define('THERAPY_SCHEDULED_PENDING', 'pending');
+
+/** Delivered as a real message */
+define('THERAPY_SCHEDULED_SENT', 'sent');
+
+/** Cancelled before its send time */
+define('THERAPY_SCHEDULED_CANCELLED', 'cancelled');
+
+/** Delivery failed (e.g. the conversation no longer exists) */
+define('THERAPY_SCHEDULED_FAILED', 'failed');
+
+// =====================================================
+// ALERT STATUS VALUES (lookup_code)
+// =====================================================
+
+/** Not yet looked at */
+define('THERAPY_ALERT_STATUS_NEW', 'new');
+
+/** Seen by a therapist */
+define('THERAPY_ALERT_STATUS_ACKNOWLEDGED', 'acknowledged');
+
+/** A therapist is working on it */
+define('THERAPY_ALERT_STATUS_IN_PROGRESS', 'in_progress');
+
+/** Handled; resolution_note says how */
+define('THERAPY_ALERT_STATUS_RESOLVED', 'resolved');
+
 // =====================================================
 // VALID VALUE ARRAYS (for validation)
 // =====================================================
@@ -181,6 +219,22 @@ define('THERAPY_VALID_NOTE_STATUSES', [THERAPY_NOTE_STATUS_ACTIVE, THERAPY_NOTE_
 /** Valid draft statuses */
 define('THERAPY_VALID_DRAFT_STATUSES', [THERAPY_DRAFT_DRAFT, THERAPY_DRAFT_SENT, THERAPY_DRAFT_DISCARDED]);
 
+/** Valid scheduled message statuses */
+define('THERAPY_VALID_SCHEDULED_STATUSES', [
+    THERAPY_SCHEDULED_PENDING,
+    THERAPY_SCHEDULED_SENT,
+    THERAPY_SCHEDULED_CANCELLED,
+    THERAPY_SCHEDULED_FAILED
+]);
+
+/** Valid alert statuses */
+define('THERAPY_VALID_ALERT_STATUSES', [
+    THERAPY_ALERT_STATUS_NEW,
+    THERAPY_ALERT_STATUS_ACKNOWLEDGED,
+    THERAPY_ALERT_STATUS_IN_PROGRESS,
+    THERAPY_ALERT_STATUS_RESOLVED
+]);
+
 // =====================================================
 // TAG URGENCY LEVELS (used in alert metadata JSON)
 // These are NOT separate lookups - they're values stored
@@ -220,4 +274,184 @@ define('THERAPY_MAX_AUDIO_SIZE', 25 * 1024 * 1024);
 
 /** Default message preview length for email notifications */
 define('THERAPY_EMAIL_PREVIEW_LENGTH', 200);
+
+/** Minimum query length for cross-patient message search */
+define('THERAPY_SEARCH_MIN_QUERY_LENGTH', 2);
+
+/** Maximum messages returned by one cross-patient search */
+define('THERAPY_SEARCH_RESULT_LIMIT', 50);
+
+/** Characters of context kept on each side of a search match in snippets */
+define('THERAPY_SEARCH_SNIPPET_RADIUS', 60);
+
+/** Result pages read by one search while AI replies are re-checked against their display text */
+define('THERAPY_SEARCH_MAX_PAGES', 5);
+
+/** Seconds a retried message waits for the first request storing the same client_message_id */
+define('THERAPY_CLIENT_MESSAGE_LOCK_TIMEOUT', 5);
+
+// =====================================================
+// MESSAGE ATTACHMENTS
+// =====================================================
+
+/** Maximum size of one attachment in bytes (10 MB) */
+define('THERAPY_MAX_ATTACHMENT_SIZE', 10 * 1024 * 1024);
+
+/** Maximum number of attachments per message */
+define('THERAPY_MAX_ATTACHMENTS_PER_MESSAGE', 5);
+
+/** Allowed attachment MIME types (detected from the file content) */
+define('THERAPY_ATTACHMENT_MIME_TYPES', ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf']);
+
+/** Storage directory for attachments (outside the public assets, served via get_attachment) */
+define('THERAPY_ATTACHMENT_DIR', __DIR__ . '/../../attachments');
+
+// =====================================================
+// REAL-TIME UPDATES (Server-Sent Events)
+// =====================================================
+
+/** Seconds between change probes inside an SSE stream (a full snapshot is built only on a change) */
+define('THERAPY_SSE_CHECK_INTERVAL', 2);
+
+/** Seconds before the server closes an SSE stream (the browser reconnects) */
+define('THERAPY_SSE_MAX_DURATION', 55);
+
+/** Seconds between keep-alive pings on an idle SSE stream */
+define('THERAPY_SSE_PING_INTERVAL', 15);
+
+/** Valid real-time transports for the therapist dashboard */
+define('THERAPY_VALID_REALTIME_TRANSPORTS', ['auto', 'websocket', 'sse', 'polling']);
+
+// =====================================================
+// AI RESPONSE STREAMING
+// =====================================================
+
+/** Seconds a streamed AI response (send_message_stream) may take */
+define('THERAPY_STREAM_MAX_DURATION', 180);
+
+// =====================================================
+// TYPING INDICATORS
+// =====================================================
+
+/** Seconds after the last keystroke ping before a user no longer counts as typing */
+define('THERAPY_TYPING_TIMEOUT', 8);
+
+// =====================================================
+// SCHEDULED MESSAGES
+// =====================================================
+
+/** How far ahead (days) a therapist message can be scheduled */
+define('THERAPY_SCHEDULE_MAX_DAYS', 365);
+
+// =====================================================
+// MESSAGE TEMPLATES
+// =====================================================
+
+/** Maximum length of a template title */
+define('THERAPY_TEMPLATE_TITLE_MAX_LENGTH', 100);
+
+/** Maximum length of a template text (same as a message) */
+define('THERAPY_TEMPLATE_MAX_LENGTH', 4000);
+
+// =====================================================
+// DRAFT GUIDANCE
+// =====================================================
+
+/** Tones the therapist can ask an AI draft to be written in */
+define('THERAPY_VALID_DRAFT_TONES', ['warm', 'neutral', 'direct', 'encouraging']);
+
+/** Target lengths of an AI draft */
+define('THERAPY_VALID_DRAFT_LENGTHS', ['short', 'medium', 'long']);
+
+/** Maximum length of the free-text instruction for an AI draft */
+define('THERAPY_DRAFT_INSTRUCTION_MAX_LENGTH', 500);
+
+// =====================================================
+// STRUCTURED NOTE TEMPLATES
+// =====================================================
+
+/**
+ * Structured clinical note formats. A structured note stores its sections
+ * as JSON (therapyNotes.structured_content) and the rendered markdown in
+ * content. Keys are stable identifiers; labels are shown in the dashboard.
+ */
+define('THERAPY_NOTE_TEMPLATES', [
+    'soap' => [
+        'label' => 'SOAP',
+        'sections' => [
+            'subjective' => ['label' => 'Subjective', 'hint' => "Patient's own report: feelings, concerns, goals"],
+            'objective' => ['label' => 'Objective', 'hint' => 'Observations: affect, engagement, measurable data'],
+            'assessment' => ['label' => 'Assessment', 'hint' => 'Clinical interpretation and progress'],
+            'plan' => ['label' => 'Plan', 'hint' => 'Next steps, interventions, follow-up'],
+        ],
+    ],
+    'dap' => [
+        'label' => 'DAP',
+        'sections' => [
+            'data' => ['label' => 'Data', 'hint' => 'What the patient said and what was observed'],
+            'assessment' => ['label' => 'Assessment', 'hint' => 'Clinical interpretation and progress'],
+            'plan' => ['label' => 'Plan', 'hint' => 'Next steps, interventions, follow-up'],
+        ],
+    ],
+    'risk' => [
+        'label' => 'Risk assessment',
+        'sections' => [
+            'risk_factors' => ['label' => 'Risk factors', 'hint' => 'Suicidal ideation, self-harm, harm to others, substance use'],
+            'protective_factors' => ['label' => 'Protective factors', 'hint' => 'Support network, coping skills, reasons for living'],
+            'risk_level' => ['label' => 'Risk level', 'hint' => 'Overall estimate and rationale'],
+            'safety_plan' => ['label' => 'Safety plan and actions', 'hint' => 'Agreed steps, contacts, escalation'],
+        ],
+    ],
+]);
+
+// =====================================================
+// NOTE TAGS
+// =====================================================
+
+/** Tags offered when tagging a note (any other tag can be typed) */
+define('THERAPY_NOTE_SUGGESTED_TAGS', ['medication', 'safety plan', 'homework', 'diagnosis', 'family']);
+
+/** Maximum number of tags per note */
+define('THERAPY_NOTE_MAX_TAGS', 10);
+
+/** Maximum length of a single note tag */
+define('THERAPY_NOTE_TAG_MAX_LENGTH', 40);
+
+// =====================================================
+// SUMMARY OPTIONS
+// =====================================================
+
+/** Free-text output formats of an AI summary (note templates are the structured formats) */
+define('THERAPY_VALID_SUMMARY_FORMATS', ['narrative', 'bullets']);
+
+/** Focus areas an AI summary can concentrate on */
+define('THERAPY_VALID_SUMMARY_FOCUS_AREAS', ['mood', 'risk', 'homework']);
+
+/** Number of past summaries listed in the summary history */
+define('THERAPY_SUMMARY_HISTORY_LIMIT', 50);
+
+// =====================================================
+// ALERT TRIAGE
+// =====================================================
+
+/** Audit events of an alert (therapyAlertEvents.event) */
+define('THERAPY_ALERT_EVENT_STATUS', 'status');
+define('THERAPY_ALERT_EVENT_ASSIGNED', 'assigned');
+define('THERAPY_ALERT_EVENT_ESCALATED', 'escalated');
+
+/** Alert types that can only be resolved with a resolution note */
+define('THERAPY_ALERT_TYPES_REQUIRING_RESOLUTION_NOTE', [THERAPY_ALERT_DANGER]);
+
+/** Maximum number of alerts listed in the alerts inbox */
+define('THERAPY_ALERT_INBOX_LIMIT', 200);
+
+/** Maximum length of an alert resolution note */
+define('THERAPY_ALERT_NOTE_MAX_LENGTH', 2000);
+
+// =====================================================
+// ALERT ESCALATION
+// =====================================================
+
+/** Upper bound of an escalation rule's delay (one week) */
+define('THERAPY_ALERT_ESCALATION_MAX_MINUTES', 10080);
 ?>
@@ -0,0 +1,178 @@
+<?php
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+?>
+<?php
+
+/**
+ * Therapy Chat Cron Job
+ *
+ * Background work that must not depend on an open browser:
+ * - Delivery of due scheduled ("send later") therapist messages, with the
+ *   patient's email and push notification
+ * - Escalation of alerts nobody acknowledged (alert_escalation_rules)
+ *
+ * Run every minute from the system crontab, next to SelfHelp's
+ * ScheduledJobsQueue:
+ *
+ *   * * * * * php /path/to/selfhelp/server/plugins/sh-shp-llm_therapy_chat/server/cronjobs/TherapyChatCron.php
+ *
+ * Each message and alert is handled under a GET_LOCK, so overlapping runs
+ * are safe.
+ *
+ * @package LLM Therapy Chat Plugin
+ */
+
+if (php_sapi_name() !== 'cli') {
+    http_response_code(403);
+    exit;
+}
+
+require_once __DIR__ . "/../../../../service/Services.php";
+require_once __DIR__ . "/../service/globals.php";
+require_once __DIR__ . "/../service/TherapyMessageService.php";
+require_once __DIR__ . "/../service/TherapyNotificationService.php";
+
+class TherapyChatCron
+{
+    /** @var object SelfHelp services */
+    private $services;
+
+    /** @var object Database service */
+    private $db;
+
+    /** @var TherapyMessageService */
+    private $messageService;
+
+    public function __construct($services)
+    {
+        $this->services = $services;
+        $this->db = $services->get_db();
+        $this->messageService = new TherapyMessageService($services);
+    }
+
+    /**
+     * Run all jobs. A failing job is logged and does not stop the others.
+     */
+    public function run()
+    {
+        try {
+            $this->deliverDueScheduledMessages();
+        } catch (Exception $e) {
+            error_log("TherapyChatCron: Scheduled message delivery failed - " . $e->getMessage());
+        }
+        try {
+            $this->escalateOverdueAlerts();
+        } catch (Exception $e) {
+            error_log("TherapyChatCron: Alert escalation failed - " . $e->getMessage());
+        }
+    }
+
+    /**
+     * Deliver all due scheduled messages. Patient notifications use the
+     * templates of the first therapist dashboard section, where they are
+     * configured for immediate messages too.
+     *
+     * @return int Number of delivered messages
+     */
+    public function deliverDueScheduledMessages()
+    {
+        $due = $this->messageService->getDueScheduledMessages();
+        if (empty($due)) {
+            return 0;
+        }
+
+        $sectionIds = $this->getDashboardSectionIds();
+        $sectionId = $sectionIds[0] ?? null;
+        $notificationService = new TherapyNotificationService(
+            $this->services,
+            $this->messageService,
+            function ($name, $defaultValue = '') use ($sectionId) {
+                return $this->getSectionField($sectionId, $name) ?? $defaultValue;
+            }
+        );
+
+        $delivered = 0;
+        foreach ($due as $scheduled) {
+            if ($notificationService->deliverScheduledMessage($scheduled)) {
+                $delivered++;
+            }
+        }
+        return $delivered;
+    }
+
+    /**
+     * Escalate overdue alerts with the rules of every therapist dashboard
+     * section. With a single dashboard (the usual setup) these are simply
+     * its rules; with several, an alert escalates by the first rule that
+     * falls due.
+     *
+     * @return int Number of escalated alerts
+     */
+    public function escalateOverdueAlerts()
+    {
+        $escalated = 0;
+        foreach ($this->getDashboardSectionIds() as $sectionId) {
+            $rules = $this->messageService->parseEscalationRules(
+                $this->getSectionField($sectionId, 'alert_escalation_rules')
+            );
+            $groupId = (int)$this->getSectionField($sectionId, 'alert_escalation_group');
+            $escalated += $this->messageService->escalateOverdueAlerts($rules, $groupId > 0 ? $groupId : null);
+        }
+        return $escalated;
+    }
+
+    /* =========================================================================
+     * PRIVATE HELPERS
+     * ========================================================================= */
+
+    /**
+     * IDs of all sections with the therapistDashboard style.
+     *
+     * @return array
+     */
+    private function getDashboardSectionIds()
+    {
+        $sql = "SELECT s.id FROM sections s
+                INNER JOIN styles st ON st.id = s.id_styles
+                WHERE st.name = 'therapistDashboard'";
+        $rows = $this->db->query_db($sql);
+        return $rows ? array_map('intval', array_column($rows, 'id')) : array();
+    }
+
+    /**
+     * Value of a section field, falling back to the style's default value
+     * when the section never saved it (there is no model outside a page
+     * request to do this for us).
+     *
+     * @param int|null $sectionId Null = style default only
+     * @param string $fieldName
+     * @return string|null
+     */
+    private function getSectionField($sectionId, $fieldName)
+    {
+        if ($sectionId) {
+            $sql = "SELECT sft.content FROM sections_fields_translation sft
+                    INNER JOIN fields f ON f.id = sft.id_fields
+                    WHERE sft.id_sections = ? AND f.name = ?
+                    ORDER BY sft.id_languages ASC
+                    LIMIT 1";
+            $row = $this->db->query_db_first($sql, array($sectionId, $fieldName));
+            if ($row && $row['content'] !== null && $row['content'] !== '') {
+                return $row['content'];
+            }
+        }
+
+        $sql = "SELECT sf.default_value FROM styles_fields sf
+                INNER JOIN styles st ON st.id = sf.id_styles
+                INNER JOIN fields f ON f.id = sf.id_fields
+                WHERE st.name = 'therapistDashboard' AND f.name = ?";
+        $row = $this->db->query_db_first($sql, array($fieldName));
+        return $row ? $row['default_value'] : null;
+    }
+}
+
+$therapyChatCron = new TherapyChatCron(new Services(false));
+$therapyChatCron->run();
+?>
@@ -12,6 +12,7 @@ SELECT
     tcm.id,
     tcm.id_llmConversations,
     tcm.ai_enabled,
+    tcm.allow_patient_uploads,
     tcm.therapist_last_seen,
     tcm.subject_last_seen,
     tcm.created_at,
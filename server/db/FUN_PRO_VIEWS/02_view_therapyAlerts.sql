@@ -5,6 +5,11 @@
 -- This view now covers ALL notification types including tags
 -- (tag_received alert type with metadata JSON for reason/urgency).
 -- The old therapyTags table has been removed.
+--
+-- Triage: status (therapyAlertStatus lookup, 'new' when unset), assignee
+-- and resolution note; the audit trail is in therapyAlertEvents.
+-- escalated_at is set once an unacknowledged alert was escalated.
+-- message_id is the message that triggered the alert (deep links).
 -- =====================================================
 
 CREATE OR REPLACE VIEW `view_therapyAlerts` AS
@@ -17,19 +22,33 @@ SELECT
     ta.is_read,
     ta.read_at,
     ta.created_at,
+    -- Triage
+    ta.id_assignedTo,
+    assignee.name AS assigned_to_name,
+    ta.resolution_note,
+    ta.resolved_at,
+    ta.escalated_at,
     -- Conversation info
     lc.title AS conversation_title,
+    tcm.id AS conversation_id,
+    ta.id_llmMessages AS message_id,
     -- Patient info (conversation owner)
+    lc.id_users AS subject_id,
     u.name AS subject_name,
     vc.code AS subject_code,
     -- Resolved lookup values
     type_lookup.lookup_code AS alert_type,
     type_lookup.lookup_value AS alert_type_label,
     severity_lookup.lookup_code AS severity,
-    severity_lookup.lookup_value AS severity_label
+    severity_lookup.lookup_value AS severity_label,
+    COALESCE(status_lookup.lookup_code, 'new') AS status,
+    COALESCE(status_lookup.lookup_value, 'New') AS status_label
 FROM therapyAlerts ta
 INNER JOIN llmConversations lc ON lc.id = ta.id_llmConversations
 INNER JOIN users u ON u.id = lc.id_users
+LEFT JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = ta.id_llmConversations
+LEFT JOIN users assignee ON assignee.id = ta.id_assignedTo
 LEFT JOIN validation_codes vc ON vc.id_users = u.id AND vc.consumed IS NULL
 LEFT JOIN lookups type_lookup ON type_lookup.id = ta.id_alertTypes
-LEFT JOIN lookups severity_lookup ON severity_lookup.id = ta.id_alertSeverity;
+LEFT JOIN lookups severity_lookup ON severity_lookup.id = ta.id_alertSeverity
+LEFT JOIN lookups status_lookup ON status_lookup.id = ta.id_alertStatus;
@@ -92,7 +92,8 @@
 --
 -- MESSAGE EDITING/DELETION:
 -- Therapists can edit or soft-delete messages. We use llmMessages.sent_context
--- to track: { "edited_at": "...", "edited_by": 123, "original_content": "..." }
+-- to track: { "edited_at": "...", "edited_by": 123, "original_content": "...",
+--             "edit_history": [{ "content": "...", "edited_at": "...", "edited_by": 123 }] }
 -- For soft-delete: llmMessages.deleted = 1 (already exists in base table)
 --
 -- =====================================================
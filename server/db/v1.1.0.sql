@@ -0,0 +1,372 @@
+-- =====================================================
+-- SelfHelp Plugin: LLM Therapy Chat
+-- Version: 1.1.0
+-- Description: Incremental update on top of v1.0.0.sql
+--
+-- Every statement is idempotent (INSERT IGNORE / IF NOT EXISTS /
+-- add_table_column) so the script can be re-run safely.
+-- =====================================================
+
+START TRANSACTION;
+
+-- =====================================================
+-- REAL-TIME DASHBOARD UPDATES
+-- =====================================================
+-- The therapist dashboard receives change events through a pluggable
+-- transport:
+--   polling   - check_updates every dashboard_polling_interval seconds (default)
+--   auto      - WebSocket if a URL is configured, else polling
+--   websocket - external WebSocket gateway (dashboard_realtime_websocket_url)
+--   sse       - built-in ?action=stream_events endpoint (opt-in: every open
+--               dashboard tab holds one PHP worker, see README)
+-- =====================================================
+
+INSERT IGNORE INTO `fields` (`id`, `name`, `id_type`, `display`) VALUES
+(NULL, 'dashboard_realtime_transport', get_field_type_id('text'), '0'),
+(NULL, 'dashboard_realtime_websocket_url', get_field_type_id('text'), '0');
+
+INSERT IGNORE INTO `styles_fields` (`id_styles`, `id_fields`, `default_value`, `help`) VALUES
+(get_style_id('therapistDashboard'), get_field_id('dashboard_realtime_transport'), 'polling', 'Real-time update transport: polling (default), auto (WebSocket if a URL is set, else polling), websocket or sse. sse keeps one PHP worker busy per open dashboard tab; size the PHP-FPM pool for it before enabling. Unavailable transports fall back to polling automatically.'),
+(get_style_id('therapistDashboard'), get_field_id('dashboard_realtime_websocket_url'), '', 'WebSocket gateway URL (wss://...) that relays dashboard events as JSON {"type": "...", "data": {...}}. Leave empty to use polling (or Server-Sent Events with the sse transport).');
+
+-- =====================================================
+-- STREAMED AI RESPONSES
+-- =====================================================
+-- The patient chat shows AI replies while they are generated
+-- (?action=send_message_stream). Disable when a proxy buffers
+-- event streams; replies then appear once complete.
+-- =====================================================
+
+INSERT IGNORE INTO `fields` (`id`, `name`, `id_type`, `display`) VALUES
+(NULL, 'therapy_chat_stream_ai', get_field_type_id('checkbox'), '0');
+
+INSERT IGNORE INTO `styles_fields` (`id_styles`, `id_fields`, `default_value`, `help`) VALUES
+(get_style_id('therapyChat'), get_field_id('therapy_chat_stream_ai'), '1', 'Stream AI responses token by token. The patient can stop a response while it is being written. Default: enabled.');
+
+-- =====================================================
+-- MESSAGE ATTACHMENTS
+-- =====================================================
+-- Images (JPEG, PNG, GIF, WebP) and PDFs attached to chat messages.
+-- Files are stored under the plugin's attachments/ directory with a
+-- random name and are only served through ?action=get_attachment,
+-- which checks conversation access. Therapists can allow or forbid
+-- patient uploads per conversation (allow_patient_uploads).
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS `therapyMessageAttachments` (
+    `id` INT(10) UNSIGNED ZEROFILL NOT NULL AUTO_INCREMENT,
+    `id_llmMessages` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Message the file is attached to',
+    `id_llmConversations` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Conversation of the message (access control)',
+    `id_users` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Uploader',
+    `file_name` VARCHAR(255) NOT NULL COMMENT 'Original file name (display only)',
+    `stored_name` VARCHAR(100) NOT NULL COMMENT 'Random file name inside the attachments directory',
+    `mime_type` VARCHAR(100) NOT NULL COMMENT 'MIME type detected from the file content',
+    `file_size` INT UNSIGNED NOT NULL COMMENT 'Size in bytes',
+    `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (`id`),
+    UNIQUE KEY `idx_stored_name` (`stored_name`),
+    KEY `idx_message` (`id_llmMessages`),
+    KEY `idx_conversation` (`id_llmConversations`),
+    CONSTRAINT `fk_therapyAttach_llmMsg` FOREIGN KEY (`id_llmMessages`) REFERENCES `llmMessages` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyAttach_llmConv` FOREIGN KEY (`id_llmConversations`) REFERENCES `llmConversations` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyAttach_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CALL add_table_column('therapyConversationMeta', 'allow_patient_uploads', 'TINYINT(1) DEFAULT 1 COMMENT ''1=patient may attach files, 0=only therapists''');
+
+-- =====================================================
+-- TYPING INDICATORS
+-- =====================================================
+-- Throttled keystroke pings from the message input (?action=typing).
+-- A row counts as "typing" for THERAPY_TYPING_TIMEOUT seconds after
+-- typing_at, so closed tabs expire without cleanup; the row is removed
+-- when the user clears the input or sends the message.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS `therapyTypingStatus` (
+    `id_therapyConversationMeta` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Conversation being typed in',
+    `id_users` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'User who is typing',
+    `typing_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP COMMENT 'Last keystroke ping',
+    PRIMARY KEY (`id_therapyConversationMeta`, `id_users`),
+    CONSTRAINT `fk_therapyTyping_conv` FOREIGN KEY (`id_therapyConversationMeta`) REFERENCES `therapyConversationMeta` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyTyping_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- SCHEDULED THERAPIST MESSAGES
+-- =====================================================
+-- "Send later" messages written in the therapist dashboard. A pending
+-- message is delivered by the plugin's cron job after scheduled_at (see
+-- TherapyNotificationService::deliverScheduledMessage) and then links to
+-- the real message in llmMessages.
+-- =====================================================
+
+INSERT IGNORE INTO lookups (type_code, lookup_code, lookup_value, lookup_description) VALUES
+('therapyScheduledStatus', 'pending', 'Pending', 'Waiting for its send time'),
+('therapyScheduledStatus', 'sent', 'Sent', 'Delivered to the patient'),
+('therapyScheduledStatus', 'cancelled', 'Cancelled', 'Cancelled before its send time'),
+('therapyScheduledStatus', 'failed', 'Failed', 'Could not be delivered');
+
+CREATE TABLE IF NOT EXISTS `therapyScheduledMessages` (
+    `id` INT(10) UNSIGNED ZEROFILL NOT NULL AUTO_INCREMENT,
+    `id_llmConversations` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Which conversation the message goes to',
+    `id_users` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Therapist who scheduled the message',
+    `content` TEXT NOT NULL COMMENT 'Message text',
+    `scheduled_at` DATETIME NOT NULL COMMENT 'When to send (server time)',
+    `id_scheduledStatus` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'FK to lookups (therapyScheduledStatus)',
+    `id_llmMessages` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Link to sent message in llmMessages (NULL until sent)',
+    `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    `sent_at` TIMESTAMP NULL DEFAULT NULL COMMENT 'When the message was delivered',
+    PRIMARY KEY (`id`),
+    KEY `idx_conversation` (`id_llmConversations`),
+    KEY `idx_due` (`id_scheduledStatus`, `scheduled_at`),
+    CONSTRAINT `fk_therapySched_llmConv` FOREIGN KEY (`id_llmConversations`) REFERENCES `llmConversations` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapySched_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapySched_status` FOREIGN KEY (`id_scheduledStatus`) REFERENCES `lookups` (`id`) ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapySched_llmMsg` FOREIGN KEY (`id_llmMessages`) REFERENCES `llmMessages` (`id`) ON DELETE SET NULL ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- MESSAGE TEMPLATES
+-- =====================================================
+-- Canned responses inserted with "/" in the dashboard message input.
+-- Templates without a group are personal; templates with id_groups are
+-- shared with every therapist assigned to that group. Content may use
+-- {patient_name} and {therapist_name}, resolved in the browser.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS `therapyMessageTemplates` (
+    `id` INT(10) UNSIGNED ZEROFILL NOT NULL AUTO_INCREMENT,
+    `id_users` INT(10) UNSIGNED ZEROFILL NOT NULL COMMENT 'Therapist who created the template',
+    `id_groups` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Shared with this group (NULL = personal)',
+    `title` VARCHAR(100) NOT NULL COMMENT 'Short name shown in the / menu',
+    `content` TEXT NOT NULL COMMENT 'Template text with optional {variables}',
+    `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (`id`),
+    KEY `idx_user` (`id_users`),
+    KEY `idx_group` (`id_groups`),
+    CONSTRAINT `fk_therapyTemplates_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyTemplates_groups` FOREIGN KEY (`id_groups`) REFERENCES `groups` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- GUIDED DRAFT GENERATION
+-- =====================================================
+-- Therapists can steer an AI draft with a free-text instruction, a tone
+-- and a target length. The guidance is stored with the draft (JSON) and
+-- copied into the sent message's metadata (draft_guidance).
+-- =====================================================
+
+CALL add_table_column('therapyDraftMessages', 'generation_options', 'TEXT DEFAULT NULL COMMENT ''JSON {instruction, tone, length} the draft was generated with''');
+
+-- =====================================================
+-- STRUCTURED NOTE TEMPLATES
+-- =====================================================
+-- Clinical notes can follow a template (SOAP, DAP, risk assessment; see
+-- THERAPY_NOTE_TEMPLATES). The sections are stored as JSON
+-- {template, sections}; content keeps the rendered markdown so search,
+-- export and older clients keep working.
+-- =====================================================
+
+CALL add_table_column('therapyNotes', 'structured_content', 'TEXT DEFAULT NULL COMMENT ''JSON {template, sections} for template-based notes (NULL = free text)''');
+
+-- =====================================================
+-- NOTE PINNING AND TAGS
+-- =====================================================
+-- Pinned notes are listed first; tags ("medication", "safety plan", ...)
+-- are stored as a JSON array of lowercase strings and used for filtering.
+-- =====================================================
+
+CALL add_table_column('therapyNotes', 'pinned', 'TINYINT(1) NOT NULL DEFAULT 0 COMMENT ''Pinned notes are listed first''');
+CALL add_table_column('therapyNotes', 'tags', 'TEXT DEFAULT NULL COMMENT ''JSON array of lowercase tags''');
+
+-- =====================================================
+-- NOTE REVISIONS
+-- =====================================================
+-- Every saved version of a note (creation and each edit), so therapists
+-- can review the history, diff revisions and restore an older version.
+-- Notes created before this table existed get their current version
+-- recorded when they are first edited.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS `therapyNoteRevisions` (
+    `id` INT(10) UNSIGNED ZEROFILL NOT NULL AUTO_INCREMENT,
+    `id_therapyNotes` INT(10) UNSIGNED ZEROFILL NOT NULL,
+    `id_users` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Therapist who saved this version',
+    `content` TEXT NOT NULL COMMENT 'Note content of this version',
+    `structured_content` TEXT DEFAULT NULL COMMENT 'JSON {template, sections} of this version (NULL = free text)',
+    `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (`id`),
+    KEY `idx_note` (`id_therapyNotes`),
+    CONSTRAINT `fk_therapyNoteRevisions_notes` FOREIGN KEY (`id_therapyNotes`) REFERENCES `therapyNotes` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyNoteRevisions_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE SET NULL ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- ALERT TRIAGE
+-- =====================================================
+-- The alerts inbox tracks each alert through new -> acknowledged ->
+-- in progress -> resolved, with an optional assignee and a resolution
+-- note (required for danger_detected). is_read stays the "seen" flag
+-- of the banner; any status after "new" also marks the alert as read.
+-- therapyAlertEvents is the audit trail: every status change and
+-- assignment with the therapist who made it.
+-- =====================================================
+
+INSERT IGNORE INTO lookups (type_code, lookup_code, lookup_value, lookup_description) VALUES
+('therapyAlertStatus', 'new', 'New', 'Not yet looked at'),
+('therapyAlertStatus', 'acknowledged', 'Acknowledged', 'Seen by a therapist'),
+('therapyAlertStatus', 'in_progress', 'In progress', 'A therapist is working on it'),
+('therapyAlertStatus', 'resolved', 'Resolved', 'Handled, see the resolution note');
+
+CALL add_table_column('therapyAlerts', 'id_alertStatus', 'INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT ''FK to lookups (therapyAlertStatus)''');
+CALL add_table_column('therapyAlerts', 'id_assignedTo', 'INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT ''Therapist the alert is assigned to''');
+CALL add_table_column('therapyAlerts', 'resolution_note', 'TEXT DEFAULT NULL COMMENT ''How the alert was handled''');
+CALL add_table_column('therapyAlerts', 'resolved_at', 'TIMESTAMP NULL DEFAULT NULL COMMENT ''When the alert was resolved''');
+
+-- Existing alerts start as new (unread) or acknowledged (read)
+UPDATE therapyAlerts ta
+INNER JOIN lookups l ON l.type_code = 'therapyAlertStatus'
+    AND l.lookup_code = IF(ta.is_read = 1, 'acknowledged', 'new')
+SET ta.id_alertStatus = l.id
+WHERE ta.id_alertStatus IS NULL;
+
+CREATE TABLE IF NOT EXISTS `therapyAlertEvents` (
+    `id` INT(10) UNSIGNED ZEROFILL NOT NULL AUTO_INCREMENT,
+    `id_therapyAlerts` INT(10) UNSIGNED ZEROFILL NOT NULL,
+    `id_users` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Therapist who made the change (NULL = system)',
+    `event` VARCHAR(20) NOT NULL COMMENT 'status / assigned / escalated',
+    `id_alertStatus` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Status after the event (FK to lookups)',
+    `id_assignedTo` INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT 'Assignee after the event',
+    `note` TEXT DEFAULT NULL COMMENT 'Resolution note given with the change',
+    `created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (`id`),
+    KEY `idx_alert` (`id_therapyAlerts`),
+    CONSTRAINT `fk_therapyAlertEvents_alerts` FOREIGN KEY (`id_therapyAlerts`) REFERENCES `therapyAlerts` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyAlertEvents_users` FOREIGN KEY (`id_users`) REFERENCES `users` (`id`) ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyAlertEvents_status` FOREIGN KEY (`id_alertStatus`) REFERENCES `lookups` (`id`) ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT `fk_therapyAlertEvents_assignee` FOREIGN KEY (`id_assignedTo`) REFERENCES `users` (`id`) ON DELETE SET NULL ON UPDATE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- =====================================================
+-- ALERT ESCALATION
+-- =====================================================
+-- Alerts nobody acknowledges are escalated to supervisors. Rules are
+-- configured on the dashboard (alert_escalation_rules, JSON list of
+-- {"alert_type", "severity", "minutes"}; the first matching rule wins).
+-- Supervisors are the members of alert_escalation_group who monitor one
+-- of the patient's groups; without any, all therapists of the patient
+-- are notified again. Escalations are checked every minute by the
+-- plugin's cron job (server/cronjobs/TherapyChatCron.php) and recorded as
+-- "escalated" events in therapyAlertEvents.
+-- =====================================================
+
+CALL add_table_column('therapyAlerts', 'escalated_at', 'TIMESTAMP NULL DEFAULT NULL COMMENT ''When the unacknowledged alert was escalated''');
+
+INSERT IGNORE INTO `fields` (`id`, `name`, `id_type`, `display`) VALUES
+(NULL, 'alert_escalation_rules', get_field_type_id('json'), '0'),
+(NULL, 'alert_escalation_group', get_field_type_id('select-group'), '0');
+
+INSERT IGNORE INTO `styles_fields` (`id_styles`, `id_fields`, `default_value`, `help`) VALUES
+(get_style_id('therapistDashboard'), get_field_id('alert_escalation_rules'), '[{"alert_type": "danger_detected", "minutes": 15}, {"severity": "emergency", "minutes": 15}, {"severity": "critical", "minutes": 30}]', 'Escalation rules for alerts that stay unacknowledged: a JSON list of {"alert_type": "...", "severity": "...", "minutes": N}. alert_type and severity are optional; the first matching rule wins. An empty list disables escalation.'),
+(get_style_id('therapistDashboard'), get_field_id('alert_escalation_group'), '', 'Group of the clinical supervisors. Escalated alerts are emailed to its members who monitor one of the patient''s groups; if there are none, to all therapists of the patient.');
+
+-- =====================================================
+-- ALERT MESSAGE LINKS
+-- =====================================================
+-- Alerts point at the message that triggered them (the tagging message,
+-- or the patient message the AI flagged as dangerous), so the dashboard
+-- can scroll to it. Tag alerts kept the ID in metadata.message_id so far.
+-- =====================================================
+
+CALL add_table_column('therapyAlerts', 'id_llmMessages', 'INT(10) UNSIGNED ZEROFILL DEFAULT NULL COMMENT ''Message that triggered the alert''');
+
+UPDATE therapyAlerts ta
+INNER JOIN llmMessages lm ON lm.id = CAST(JSON_UNQUOTE(JSON_EXTRACT(ta.metadata, '$.message_id')) AS UNSIGNED)
+    AND lm.id_llmConversations = ta.id_llmConversations
+SET ta.id_llmMessages = lm.id
+WHERE ta.id_llmMessages IS NULL AND ta.metadata IS NOT NULL;
+
+-- Re-create the alerts view with the triage, escalation and message columns
+-- (keep in sync with FUN_PRO_VIEWS/02_view_therapyAlerts.sql)
+CREATE OR REPLACE VIEW `view_therapyAlerts` AS
+SELECT
+    ta.id,
+    ta.id_llmConversations,
+    ta.id_users,
+    ta.message,
+    ta.metadata,
+    ta.is_read,
+    ta.read_at,
+    ta.created_at,
+    -- Triage
+    ta.id_assignedTo,
+    assignee.name AS assigned_to_name,
+    ta.resolution_note,
+    ta.resolved_at,
+    ta.escalated_at,
+    -- Conversation info
+    lc.title AS conversation_title,
+    tcm.id AS conversation_id,
+    ta.id_llmMessages AS message_id,
+    -- Patient info (conversation owner)
+    lc.id_users AS subject_id,
+    u.name AS subject_name,
+    vc.code AS subject_code,
+    -- Resolved lookup values
+    type_lookup.lookup_code AS alert_type,
+    type_lookup.lookup_value AS alert_type_label,
+    severity_lookup.lookup_code AS severity,
+    severity_lookup.lookup_value AS severity_label,
+    COALESCE(status_lookup.lookup_code, 'new') AS status,
+    COALESCE(status_lookup.lookup_value, 'New') AS status_label
+FROM therapyAlerts ta
+INNER JOIN llmConversations lc ON lc.id = ta.id_llmConversations
+INNER JOIN users u ON u.id = lc.id_users
+LEFT JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = ta.id_llmConversations
+LEFT JOIN users assignee ON assignee.id = ta.id_assignedTo
+LEFT JOIN validation_codes vc ON vc.id_users = u.id AND vc.consumed IS NULL
+LEFT JOIN lookups type_lookup ON type_lookup.id = ta.id_alertTypes
+LEFT JOIN lookups severity_lookup ON severity_lookup.id = ta.id_alertSeverity
+LEFT JOIN lookups status_lookup ON status_lookup.id = ta.id_alertStatus;
+
+-- Re-create the conversations view with the new column
+-- (keep in sync with FUN_PRO_VIEWS/01_view_therapyConversations.sql)
+CREATE OR REPLACE VIEW `view_therapyConversations` AS
+SELECT
+    tcm.id,
+    tcm.id_llmConversations,
+    tcm.ai_enabled,
+    tcm.allow_patient_uploads,
+    tcm.therapist_last_seen,
+    tcm.subject_last_seen,
+    tcm.created_at,
+    tcm.updated_at,
+    -- From llmConversations (the patient's conversation)
+    lc.id_users,
+    lc.title,
+    lc.model,
+    lc.deleted,
+    lc.blocked,
+    -- Patient info
+    u.name AS subject_name,
+    vc.code AS subject_code,
+    u.email AS subject_email,
+    -- Resolved lookup values
+    mode_lookup.lookup_code AS mode,
+    mode_lookup.lookup_value AS mode_label,
+    status_lookup.lookup_code AS status,
+    status_lookup.lookup_value AS status_label,
+    risk_lookup.lookup_code AS risk_level,
+    risk_lookup.lookup_value AS risk_level_label
+FROM therapyConversationMeta tcm
+INNER JOIN llmConversations lc ON lc.id = tcm.id_llmConversations
+INNER JOIN users u ON u.id = lc.id_users
+LEFT JOIN validation_codes vc ON vc.id_users = u.id AND vc.consumed IS NULL
+LEFT JOIN lookups mode_lookup ON mode_lookup.id = tcm.id_chatModes
+LEFT JOIN lookups status_lookup ON status_lookup.id = tcm.id_conversationStatus
+LEFT JOIN lookups risk_lookup ON risk_lookup.id = tcm.id_riskLevels;
+
+COMMIT;
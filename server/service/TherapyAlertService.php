@@ -38,9 +38,11 @@ class TherapyAlertService extends TherapyChatService
      * @param string $severity THERAPY_SEVERITY_* constant
      * @param int|null $targetUserId Specific therapist (NULL = all assigned)
      * @param array|null $metadata Extra data
+     * @param string $extraNotificationEmails Comma-separated emails (critical/emergency only)
+     * @param int|null $messageId llmMessages.id of the message that triggered the alert
      * @return int|bool Alert ID or false
      */
-    public function createAlert($llmConversationId, $alertType, $message, $severity = THERAPY_SEVERITY_INFO, $targetUserId = null, $metadata = null, $extraNotificationEmails = '')
+    public function createAlert($llmConversationId, $alertType, $message, $severity = THERAPY_SEVERITY_INFO, $targetUserId = null, $metadata = null, $extraNotificationEmails = '', $messageId = null)
     {
         if (!in_array($alertType, THERAPY_VALID_ALERT_TYPES)) {
             return false;
@@ -51,6 +53,7 @@ class TherapyAlertService extends TherapyChatService
 
         $alertTypeId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_TYPES, $alertType);
         $severityId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_SEVERITY, $severity);
+        $statusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_STATUS, THERAPY_ALERT_STATUS_NEW);
 
         if (!$alertTypeId) {
             return false;
@@ -61,6 +64,8 @@ class TherapyAlertService extends TherapyChatService
             'id_users' => $targetUserId,
             'id_alertTypes' => $alertTypeId,
             'id_alertSeverity' => $severityId,
+            'id_alertStatus' => $statusId ?: null,
+            'id_llmMessages' => $messageId ?: null,
             'message' => $message,
             'metadata' => $metadata ? json_encode($metadata) : null
         );
@@ -84,9 +89,10 @@ class TherapyAlertService extends TherapyChatService
      * @param array $detectedConcerns Safety concern categories from LLM (e.g. ['suicide', 'self_harm'])
      * @param string $safetyMessage The LLM's safety message or the AI response content
      * @param string $extraNotificationEmails Comma-separated emails
+     * @param int|null $messageId The patient message the assessment flagged
      * @return int|bool
      */
-    public function createDangerAlert($conversationId, $detectedConcerns, $safetyMessage, $extraNotificationEmails = '')
+    public function createDangerAlert($conversationId, $detectedConcerns, $safetyMessage, $extraNotificationEmails = '', $messageId = null)
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) {
@@ -99,7 +105,8 @@ class TherapyAlertService extends TherapyChatService
 
         $metadata = array(
             'detected_concerns' => $detectedConcerns,
-            'safety_message' => mb_substr($safetyMessage, 0, 500)
+            'safety_message' => mb_substr($safetyMessage, 0, 500),
+            'message_id' => $messageId
         );
 
         // Elevate risk to critical
@@ -112,7 +119,8 @@ class TherapyAlertService extends TherapyChatService
             THERAPY_SEVERITY_EMERGENCY,
             null,
             $metadata,
-            $extraNotificationEmails
+            $extraNotificationEmails,
+            $messageId
         );
     }
 
@@ -153,7 +161,9 @@ class TherapyAlertService extends TherapyChatService
             $message,
             $severity,
             $therapistId,
-            $metadata
+            $metadata,
+            '',
+            $messageId
         );
     }
 
@@ -165,7 +175,7 @@ class TherapyAlertService extends TherapyChatService
      * Get alerts for a therapist (across all their conversations).
      *
      * @param int $therapistId
-     * @param array $filters (unread_only, alert_type, severity)
+     * @param array $filters (unread_only, alert_type, severity, status, conversation_id, date_from, date_to)
      * @param int $limit
      * @return array
      */
@@ -192,6 +202,26 @@ class TherapyAlertService extends TherapyChatService
             $sql .= " AND alert_type = ?";
             $params[] = $filters['alert_type'];
         }
+        if (!empty($filters['severity'])) {
+            $sql .= " AND severity = ?";
+            $params[] = $filters['severity'];
+        }
+        if (!empty($filters['status'])) {
+            $sql .= " AND status = ?";
+            $params[] = $filters['status'];
+        }
+        if (!empty($filters['conversation_id'])) {
+            $sql .= " AND conversation_id = ?";
+            $params[] = $filters['conversation_id'];
+        }
+        if (!empty($filters['date_from'])) {
+            $sql .= " AND created_at >= ?";
+            $params[] = $filters['date_from'] . ' 00:00:00';
+        }
+        if (!empty($filters['date_to'])) {
+            $sql .= " AND created_at <= ?";
+            $params[] = $filters['date_to'] . ' 23:59:59';
+        }
 
         $sql .= " ORDER BY
                     FIELD(severity, '" . THERAPY_SEVERITY_EMERGENCY . "', '" . THERAPY_SEVERITY_CRITICAL . "', '" . THERAPY_SEVERITY_WARNING . "', '" . THERAPY_SEVERITY_INFO . "'),
@@ -229,18 +259,58 @@ class TherapyAlertService extends TherapyChatService
         return intval($result['cnt'] ?? 0);
     }
 
+    /**
+     * Get the latest alert ID visible to a therapist.
+     * Used by real-time change detection: a higher ID means a new alert.
+     *
+     * @param int $therapistId
+     * @return int|null
+     */
+    public function getLatestAlertIdForTherapist($therapistId)
+    {
+        $sql = "SELECT MAX(ta.id) as latest_id
+                FROM therapyAlerts ta
+                INNER JOIN llmConversations lc ON lc.id = ta.id_llmConversations
+                INNER JOIN users_groups ug ON ug.id_users = lc.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                WHERE (ta.id_users IS NULL OR ta.id_users = :tid2)";
+        $result = $this->db->query_db_first($sql, array(':tid' => $therapistId, ':tid2' => $therapistId));
+        return $result && $result['latest_id'] !== null ? (int)$result['latest_id'] : null;
+    }
+
+    /**
+     * Get the time of the latest escalation of an alert visible to a therapist.
+     * Used by real-time change detection: a later time means an escalation.
+     *
+     * @param int $therapistId
+     * @return string|null
+     */
+    public function getLatestAlertEscalationForTherapist($therapistId)
+    {
+        $sql = "SELECT MAX(ta.escalated_at) as latest_escalation
+                FROM therapyAlerts ta
+                INNER JOIN llmConversations lc ON lc.id = ta.id_llmConversations
+                INNER JOIN users_groups ug ON ug.id_users = lc.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                WHERE (ta.id_users IS NULL OR ta.id_users = :tid2)";
+        $result = $this->db->query_db_first($sql, array(':tid' => $therapistId, ':tid2' => $therapistId));
+        return $result['latest_escalation'] ?? null;
+    }
+
     /* =========================================================================
      * ALERT MANAGEMENT
      * ========================================================================= */
 
     /**
-     * Mark an alert as read.
+     * Mark an alert as read. A new alert becomes acknowledged.
      *
      * @param int $alertId
+     * @param int|null $therapistId Therapist who read it (audit trail)
      * @return bool
      */
-    public function markAlertRead($alertId)
+    public function markAlertRead($alertId, $therapistId = null)
     {
+        $this->acknowledgeNewAlerts(array($alertId), $therapistId);
         return $this->db->update_by_ids(
             'therapyAlerts',
             array('is_read' => 1, 'read_at' => date('Y-m-d H:i:s')),
@@ -267,9 +337,13 @@ class TherapyAlertService extends TherapyChatService
             if (!$conversation || empty($conversation['id_llmConversations'])) {
                 return false;
             }
-            $sql = "UPDATE therapyAlerts SET is_read = 1, read_at = NOW()
-                    WHERE id_llmConversations = ? AND (id_users IS NULL OR id_users = ?) AND is_read = 0";
-            $this->db->query_db($sql, array($conversation['id_llmConversations'], $therapistId));
+            $where = "id_llmConversations = ? AND (id_users IS NULL OR id_users = ?) AND is_read = 0";
+            $params = array($conversation['id_llmConversations'], $therapistId);
+            $this->acknowledgeNewAlerts(
+                array_column($this->db->query_db("SELECT id FROM therapyAlerts WHERE $where", $params) ?: array(), 'id'),
+                $therapistId
+            );
+            $this->db->query_db("UPDATE therapyAlerts SET is_read = 1, read_at = NOW() WHERE $where", $params);
         } else {
             // Mark ALL unread alerts for this therapist across all conversations
             $conversations = $this->getTherapyConversationsByTherapist($therapistId, array(), THERAPY_STATS_LIMIT, 0);
@@ -278,19 +352,340 @@ class TherapyAlertService extends TherapyChatService
             }
             $llmIds = array_column($conversations, 'id_llmConversations');
             $placeholders = implode(',', array_fill(0, count($llmIds), '?'));
-            $sql = "UPDATE therapyAlerts SET is_read = 1, read_at = NOW()
-                    WHERE id_llmConversations IN ($placeholders)
+            $where = "id_llmConversations IN ($placeholders)
                     AND (id_users IS NULL OR id_users = ?) AND is_read = 0";
             $params = array_merge($llmIds, array($therapistId));
-            $this->db->query_db($sql, $params);
+            $this->acknowledgeNewAlerts(
+                array_column($this->db->query_db("SELECT id FROM therapyAlerts WHERE $where", $params) ?: array(), 'id'),
+                $therapistId
+            );
+            $this->db->query_db("UPDATE therapyAlerts SET is_read = 1, read_at = NOW() WHERE $where", $params);
         }
         return true;
     }
 
+    /* =========================================================================
+     * ALERT TRIAGE
+     * ========================================================================= */
+
+    /**
+     * Get an alert the therapist may handle (same visibility as getAlertsForTherapist).
+     *
+     * @param int $alertId
+     * @param int $therapistId
+     * @return array|null Row of view_therapyAlerts
+     */
+    public function getAlertForTherapist($alertId, $therapistId)
+    {
+        $alert = $this->db->query_db_first(
+            "SELECT * FROM view_therapyAlerts WHERE id = :id",
+            array(':id' => $alertId)
+        );
+        if (!$alert) {
+            return null;
+        }
+        if ($alert['id_users'] !== null && (int)$alert['id_users'] !== (int)$therapistId) {
+            return null;
+        }
+        return $this->canTherapistAccessPatient($therapistId, $alert['subject_id']) ? $alert : null;
+    }
+
+    /**
+     * Move an alert to another triage status.
+     *
+     * Any status after "new" also marks the alert as read. Resolving stores
+     * the resolution note; reopening a resolved alert clears it (the audit
+     * trail keeps it).
+     *
+     * @param int $alertId
+     * @param int $therapistId
+     * @param string $status THERAPY_ALERT_STATUS_* constant
+     * @param string|null $note Resolution note
+     * @return bool False if the alert is not accessible or the status unknown
+     */
+    public function updateAlertStatus($alertId, $therapistId, $status, $note = null)
+    {
+        $alert = $this->getAlertForTherapist($alertId, $therapistId);
+        $statusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_STATUS, $status);
+        if (!$alert || !$statusId) {
+            return false;
+        }
+
+        $now = date('Y-m-d H:i:s');
+        $data = array('id_alertStatus' => $statusId);
+        if ($status !== THERAPY_ALERT_STATUS_NEW && !$alert['is_read']) {
+            $data['is_read'] = 1;
+            $data['read_at'] = $now;
+        }
+        if ($status === THERAPY_ALERT_STATUS_RESOLVED) {
+            $data['resolution_note'] = $note;
+            $data['resolved_at'] = $now;
+        } elseif ($alert['status'] === THERAPY_ALERT_STATUS_RESOLVED) {
+            $data['resolution_note'] = null;
+            $data['resolved_at'] = null;
+        }
+
+        if ($this->db->update_by_ids('therapyAlerts', $data, array('id' => $alertId)) === false) {
+            return false;
+        }
+
+        $this->addAlertEvent($alertId, $therapistId, THERAPY_ALERT_EVENT_STATUS, $note);
+        $this->logTransaction(
+            transactionTypes_update, 'therapyAlerts', $alertId, $therapistId,
+            'Alert status set to ' . $status
+        );
+        return true;
+    }
+
+    /**
+     * Assign an alert to a colleague (or remove the assignment).
+     *
+     * @param int $alertId
+     * @param int $therapistId Therapist making the change
+     * @param int|null $assigneeId A therapist of the patient (see getTherapistsForPatient), null = unassigned
+     * @return bool
+     */
+    public function assignAlert($alertId, $therapistId, $assigneeId)
+    {
+        $alert = $this->getAlertForTherapist($alertId, $therapistId);
+        if (!$alert) {
+            return false;
+        }
+        if ($assigneeId !== null) {
+            $colleagueIds = array_map('intval', array_column($this->getTherapistsForPatient($alert['subject_id']), 'id'));
+            if (!in_array((int)$assigneeId, $colleagueIds, true)) {
+                return false;
+            }
+        }
+
+        $updated = $this->db->update_by_ids(
+            'therapyAlerts',
+            array('id_assignedTo' => $assigneeId),
+            array('id' => $alertId)
+        );
+        if ($updated === false) {
+            return false;
+        }
+
+        $this->addAlertEvent($alertId, $therapistId, THERAPY_ALERT_EVENT_ASSIGNED);
+        $this->logTransaction(
+            transactionTypes_update, 'therapyAlerts', $alertId, $therapistId,
+            $assigneeId !== null ? 'Alert assigned to user #' . $assigneeId : 'Alert unassigned'
+        );
+        return true;
+    }
+
+    /**
+     * Audit trail of an alert: who changed its status or assignment, oldest first.
+     *
+     * @param int $alertId
+     * @return array [{id, event, note, created_at, user_id, user_name, status, status_label, assigned_to, assigned_to_name}]
+     */
+    public function getAlertEvents($alertId)
+    {
+        $sql = "SELECT e.id, e.event, e.note, e.created_at,
+                       e.id_users AS user_id, u.name AS user_name,
+                       s.lookup_code AS status, s.lookup_value AS status_label,
+                       e.id_assignedTo AS assigned_to, a.name AS assigned_to_name
+                FROM therapyAlertEvents e
+                LEFT JOIN users u ON u.id = e.id_users
+                LEFT JOIN users a ON a.id = e.id_assignedTo
+                LEFT JOIN lookups s ON s.id = e.id_alertStatus
+                WHERE e.id_therapyAlerts = :id
+                ORDER BY e.id ASC";
+        $rows = $this->db->query_db($sql, array(':id' => $alertId));
+        if (!$rows) {
+            return array();
+        }
+
+        foreach ($rows as &$row) {
+            $row['id'] = (int)$row['id'];
+            $row['user_id'] = $row['user_id'] !== null ? (int)$row['user_id'] : null;
+            $row['assigned_to'] = $row['assigned_to'] !== null ? (int)$row['assigned_to'] : null;
+        }
+        unset($row);
+        return $rows;
+    }
+
+    /* =========================================================================
+     * ALERT ESCALATION
+     * ========================================================================= */
+
+    /**
+     * Escalation rules from an alert_escalation_rules field value. Rules with
+     * an unknown alert type or severity or without a valid delay are ignored.
+     *
+     * @param string|array|null $raw JSON list of {alert_type?, severity?, minutes}
+     * @return array [{alert_type, severity, minutes}, ...]
+     */
+    public function parseEscalationRules($raw)
+    {
+        $decoded = is_string($raw) ? json_decode($raw, true) : $raw;
+        if (!is_array($decoded)) {
+            return array();
+        }
+
+        $rules = array();
+        foreach ($decoded as $rule) {
+            if (!is_array($rule)) continue;
+            $alertType = $rule['alert_type'] ?? null;
+            $severity = $rule['severity'] ?? null;
+            $minutes = (int)($rule['minutes'] ?? 0);
+            if ($alertType !== null && !in_array($alertType, THERAPY_VALID_ALERT_TYPES, true)) continue;
+            if ($severity !== null && !in_array($severity, THERAPY_VALID_SEVERITIES, true)) continue;
+            if ($minutes < 1 || $minutes > THERAPY_ALERT_ESCALATION_MAX_MINUTES) continue;
+            $rules[] = array('alert_type' => $alertType, 'severity' => $severity, 'minutes' => $minutes);
+        }
+        return $rules;
+    }
+
+    /**
+     * First escalation rule matching an alert.
+     *
+     * @param array $alert Row of view_therapyAlerts
+     * @param array $rules [{alert_type?, severity?, minutes}, ...]
+     * @return array|null
+     */
+    public function findEscalationRule($alert, $rules)
+    {
+        foreach ($rules as $rule) {
+            if (!empty($rule['alert_type']) && $rule['alert_type'] !== $alert['alert_type']) continue;
+            if (!empty($rule['severity']) && $rule['severity'] !== $alert['severity']) continue;
+            return $rule;
+        }
+        return null;
+    }
+
+    /**
+     * When an alert will be escalated: only alerts that are still new and
+     * not yet escalated have a deadline.
+     *
+     * @param array $alert Row of view_therapyAlerts
+     * @param array $rules
+     * @return int|null Unix timestamp, null if the alert does not escalate
+     */
+    public function getEscalationDueTime($alert, $rules)
+    {
+        if ($alert['status'] !== THERAPY_ALERT_STATUS_NEW || !empty($alert['escalated_at'])) {
+            return null;
+        }
+        $rule = $this->findEscalationRule($alert, $rules);
+        if (!$rule) {
+            return null;
+        }
+        return strtotime($alert['created_at']) + (int)$rule['minutes'] * 60;
+    }
+
+    /**
+     * Escalate all alerts that stayed unacknowledged past their rule's
+     * delay. Runs from the plugin's cron job (TherapyChatCron), independent
+     * of any open dashboard; a lock per alert keeps overlapping runs from
+     * escalating an alert twice.
+     *
+     * @param array $rules [{alert_type?, severity?, minutes}, ...]
+     * @param int|null $supervisorGroupId Group of the clinical supervisors
+     * @return int Number of escalated alerts
+     */
+    public function escalateOverdueAlerts($rules, $supervisorGroupId = null)
+    {
+        if (empty($rules)) {
+            return 0;
+        }
+
+        $sql = "SELECT * FROM view_therapyAlerts
+                WHERE status = ? AND escalated_at IS NULL
+                ORDER BY created_at ASC
+                LIMIT " . (int)THERAPY_ALERT_INBOX_LIMIT;
+        $alerts = $this->db->query_db($sql, array(THERAPY_ALERT_STATUS_NEW));
+
+        $escalated = 0;
+        $now = time();
+        foreach ($alerts ?: array() as $alert) {
+            $due = $this->getEscalationDueTime($alert, $rules);
+            if ($due !== null && $due <= $now
+                && $this->escalateAlert($alert, $this->findEscalationRule($alert, $rules), $supervisorGroupId)) {
+                $escalated++;
+            }
+        }
+        return $escalated;
+    }
+
+    /**
+     * Supervisors of a patient: members of the supervisor group who monitor
+     * one of the patient's groups.
+     *
+     * @param int $patientId
+     * @param int $supervisorGroupId
+     * @return array [{id, name, email}, ...]
+     */
+    public function getSupervisorsForPatient($patientId, $supervisorGroupId)
+    {
+        $sql = "SELECT DISTINCT u.id, u.name, u.email
+                FROM users_groups sg
+                INNER JOIN users u ON u.id = sg.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_users = u.id
+                INNER JOIN users_groups pg ON pg.id_groups = tta.id_groups AND pg.id_users = :patient_id
+                WHERE sg.id_groups = :group_id
+                ORDER BY u.name";
+
+        $result = $this->db->query_db($sql, array(':patient_id' => $patientId, ':group_id' => $supervisorGroupId));
+        return $result !== false ? $result : array();
+    }
+
     /* =========================================================================
      * PRIVATE HELPERS
      * ========================================================================= */
 
+    /**
+     * Acknowledge the alerts among $alertIds that are still new.
+     *
+     * @param array $alertIds
+     * @param int|null $therapistId
+     */
+    private function acknowledgeNewAlerts($alertIds, $therapistId)
+    {
+        $ackId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_STATUS, THERAPY_ALERT_STATUS_ACKNOWLEDGED);
+        $newId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_ALERT_STATUS, THERAPY_ALERT_STATUS_NEW);
+        if (empty($alertIds) || !$ackId) {
+            return;
+        }
+
+        $placeholders = implode(',', array_fill(0, count($alertIds), '?'));
+        $rows = $this->db->query_db(
+            "SELECT id FROM therapyAlerts WHERE id IN ($placeholders) AND (id_alertStatus IS NULL OR id_alertStatus = ?)",
+            array_merge(array_values($alertIds), array($newId))
+        );
+        foreach ($rows ?: array() as $row) {
+            $this->db->update_by_ids('therapyAlerts', array('id_alertStatus' => $ackId), array('id' => $row['id']));
+            $this->addAlertEvent($row['id'], $therapistId, THERAPY_ALERT_EVENT_STATUS);
+        }
+    }
+
+    /**
+     * Record an audit event with the alert's status and assignee after the change.
+     *
+     * @param int $alertId
+     * @param int|null $userId
+     * @param string $event THERAPY_ALERT_EVENT_* constant
+     * @param string|null $note
+     * @return int|bool
+     */
+    private function addAlertEvent($alertId, $userId, $event, $note = null)
+    {
+        $alert = $this->db->query_db_first(
+            "SELECT id_alertStatus, id_assignedTo FROM therapyAlerts WHERE id = :id",
+            array(':id' => $alertId)
+        );
+        return $this->db->insert('therapyAlertEvents', array(
+            'id_therapyAlerts' => $alertId,
+            'id_users' => $userId,
+            'event' => $event,
+            'id_alertStatus' => $alert['id_alertStatus'] ?? null,
+            'id_assignedTo' => $alert['id_assignedTo'] ?? null,
+            'note' => $note
+        ));
+    }
+
     /**
      * Send urgent email notification for critical/emergency alerts.
      * Emails are sent to:
@@ -383,5 +778,111 @@ class TherapyAlertService extends TherapyChatService
             error_log("TherapyAlertService: Failed to send urgent notification - " . $e->getMessage());
         }
     }
+
+    /**
+     * Escalate one alert: notify the supervisors (or, without any, all
+     * therapists of the patient), record the escalation and its recipients
+     * in the audit trail and the transaction log.
+     *
+     * @param array $alert Row of view_therapyAlerts
+     * @param array $rule Matching escalation rule
+     * @param int|null $supervisorGroupId
+     * @return bool False if another request escalated or acknowledged it first
+     */
+    private function escalateAlert($alert, $rule, $supervisorGroupId)
+    {
+        $alertId = (int)$alert['id'];
+        $lockName = 'therapy_alert_escalation_' . $alertId;
+        $lock = $this->db->query_db_first("SELECT GET_LOCK(?, 0) AS acquired", array($lockName));
+        if (!$lock || (int)$lock['acquired'] !== 1) {
+            return false;
+        }
+
+        try {
+            $current = $this->db->query_db_first(
+                "SELECT status, escalated_at FROM view_therapyAlerts WHERE id = ?",
+                array($alertId)
+            );
+            if (!$current || $current['status'] !== THERAPY_ALERT_STATUS_NEW || !empty($current['escalated_at'])) {
+                return false;
+            }
+
+            $recipients = $supervisorGroupId ? $this->getSupervisorsForPatient($alert['subject_id'], $supervisorGroupId) : array();
+            $toSupervisors = !empty($recipients);
+            if (!$toSupervisors) {
+                $recipients = $this->getTherapistsForPatient($alert['subject_id']);
+            }
+
+            $this->db->update_by_ids('therapyAlerts', array('escalated_at' => date('Y-m-d H:i:s')), array('id' => $alertId));
+
+            $names = implode(', ', array_column($recipients, 'name'));
+            $note = sprintf(
+                'Not acknowledged within %d minutes. Escalated to %s: %s',
+                (int)$rule['minutes'],
+                $toSupervisors ? 'supervisors' : 'all therapists of the patient (no supervisors configured)',
+                $names !== '' ? $names : 'nobody'
+            );
+            $this->addAlertEvent($alertId, null, THERAPY_ALERT_EVENT_ESCALATED, $note);
+            $this->logTransaction(
+                transactionTypes_update, 'therapyAlerts', $alertId, $alert['subject_id'],
+                'Alert escalated. ' . $note
+            );
+
+            $this->sendEscalationNotification($alert, $recipients, (int)$rule['minutes']);
+            return true;
+        } finally {
+            $this->db->query_db_first("SELECT RELEASE_LOCK(?) AS released", array($lockName));
+        }
+    }
+
+    /**
+     * Email the escalation recipients.
+     *
+     * @param array $alert Row of view_therapyAlerts
+     * @param array $recipients [{id, name, email}, ...]
+     * @param int $minutes Delay of the escalation rule
+     */
+    private function sendEscalationNotification($alert, $recipients, $minutes)
+    {
+        try {
+            $patientName = htmlspecialchars($alert['subject_name']);
+            $alertLabel = htmlspecialchars($alert['alert_type_label'] ?: ucfirst(str_replace('_', ' ', $alert['alert_type'])));
+            $subject = "[ESCALATED] Therapy Chat Alert – $patientName: " . ($alert['alert_type_label'] ?: $alert['alert_type']);
+            $body = "<h2>Escalated Therapy Alert</h2>"
+                . "<p>This alert has not been acknowledged by any therapist within <strong>$minutes minutes</strong>.</p>"
+                . "<table style='border-collapse:collapse; width:100%; margin-bottom:16px;'>"
+                . "<tr><td style='padding:8px; border:1px solid #ddd; font-weight:bold; width:140px;'>Patient</td>"
+                . "<td style='padding:8px; border:1px solid #ddd;'>$patientName</td></tr>"
+                . "<tr><td style='padding:8px; border:1px solid #ddd; font-weight:bold;'>Alert Type</td>"
+                . "<td style='padding:8px; border:1px solid #ddd;'>$alertLabel</td></tr>"
+                . "<tr><td style='padding:8px; border:1px solid #ddd; font-weight:bold;'>Severity</td>"
+                . "<td style='padding:8px; border:1px solid #ddd;'>" . htmlspecialchars($alert['severity_label'] ?: $alert['severity']) . "</td></tr>"
+                . "<tr><td style='padding:8px; border:1px solid #ddd; font-weight:bold;'>Raised</td>"
+                . "<td style='padding:8px; border:1px solid #ddd;'>" . htmlspecialchars($alert['created_at']) . "</td></tr>"
+                . "<tr><td style='padding:8px; border:1px solid #ddd; font-weight:bold;'>Details</td>"
+                . "<td style='padding:8px; border:1px solid #ddd;'>" . nl2br(htmlspecialchars($alert['message'])) . "</td></tr>"
+                . "</table>"
+                . "<p><strong>Please make sure the alert is handled and acknowledge it in the therapist dashboard.</strong></p>";
+
+            foreach ($recipients as $recipient) {
+                if (empty($recipient['email']) || !filter_var($recipient['email'], FILTER_VALIDATE_EMAIL)) {
+                    continue;
+                }
+                TherapyEmailHelper::scheduleEmail(
+                    $this->db,
+                    $this->job_scheduler,
+                    $recipient['email'],
+                    $subject,
+                    $body,
+                    'noreply@selfhelp.local',
+                    'Therapy Chat',
+                    "Escalated therapy alert #" . $alert['id'] . " for patient: " . $alert['subject_name'],
+                    array($recipient['id'])
+                );
+            }
+        } catch (Exception $e) {
+            error_log("TherapyAlertService: Failed to send escalation notification - " . $e->getMessage());
+        }
+    }
 }
 ?>
@@ -188,6 +188,7 @@ class TherapyChatService extends LlmService
                     vtc.id,
                     vtc.id_llmConversations,
                     vtc.ai_enabled,
+                    vtc.allow_patient_uploads,
                     vtc.mode,
                     vtc.mode_label,
                     vtc.status,
@@ -667,6 +668,34 @@ class TherapyChatService extends LlmService
         return $result;
     }
 
+    /**
+     * Allow or forbid file attachments from the patient.
+     * Therapists can always attach files.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param bool $allowed
+     * @return bool
+     */
+    public function setPatientUploadsAllowed($conversationId, $allowed)
+    {
+        $result = $this->db->update_by_ids(
+            'therapyConversationMeta',
+            array('allow_patient_uploads' => $allowed ? 1 : 0),
+            array('id' => $conversationId)
+        );
+
+        if ($result) {
+            $conversation = $this->getTherapyConversation($conversationId);
+            $this->logTransaction(
+                transactionTypes_update, 'therapyConversationMeta', $conversationId,
+                $conversation ? $conversation['id_users'] : 0,
+                'Patient uploads ' . ($allowed ? 'allowed' : 'forbidden')
+            );
+        }
+
+        return $result;
+    }
+
     /**
      * Unblock the underlying llmConversation for a therapy conversation.
      * Clears blocked flag, reason, and timestamp.
@@ -807,9 +836,11 @@ class TherapyChatService extends LlmService
      * @param string $content
      * @param string $noteType THERAPY_NOTE_MANUAL or THERAPY_NOTE_AI_SUMMARY
      * @param string|null $aiOriginalContent For AI summaries - the unedited AI output
+     * @param array|null $structure {template, sections} for template-based notes
+     * @param array $tags Tags (see normalizeNoteTags)
      * @return int|bool Note ID or false
      */
-    public function addNote($conversationId, $therapistId, $content, $noteType = THERAPY_NOTE_MANUAL, $aiOriginalContent = null)
+    public function addNote($conversationId, $therapistId, $content, $noteType = THERAPY_NOTE_MANUAL, $aiOriginalContent = null, $structure = null, $tags = array())
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) {
@@ -826,12 +857,15 @@ class TherapyChatService extends LlmService
             'id_noteTypes' => $noteTypeId,
             'id_noteStatus' => $noteStatusId,
             'content' => $content,
-            'ai_original_content' => $aiOriginalContent
+            'ai_original_content' => $aiOriginalContent,
+            'structured_content' => $structure ? json_encode($structure) : null,
+            'tags' => $tags ? json_encode(array_values($tags)) : null
         );
 
         $noteId = $this->db->insert('therapyNotes', $data);
 
         if ($noteId) {
+            $this->addNoteRevision($noteId, $therapistId, $content, $data['structured_content']);
             $this->logTransaction(
                 transactionTypes_insert, 'therapyNotes', $noteId, $therapistId,
                 'Clinical note added'
@@ -842,7 +876,7 @@ class TherapyChatService extends LlmService
     }
 
     /**
-     * Get notes for a conversation.
+     * Get notes for a conversation, pinned notes first.
      *
      * @param int $conversationId
      * @param int $limit
@@ -868,45 +902,220 @@ class TherapyChatService extends LlmService
                 LEFT JOIN users editor ON editor.id = tn.id_lastEditedBy
                 WHERE tn.id_llmConversations = :llm_id
                   AND (tn.id_noteStatus = :active_status OR tn.id_noteStatus IS NULL)
-                ORDER BY tn.created_at DESC
+                ORDER BY tn.pinned DESC, tn.created_at DESC
                 LIMIT " . (int)$limit;
 
         $result = $this->db->query_db($sql, array(
             ':llm_id' => $conversation['id_llmConversations'],
             ':active_status' => $activeStatusId
         ));
-        return $result !== false ? $result : array();
+        if ($result === false) {
+            return array();
+        }
+
+        foreach ($result as &$note) {
+            $structure = !empty($note['structured_content']) ? json_decode($note['structured_content'], true) : null;
+            $note['template'] = $structure['template'] ?? null;
+            $note['sections'] = $structure['sections'] ?? null;
+            unset($note['structured_content']);
+            $note['pinned'] = (bool)$note['pinned'];
+            $note['tags'] = !empty($note['tags']) ? (json_decode($note['tags'], true) ?: array()) : array();
+        }
+        unset($note);
+        return $result;
     }
 
     /**
-     * Update a note's content. Logs the edit via transactions.
+     * Update a note's content. Logs the edit via transactions and records
+     * the new version in therapyNoteRevisions.
+     *
+     * A note edited as free text loses its template structure.
      *
      * @param int $noteId
      * @param int $therapistId ID of the therapist performing the edit
      * @param string $newContent
+     * @param array|null $structure {template, sections} for template-based notes
+     * @param array|null $tags New tags, null to keep the current ones
      * @return bool
      */
-    public function updateNote($noteId, $therapistId, $newContent)
+    public function updateNote($noteId, $therapistId, $newContent, $structure = null, $tags = null)
+    {
+        $data = array(
+            'content' => $newContent,
+            'structured_content' => $structure ? json_encode($structure) : null,
+            'id_lastEditedBy' => $therapistId
+        );
+        if ($tags !== null) {
+            $data['tags'] = $tags ? json_encode(array_values($tags)) : null;
+        }
+
+        $this->seedNoteRevision($noteId);
+        $result = $this->db->update_by_ids('therapyNotes', $data, array('id' => $noteId));
+
+        if ($result) {
+            $this->addNoteRevision($noteId, $therapistId, $newContent, $data['structured_content']);
+            $this->logTransaction(
+                transactionTypes_update, 'therapyNotes', $noteId, $therapistId,
+                'Note edited by therapist'
+            );
+        }
+
+        return $result;
+    }
+
+    /**
+     * Get every saved version of a note, oldest first.
+     *
+     * Notes that were never edited since revisions are recorded return their
+     * current content as the only version.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $noteId
+     * @return array|null {note_id, versions: [{version, content, template, sections, timestamp, user_id, user_name, is_original}]} or null
+     */
+    public function getNoteHistory($conversationId, $noteId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return null;
+
+        $note = $this->db->query_db_first(
+            "SELECT tn.id, tn.id_users, tn.content, tn.structured_content, tn.created_at, u.name AS user_name
+             FROM therapyNotes tn
+             LEFT JOIN users u ON u.id = tn.id_users
+             WHERE tn.id = :id AND tn.id_llmConversations = :llm_id",
+            array(':id' => $noteId, ':llm_id' => $conversation['id_llmConversations'])
+        );
+        if (!$note) return null;
+
+        $revisions = $this->db->query_db(
+            "SELECT r.id_users, r.content, r.structured_content, r.created_at, u.name AS user_name
+             FROM therapyNoteRevisions r
+             LEFT JOIN users u ON u.id = r.id_users
+             WHERE r.id_therapyNotes = :id
+             ORDER BY r.id ASC",
+            array(':id' => $noteId)
+        );
+        if (empty($revisions)) {
+            $revisions = array($note);
+        }
+
+        $versions = array();
+        foreach ($revisions as $i => $revision) {
+            $structure = !empty($revision['structured_content']) ? json_decode($revision['structured_content'], true) : null;
+            $versions[] = array(
+                'version' => $i + 1,
+                'content' => $revision['content'],
+                'template' => $structure['template'] ?? null,
+                'sections' => $structure['sections'] ?? null,
+                'timestamp' => $revision['created_at'],
+                'user_id' => $revision['id_users'] !== null ? (int)$revision['id_users'] : null,
+                'user_name' => $revision['user_name'],
+                'is_original' => $i === 0
+            );
+        }
+
+        return array('note_id' => (int)$note['id'], 'versions' => $versions);
+    }
+
+    /**
+     * Record a version of a note.
+     *
+     * @param int $noteId
+     * @param int|null $userId Therapist who saved the version
+     * @param string $content
+     * @param string|null $structuredContent JSON {template, sections}
+     * @param string|null $createdAt Defaults to now
+     * @return int|bool Revision ID or false
+     */
+    private function addNoteRevision($noteId, $userId, $content, $structuredContent, $createdAt = null)
+    {
+        $data = array(
+            'id_therapyNotes' => $noteId,
+            'id_users' => $userId,
+            'content' => $content,
+            'structured_content' => $structuredContent
+        );
+        if ($createdAt) {
+            $data['created_at'] = $createdAt;
+        }
+        return $this->db->insert('therapyNoteRevisions', $data);
+    }
+
+    /**
+     * Notes created before revisions were recorded have no history yet;
+     * record their current version before it is overwritten.
+     *
+     * @param int $noteId
+     */
+    private function seedNoteRevision($noteId)
+    {
+        $existing = $this->db->query_db_first(
+            "SELECT COUNT(*) AS cnt FROM therapyNoteRevisions WHERE id_therapyNotes = :id",
+            array(':id' => $noteId)
+        );
+        if ($existing && (int)$existing['cnt'] > 0) return;
+
+        $note = $this->db->query_db_first(
+            "SELECT id_users, id_lastEditedBy, content, structured_content, created_at, updated_at
+             FROM therapyNotes WHERE id = :id",
+            array(':id' => $noteId)
+        );
+        if (!$note) return;
+
+        $edited = !empty($note['id_lastEditedBy']);
+        $this->addNoteRevision(
+            $noteId,
+            $edited ? $note['id_lastEditedBy'] : $note['id_users'],
+            $note['content'],
+            $note['structured_content'],
+            $edited ? $note['updated_at'] : $note['created_at']
+        );
+    }
+
+    /**
+     * Pin a note to the top of the notes list, or unpin it. Logs via transactions.
+     *
+     * @param int $noteId
+     * @param int $therapistId
+     * @param bool $pinned
+     * @return bool
+     */
+    public function setNotePinned($noteId, $therapistId, $pinned)
     {
         $result = $this->db->update_by_ids(
             'therapyNotes',
-            array(
-                'content' => $newContent,
-                'id_lastEditedBy' => $therapistId
-            ),
+            array('pinned' => $pinned ? 1 : 0),
             array('id' => $noteId)
         );
 
         if ($result) {
             $this->logTransaction(
                 transactionTypes_update, 'therapyNotes', $noteId, $therapistId,
-                'Note edited by therapist'
+                $pinned ? 'Note pinned by therapist' : 'Note unpinned by therapist'
             );
         }
 
         return $result;
     }
 
+    /**
+     * Normalize note tags: trimmed, lowercase, unique, empty tags dropped.
+     *
+     * @param array $tags
+     * @return array
+     */
+    public function normalizeNoteTags($tags)
+    {
+        $normalized = array();
+        foreach ((array)$tags as $tag) {
+            $tag = mb_strtolower(trim(preg_replace('/\s+/u', ' ', (string)$tag)));
+            if ($tag !== '' && !in_array($tag, $normalized, true)) {
+                $normalized[] = $tag;
+            }
+        }
+        return $normalized;
+    }
+
     /**
      * Soft-delete a note (set id_noteStatus to 'deleted' lookup). Logs via transactions.
      *
@@ -937,6 +1146,89 @@ class TherapyChatService extends LlmService
         return $result;
     }
 
+    /**
+     * Normalize the sections of a template-based note.
+     *
+     * Unknown templates and sections are dropped; section text is trimmed.
+     *
+     * @param string $template Key of THERAPY_NOTE_TEMPLATES
+     * @param array $sections section key => text
+     * @return array|null {template, sections} or null if nothing was filled in
+     */
+    public function buildNoteStructure($template, $sections)
+    {
+        if (!isset(THERAPY_NOTE_TEMPLATES[$template]) || !is_array($sections)) {
+            return null;
+        }
+
+        $normalized = array();
+        foreach (array_keys(THERAPY_NOTE_TEMPLATES[$template]['sections']) as $key) {
+            $normalized[$key] = trim((string)($sections[$key] ?? ''));
+        }
+        if (implode('', $normalized) === '') {
+            return null;
+        }
+
+        return array('template' => $template, 'sections' => $normalized);
+    }
+
+    /**
+     * Render a template-based note as markdown (stored in therapyNotes.content).
+     *
+     * @param array $structure {template, sections}
+     * @return string
+     */
+    public function renderNoteStructure($structure)
+    {
+        $definition = THERAPY_NOTE_TEMPLATES[$structure['template']];
+        $parts = array();
+        foreach ($definition['sections'] as $key => $section) {
+            $text = $structure['sections'][$key] ?? '';
+            if ($text !== '') {
+                $parts[] = '### ' . $section['label'] . "\n" . $text;
+            }
+        }
+        return implode("\n\n", $parts);
+    }
+
+    /**
+     * Split markdown written with one heading per template section
+     * (e.g. an AI summary) into the template's sections.
+     *
+     * @param string $template Key of THERAPY_NOTE_TEMPLATES
+     * @param string $markdown
+     * @return array|null {template, sections} or null if no section heading was found
+     */
+    public function parseNoteStructure($template, $markdown)
+    {
+        if (!isset(THERAPY_NOTE_TEMPLATES[$template])) {
+            return null;
+        }
+
+        $keysByLabel = array();
+        foreach (THERAPY_NOTE_TEMPLATES[$template]['sections'] as $key => $section) {
+            $keysByLabel[mb_strtolower($section['label'])] = $key;
+        }
+
+        $sections = array();
+        $current = null;
+        foreach (preg_split('/\r?\n/', $markdown) as $line) {
+            if (preg_match('/^\s*(?:#{1,6}\s*|\*\*)([^*#:]+?)(?:\*\*)?\s*:?\s*(?:\*\*)?\s*$/', $line, $match)) {
+                $label = mb_strtolower(trim($match[1]));
+                if (isset($keysByLabel[$label])) {
+                    $current = $keysByLabel[$label];
+                    $sections[$current] = '';
+                    continue;
+                }
+            }
+            if ($current !== null) {
+                $sections[$current] .= $line . "\n";
+            }
+        }
+
+        return empty($sections) ? null : $this->buildNoteStructure($template, $sections);
+    }
+
     /* =========================================================================
      * STATISTICS
      * ========================================================================= */
@@ -109,9 +109,10 @@ class TherapyMessageService extends TherapyAlertService
      * @param string $content Message content
      * @param string $senderType SENDER_* constant
      * @param array|null $metadata Extra context
-     * @return array {success, message_id, conversation_id} or {error}
+     * @param array $attachments Validated uploads: [{tmp_name, file_name, mime_type, file_size}]
+     * @return array {success, message_id, conversation_id, attachments} or {error}
      */
-    public function sendTherapyMessage($conversationId, $senderId, $content, $senderType = self::SENDER_SUBJECT, $metadata = null)
+    public function sendTherapyMessage($conversationId, $senderId, $content, $senderType = self::SENDER_SUBJECT, $metadata = null, $attachments = array())
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) {
@@ -132,6 +133,14 @@ class TherapyMessageService extends TherapyAlertService
 
         $llmConversationId = $conversation['id_llmConversations'];
 
+        // Move the files first so a failed upload never leaves a message
+        // that claims to have attachments
+        try {
+            $storedFiles = $this->storeAttachmentFiles($attachments);
+        } catch (Exception $e) {
+            return array('error' => 'Failed to store attachment: ' . $e->getMessage());
+        }
+
         try {
             $messageId = $this->addMessage(
                 $llmConversationId,
@@ -144,9 +153,16 @@ class TherapyMessageService extends TherapyAlertService
                 $sentContext
             );
         } catch (Exception $e) {
+            $this->deleteStoredFiles($storedFiles);
             return array('error' => 'Failed to save message: ' . $e->getMessage());
         }
 
+        $savedAttachments = $this->insertMessageAttachments($messageId, $llmConversationId, $senderId, $storedFiles);
+
+        if ($senderType !== self::SENDER_AI) {
+            $this->setTyping($conversationId, $senderId, false);
+        }
+
         // Update last seen
         if ($senderType === self::SENDER_THERAPIST) {
             $this->updateLastSeen($conversationId, 'therapist');
@@ -169,8 +185,80 @@ class TherapyMessageService extends TherapyAlertService
         return array(
             'success' => true,
             'message_id' => $messageId,
-            'conversation_id' => $conversationId
+            'conversation_id' => $conversationId,
+            'attachments' => $savedAttachments
+        );
+    }
+
+    /**
+     * Find a message by the client-generated ID stored in sent_context.
+     * Used to drop duplicates when the patient outbox retries a message
+     * whose first request was stored but never acknowledged.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param string $clientMessageId
+     * @return int|null llmMessages.id
+     */
+    public function findMessageIdByClientId($conversationId, $clientMessageId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation || !$clientMessageId) return null;
+
+        $sql = "SELECT id FROM llmMessages
+                WHERE id_llmConversations = :cid
+                AND JSON_UNQUOTE(JSON_EXTRACT(sent_context, '$.client_message_id')) = :client_id
+                LIMIT 1";
+        $result = $this->db->query_db_first($sql, array(
+            ':cid' => $conversation['id_llmConversations'],
+            ':client_id' => $clientMessageId
+        ));
+        return $result ? (int)$result['id'] : null;
+    }
+
+    /**
+     * Send a message unless one with the same client-generated ID was
+     * already stored in the conversation.
+     *
+     * The lookup and the insert run under a MySQL lock per conversation and
+     * client ID, so two concurrent retries cannot both store the message: the
+     * second waits up to THERAPY_CLIENT_MESSAGE_LOCK_TIMEOUT seconds and then
+     * finds the first one.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $senderId User ID
+     * @param string $content Message content
+     * @param string $senderType SENDER_* constant
+     * @param string $clientMessageId Stored as sent_context.client_message_id
+     * @param array|null $metadata Extra context
+     * @param array $attachments See sendTherapyMessage()
+     * @return array sendTherapyMessage() result; {success, message_id, duplicate: true}
+     *               when the message already exists
+     */
+    public function sendTherapyMessageOnce($conversationId, $senderId, $content, $senderType, $clientMessageId, $metadata = null, $attachments = array())
+    {
+        $lockName = 'therapy_client_message_' . md5($conversationId . '|' . $clientMessageId);
+        $lock = $this->db->query_db_first(
+            "SELECT GET_LOCK(?, ?) AS acquired",
+            array($lockName, THERAPY_CLIENT_MESSAGE_LOCK_TIMEOUT)
         );
+        if (!$lock || (int)$lock['acquired'] !== 1) {
+            return array('error' => 'The message is still being stored, please try again');
+        }
+
+        try {
+            $existingId = $this->findMessageIdByClientId($conversationId, $clientMessageId);
+            if ($existingId) {
+                return array('success' => true, 'message_id' => $existingId, 'duplicate' => true);
+            }
+
+            return $this->sendTherapyMessage(
+                $conversationId, $senderId, $content, $senderType,
+                array_merge($metadata ?: array(), array('client_message_id' => $clientMessageId)),
+                $attachments
+            );
+        } finally {
+            $this->db->query_db_first("SELECT RELEASE_LOCK(?) AS released", array($lockName));
+        }
     }
 
     /* =========================================================================
@@ -180,12 +268,18 @@ class TherapyMessageService extends TherapyAlertService
     /**
      * Get messages for a therapy conversation with sender info.
      *
+     * Without $afterId the newest $limit messages are returned (optionally
+     * only those older than $beforeId), so history can be paged backwards.
+     * Messages are always returned oldest first.
+     *
      * @param int $conversationId therapyConversationMeta.id
      * @param int $limit
      * @param int|null $afterId For polling - only messages after this ID
+     * @param array $labelOverrides Sender label overrides
+     * @param int|null $beforeId For history paging - only messages before this ID
      * @return array
      */
-    public function getTherapyMessages($conversationId, $limit = THERAPY_DEFAULT_MESSAGE_LIMIT, $afterId = null, $labelOverrides = array())
+    public function getTherapyMessages($conversationId, $limit = THERAPY_DEFAULT_MESSAGE_LIMIT, $afterId = null, $labelOverrides = array(), $beforeId = null)
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) {
@@ -209,13 +303,21 @@ class TherapyMessageService extends TherapyAlertService
         $params = array(':cid' => $llmConversationId);
 
         if ($afterId) {
-            $sql .= " AND lm.id > :after_id";
+            $sql .= " AND lm.id > :after_id ORDER BY lm.id ASC LIMIT " . (int)$limit;
             $params[':after_id'] = $afterId;
+            $messages = $this->db->query_db($sql, $params);
+        } else {
+            if ($beforeId) {
+                $sql .= " AND lm.id < :before_id";
+                $params[':before_id'] = $beforeId;
+            }
+            $sql .= " ORDER BY lm.id DESC LIMIT " . (int)$limit;
+            $rows = $this->db->query_db($sql, $params);
+            $messages = $rows ? array_reverse($rows) : array();
         }
 
-        $sql .= " ORDER BY lm.timestamp ASC LIMIT " . (int)$limit;
-
-        $messages = $this->db->query_db($sql, $params);
+        $attachmentsByMessage = $this->getAttachmentsForMessages(array_column($messages, 'id'));
+        $receiptsByMessage = $this->getReceiptsForMessages(array_column($messages, 'id'));
 
         // Add labels and format
         foreach ($messages as &$msg) {
@@ -227,21 +329,147 @@ class TherapyMessageService extends TherapyAlertService
             );
             $msg['is_deleted'] = (bool)$msg['deleted'];
             $msg['is_edited'] = !empty($msg['edited_at']);
+            $msg['attachments'] = $attachmentsByMessage[(int)$msg['id']] ?? array();
+            // Read receipts: recipients other than the sender, first reader first
+            $senderId = (int)($msg['sender_id'] ?? 0);
+            $msg['seen_by'] = array_values(array_filter(
+                $receiptsByMessage[(int)$msg['id']] ?? array(),
+                function ($receipt) use ($senderId) { return $receipt['id'] !== $senderId; }
+            ));
+            $msg['seen_at'] = $msg['seen_by'] ? $msg['seen_by'][0]['seen_at'] : null;
             // Mask deleted message content
             if ($msg['is_deleted']) {
                 $msg['content'] = '[Message deleted]';
+                $msg['attachments'] = array();
             }
+            // Original content and edit history are only exposed to
+            // therapists via getMessageHistory()
+            unset($msg['sent_context']);
         }
 
         return $messages;
     }
 
+    /**
+     * Search message content across every therapy conversation the therapist
+     * can access (patients in their assigned groups).
+     *
+     * Matching is a case-insensitive substring match on the text a reader
+     * sees: AI replies are stored as structured JSON, so they are matched on
+     * their text blocks and safety message, never on JSON keys such as
+     * "type" or "content". Deleted and unvalidated messages are never
+     * returned. Each row carries a plain-text snippet around the first match.
+     *
+     * @param int $therapistId
+     * @param string $query Search term
+     * @param array $filters Optional: group_id, sender_type, date_from, date_to (YYYY-MM-DD, inclusive)
+     * @param int $limit
+     * @return array Newest matches first
+     */
+    public function searchMessagesForTherapist($therapistId, $query, $filters = array(), $limit = THERAPY_SEARCH_RESULT_LIMIT)
+    {
+        $senderTypeSql = "COALESCE(
+                              JSON_UNQUOTE(JSON_EXTRACT(lm.sent_context, '$.therapy_sender_type')),
+                              CASE lm.role WHEN 'assistant' THEN 'ai' WHEN 'system' THEN 'system' ELSE 'subject' END
+                          )";
+
+        $sql = "SELECT lm.id as message_id, lm.content, lm.role, lm.timestamp,
+                       $senderTypeSql as sender_type,
+                       tcm.id as conversation_id,
+                       lc.id_users as subject_id,
+                       u.name as subject_name,
+                       vc.code as subject_code
+                FROM llmMessages lm
+                INNER JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = lm.id_llmConversations
+                INNER JOIN llmConversations lc ON lc.id = tcm.id_llmConversations
+                INNER JOIN users u ON u.id = lc.id_users
+                LEFT JOIN (
+                    SELECT id_users, MIN(code) as code
+                    FROM validation_codes
+                    WHERE consumed IS NULL
+                    GROUP BY id_users
+                ) vc ON vc.id_users = u.id
+                WHERE lm.deleted = 0
+                  AND lm.is_validated = 1
+                  AND (lc.deleted = 0 OR lc.deleted IS NULL)
+                  AND (CASE WHEN lm.role = 'assistant' AND JSON_VALID(lm.content)
+                            THEN CONVERT(JSON_UNQUOTE(JSON_EXTRACT(lm.content,
+                                     '$.content.text_blocks[*].content', '$.safety.safety_message')) USING utf8mb4)
+                            ELSE lm.content
+                       END) LIKE :query
+                  AND EXISTS (
+                      SELECT 1
+                      FROM users_groups ug
+                      INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                      WHERE ug.id_users = lc.id_users";
+
+        $params = array(
+            ':query' => '%' . addcslashes($query, '%_\\') . '%',
+            ':tid' => $therapistId
+        );
+
+        if (!empty($filters['group_id'])) {
+            $sql .= " AND ug.id_groups = :gid";
+            $params[':gid'] = $filters['group_id'];
+        }
+        $sql .= ")";
+
+        if (!empty($filters['sender_type'])) {
+            $sql .= " AND $senderTypeSql = :sender_type";
+            $params[':sender_type'] = $filters['sender_type'];
+        }
+        if (!empty($filters['date_from'])) {
+            $sql .= " AND lm.timestamp >= :date_from";
+            $params[':date_from'] = $filters['date_from'] . ' 00:00:00';
+        }
+        if (!empty($filters['date_to'])) {
+            $sql .= " AND lm.timestamp < DATE_ADD(:date_to, INTERVAL 1 DAY)";
+            $params[':date_to'] = $filters['date_to'];
+        }
+
+        // AI replies the database cannot parse (e.g. JSON in a markdown code
+        // block) are matched on their raw content above and re-checked
+        // against the display text here; dropped rows are refilled from the
+        // next, older page.
+        $results = array();
+        $beforeId = null;
+        for ($page = 0; $page < THERAPY_SEARCH_MAX_PAGES && count($results) < $limit; $page++) {
+            $pageSql = $sql . ($beforeId ? " AND lm.id < :before_id" : "")
+                . " ORDER BY lm.id DESC LIMIT " . (int)$limit;
+            $pageParams = $beforeId ? array_merge($params, array(':before_id' => $beforeId)) : $params;
+            $rows = $this->db->query_db($pageSql, $pageParams) ?: array();
+
+            foreach ($rows as $row) {
+                $beforeId = (int)$row['message_id'];
+                $content = $row['role'] === 'assistant'
+                    ? $this->extractDisplayContent($row['content'])
+                    : $row['content'];
+                if ($row['role'] === 'assistant' && mb_stripos($content, $query) === false) {
+                    continue;
+                }
+                $row['snippet'] = $this->buildSearchSnippet($content, $query);
+                unset($row['content'], $row['role']);
+                $results[] = $row;
+                if (count($results) >= $limit) {
+                    break;
+                }
+            }
+
+            if (count($rows) < $limit) {
+                break;
+            }
+        }
+
+        return $results;
+    }
+
     /* =========================================================================
      * EDIT / DELETE MESSAGES
      * ========================================================================= */
 
     /**
-     * Edit a message (therapist only). Stores original content in sent_context.
+     * Edit a message (therapist only). Stores original content in sent_context
+     * and appends every new version to sent_context.edit_history.
      *
      * @param int $messageId llmMessages.id
      * @param int $editorId User ID of the editor
@@ -257,12 +485,32 @@ class TherapyMessageService extends TherapyAlertService
 
         // Parse existing sent_context
         $sentContext = $msg['sent_context'] ? json_decode($msg['sent_context'], true) : array();
+        $editedAt = date('Y-m-d H:i:s');
 
         // Store original content on first edit
         if (!isset($sentContext['original_content'])) {
             $sentContext['original_content'] = $msg['content'];
         }
-        $sentContext['edited_at'] = date('Y-m-d H:i:s');
+
+        // Messages edited before edit_history existed only kept the original;
+        // seed the history with their current version so it is not lost.
+        if (!isset($sentContext['edit_history'])) {
+            $sentContext['edit_history'] = array();
+            if (isset($sentContext['edited_at'])) {
+                $sentContext['edit_history'][] = array(
+                    'content' => $msg['content'],
+                    'edited_at' => $sentContext['edited_at'],
+                    'edited_by' => $sentContext['edited_by'] ?? null
+                );
+            }
+        }
+        $sentContext['edit_history'][] = array(
+            'content' => $newContent,
+            'edited_at' => $editedAt,
+            'edited_by' => $editorId
+        );
+
+        $sentContext['edited_at'] = $editedAt;
         $sentContext['edited_by'] = $editorId;
 
         // Update message
@@ -296,6 +544,300 @@ class TherapyMessageService extends TherapyAlertService
         return true;
     }
 
+    /**
+     * Get the full edit/delete history of a message (therapist audit view).
+     *
+     * Versions are returned oldest first: the original content written by the
+     * sender, followed by every edit. Deleted messages keep their content in
+     * llmMessages, so the history also exposes what was removed.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $messageId llmMessages.id
+     * @return array|null {message_id, is_deleted, deleted_at, deleted_by, deleted_by_name, versions} or null
+     */
+    public function getMessageHistory($conversationId, $messageId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return null;
+
+        $sql = "SELECT id, content, timestamp, deleted, sent_context
+                FROM llmMessages
+                WHERE id = :id AND id_llmConversations = :cid";
+        $msg = $this->db->query_db_first($sql, array(
+            ':id' => $messageId,
+            ':cid' => $conversation['id_llmConversations']
+        ));
+        if (!$msg) return null;
+
+        $sentContext = $msg['sent_context'] ? json_decode($msg['sent_context'], true) : array();
+        $senderId = $sentContext['therapy_sender_id'] ?? null;
+
+        $versions = array();
+        if (isset($sentContext['original_content'])) {
+            $versions[] = array(
+                'content' => $sentContext['original_content'],
+                'timestamp' => $msg['timestamp'],
+                'user_id' => $senderId,
+                'is_original' => true
+            );
+            $history = $sentContext['edit_history'] ?? array();
+            if (empty($history) && isset($sentContext['edited_at'])) {
+                // Legacy edit without history: only the latest version is known
+                $history[] = array(
+                    'content' => $msg['content'],
+                    'edited_at' => $sentContext['edited_at'],
+                    'edited_by' => $sentContext['edited_by'] ?? null
+                );
+            }
+            foreach ($history as $entry) {
+                $versions[] = array(
+                    'content' => $entry['content'],
+                    'timestamp' => $entry['edited_at'],
+                    'user_id' => $entry['edited_by'] ?? null,
+                    'is_original' => false
+                );
+            }
+        } else {
+            $versions[] = array(
+                'content' => $msg['content'],
+                'timestamp' => $msg['timestamp'],
+                'user_id' => $senderId,
+                'is_original' => true
+            );
+        }
+
+        // Resolve user names in a single query
+        $userIds = array_column($versions, 'user_id');
+        $deletedBy = $sentContext['deleted_by'] ?? null;
+        if ($deletedBy) $userIds[] = $deletedBy;
+        $names = $this->getUserNames($userIds);
+
+        foreach ($versions as $i => &$version) {
+            $version['version'] = $i + 1;
+            $version['user_name'] = $names[(int)$version['user_id']] ?? null;
+        }
+        unset($version);
+
+        return array(
+            'message_id' => (int)$msg['id'],
+            'is_deleted' => (bool)$msg['deleted'],
+            'deleted_at' => $sentContext['deleted_at'] ?? null,
+            'deleted_by' => $deletedBy,
+            'deleted_by_name' => $deletedBy ? ($names[(int)$deletedBy] ?? null) : null,
+            'versions' => $versions
+        );
+    }
+
+    /**
+     * Display name of a user.
+     *
+     * @param int $userId
+     * @return string|null
+     */
+    public function getUserName($userId)
+    {
+        return $this->getUserNames(array($userId))[(int)$userId] ?? null;
+    }
+
+    /**
+     * Map user IDs to display names.
+     *
+     * @param array $userIds
+     * @return array userId => name
+     */
+    protected function getUserNames($userIds)
+    {
+        $userIds = array_values(array_unique(array_filter(array_map('intval', $userIds))));
+        if (empty($userIds)) return array();
+
+        $placeholders = implode(',', array_fill(0, count($userIds), '?'));
+        $rows = $this->db->query_db("SELECT id, name FROM users WHERE id IN ($placeholders)", $userIds);
+
+        $names = array();
+        foreach ($rows as $row) {
+            $names[(int)$row['id']] = $row['name'];
+        }
+        return $names;
+    }
+
+    /* =========================================================================
+     * ATTACHMENTS
+     * ========================================================================= */
+
+    /**
+     * Get the attachments of several messages with one query.
+     *
+     * @param array $messageIds llmMessages.id values
+     * @return array message ID (int) => list of {id, file_name, mime_type, file_size}
+     */
+    public function getAttachmentsForMessages($messageIds)
+    {
+        $messageIds = array_values(array_filter(array_map('intval', $messageIds)));
+        if (empty($messageIds)) {
+            return array();
+        }
+
+        $placeholders = implode(',', array_fill(0, count($messageIds), '?'));
+        $sql = "SELECT id, id_llmMessages, file_name, mime_type, file_size
+                FROM therapyMessageAttachments
+                WHERE id_llmMessages IN ($placeholders)
+                ORDER BY id ASC";
+        $rows = $this->db->query_db($sql, $messageIds);
+
+        $result = array();
+        foreach ($rows ?: array() as $row) {
+            $result[(int)$row['id_llmMessages']][] = $this->formatAttachment($row);
+        }
+        return $result;
+    }
+
+    /**
+     * Get one attachment with the data needed for access checks.
+     *
+     * @param int $attachmentId therapyMessageAttachments.id
+     * @return array|null Row plus conversation_id (therapyConversationMeta.id),
+     *                    patient_id and message_deleted
+     */
+    public function getAttachment($attachmentId)
+    {
+        $sql = "SELECT tma.*, tcm.id AS conversation_id, lc.id_users AS patient_id,
+                       lm.deleted AS message_deleted
+                FROM therapyMessageAttachments tma
+                INNER JOIN llmMessages lm ON lm.id = tma.id_llmMessages
+                INNER JOIN llmConversations lc ON lc.id = tma.id_llmConversations
+                INNER JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = tma.id_llmConversations
+                WHERE tma.id = :id";
+        return $this->db->query_db_first($sql, array(':id' => $attachmentId));
+    }
+
+    /**
+     * Absolute path of a stored attachment file.
+     *
+     * @param array $attachment Row from getAttachment()
+     * @return string
+     */
+    public function getAttachmentPath($attachment)
+    {
+        return THERAPY_ATTACHMENT_DIR . '/' . basename($attachment['stored_name']);
+    }
+
+    /**
+     * Plain-text note listing attached files, used for AI context and
+     * notification previews of messages without text.
+     *
+     * @param array $attachments [{file_name, ...}]
+     * @return string Empty when there are no attachments
+     */
+    public function describeAttachments($attachments)
+    {
+        if (empty($attachments)) {
+            return '';
+        }
+        return '[Attached files: ' . implode(', ', array_column($attachments, 'file_name')) . ']';
+    }
+
+    /**
+     * Move validated uploads into the attachments directory under random names.
+     * Already moved files are removed again when one of them fails.
+     *
+     * @param array $files [{tmp_name, file_name, mime_type, file_size}]
+     * @return array The same entries plus stored_name
+     * @throws Exception
+     */
+    private function storeAttachmentFiles($files)
+    {
+        if (empty($files)) {
+            return array();
+        }
+
+        $this->ensureAttachmentDir();
+        $extensions = array(
+            'image/jpeg' => 'jpg',
+            'image/png' => 'png',
+            'image/gif' => 'gif',
+            'image/webp' => 'webp',
+            'application/pdf' => 'pdf'
+        );
+
+        $stored = array();
+        foreach ($files as $file) {
+            $storedName = bin2hex(random_bytes(16)) . '.' . ($extensions[$file['mime_type']] ?? 'bin');
+            if (!move_uploaded_file($file['tmp_name'], THERAPY_ATTACHMENT_DIR . '/' . $storedName)) {
+                $this->deleteStoredFiles($stored);
+                throw new Exception('Could not save ' . $file['file_name']);
+            }
+            $stored[] = array_merge($file, array('stored_name' => $storedName));
+        }
+        return $stored;
+    }
+
+    /**
+     * Remove stored files (cleanup after a failed send).
+     */
+    private function deleteStoredFiles($storedFiles)
+    {
+        foreach ($storedFiles as $file) {
+            @unlink(THERAPY_ATTACHMENT_DIR . '/' . $file['stored_name']);
+        }
+    }
+
+    /**
+     * Record stored files as attachments of a message.
+     *
+     * @return array Public attachment data: [{id, file_name, mime_type, file_size}]
+     */
+    private function insertMessageAttachments($messageId, $llmConversationId, $userId, $storedFiles)
+    {
+        $attachments = array();
+        foreach ($storedFiles as $file) {
+            $attachmentId = $this->db->insert('therapyMessageAttachments', array(
+                'id_llmMessages' => $messageId,
+                'id_llmConversations' => $llmConversationId,
+                'id_users' => $userId,
+                'file_name' => $file['file_name'],
+                'stored_name' => $file['stored_name'],
+                'mime_type' => $file['mime_type'],
+                'file_size' => $file['file_size']
+            ));
+            if ($attachmentId) {
+                $attachments[] = $this->formatAttachment(array_merge($file, array('id' => $attachmentId)));
+            }
+        }
+        return $attachments;
+    }
+
+    /**
+     * Create the attachments directory, closed to direct web access.
+     *
+     * @throws Exception
+     */
+    private function ensureAttachmentDir()
+    {
+        if (is_dir(THERAPY_ATTACHMENT_DIR)) {
+            return;
+        }
+        if (!@mkdir(THERAPY_ATTACHMENT_DIR, 0750, true) && !is_dir(THERAPY_ATTACHMENT_DIR)) {
+            throw new Exception('Attachment storage is not writable');
+        }
+        file_put_contents(
+            THERAPY_ATTACHMENT_DIR . '/.htaccess',
+            "Require all denied\n<IfModule !mod_authz_core.c>\n    Deny from all\n</IfModule>\n"
+        );
+    }
+
+    /**
+     * Public attachment fields (the stored file name is never exposed).
+     */
+    private function formatAttachment($row)
+    {
+        return array(
+            'id' => (int)$row['id'],
+            'file_name' => $row['file_name'],
+            'mime_type' => $row['mime_type'],
+            'file_size' => (int)$row['file_size']
+        );
+    }
+
     /* =========================================================================
      * AI RESPONSE
      * ========================================================================= */
@@ -310,14 +852,19 @@ class TherapyMessageService extends TherapyAlertService
      *  2. Extracts displayable text from structured JSON responses
      *  3. Saves the message and creates recipient entries
      *
+     * With $onDelta the response is streamed (see streamLlmApi). When the
+     * client cancels the stream nothing is saved and the result carries
+     * 'cancelled' => true.
+     *
      * @param int $conversationId therapyConversationMeta.id
      * @param array $contextMessages Fully prepared messages (with schema instructions)
      * @param string $model
      * @param float|null $temperature
      * @param int|null $maxTokens
+     * @param callable|null $onDelta function(string $rawChunk): bool, false cancels
      * @return array {success, message_id, content, raw_content} or {error}
      */
-    public function processAIResponse($conversationId, $contextMessages, $model, $temperature = null, $maxTokens = null)
+    public function processAIResponse($conversationId, $contextMessages, $model, $temperature = null, $maxTokens = null, $onDelta = null)
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) {
@@ -331,8 +878,13 @@ class TherapyMessageService extends TherapyAlertService
         try {
             // Call LLM API directly — context already includes schema/safety
             // instructions injected by the caller (TherapyChatModel).
-            $response = $this->callLlmApi($contextMessages, $model, $temperature, $maxTokens);
+            $response = $onDelta
+                ? $this->streamLlmApi($contextMessages, $model, $temperature, $maxTokens, $onDelta)
+                : $this->callLlmApi($contextMessages, $model, $temperature, $maxTokens);
 
+            if (!empty($response['cancelled'])) {
+                return array('error' => 'AI response cancelled', 'cancelled' => true);
+            }
             if (!$response || empty($response['content'])) {
                 return array('error' => 'No response from AI');
             }
@@ -383,62 +935,323 @@ class TherapyMessageService extends TherapyAlertService
     }
 
     /**
-     * Extract human-readable display text from an LLM response.
+     * Call the LLM API with a streamed (server-sent events) response.
      *
-     * Handles structured JSON responses from the base LLM plugin.
-     * If safety indicates danger, returns safety message + emergency resources.
-     * Otherwise extracts from text_blocks.
+     * $onDelta receives each raw content chunk as it arrives; returning
+     * false aborts the request (the client went away). Without a configured
+     * base URL the regular callLlmApi() is used and the whole answer is
+     * passed to $onDelta as a single chunk.
      *
-     * @param string $content Raw LLM response content
-     * @return string Displayable text
+     * @param array $messages
+     * @param string $model
+     * @param float|null $temperature
+     * @param int|null $maxTokens
+     * @param callable $onDelta function(string $rawChunk): bool
+     * @return array {content, tokens_used, request_payload} or {cancelled}
+     * @throws Exception On transport or API errors
      */
-    public function extractDisplayContent($content)
+    public function streamLlmApi($messages, $model, $temperature, $maxTokens, $onDelta)
     {
-        $decoded = self::parseLlmJson($content);
-
-        if ($decoded === null) {
-            return $content;
-        }
-
-        // Check for safety protocol response from base plugin
-        if (isset($decoded['safety']) && isset($decoded['safety']['is_safe']) && !$decoded['safety']['is_safe']) {
-            $safetyText = $decoded['safety']['safety_message'] ?? 'Safety protocol activated due to detected concerns.';
-
-            // Check danger level
-            $dangerLevel = $decoded['safety']['danger_level'] ?? '';
-            if ($dangerLevel === 'emergency') {
-                $safetyText .= "\n\nEMERGENCY: Immediate professional help is required.";
+        $config = $this->getLlmConfig();
+        if (empty($config['llm_base_url']) || !function_exists('curl_init')) {
+            $response = $this->callLlmApi($messages, $model, $temperature, $maxTokens);
+            if ($response && !empty($response['content']) && $onDelta($response['content']) === false) {
+                return array('cancelled' => true);
             }
-
-            // Add emergency resources
-            $safetyText .= "\n\nEmergency Resources:\n" .
-                "• Contact your therapist or healthcare provider immediately\n" .
-                "• Call emergency services (911 in the US, or your local emergency number)\n" .
-                "• Contact a crisis hotline:\n" .
-                "  - National Suicide Prevention Lifeline: 988 (US)\n" .
-                "  - Crisis Text Line: Text HOME to 741741 (US)\n" .
-                "  - International: Find local resources at befrienders.org\n\n" .
-                "Your safety is the top priority. Please seek professional help right away.";
-
-            return $safetyText;
+            return $response;
         }
 
-        // Standard response: extract from text_blocks
-        if (isset($decoded['content']['text_blocks'])) {
-            // Extract text from text_blocks
-            $textParts = array();
-            foreach ($decoded['content']['text_blocks'] as $block) {
-                if (isset($block['content']) && is_string($block['content'])) {
-                    $textParts[] = $block['content'];
+        $payload = array(
+            'model' => $model,
+            'messages' => $messages,
+            'stream' => true,
+            'stream_options' => array('include_usage' => true)
+        );
+        if ($temperature !== null) $payload['temperature'] = $temperature;
+        if ($maxTokens !== null) $payload['max_tokens'] = $maxTokens;
+
+        $content = '';
+        $tokensUsed = null;
+        $buffer = '';
+        $cancelled = false;
+
+        $ch = curl_init(rtrim($config['llm_base_url'], '/') . '/chat/completions');
+        curl_setopt_array($ch, array(
+            CURLOPT_POST => true,
+            CURLOPT_POSTFIELDS => json_encode($payload),
+            CURLOPT_HTTPHEADER => array(
+                'Content-Type: application/json',
+                'Accept: text/event-stream',
+                'Authorization: Bearer ' . ($config['llm_api_key'] ?? '')
+            ),
+            CURLOPT_TIMEOUT => (int)($config['llm_timeout'] ?? THERAPY_STREAM_MAX_DURATION),
+            CURLOPT_WRITEFUNCTION => function ($ch, $data) use (&$content, &$tokensUsed, &$buffer, &$cancelled, $onDelta) {
+                $buffer .= $data;
+                while (($pos = strpos($buffer, "\n")) !== false) {
+                    $line = trim(substr($buffer, 0, $pos));
+                    $buffer = substr($buffer, $pos + 1);
+                    if (strpos($line, 'data:') !== 0) continue;
+
+                    $event = json_decode(trim(substr($line, 5)), true);
+                    if (!is_array($event)) continue; // [DONE]
+                    if (isset($event['usage']['total_tokens'])) {
+                        $tokensUsed = (int)$event['usage']['total_tokens'];
+                    }
+                    $chunk = $event['choices'][0]['delta']['content'] ?? '';
+                    if ($chunk === '') continue;
+
+                    $content .= $chunk;
+                    if ($onDelta($chunk) === false) {
+                        $cancelled = true;
+                        return 0; // aborts the transfer
+                    }
                 }
+                return strlen($data);
             }
+        ));
 
-            if (!empty($textParts)) {
-                return implode("\n\n", $textParts);
-            }
+        curl_exec($ch);
+        $status = (int)curl_getinfo($ch, CURLINFO_HTTP_CODE);
+        $curlError = curl_error($ch);
+        curl_close($ch);
+
+        if ($cancelled) {
+            return array('cancelled' => true);
+        }
+        if ($curlError) {
+            throw new Exception('LLM streaming request failed: ' . $curlError);
+        }
+        if ($status >= 400) {
+            // Error responses are plain JSON, not an event stream
+            $error = json_decode($buffer, true);
+            throw new Exception('LLM API error (' . $status . '): ' . ($error['error']['message'] ?? 'unknown error'));
         }
 
-        return $content;
+        return array(
+            'content' => $content,
+            'tokens_used' => $tokensUsed,
+            'request_payload' => $payload
+        );
+    }
+
+    /**
+     * Display text contained in an incomplete (still streaming) LLM response.
+     *
+     * Collects the `content` strings of content.text_blocks[] the same way
+     * extractDisplayContent() does, decoding the last, unterminated string
+     * up to the last complete character. Plain-text answers are returned
+     * as they are. The result only grows as more of the response arrives,
+     * except while a JSON escape sequence is cut in half.
+     *
+     * @param string $raw Response received so far
+     * @return string
+     */
+    public static function extractPartialDisplayText($raw)
+    {
+        $trimmed = ltrim($raw);
+        if ($trimmed === '') {
+            return '';
+        }
+        if ($trimmed[0] !== '{' && $trimmed[0] !== '`') {
+            return $raw;
+        }
+
+        $start = strpos($raw, '"text_blocks"');
+        $i = $start === false ? false : strpos($raw, '[', $start);
+        if ($i === false) {
+            return '';
+        }
+
+        // Walk the text_blocks array: strings after a "content" key at block level
+        $parts = array();
+        $depth = 0;
+        $key = null;
+        $expectValue = false;
+        $len = strlen($raw);
+        for ($i++; $i < $len; $i++) {
+            $c = $raw[$i];
+            if ($c === '"') {
+                $end = $i + 1;
+                while ($end < $len && $raw[$end] !== '"') {
+                    $end += $raw[$end] === '\\' ? 2 : 1;
+                }
+                $body = substr($raw, $i + 1, min($end, $len) - $i - 1);
+                if ($depth === 1 && $expectValue && $key === 'content') {
+                    $parts[] = self::decodeJsonStringPrefix($body);
+                } elseif (!$expectValue) {
+                    $key = $body;
+                }
+                $i = $end;
+            } elseif ($c === ':') {
+                $expectValue = true;
+            } elseif ($c === ',') {
+                $expectValue = false;
+            } elseif ($c === '{' || $c === '[') {
+                $depth++;
+                $expectValue = false;
+            } elseif ($c === '}' || $c === ']') {
+                $depth--;
+                if ($depth < 0) break; // end of text_blocks
+            }
+        }
+
+        return implode("\n\n", $parts);
+    }
+
+    /**
+     * Safety verdict of an incomplete LLM response.
+     *
+     * The verdict is only known once the top-level "safety" object is
+     * complete and decodes; models do not guarantee that it comes before
+     * "content", so callers must hold back display text until then. The
+     * rule matches the final check (handlePostLlmSafetyDetection): safe
+     * means is_safe is true and no danger_level is set.
+     *
+     * @param string $raw Response received so far
+     * @return bool|null True safe, false unsafe, null not known yet
+     */
+    public static function assessPartialSafety($raw)
+    {
+        $safety = self::extractPartialSafetyObject($raw);
+        if ($safety === null) {
+            return null;
+        }
+        return !empty($safety['is_safe']) && ($safety['danger_level'] ?? null) === null;
+    }
+
+    /**
+     * The top-level "safety" object of an incomplete LLM response, once it
+     * has been received completely.
+     *
+     * @param string $raw Response received so far
+     * @return array|null Decoded object, or null while incomplete or absent
+     */
+    private static function extractPartialSafetyObject($raw)
+    {
+        $i = strpos($raw, '{');
+        if ($i === false) {
+            return null;
+        }
+
+        $depth = 0;
+        $key = null;
+        $expectValue = false;
+        $objectStart = null;
+        $len = strlen($raw);
+        for (; $i < $len; $i++) {
+            $c = $raw[$i];
+            if ($c === '"') {
+                $end = $i + 1;
+                while ($end < $len && $raw[$end] !== '"') {
+                    $end += $raw[$end] === '\\' ? 2 : 1;
+                }
+                if ($end >= $len) {
+                    return null;
+                }
+                if ($depth === 1 && !$expectValue) {
+                    $key = substr($raw, $i + 1, $end - $i - 1);
+                }
+                $i = $end;
+            } elseif ($c === ':') {
+                $expectValue = true;
+            } elseif ($c === ',') {
+                $expectValue = false;
+            } elseif ($c === '{' || $c === '[') {
+                if ($depth === 1 && $expectValue && $key === 'safety' && $c === '{') {
+                    $objectStart = $i;
+                }
+                $depth++;
+                $expectValue = false;
+            } elseif ($c === '}' || $c === ']') {
+                $depth--;
+                if ($objectStart !== null && $depth === 1) {
+                    $decoded = json_decode(substr($raw, $objectStart, $i - $objectStart + 1), true);
+                    return is_array($decoded) ? $decoded : null;
+                }
+                if ($depth <= 0) {
+                    return null;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Decode the body of a JSON string that may be cut off mid-escape.
+     *
+     * @param string $body String content without the surrounding quotes
+     * @return string
+     */
+    private static function decodeJsonStringPrefix($body)
+    {
+        // Drop an incomplete \uXXXX escape, a lone high surrogate or a trailing backslash
+        $body = preg_replace('/\\\\u[0-9a-fA-F]{0,3}$/', '', $body);
+        $body = preg_replace('/\\\\u[dD][89abAB][0-9a-fA-F]{2}$/', '', $body);
+        if (preg_match('/(\\\\+)$/', $body, $m) && strlen($m[1]) % 2 === 1) {
+            $body = substr($body, 0, -1);
+        }
+        $decoded = json_decode('"' . $body . '"');
+        return is_string($decoded) ? $decoded : '';
+    }
+
+    /**
+     * Extract human-readable display text from an LLM response.
+     *
+     * Handles structured JSON responses from the base LLM plugin.
+     * If safety indicates danger, returns safety message + emergency resources.
+     * Otherwise extracts from text_blocks.
+     *
+     * @param string $content Raw LLM response content
+     * @return string Displayable text
+     */
+    public function extractDisplayContent($content)
+    {
+        $decoded = self::parseLlmJson($content);
+
+        if ($decoded === null) {
+            return $content;
+        }
+
+        // Check for safety protocol response from base plugin
+        if (isset($decoded['safety']) && isset($decoded['safety']['is_safe']) && !$decoded['safety']['is_safe']) {
+            $safetyText = $decoded['safety']['safety_message'] ?? 'Safety protocol activated due to detected concerns.';
+
+            // Check danger level
+            $dangerLevel = $decoded['safety']['danger_level'] ?? '';
+            if ($dangerLevel === 'emergency') {
+                $safetyText .= "\n\nEMERGENCY: Immediate professional help is required.";
+            }
+
+            // Add emergency resources
+            $safetyText .= "\n\nEmergency Resources:\n" .
+                "• Contact your therapist or healthcare provider immediately\n" .
+                "• Call emergency services (911 in the US, or your local emergency number)\n" .
+                "• Contact a crisis hotline:\n" .
+                "  - National Suicide Prevention Lifeline: 988 (US)\n" .
+                "  - Crisis Text Line: Text HOME to 741741 (US)\n" .
+                "  - International: Find local resources at befrienders.org\n\n" .
+                "Your safety is the top priority. Please seek professional help right away.";
+
+            return $safetyText;
+        }
+
+        // Standard response: extract from text_blocks
+        if (isset($decoded['content']['text_blocks'])) {
+            // Extract text from text_blocks
+            $textParts = array();
+            foreach ($decoded['content']['text_blocks'] as $block) {
+                if (isset($block['content']) && is_string($block['content'])) {
+                    $textParts[] = $block['content'];
+                }
+            }
+
+            if (!empty($textParts)) {
+                return implode("\n\n", $textParts);
+            }
+        }
+
+        return $content;
     }
 
     /**
@@ -502,6 +1315,11 @@ class TherapyMessageService extends TherapyAlertService
             $role = ($msg['role'] === 'assistant') ? 'assistant' : 'user';
             $content = $msg['content'];
 
+            // The model cannot see the files, only that they were sent
+            if (!empty($msg['attachments'])) {
+                $content = trim($content . "\n" . $this->describeAttachments($msg['attachments']));
+            }
+
             // Mark therapist messages as authoritative clinical input
             if ($msg['sender_type'] === self::SENDER_THERAPIST) {
                 $content = "[THERAPIST - Clinical guidance, treat as authoritative]: " . $content;
@@ -523,9 +1341,10 @@ class TherapyMessageService extends TherapyAlertService
      * @param int $conversationId therapyConversationMeta.id
      * @param int $therapistId
      * @param string $aiContent AI-generated content
+     * @param array $guidance {instruction, tone, length} the draft was generated with
      * @return int|bool Draft ID or false on failure
      */
-    public function createDraft($conversationId, $therapistId, $aiContent)
+    public function createDraft($conversationId, $therapistId, $aiContent, $guidance = array())
     {
         $conversation = $this->getTherapyConversation($conversationId);
         if (!$conversation) return false;
@@ -537,6 +1356,9 @@ class TherapyMessageService extends TherapyAlertService
             'id_users' => $therapistId,
             'ai_generated_content' => $aiContent
         );
+        if (!empty($guidance)) {
+            $data['generation_options'] = json_encode($guidance);
+        }
 
         // Only include status if lookup resolved successfully
         if ($statusId) {
@@ -547,111 +1369,583 @@ class TherapyMessageService extends TherapyAlertService
 
         if ($draftId) {
             $this->logTransaction(
-                transactionTypes_insert, 'therapyDraftMessages', $draftId, $therapistId,
-                'AI draft created for conversation #' . $conversationId
+                transactionTypes_insert, 'therapyDraftMessages', $draftId, $therapistId,
+                'AI draft created for conversation #' . $conversationId
+            );
+        }
+
+        return $draftId;
+    }
+
+    /**
+     * Update a draft's edited content.
+     *
+     * @param int $draftId
+     * @param string $editedContent
+     * @return bool
+     */
+    public function updateDraft($draftId, $editedContent)
+    {
+        return $this->db->update_by_ids(
+            'therapyDraftMessages',
+            array('edited_content' => $editedContent),
+            array('id' => $draftId)
+        );
+    }
+
+    /**
+     * Send a draft as a real message.
+     *
+     * The draft editor keeps several AI candidates per reply. The sent
+     * candidate stores the final text in edited_content; the other
+     * candidates are discarded. The message's sent_context records the
+     * candidate set and the candidates paragraphs were picked from, so draft
+     * quality can be evaluated later.
+     *
+     * @param int $draftId Candidate the final text is based on
+     * @param int $therapistId
+     * @param int $conversationId therapyConversationMeta.id
+     * @param string|null $content Final text (defaults to the stored draft text)
+     * @param array $candidateIds All candidate draft IDs of this reply
+     * @param array $pickedFromIds Candidates paragraphs were copied from
+     * @return array {success, message_id} or {error}
+     */
+    public function sendDraft($draftId, $therapistId, $conversationId, $content = null, $candidateIds = array(), $pickedFromIds = array())
+    {
+        $draft = $this->getDraft($draftId, $therapistId);
+
+        if (!$draft) {
+            return array('error' => 'Draft not found');
+        }
+
+        if ($content !== null && $content !== '') {
+            $this->updateDraft($draftId, $content);
+        } else {
+            // Use edited content if available, otherwise AI content
+            $content = $draft['edited_content'] ?: $draft['ai_generated_content'];
+        }
+        if (empty($content)) {
+            return array('error' => 'Draft has no content');
+        }
+
+        $metadata = array('from_draft' => (int)$draftId);
+        $candidateIds = array_values(array_unique(array_map('intval', $candidateIds)));
+        if (count($candidateIds) > 1 || !empty($pickedFromIds)) {
+            $metadata['draft_candidates'] = $candidateIds;
+            $metadata['draft_candidate_index'] = array_search((int)$draftId, $candidateIds, true);
+            $metadata['draft_picked_from'] = array_values(array_unique(array_map('intval', $pickedFromIds)));
+        }
+        $metadata['draft_edited'] = trim($content) !== trim((string)$draft['ai_generated_content']);
+        $guidance = $this->getDraftGuidance($draft);
+        if ($guidance) {
+            $metadata['draft_guidance'] = $guidance;
+        }
+
+        // Send as therapist message
+        $result = $this->sendTherapyMessage(
+            $conversationId,
+            $therapistId,
+            $content,
+            self::SENDER_THERAPIST,
+            $metadata
+        );
+
+        if (isset($result['success'])) {
+            // Update draft status to sent
+            $sentStatusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_SENT);
+            $this->db->update_by_ids('therapyDraftMessages', array(
+                'id_draftStatus' => $sentStatusId,
+                'id_llmMessages' => $result['message_id'],
+                'sent_at' => date('Y-m-d H:i:s')
+            ), array('id' => $draftId));
+
+            foreach ($candidateIds as $candidateId) {
+                if ($candidateId !== (int)$draftId) {
+                    $this->discardDraft($candidateId, $therapistId);
+                }
+            }
+        }
+
+        return $result;
+    }
+
+    /**
+     * Get a draft of the therapist.
+     *
+     * @param int $draftId
+     * @param int $therapistId
+     * @return array|null
+     */
+    public function getDraft($draftId, $therapistId)
+    {
+        $sql = "SELECT * FROM therapyDraftMessages WHERE id = ? AND id_users = ?";
+        return $this->db->query_db_first($sql, array($draftId, $therapistId)) ?: null;
+    }
+
+    /**
+     * Decode the guidance (instruction, tone, length) a draft was generated with.
+     *
+     * @param array $draft therapyDraftMessages row
+     * @return array|null
+     */
+    public function getDraftGuidance($draft)
+    {
+        if (empty($draft['generation_options'])) return null;
+        $guidance = json_decode($draft['generation_options'], true);
+        return is_array($guidance) && !empty($guidance) ? $guidance : null;
+    }
+
+    /**
+     * Discard a draft.
+     *
+     * @param int $draftId
+     * @param int $therapistId
+     * @return bool
+     */
+    public function discardDraft($draftId, $therapistId)
+    {
+        $discardedId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_DISCARDED);
+        return $this->db->update_by_ids('therapyDraftMessages', array(
+            'id_draftStatus' => $discardedId
+        ), array('id' => $draftId, 'id_users' => $therapistId));
+    }
+
+    /**
+     * Get active draft for a conversation.
+     *
+     * @param int $conversationId
+     * @param int $therapistId
+     * @return array|null
+     */
+    public function getActiveDraft($conversationId, $therapistId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return null;
+
+        $draftStatusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_DRAFT);
+
+        $sql = "SELECT * FROM therapyDraftMessages
+                WHERE id_llmConversations = ? AND id_users = ? AND id_draftStatus = ?
+                ORDER BY created_at DESC LIMIT 1";
+
+        return $this->db->query_db_first($sql, array(
+            $conversation['id_llmConversations'], $therapistId, $draftStatusId
+        ));
+    }
+
+    /* =========================================================================
+     * SCHEDULED MESSAGES
+     * ========================================================================= */
+
+    /**
+     * Schedule a therapist message for later delivery.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $therapistId
+     * @param string $content
+     * @param string $scheduledAt Server time (Y-m-d H:i:s)
+     * @return int|bool Scheduled message ID or false on failure
+     */
+    public function scheduleMessage($conversationId, $therapistId, $content, $scheduledAt)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return false;
+
+        $scheduledId = $this->db->insert('therapyScheduledMessages', array(
+            'id_llmConversations' => $conversation['id_llmConversations'],
+            'id_users' => $therapistId,
+            'content' => $content,
+            'scheduled_at' => $scheduledAt,
+            'id_scheduledStatus' => $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_PENDING)
+        ));
+
+        if ($scheduledId) {
+            $this->logTransaction(
+                transactionTypes_insert, 'therapyScheduledMessages', $scheduledId, $therapistId,
+                'Message scheduled for ' . $scheduledAt . ' in conversation #' . $conversationId
+            );
+        }
+
+        return $scheduledId;
+    }
+
+    /**
+     * Change the text and send time of a pending scheduled message.
+     * Only the therapist who scheduled it can change it.
+     *
+     * @param int $scheduledId
+     * @param int $therapistId
+     * @param string $content
+     * @param string $scheduledAt Server time (Y-m-d H:i:s)
+     * @return bool
+     */
+    public function updateScheduledMessage($scheduledId, $therapistId, $content, $scheduledAt)
+    {
+        if (!$this->getPendingScheduledMessage($scheduledId, $therapistId)) return false;
+
+        return $this->db->update_by_ids('therapyScheduledMessages', array(
+            'content' => $content,
+            'scheduled_at' => $scheduledAt
+        ), array('id' => $scheduledId)) !== false;
+    }
+
+    /**
+     * Cancel a pending scheduled message (author only).
+     *
+     * @param int $scheduledId
+     * @param int $therapistId
+     * @return bool
+     */
+    public function cancelScheduledMessage($scheduledId, $therapistId)
+    {
+        if (!$this->getPendingScheduledMessage($scheduledId, $therapistId)) return false;
+
+        $cancelledId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_CANCELLED);
+        $updated = $this->db->update_by_ids('therapyScheduledMessages', array(
+            'id_scheduledStatus' => $cancelledId
+        ), array('id' => $scheduledId)) !== false;
+
+        if ($updated) {
+            $this->logTransaction(
+                transactionTypes_update, 'therapyScheduledMessages', $scheduledId, $therapistId,
+                'Scheduled message cancelled'
+            );
+        }
+        return $updated;
+    }
+
+    /**
+     * Get the pending scheduled messages of a conversation, next first.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @return array List of scheduled messages (see formatScheduledMessage)
+     */
+    public function getScheduledMessages($conversationId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return array();
+
+        $sql = "SELECT tsm.*, u.name AS therapist_name
+                FROM therapyScheduledMessages tsm
+                INNER JOIN users u ON u.id = tsm.id_users
+                WHERE tsm.id_llmConversations = ? AND tsm.id_scheduledStatus = ?
+                ORDER BY tsm.scheduled_at, tsm.id";
+        $rows = $this->db->query_db($sql, array(
+            $conversation['id_llmConversations'],
+            $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_PENDING)
+        )) ?: array();
+
+        $result = array();
+        foreach ($rows as $row) {
+            $result[] = $this->formatScheduledMessage($row, $conversationId);
+        }
+        return $result;
+    }
+
+    /**
+     * Get one pending scheduled message in API form (author only).
+     *
+     * @param int $scheduledId
+     * @param int $therapistId
+     * @return array|null
+     */
+    public function getScheduledMessage($scheduledId, $therapistId)
+    {
+        $row = $this->getPendingScheduledMessage($scheduledId, $therapistId);
+        return $row ? $this->formatScheduledMessage($row, $row['conversation_id']) : null;
+    }
+
+    /**
+     * Get all pending scheduled messages whose send time has passed.
+     *
+     * @return array Rows with conversation_id (therapyConversationMeta.id)
+     */
+    public function getDueScheduledMessages()
+    {
+        $sql = "SELECT tsm.*, tcm.id AS conversation_id
+                FROM therapyScheduledMessages tsm
+                INNER JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = tsm.id_llmConversations
+                WHERE tsm.id_scheduledStatus = :status AND tsm.scheduled_at <= :now
+                ORDER BY tsm.scheduled_at, tsm.id";
+        return $this->db->query_db($sql, array(
+            ':status' => $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_PENDING),
+            ':now' => date('Y-m-d H:i:s')
+        )) ?: array();
+    }
+
+    /**
+     * Deliver a due scheduled message as a therapist message. Use
+     * TherapyNotificationService::deliverScheduledMessage(), which also
+     * notifies the patient.
+     *
+     * Overlapping cron runs may find the same due message, so delivery runs
+     * under a per-message MySQL lock and re-checks the status first.
+     * sendTherapyMessageOnce() keeps a retry from storing it twice.
+     *
+     * @param array $scheduled Row from getDueScheduledMessages()
+     * @return array sendTherapyMessage() result, or {skipped: true} when
+     *               another run handles (or handled) the message
+     */
+    public function sendScheduledMessage($scheduled)
+    {
+        $scheduledId = (int)$scheduled['id'];
+        $lockName = 'therapy_scheduled_' . $scheduledId;
+        $lock = $this->db->query_db_first("SELECT GET_LOCK(?, 0) AS acquired", array($lockName));
+        if (!$lock || (int)$lock['acquired'] !== 1) {
+            return array('skipped' => true);
+        }
+
+        try {
+            $pendingId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_PENDING);
+            $current = $this->db->query_db_first(
+                "SELECT id_scheduledStatus FROM therapyScheduledMessages WHERE id = ?",
+                array($scheduledId)
+            );
+            if (!$current || (int)$current['id_scheduledStatus'] !== (int)$pendingId) {
+                return array('skipped' => true);
+            }
+
+            $result = $this->sendTherapyMessageOnce(
+                $scheduled['conversation_id'],
+                $scheduled['id_users'],
+                $scheduled['content'],
+                self::SENDER_THERAPIST,
+                'scheduled-' . $scheduledId,
+                array('scheduled_message_id' => $scheduledId)
+            );
+
+            if (isset($result['success'])) {
+                $this->db->update_by_ids('therapyScheduledMessages', array(
+                    'id_scheduledStatus' => $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_SENT),
+                    'id_llmMessages' => $result['message_id'],
+                    'sent_at' => date('Y-m-d H:i:s')
+                ), array('id' => $scheduledId));
+            } else {
+                $this->db->update_by_ids('therapyScheduledMessages', array(
+                    'id_scheduledStatus' => $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_FAILED)
+                ), array('id' => $scheduledId));
+            }
+
+            return $result;
+        } finally {
+            $this->db->query_db_first("SELECT RELEASE_LOCK(?) AS released", array($lockName));
+        }
+    }
+
+    /**
+     * Pending scheduled message row (with conversation_id) owned by the therapist.
+     *
+     * @param int $scheduledId
+     * @param int $therapistId
+     * @return array|null
+     */
+    private function getPendingScheduledMessage($scheduledId, $therapistId)
+    {
+        $sql = "SELECT tsm.*, u.name AS therapist_name, tcm.id AS conversation_id
+                FROM therapyScheduledMessages tsm
+                INNER JOIN users u ON u.id = tsm.id_users
+                INNER JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = tsm.id_llmConversations
+                WHERE tsm.id = ? AND tsm.id_users = ? AND tsm.id_scheduledStatus = ?";
+        return $this->db->query_db_first($sql, array(
+            $scheduledId,
+            $therapistId,
+            $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_SCHEDULED_STATUS, THERAPY_SCHEDULED_PENDING)
+        )) ?: null;
+    }
+
+    /**
+     * API form of a scheduled message. Times are ISO 8601 with offset so
+     * the browser can show them in its own time zone.
+     *
+     * @param array $row therapyScheduledMessages row with therapist_name
+     * @param int $conversationId therapyConversationMeta.id
+     * @return array
+     */
+    private function formatScheduledMessage($row, $conversationId)
+    {
+        return array(
+            'id' => (int)$row['id'],
+            'conversation_id' => (int)$conversationId,
+            'therapist_id' => (int)$row['id_users'],
+            'therapist_name' => $row['therapist_name'],
+            'content' => $row['content'],
+            'scheduled_at' => date('c', strtotime($row['scheduled_at'])),
+            'created_at' => $row['created_at'],
+            'updated_at' => $row['updated_at']
+        );
+    }
+
+    /* =========================================================================
+     * MESSAGE TEMPLATES
+     * ========================================================================= */
+
+    /**
+     * Get the templates a therapist can use: their personal templates and
+     * the templates shared with any group they are assigned to.
+     *
+     * @param int $therapistId
+     * @return array List of templates (see formatTemplate), by title
+     */
+    public function getTemplatesForTherapist($therapistId)
+    {
+        $sql = "SELECT tmt.*, u.name AS author_name, g.name AS group_name
+                FROM therapyMessageTemplates tmt
+                INNER JOIN users u ON u.id = tmt.id_users
+                LEFT JOIN `groups` g ON g.id = tmt.id_groups
+                WHERE (tmt.id_groups IS NULL AND tmt.id_users = :tid)
+                   OR tmt.id_groups IN (
+                        SELECT tta.id_groups FROM therapyTherapistAssignments tta WHERE tta.id_users = :tid2
+                   )
+                ORDER BY tmt.title, tmt.id";
+        $rows = $this->db->query_db($sql, array(':tid' => $therapistId, ':tid2' => $therapistId)) ?: array();
+
+        return array_map(array($this, 'formatTemplate'), $rows);
+    }
+
+    /**
+     * Get one template in API form if the therapist can use it.
+     *
+     * @param int $templateId
+     * @param int $therapistId
+     * @return array|null
+     */
+    public function getTemplate($templateId, $therapistId)
+    {
+        foreach ($this->getTemplatesForTherapist($therapistId) as $template) {
+            if ($template['id'] === (int)$templateId) return $template;
+        }
+        return null;
+    }
+
+    /**
+     * Create a template, personal or shared with one of the therapist's groups.
+     *
+     * @param int $therapistId
+     * @param string $title
+     * @param string $content
+     * @param int|null $groupId Group to share with (must be assigned to the therapist)
+     * @return int|bool Template ID or false
+     */
+    public function createTemplate($therapistId, $title, $content, $groupId = null)
+    {
+        if ($groupId && !$this->isAssignedToGroup($therapistId, $groupId)) return false;
+
+        $templateId = $this->db->insert('therapyMessageTemplates', array(
+            'id_users' => $therapistId,
+            'id_groups' => $groupId ?: null,
+            'title' => $title,
+            'content' => $content
+        ));
+
+        if ($templateId) {
+            $this->logTransaction(
+                transactionTypes_insert, 'therapyMessageTemplates', $templateId, $therapistId,
+                'Message template created' . ($groupId ? ' for group #' . $groupId : '')
             );
         }
-
-        return $draftId;
+        return $templateId;
     }
 
     /**
-     * Update a draft's edited content.
+     * Update a template. Only its author can change it.
      *
-     * @param int $draftId
-     * @param string $editedContent
+     * @param int $templateId
+     * @param int $therapistId
+     * @param string $title
+     * @param string $content
+     * @param int|null $groupId
      * @return bool
      */
-    public function updateDraft($draftId, $editedContent)
+    public function updateTemplate($templateId, $therapistId, $title, $content, $groupId = null)
     {
-        return $this->db->update_by_ids(
-            'therapyDraftMessages',
-            array('edited_content' => $editedContent),
-            array('id' => $draftId)
-        );
+        if (!$this->getOwnTemplateRow($templateId, $therapistId)) return false;
+        if ($groupId && !$this->isAssignedToGroup($therapistId, $groupId)) return false;
+
+        $updated = $this->db->update_by_ids('therapyMessageTemplates', array(
+            'id_groups' => $groupId ?: null,
+            'title' => $title,
+            'content' => $content
+        ), array('id' => $templateId)) !== false;
+
+        if ($updated) {
+            $this->logTransaction(
+                transactionTypes_update, 'therapyMessageTemplates', $templateId, $therapistId,
+                'Message template edited'
+            );
+        }
+        return $updated;
     }
 
     /**
-     * Send a draft as a real message.
+     * Delete a template (author only).
      *
-     * @param int $draftId
+     * @param int $templateId
      * @param int $therapistId
-     * @param int $conversationId therapyConversationMeta.id
-     * @return array {success, message_id} or {error}
+     * @return bool
      */
-    public function sendDraft($draftId, $therapistId, $conversationId)
+    public function deleteTemplate($templateId, $therapistId)
     {
-        $sql = "SELECT * FROM therapyDraftMessages WHERE id = ? AND id_users = ?";
-        $draft = $this->db->query_db_first($sql, array($draftId, $therapistId));
-
-        if (!$draft) {
-            return array('error' => 'Draft not found');
-        }
-
-        // Use edited content if available, otherwise AI content
-        $content = $draft['edited_content'] ?: $draft['ai_generated_content'];
-        if (empty($content)) {
-            return array('error' => 'Draft has no content');
-        }
+        if (!$this->getOwnTemplateRow($templateId, $therapistId)) return false;
 
-        // Send as therapist message
-        $result = $this->sendTherapyMessage(
-            $conversationId,
-            $therapistId,
-            $content,
-            self::SENDER_THERAPIST,
-            array('from_draft' => $draftId)
-        );
+        $deleted = $this->db->query_db(
+            "DELETE FROM therapyMessageTemplates WHERE id = ?",
+            array($templateId)
+        ) !== false;
 
-        if (isset($result['success'])) {
-            // Update draft status to sent
-            $sentStatusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_SENT);
-            $this->db->update_by_ids('therapyDraftMessages', array(
-                'id_draftStatus' => $sentStatusId,
-                'id_llmMessages' => $result['message_id'],
-                'sent_at' => date('Y-m-d H:i:s')
-            ), array('id' => $draftId));
+        if ($deleted) {
+            $this->logTransaction(
+                transactionTypes_delete, 'therapyMessageTemplates', $templateId, $therapistId,
+                'Message template deleted'
+            );
         }
+        return $deleted;
+    }
 
-        return $result;
+    /**
+     * @param int $templateId
+     * @param int $therapistId
+     * @return array|null Template row if the therapist created it
+     */
+    private function getOwnTemplateRow($templateId, $therapistId)
+    {
+        return $this->db->query_db_first(
+            "SELECT * FROM therapyMessageTemplates WHERE id = ? AND id_users = ?",
+            array($templateId, $therapistId)
+        ) ?: null;
     }
 
     /**
-     * Discard a draft.
-     *
-     * @param int $draftId
      * @param int $therapistId
+     * @param int $groupId
      * @return bool
      */
-    public function discardDraft($draftId, $therapistId)
+    private function isAssignedToGroup($therapistId, $groupId)
     {
-        $discardedId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_DISCARDED);
-        return $this->db->update_by_ids('therapyDraftMessages', array(
-            'id_draftStatus' => $discardedId
-        ), array('id' => $draftId, 'id_users' => $therapistId));
+        foreach ($this->getTherapistAssignedGroups($therapistId) as $group) {
+            if ((int)$group['id_groups'] === (int)$groupId) return true;
+        }
+        return false;
     }
 
     /**
-     * Get active draft for a conversation.
+     * API form of a template.
      *
-     * @param int $conversationId
-     * @param int $therapistId
-     * @return array|null
+     * @param array $row therapyMessageTemplates row with author_name, group_name
+     * @return array
      */
-    public function getActiveDraft($conversationId, $therapistId)
+    private function formatTemplate($row)
     {
-        $conversation = $this->getTherapyConversation($conversationId);
-        if (!$conversation) return null;
-
-        $draftStatusId = $this->db->get_lookup_id_by_code(THERAPY_LOOKUP_DRAFT_STATUS, THERAPY_DRAFT_DRAFT);
-
-        $sql = "SELECT * FROM therapyDraftMessages
-                WHERE id_llmConversations = ? AND id_users = ? AND id_draftStatus = ?
-                ORDER BY created_at DESC LIMIT 1";
-
-        return $this->db->query_db_first($sql, array(
-            $conversation['id_llmConversations'], $therapistId, $draftStatusId
-        ));
+        return array(
+            'id' => (int)$row['id'],
+            'title' => $row['title'],
+            'content' => $row['content'],
+            'group_id' => $row['id_groups'] !== null ? (int)$row['id_groups'] : null,
+            'group_name' => $row['group_name'],
+            'author_id' => (int)$row['id_users'],
+            'author_name' => $row['author_name'],
+            'created_at' => $row['created_at'],
+            'updated_at' => $row['updated_at']
+        );
     }
 
     /* =========================================================================
@@ -757,6 +2051,11 @@ class TherapyMessageService extends TherapyAlertService
     /**
      * Mark messages as seen for a user in a conversation.
      *
+     * Patient messages only get therapist recipient rows when they were
+     * addressed to therapists (tag, AI off). When a therapist reads the
+     * conversation, rows are added for the remaining patient messages
+     * (already seen) so the patient gets a read receipt for every message.
+     *
      * @param int $conversationId therapyConversationMeta.id
      * @param int $userId
      * @return bool
@@ -772,13 +2071,80 @@ class TherapyMessageService extends TherapyAlertService
                 WHERE tmr.id_users = ? AND lm.id_llmConversations = ? AND tmr.is_new = 1";
 
         $this->db->query_db($sql, array($userId, $conversation['id_llmConversations']));
+
+        if ((int)$conversation['id_users'] !== (int)$userId) {
+            $sql = "INSERT IGNORE INTO therapyMessageRecipients (id_llmMessages, id_users, is_new, seen_at)
+                    SELECT lm.id, ?, 0, NOW()
+                    FROM llmMessages lm
+                    WHERE lm.id_llmConversations = ? AND lm.is_validated = 1
+                    AND JSON_UNQUOTE(JSON_EXTRACT(lm.sent_context, '$.therapy_sender_type')) = ?";
+            $this->db->query_db($sql, array($userId, $conversation['id_llmConversations'], self::SENDER_SUBJECT));
+        }
         return true;
     }
 
+    /**
+     * Get the read receipts of several messages with one query.
+     *
+     * @param array $messageIds llmMessages.id values
+     * @return array message ID (int) => list of {id, name, seen_at}, earliest first
+     */
+    public function getReceiptsForMessages($messageIds)
+    {
+        $messageIds = array_values(array_filter(array_map('intval', $messageIds)));
+        if (empty($messageIds)) {
+            return array();
+        }
+
+        $placeholders = implode(',', array_fill(0, count($messageIds), '?'));
+        $sql = "SELECT tmr.id_llmMessages, tmr.id_users, tmr.seen_at, u.name
+                FROM therapyMessageRecipients tmr
+                INNER JOIN users u ON u.id = tmr.id_users
+                WHERE tmr.id_llmMessages IN ($placeholders) AND tmr.seen_at IS NOT NULL
+                ORDER BY tmr.seen_at ASC";
+        $rows = $this->db->query_db($sql, $messageIds);
+
+        $result = array();
+        foreach ($rows ?: array() as $row) {
+            $result[(int)$row['id_llmMessages']][] = array(
+                'id' => (int)$row['id_users'],
+                'name' => $row['name'],
+                'seen_at' => $row['seen_at']
+            );
+        }
+        return $result;
+    }
+
     /* =========================================================================
      * PRIVATE HELPERS
      * ========================================================================= */
 
+    /**
+     * Plain-text excerpt around the first occurrence of $query, with
+     * ellipses where the content was cut. Falls back to the start of the
+     * content when the term is not in the visible text.
+     *
+     * @param string $content
+     * @param string $query
+     * @param int $radius Characters kept on each side of the match
+     * @return string
+     */
+    private function buildSearchSnippet($content, $query, $radius = THERAPY_SEARCH_SNIPPET_RADIUS)
+    {
+        $plain = trim(preg_replace('/\s+/u', ' ', strip_tags((string)$content)));
+        $length = mb_strlen($plain);
+        $pos = mb_stripos($plain, $query);
+        if ($pos === false) {
+            $pos = 0;
+        }
+
+        $start = max(0, $pos - $radius);
+        $end = min($length, $pos + mb_strlen($query) + $radius);
+        $snippet = mb_substr($plain, $start, $end - $start);
+
+        return ($start > 0 ? '…' : '') . $snippet . ($end < $length ? '…' : '');
+    }
+
     /**
      * Map sender type to LLM message role.
      */
@@ -999,6 +2365,80 @@ class TherapyMessageService extends TherapyAlertService
             "- For crisis situations, set appropriate safety flags in the response schema";
     }
 
+    /* =========================================================================
+     * TYPING INDICATORS
+     * ========================================================================= */
+
+    /**
+     * Record a keystroke ping (or the end of typing) for a user.
+     * Pings expire after THERAPY_TYPING_TIMEOUT seconds, so a closed tab
+     * never leaves a stale indicator behind.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $userId
+     * @param bool $typing false removes the entry (input cleared / message sent)
+     * @return bool
+     */
+    public function setTyping($conversationId, $userId, $typing)
+    {
+        if ($typing) {
+            $sql = "INSERT INTO therapyTypingStatus (id_therapyConversationMeta, id_users, typing_at)
+                    VALUES (?, ?, NOW())
+                    ON DUPLICATE KEY UPDATE typing_at = NOW()";
+        } else {
+            $sql = "DELETE FROM therapyTypingStatus WHERE id_therapyConversationMeta = ? AND id_users = ?";
+        }
+        $this->db->query_db($sql, array($conversationId, $userId));
+        return true;
+    }
+
+    /**
+     * Get the users currently typing in a conversation, except $userId.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $userId The asking user (never reported as typing)
+     * @return array List of {id, name}
+     */
+    public function getTypingUsers($conversationId, $userId)
+    {
+        $sql = "SELECT u.id, u.name
+                FROM therapyTypingStatus tts
+                INNER JOIN users u ON u.id = tts.id_users
+                WHERE tts.id_therapyConversationMeta = ? AND tts.id_users != ?
+                AND tts.typing_at >= NOW() - INTERVAL ? SECOND
+                ORDER BY tts.typing_at";
+        $rows = $this->db->query_db($sql, array($conversationId, $userId, THERAPY_TYPING_TIMEOUT)) ?: array();
+
+        return array_map(function ($row) {
+            return array('id' => (int)$row['id'], 'name' => $row['name']);
+        }, $rows);
+    }
+
+    /**
+     * Get the conversations in which the patient is typing right now,
+     * across all conversations the therapist has access to.
+     * Used by real-time change detection for typing events.
+     *
+     * @param int $therapistId
+     * @return int[] therapyConversationMeta IDs, ascending
+     */
+    public function getTypingConversationsForTherapist($therapistId)
+    {
+        $sql = "SELECT DISTINCT tcm.id
+                FROM therapyTypingStatus tts
+                INNER JOIN therapyConversationMeta tcm ON tcm.id = tts.id_therapyConversationMeta
+                INNER JOIN llmConversations lc ON lc.id = tcm.id_llmConversations AND lc.id_users = tts.id_users
+                INNER JOIN users_groups ug ON ug.id_users = lc.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                WHERE tts.typing_at >= NOW() - INTERVAL :timeout SECOND
+                ORDER BY tcm.id";
+        $rows = $this->db->query_db($sql, array(':tid' => $therapistId, ':timeout' => THERAPY_TYPING_TIMEOUT)) ?: array();
+
+        return array_map(function ($row) {
+            return (int)$row['id'];
+        }, $rows);
+    }
+
     /* =========================================================================
      * LIGHTWEIGHT POLLING HELPERS
      * ========================================================================= */
@@ -1019,6 +2459,24 @@ class TherapyMessageService extends TherapyAlertService
         return $result ? (int)$result['latest_id'] : null;
     }
 
+    /**
+     * Get the ID of the patient's latest message in a therapy conversation.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @return int|null
+     */
+    public function getLatestPatientMessageId($conversationId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return null;
+
+        $sql = "SELECT MAX(id) as latest_id FROM llmMessages
+                WHERE id_llmConversations = ?
+                AND JSON_UNQUOTE(JSON_EXTRACT(sent_context, '$.therapy_sender_type')) = ?";
+        $result = $this->db->query_db_first($sql, array($conversation['id_llmConversations'], self::SENDER_SUBJECT));
+        return $result && $result['latest_id'] !== null ? (int)$result['latest_id'] : null;
+    }
+
     /**
      * Get the latest message ID across all conversations the therapist has access to.
      * Used for lightweight polling: frontend compares this to its last known ID.
@@ -1039,6 +2497,98 @@ class TherapyMessageService extends TherapyAlertService
         return $result ? (int)$result['latest_id'] : null;
     }
 
+    /**
+     * Get the time a message in the conversation was last read by someone
+     * other than $userId. Lets the sender's client refresh read receipts.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param int $userId
+     * @return string|null MySQL timestamp
+     */
+    public function getLatestSeenAtForConversation($conversationId, $userId)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) return null;
+
+        $sql = "SELECT MAX(tmr.seen_at) as seen_at
+                FROM therapyMessageRecipients tmr
+                INNER JOIN llmMessages lm ON lm.id = tmr.id_llmMessages
+                WHERE lm.id_llmConversations = ? AND tmr.id_users != ?";
+        $result = $this->db->query_db_first($sql, array($conversation['id_llmConversations'], $userId));
+        return $result ? $result['seen_at'] : null;
+    }
+
+    /**
+     * Get the time a patient of the therapist last read a message.
+     * Used by real-time change detection for read-receipt events.
+     *
+     * @param int $therapistId
+     * @return string|null MySQL timestamp
+     */
+    public function getLatestPatientSeenAtForTherapist($therapistId)
+    {
+        $sql = "SELECT MAX(tmr.seen_at) as seen_at
+                FROM therapyMessageRecipients tmr
+                INNER JOIN llmMessages lm ON lm.id = tmr.id_llmMessages
+                INNER JOIN llmConversations lc ON lc.id = lm.id_llmConversations AND lc.id_users = tmr.id_users
+                INNER JOIN therapyConversationMeta tcm ON tcm.id_llmConversations = lc.id
+                INNER JOIN users_groups ug ON ug.id_users = lc.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                WHERE 1";
+        $result = $this->db->query_db_first($sql, array(':tid' => $therapistId));
+        return $result ? $result['seen_at'] : null;
+    }
+
+    /**
+     * Get the most recent metadata change (risk, status, AI toggle, last seen)
+     * across all conversations the therapist has access to.
+     * Used by real-time change detection for conversation-update events.
+     *
+     * @param int $therapistId
+     * @return string|null MySQL timestamp
+     */
+    public function getLatestConversationUpdateForTherapist($therapistId)
+    {
+        $sql = "SELECT MAX(tcm.updated_at) as updated_at
+                FROM therapyConversationMeta tcm
+                INNER JOIN llmConversations lc ON lc.id = tcm.id_llmConversations
+                INNER JOIN users_groups ug ON ug.id_users = lc.id_users
+                INNER JOIN therapyTherapistAssignments tta ON tta.id_groups = ug.id_groups AND tta.id_users = :tid
+                WHERE 1";
+        $result = $this->db->query_db_first($sql, array(':tid' => $therapistId));
+        return $result ? $result['updated_at'] : null;
+    }
+
+    /**
+     * Get a cheap marker that changes whenever a checkUpdates() snapshot of
+     * the therapist could change: new messages, alerts and alert events,
+     * alert read state, conversation metadata (incl. last seen, touched by
+     * every read), typing, and the therapist's own unread messages.
+     *
+     * Every part is answered from a primary key, an index or a small table,
+     * without the access joins of the snapshot, so SSE streams can probe
+     * every few seconds and build the full snapshot only on a change.
+     * The marker is global: a change elsewhere costs one extra snapshot.
+     *
+     * @param int $therapistId
+     * @return string Opaque marker; compare for equality only
+     */
+    public function getChangeMarkerForTherapist($therapistId)
+    {
+        $sql = "SELECT
+                    (SELECT MAX(id) FROM llmMessages) AS latest_message_id,
+                    (SELECT MAX(id) FROM therapyAlerts) AS latest_alert_id,
+                    (SELECT MAX(id) FROM therapyAlertEvents) AS latest_alert_event_id,
+                    (SELECT COUNT(*) FROM therapyAlerts WHERE is_read = 0) AS unread_alerts,
+                    (SELECT MAX(updated_at) FROM therapyConversationMeta) AS conversations_updated_at,
+                    (SELECT COUNT(*) FROM therapyMessageRecipients WHERE id_users = :tid AND is_new = 1) AS unread_messages,
+                    (SELECT MAX(typing_at) FROM therapyTypingStatus) AS latest_typing_at,
+                    (SELECT COUNT(*) FROM therapyTypingStatus
+                     WHERE typing_at >= NOW() - INTERVAL :timeout SECOND) AS typing_count";
+        $result = $this->db->query_db_first($sql, array(':tid' => $therapistId, ':timeout' => THERAPY_TYPING_TIMEOUT));
+        return $result ? implode('|', $result) : '';
+    }
+
     /* =========================================================================
      * SPEECH-TO-TEXT (shared by both models)
      * ========================================================================= */
@@ -1144,9 +2694,10 @@ class TherapyMessageService extends TherapyAlertService
      * @param string $summaryContent The AI-generated summary
      * @param array $requestMessages The messages sent to the LLM
      * @param array $response The raw LLM response
-     * @return int|null The LLM conversation ID
+     * @param array $options Summary options (period, focus, format), kept with the summary
+     * @return array|null {conversation_id, message_id} of the logged summary
      */
-    public function createSummaryConversation($therapyConvId, $therapistId, $sectionId, $summaryContent, $requestMessages, $response)
+    public function createSummaryConversation($therapyConvId, $therapistId, $sectionId, $summaryContent, $requestMessages, $response, $options = array())
     {
         // Use the shared therapist tools conversation
         $llmConvId = $this->getOrCreateTherapistToolsConversation($therapistId, $sectionId, 'summary');
@@ -1166,7 +2717,7 @@ class TherapyMessageService extends TherapyAlertService
         );
 
         // Log the AI response (the generated summary)
-        $this->addMessage(
+        $messageId = $this->addMessage(
             $llmConvId,
             'assistant',
             $summaryContent,
@@ -1176,7 +2727,8 @@ class TherapyMessageService extends TherapyAlertService
             $response,
             array(
                 'therapy_sender_type' => self::SENDER_AI,
-                'summary_for_conversation' => $therapyConvId
+                'summary_for_conversation' => $therapyConvId,
+                'summary_options' => $options
             ),
             $response['reasoning'] ?? null,
             true,
@@ -1189,7 +2741,139 @@ class TherapyMessageService extends TherapyAlertService
             'Summary appended for therapy conversation #' . $therapyConvId
         );
 
-        return $llmConvId;
+        return array('conversation_id' => $llmConvId, 'message_id' => $messageId ?: null);
+    }
+
+    /**
+     * Summaries generated for a therapy conversation by any therapist,
+     * newest first, including the ones that were never saved as a note.
+     *
+     * @param int $therapyConvId
+     * @param int $limit
+     * @return array [{id, content, timestamp, tokens_used, summary_conversation_id, therapist_id, therapist_name, options, saved_note_id, note_template, sections}]
+     */
+    public function getSummaryHistory($therapyConvId, $limit = THERAPY_SUMMARY_HISTORY_LIMIT)
+    {
+        $sql = "SELECT lm.id, lm.content, lm.timestamp, lm.tokens_used, lm.sent_context,
+                       lm.id_llmConversations AS summary_conversation_id,
+                       lc.id_users AS therapist_id, u.name AS therapist_name
+                FROM llmMessages lm
+                INNER JOIN llmConversations lc ON lc.id = lm.id_llmConversations
+                LEFT JOIN users u ON u.id = lc.id_users
+                WHERE lm.role = 'assistant'
+                  AND JSON_UNQUOTE(JSON_EXTRACT(lm.sent_context, '$.summary_for_conversation')) = :cid
+                ORDER BY lm.id DESC
+                LIMIT " . (int)$limit;
+        $rows = $this->db->query_db($sql, array(':cid' => (string)(int)$therapyConvId));
+        if (!$rows) {
+            return array();
+        }
+
+        foreach ($rows as &$row) {
+            $sentContext = $row['sent_context'] ? json_decode($row['sent_context'], true) : array();
+            $options = $sentContext['summary_options'] ?? array();
+            $structure = !empty($options['note_template'])
+                ? $this->parseNoteStructure($options['note_template'], $row['content'])
+                : null;
+
+            $row['id'] = (int)$row['id'];
+            $row['summary_conversation_id'] = (int)$row['summary_conversation_id'];
+            $row['therapist_id'] = (int)$row['therapist_id'];
+            $row['tokens_used'] = $row['tokens_used'] !== null ? (int)$row['tokens_used'] : null;
+            $row['options'] = (object)$options;
+            $row['saved_note_id'] = $sentContext['saved_note_id'] ?? null;
+            $row['note_template'] = $structure ? $structure['template'] : null;
+            $row['sections'] = $structure ? $structure['sections'] : null;
+            unset($row['sent_context']);
+        }
+        unset($row);
+        return $rows;
+    }
+
+    /**
+     * Record that a summary was saved as a clinical note.
+     *
+     * @param int $summaryMessageId llmMessages.id of the summary
+     * @param int $therapyConvId The summarized therapy conversation
+     * @param int $noteId therapyNotes.id
+     * @return bool False if the message is not a summary of that conversation
+     */
+    public function markSummarySaved($summaryMessageId, $therapyConvId, $noteId)
+    {
+        $msg = $this->db->query_db_first(
+            "SELECT sent_context FROM llmMessages WHERE id = :id AND role = 'assistant'",
+            array(':id' => $summaryMessageId)
+        );
+        $sentContext = ($msg && $msg['sent_context']) ? json_decode($msg['sent_context'], true) : null;
+        if (!$sentContext || (int)($sentContext['summary_for_conversation'] ?? 0) !== (int)$therapyConvId) {
+            return false;
+        }
+
+        $sentContext['saved_note_id'] = (int)$noteId;
+        $this->db->query_db(
+            "UPDATE llmMessages SET sent_context = ? WHERE id = ?",
+            array(json_encode($sentContext), $summaryMessageId)
+        );
+        return true;
+    }
+
+    /**
+     * Time of the latest summary generated for a therapy conversation
+     * (by any therapist).
+     *
+     * @param int $therapyConvId
+     * @return string|null Timestamp or null if it was never summarized
+     */
+    public function getLastSummaryTime($therapyConvId)
+    {
+        $row = $this->db->query_db_first(
+            "SELECT MAX(lm.timestamp) AS last_summary
+             FROM llmMessages lm
+             WHERE lm.role = 'assistant'
+               AND JSON_UNQUOTE(JSON_EXTRACT(lm.sent_context, '$.summary_for_conversation')) = :cid",
+            array(':cid' => (string)(int)$therapyConvId)
+        );
+        return $row['last_summary'] ?? null;
+    }
+
+    /**
+     * Messages of a therapy conversation within a time period, for
+     * summarization. Returns the newest $limit messages of the period,
+     * oldest first; deleted messages are skipped.
+     *
+     * @param int $conversationId therapyConversationMeta.id
+     * @param string|null $from Inclusive start (Y-m-d H:i:s), null = from the beginning
+     * @param string|null $to Inclusive end (Y-m-d H:i:s), null = until now
+     * @param int $limit
+     * @return array Rows with id, role, content, timestamp, sender_type
+     */
+    public function getMessagesForSummary($conversationId, $from = null, $to = null, $limit = THERAPY_SUMMARY_MESSAGE_LIMIT)
+    {
+        $conversation = $this->getTherapyConversation($conversationId);
+        if (!$conversation) {
+            return array();
+        }
+
+        $sql = "SELECT lm.id, lm.role, lm.content, lm.timestamp,
+                       JSON_UNQUOTE(JSON_EXTRACT(lm.sent_context, '$.therapy_sender_type')) as sender_type
+                FROM llmMessages lm
+                WHERE lm.id_llmConversations = :cid
+                AND lm.is_validated = 1
+                AND lm.deleted = 0";
+        $params = array(':cid' => $conversation['id_llmConversations']);
+
+        if ($from) {
+            $sql .= " AND lm.timestamp >= :date_from";
+            $params[':date_from'] = $from;
+        }
+        if ($to) {
+            $sql .= " AND lm.timestamp <= :date_to";
+            $params[':date_to'] = $to;
+        }
+        $sql .= " ORDER BY lm.id DESC LIMIT " . (int)$limit;
+
+        $rows = $this->db->query_db($sql, $params);
+        return $rows ? array_reverse($rows) : array();
     }
 }
 ?>
@@ -141,6 +141,29 @@ class TherapyNotificationService
         }
     }
 
+    /**
+     * Deliver a due scheduled message and notify the patient like for a
+     * message the therapist sends right away. The only delivery path for
+     * scheduled messages (see TherapyChatCron).
+     *
+     * @param array $scheduled Row from TherapyMessageService::getDueScheduledMessages()
+     * @return bool Whether this call delivered the message
+     */
+    public function deliverScheduledMessage($scheduled)
+    {
+        $result = $this->messageService->sendScheduledMessage($scheduled);
+        if (!isset($result['success']) || !empty($result['duplicate'])) {
+            return false;
+        }
+
+        $this->notifyPatientForTherapistMessage(
+            $scheduled['conversation_id'],
+            $scheduled['id_users'],
+            $scheduled['content']
+        );
+        return true;
+    }
+
     /**
      * Notify patient when therapist sends a message.
      */